@@ -0,0 +1,121 @@
+// src/core/angular_test.zig
+// Angular dynamics: torque and off-center forces spin DYNAMIC bodies through their
+// shape-derived inertia, spin integrates into the Euler rotation, boxes tip over an
+// edge they overhang, and spheres pick up rolling spin from what they roll on.
+
+const std = @import("std");
+const testing = std.testing;
+const engine = @import("game_engine.zig");
+const bodies = @import("test_bodies.zig");
+
+const DT: f32 = 1.0 / 60.0;
+
+fn addBox(id: u32, x: f32, y: f32, body_type: u8, gravity_scale: f32, half: [3]f32) void {
+    bodies.add(id, .{ .x = x, .y = y, .mesh = 1, .body_type = body_type, .gravity_scale = gravity_scale, .radius = half[0] });
+    engine.set_entity_collision_shape(id, 1, half[0], half[1], half[2]);
+}
+
+fn addSphere(id: u32, x: f32, y: f32, gravity_scale: f32) void {
+    bodies.add(id, .{ .x = x, .y = y, .mesh = 2, .gravity_scale = gravity_scale });
+    engine.set_entity_collision_shape(id, 0, 0.5, 0.5, 0.5);
+}
+
+fn angularVelocity(id: u32) [3]f32 {
+    return .{ engine.get_entity_angular_velocity_x(id), engine.get_entity_angular_velocity_y(id), engine.get_entity_angular_velocity_z(id) };
+}
+
+test "torque spins a body through its shape's inertia" {
+    engine.init();
+    addBox(0, -3, 0, 0, 0, .{ 0.5, 0.5, 0.5 }); // I = m/3·(b²+c²) = 1/6
+    addSphere(1, 3, 0, 0); // I = 2/5·m·r² = 1/10
+
+    engine.apply_torque(0, 0, 1, 0);
+    engine.apply_torque(1, 0, 1, 0);
+    engine.update(DT);
+
+    try testing.expectApproxEqAbs(@as(f32, 6.0 * DT * 0.99), engine.get_entity_angular_velocity_y(0), 0.0001);
+    try testing.expectApproxEqAbs(@as(f32, 10.0 * DT * 0.99), engine.get_entity_angular_velocity_y(1), 0.0001);
+
+    // The torque was used up by that step: only damping acts on the next one
+    const spin = engine.get_entity_angular_velocity_y(0);
+    engine.update(DT);
+    try testing.expectApproxEqAbs(spin * 0.99, engine.get_entity_angular_velocity_y(0), 0.0001);
+}
+
+test "spin integrates into the rotation" {
+    engine.init();
+    addBox(0, 0, 0, 0, 0, .{ 0.5, 0.5, 0.5 });
+    engine.set_entity_angular_velocity(0, 0, 0, 1.0);
+
+    var expected: f32 = 0;
+    var spin: f32 = 1.0;
+    for (0..30) |_| {
+        spin *= 0.99; // Damping comes before integration
+        expected += spin * DT;
+        engine.update(DT);
+    }
+
+    try testing.expectApproxEqAbs(expected, engine.get_entity_rotation_z(0), 0.001);
+    try testing.expectApproxEqAbs(@as(f32, 0), engine.get_entity_rotation_x(0), 0.0001);
+    try testing.expectApproxEqAbs(@as(f32, 0), engine.get_entity_rotation_y(0), 0.0001);
+}
+
+test "a force at the center only pushes; off-center it also turns" {
+    engine.init();
+    addBox(0, -3, 0, 0, 0, .{ 0.5, 0.5, 0.5 });
+    addBox(1, 3, 0, 0, 0, .{ 0.5, 0.5, 0.5 });
+
+    engine.apply_force_at_point(0, 0, 0, 6, -3, 0, 0);
+    engine.apply_force_at_point(1, 0, 0, 6, 3.5, 0, 0); // Pushing +z on the +x face
+    engine.update(DT);
+
+    try testing.expectEqual([3]f32{ 0, 0, 0 }, angularVelocity(0));
+    try testing.expectApproxEqAbs(engine.get_entity_velocity_z(0), engine.get_entity_velocity_z(1), 0.0001);
+    try testing.expect(engine.get_entity_velocity_z(1) > 0);
+    try testing.expect(engine.get_entity_angular_velocity_y(1) < 0); // (0.5,0,0) × (0,0,6) = (0,-3,0)
+}
+
+test "immovable bodies ignore torque and forces" {
+    engine.init();
+    addBox(0, 0, 0, 2, 0, .{ 0.5, 0.5, 0.5 });
+    addBox(1, 3, 0, 1, 0, .{ 0.5, 0.5, 0.5 });
+
+    for ([_]u32{ 0, 1 }) |id| {
+        engine.apply_torque(id, 5, 5, 5);
+        engine.apply_force_at_point(id, 5, 0, 0, 0, 5, 0);
+    }
+    engine.update(DT);
+
+    for ([_]u32{ 0, 1 }) |id| {
+        try testing.expectEqual([3]f32{ 0, 0, 0 }, angularVelocity(id));
+        try testing.expectEqual(@as(f32, 0), engine.get_entity_rotation_z(id));
+    }
+}
+
+test "a box overhanging a ledge tips over the edge; a supported one does not" {
+    engine.init();
+    addBox(0, -4, -1, 2, 0, .{ 4, 1, 2 }); // Ledge: top at y = 0, edge at x = 0
+    addBox(1, 0.3, 0.5, 0, 1, .{ 0.5, 0.5, 0.5 }); // Center 0.3 past the edge
+    addBox(2, -2, 0.5, 0, 1, .{ 0.5, 0.5, 0.5 }); // Fully on the ledge
+
+    for (0..10) |_| engine.update(DT);
+
+    try testing.expect(engine.get_entity_angular_velocity_z(1) < 0); // Clockwise, toward the drop
+    try testing.expect(engine.get_entity_rotation_z(1) < 0);
+    try testing.expectEqual([3]f32{ 0, 0, 0 }, angularVelocity(2));
+}
+
+test "a sphere rolling along a floor spins to match" {
+    engine.init();
+    addBox(0, 0, -1, 2, 0, .{ 8, 1, 4 }); // Floor: top at y = 0
+    addSphere(1, -4, 0.5, 1);
+    engine.set_entity_velocity(1, 2, 0, 0);
+
+    for (0..60) |_| engine.update(DT);
+
+    // Rolling in +x about the contact below: ω = n × v / r points along -z
+    const vx = engine.get_entity_velocity_x(1);
+    try testing.expect(engine.get_entity_angular_velocity_z(1) < 0);
+    try testing.expectApproxEqRel(-vx / 0.5, engine.get_entity_angular_velocity_z(1), 0.25);
+    try testing.expect(engine.get_entity_rotation_z(1) < 0);
+}
@@ -0,0 +1,101 @@
+// src/core/broadphase_test.zig
+// Broadphase: sweep-and-prune over collider AABBs culls the pairs handed to the
+// narrowphase without changing the simulation (the surviving pairs are solved in the
+// same order as the full O(n²) scan), and reports pairs tested vs. pairs overlapping.
+
+const std = @import("std");
+const testing = std.testing;
+const engine = @import("game_engine.zig");
+const bodies = @import("test_bodies.zig");
+
+fn addBox(id: u32, x: f32, y: f32, z: f32, body_type: u8, half: [3]f32) void {
+    bodies.add(id, .{ .x = x, .y = y, .z = z, .mesh = 1, .body_type = body_type, .radius = half[0] });
+    engine.set_entity_collision_shape(id, 1, half[0], half[1], half[2]);
+}
+
+// A floor plus a loose pile of dynamic crates dropped onto it (deterministic layout)
+fn buildPile(crates: u32) void {
+    engine.init();
+    addBox(0, 0, -1, 0, 2, .{ 10, 1, 10 });
+
+    var seed: u32 = 12345;
+    for (1..crates + 1) |id| {
+        seed = seed *% 1103515245 +% 12345;
+        const x = @as(f32, @floatFromInt((seed >> 16) % 100)) / 10.0 - 5.0;
+        seed = seed *% 1103515245 +% 12345;
+        const z = @as(f32, @floatFromInt((seed >> 16) % 100)) / 10.0 - 5.0;
+        const y = 0.5 + @as(f32, @floatFromInt(id % 5)) * 1.2;
+        addBox(@intCast(id), x, y, z, 0, .{ 0.4, 0.4, 0.4 });
+    }
+}
+
+fn simulatePile(crates: u32, steps: u32, broadphase: bool, out: []f32) void {
+    buildPile(crates);
+    engine.set_broadphase_enabled(broadphase);
+    for (0..steps) |_| engine.update(1.0 / 60.0);
+
+    for (1..crates + 1) |id| {
+        const k = (id - 1) * 3;
+        out[k] = engine.get_entity_position_x(@intCast(id));
+        out[k + 1] = engine.get_entity_position_y(@intCast(id));
+        out[k + 2] = engine.get_entity_position_z(@intCast(id));
+    }
+}
+
+test "broadphase on and off simulate identically" {
+    const crates = 40;
+    var with_broadphase: [crates * 3]f32 = undefined;
+    var full_scan: [crates * 3]f32 = undefined;
+
+    simulatePile(crates, 90, true, &with_broadphase);
+    simulatePile(crates, 90, false, &full_scan);
+    engine.set_broadphase_enabled(true);
+
+    try testing.expectEqualSlices(f32, &full_scan, &with_broadphase);
+}
+
+test "far-apart bodies never reach the narrowphase" {
+    engine.init();
+    for (0..10) |k| {
+        const x = @as(f32, @floatFromInt(k)) * 1.5 - 7.0; // 0.5 gaps, inside the ±8 world bounds
+        addBox(@intCast(k), x, 0, 0, 0, .{ 0.5, 0.5, 0.5 });
+        engine.set_entity_gravity_scale(@intCast(k), 0);
+    }
+
+    engine.set_broadphase_enabled(false);
+    engine.update(1.0 / 60.0);
+    try testing.expectEqual(@as(u32, 45), engine.get_pairs_tested()); // 10 choose 2
+    try testing.expectEqual(@as(u32, 0), engine.get_pairs_overlapping());
+
+    engine.set_broadphase_enabled(true);
+    engine.update(1.0 / 60.0);
+    try testing.expectEqual(@as(u32, 0), engine.get_pairs_tested());
+}
+
+test "only pairs in contact are tested when the rest are culled" {
+    engine.init();
+    addBox(0, 0, -1, 0, 2, .{ 10, 1, 10 }); // floor
+    addBox(1, 0, 0.4, 0, 0, .{ 0.4, 0.4, 0.4 }); // resting on it
+    addBox(2, 6, 5, 0, 0, .{ 0.4, 0.4, 0.4 }); // far above
+
+    engine.update(1.0 / 60.0);
+    try testing.expect(engine.get_pairs_overlapping() > 0);
+    try testing.expectEqual(engine.get_pairs_overlapping(), engine.get_pairs_tested());
+
+    engine.set_broadphase_enabled(false);
+    engine.update(1.0 / 60.0);
+    engine.set_broadphase_enabled(true);
+    try testing.expect(engine.get_pairs_tested() > engine.get_pairs_overlapping());
+}
+
+test "planes are unbounded and pair with every collider" {
+    engine.init();
+    bodies.add(0, .{ .y = -5, .mesh = 1, .body_type = bodies.STATIC, .gravity_scale = 0.0, .radius = 1 });
+    engine.set_entity_collision_shape(0, 2, 0, 1, 0); // ground plane, normal +y
+    addBox(1, -6, 2, 6, 0, .{ 0.5, 0.5, 0.5 });
+    addBox(2, 6, 2, -6, 0, .{ 0.5, 0.5, 0.5 });
+
+    engine.update(1.0 / 60.0);
+
+    try testing.expectEqual(@as(u32, 2), engine.get_pairs_tested());
+}
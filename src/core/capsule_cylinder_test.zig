@@ -0,0 +1,136 @@
+// src/core/capsule_cylinder_test.zig
+// Capsule and cylinder colliders: contacts against every other solid shape (normal in
+// the Object1 POV convention, the same contact mirrored when the pair is swapped), ray
+// and sphere casts, and bodies standing upright on a floor or stacked on each other.
+
+const std = @import("std");
+const testing = std.testing;
+const core = @import("game_core.zig");
+const engine = @import("game_engine.zig");
+const bodies = @import("test_bodies.zig");
+
+const DT: f32 = 1.0 / 60.0;
+
+fn v(x: f32, y: f32, z: f32) core.Vec3 {
+    return .{ .x = x, .y = y, .z = z };
+}
+
+// A capsule and a cylinder of radius 0.5 and half-height 1 (the capsule's core segment spans ±0.5)
+const TALL = v(0.5, 1, 0.5);
+const BALL = v(0.5, 0.5, 0.5);
+const FLOOR = v(3, 1, 3); // At y = -1: top at 0
+
+const Expected = struct { normal: core.Vec3, depth: f32 };
+
+const Case = struct {
+    name: []const u8,
+    shape1: core.CollisionShape,
+    pos1: core.Vec3,
+    extents1: core.Vec3,
+    shape2: core.CollisionShape,
+    pos2: core.Vec3,
+    extents2: core.Vec3,
+    expected: ?Expected, // null: no contact
+};
+
+const CASES = [_]Case{
+    .{ .name = "capsule side vs sphere", .shape1 = .CAPSULE, .pos1 = v(0, 0, 0), .extents1 = TALL, .shape2 = .SPHERE, .pos2 = v(0.8, 0.3, 0), .extents2 = BALL, .expected = .{ .normal = v(-1, 0, 0), .depth = 0.2 } },
+    .{ .name = "capsule cap vs sphere", .shape1 = .CAPSULE, .pos1 = v(0, 0, 0), .extents1 = TALL, .shape2 = .SPHERE, .pos2 = v(0, 1.3, 0), .extents2 = BALL, .expected = .{ .normal = v(0, -1, 0), .depth = 0.2 } },
+    .{ .name = "capsule on a box floor", .shape1 = .CAPSULE, .pos1 = v(0, 0.9, 0), .extents1 = TALL, .shape2 = .BOX, .pos2 = v(0, -1, 0), .extents2 = FLOOR, .expected = .{ .normal = v(0, 1, 0), .depth = 0.1 } },
+    .{ .name = "capsule clear of a box", .shape1 = .CAPSULE, .pos1 = v(0, 0, 0), .extents1 = TALL, .shape2 = .BOX, .pos2 = v(1.2, 0, 0), .extents2 = BALL, .expected = null },
+    .{ .name = "capsules side by side", .shape1 = .CAPSULE, .pos1 = v(0, 0, 0), .extents1 = TALL, .shape2 = .CAPSULE, .pos2 = v(0.8, 0.2, 0), .extents2 = TALL, .expected = .{ .normal = v(-1, 0, 0), .depth = 0.2 } },
+    .{ .name = "capsules stacked", .shape1 = .CAPSULE, .pos1 = v(0, 0, 0), .extents1 = TALL, .shape2 = .CAPSULE, .pos2 = v(0, 1.9, 0), .extents2 = TALL, .expected = .{ .normal = v(0, -1, 0), .depth = 0.1 } },
+    .{ .name = "capsule vs cylinder", .shape1 = .CAPSULE, .pos1 = v(0, 0, 0), .extents1 = TALL, .shape2 = .CYLINDER, .pos2 = v(0.9, 0, 0), .extents2 = TALL, .expected = .{ .normal = v(-1, 0, 0), .depth = 0.1 } },
+    .{ .name = "cylinder on a box floor", .shape1 = .CYLINDER, .pos1 = v(0, 0.9, 0), .extents1 = TALL, .shape2 = .BOX, .pos2 = v(0, -1, 0), .extents2 = FLOOR, .expected = .{ .normal = v(0, 1, 0), .depth = 0.1 } },
+    .{ .name = "cylinder side vs box", .shape1 = .CYLINDER, .pos1 = v(0, 0, 0), .extents1 = TALL, .shape2 = .BOX, .pos2 = v(0.9, 0, 0), .extents2 = BALL, .expected = .{ .normal = v(-1, 0, 0), .depth = 0.1 } },
+    .{ .name = "cylinder misses a box corner its AABB overlaps", .shape1 = .CYLINDER, .pos1 = v(0, 0, 0), .extents1 = TALL, .shape2 = .BOX, .pos2 = v(0.8, 0, 0.8), .extents2 = v(0.4, 0.4, 0.4), .expected = null },
+    .{ .name = "cylinders stacked", .shape1 = .CYLINDER, .pos1 = v(0, 0, 0), .extents1 = TALL, .shape2 = .CYLINDER, .pos2 = v(0.3, 1.9, 0), .extents2 = TALL, .expected = .{ .normal = v(0, -1, 0), .depth = 0.1 } },
+    .{ .name = "cylinders side by side", .shape1 = .CYLINDER, .pos1 = v(0, 0, 0), .extents1 = TALL, .shape2 = .CYLINDER, .pos2 = v(0, 0, 0.9), .extents2 = TALL, .expected = .{ .normal = v(0, 0, -1), .depth = 0.1 } },
+    .{ .name = "sphere on a cylinder", .shape1 = .SPHERE, .pos1 = v(0, 1.3, 0), .extents1 = BALL, .shape2 = .CYLINDER, .pos2 = v(0, 0, 0), .extents2 = TALL, .expected = .{ .normal = v(0, 1, 0), .depth = 0.2 } },
+    .{ .name = "sphere center inside a cylinder", .shape1 = .SPHERE, .pos1 = v(0.4, 0, 0), .extents1 = v(0.2, 0.2, 0.2), .shape2 = .CYLINDER, .pos2 = v(0, 0, 0), .extents2 = TALL, .expected = .{ .normal = v(1, 0, 0), .depth = 0.3 } },
+};
+
+fn expectVec(expected: core.Vec3, actual: core.Vec3) !void {
+    try testing.expectApproxEqAbs(expected.x, actual.x, 1e-4);
+    try testing.expectApproxEqAbs(expected.y, actual.y, 1e-4);
+    try testing.expectApproxEqAbs(expected.z, actual.z, 1e-4);
+}
+
+test "capsules and cylinders collide with every solid shape, in both orders" {
+    for (CASES) |case| {
+        errdefer std.debug.print("case: {s}\n", .{case.name});
+        const info = core.checkCollision(case.pos1, case.shape1, case.extents1, case.pos2, case.shape2, case.extents2);
+        const swapped = core.checkCollision(case.pos2, case.shape2, case.extents2, case.pos1, case.shape1, case.extents1);
+
+        const expected = case.expected orelse {
+            try testing.expect(info == null);
+            try testing.expect(swapped == null);
+            continue;
+        };
+        try expectVec(expected.normal, info.?.contact_normal);
+        try testing.expectApproxEqAbs(expected.depth, info.?.penetration_depth, 1e-4);
+        try expectVec(core.vec3_negate(expected.normal), swapped.?.contact_normal);
+        try testing.expectApproxEqAbs(expected.depth, swapped.?.penetration_depth, 1e-4);
+    }
+}
+
+test "rays and sphere casts hit capsules and cylinders on their sides and ends" {
+    const down = v(0, -1, 0);
+    const right = v(1, 0, 0);
+    const origin = v(0, 0, 0);
+
+    const capsule_top = core.raycastShape(v(0, 5, 0), down, 10, origin, .CAPSULE, TALL).?;
+    try testing.expectApproxEqAbs(@as(f32, 4), capsule_top.distance, 1e-4);
+    try expectVec(v(0, 1, 0), capsule_top.normal);
+
+    // Through the rounded cap, where it has narrowed to 0.3
+    const capsule_cap = core.raycastShape(v(-5, 0.9, 0), right, 10, origin, .CAPSULE, TALL).?;
+    try testing.expectApproxEqAbs(@as(f32, 4.7), capsule_cap.distance, 1e-4);
+
+    const cylinder_side = core.raycastShape(v(-5, 0.9, 0), right, 10, origin, .CYLINDER, TALL).?;
+    try testing.expectApproxEqAbs(@as(f32, 4.5), cylinder_side.distance, 1e-4);
+    try expectVec(v(-1, 0, 0), cylinder_side.normal);
+
+    const cylinder_top = core.raycastShape(v(0.4, 5, 0), down, 10, origin, .CYLINDER, TALL).?;
+    try testing.expectApproxEqAbs(@as(f32, 4), cylinder_top.distance, 1e-4);
+    try expectVec(v(0, 1, 0), cylinder_top.normal);
+    try testing.expect(core.raycastShape(v(0.6, 5, 0), down, 10, origin, .CYLINDER, TALL) == null);
+
+    const cast_capsule = core.sphereCastShape(v(0, 5, 0), down, 10, 0.25, origin, .CAPSULE, TALL).?;
+    try testing.expectApproxEqAbs(@as(f32, 3.75), cast_capsule.distance, 1e-4);
+    try expectVec(v(0, 1, 0), cast_capsule.point);
+
+    const cast_cylinder = core.sphereCastShape(v(-5, 0, 0), right, 10, 0.25, origin, .CYLINDER, TALL).?;
+    try testing.expectApproxEqAbs(@as(f32, 4.25), cast_cylinder.distance, 1e-3);
+    try expectVec(v(-1, 0, 0), cast_cylinder.normal);
+}
+
+fn addBody(id: u32, x: f32, y: f32, body_type: u8, shape: u8, extents: core.Vec3) void {
+    bodies.add(id, .{ .x = x, .y = y, .body_type = body_type, .radius = extents.x });
+    engine.set_entity_collision_shape(id, shape, extents.x, extents.y, extents.z);
+}
+
+test "a capsule stands upright on the floor at its full height" {
+    engine.init();
+    addBody(0, 0, -1, 2, 1, FLOOR);
+    addBody(1, 0, 3, 0, 3, TALL);
+    engine.set_entity_velocity(1, 0.5, 0, 0);
+
+    for (0..240) |_| engine.update(DT);
+
+    try testing.expectApproxEqAbs(@as(f32, 1), engine.get_entity_position_y(1), 0.05);
+    try testing.expectEqual(@as(f32, 0), engine.get_entity_rotation_z(1));
+}
+
+test "a ball comes to rest on the flat top of a cylinder" {
+    engine.init();
+    addBody(0, 0, -1, 2, 1, FLOOR);
+    addBody(1, 0, 1, 0, 4, TALL);
+    addBody(2, 0, 4, 0, 0, BALL);
+
+    for (0..240) |_| engine.update(DT);
+
+    try testing.expectApproxEqAbs(@as(f32, 1), engine.get_entity_position_y(1), 0.05);
+    try testing.expectApproxEqAbs(@as(f32, 2.5), engine.get_entity_position_y(2), 0.05);
+    try testing.expectApproxEqAbs(@as(f32, 0), engine.get_entity_position_x(2), 0.05);
+}
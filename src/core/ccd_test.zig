@@ -0,0 +1,128 @@
+// src/core/ccd_test.zig
+// Continuous collision detection: fast bodies flagged continuous stop at (and bounce off)
+// thin colliders that discrete steps let them tunnel through, for spheres and boxes alike,
+// while filtering, triggers and the runtime toggle behave as for discrete contacts.
+
+const std = @import("std");
+const testing = std.testing;
+const core = @import("game_core.zig");
+const engine = @import("game_engine.zig");
+const bodies = @import("test_bodies.zig");
+
+const DT: f32 = 1.0 / 60.0;
+
+fn addStaticBox(id: u32, x: f32, y: f32, half: core.Vec3) void {
+    bodies.add(id, .{ .x = x, .y = y, .mesh = 1, .body_type = bodies.STATIC, .gravity_scale = 0.0, .radius = 1 });
+    engine.set_entity_collision_shape(id, 1, half.x, half.y, half.z);
+}
+
+// The 0.25 half-height platform of the lifecycle scene, top at y = 0.25
+fn addPlatform(id: u32) void {
+    addStaticBox(id, 0, 0, .{ .x = 3, .y = 0.25, .z = 3 });
+}
+
+fn addBullet(id: u32, y: f32, flags: u32) void {
+    bodies.add(id, .{ .y = y, .mesh = 2, .mass = 0.1, .radius = 0.1, .flags = flags });
+    engine.set_entity_collision_shape(id, 0, 0.1, 0.1, 0.1);
+    engine.set_entity_velocity(id, 0, -200, 0); // 3.3 m per step
+}
+
+test "a fast sphere tunnels through a thin platform without continuous collision" {
+    engine.init();
+    addPlatform(0);
+    addBullet(1, 2, 0);
+
+    engine.update(DT);
+
+    try testing.expect(engine.get_entity_position_y(1) < -0.25);
+}
+
+test "a continuous sphere stops on the platform and bounces" {
+    engine.init();
+    addPlatform(0);
+    addBullet(1, 2, engine.ENTITY_FLAG_CONTINUOUS);
+
+    engine.update(DT);
+
+    try testing.expectApproxEqAbs(@as(f32, 0.35), engine.get_entity_position_y(1), 0.01);
+    try testing.expect(engine.get_entity_velocity_y(1) > 0);
+    try testing.expectEqual(@as(u32, 1), engine.get_contact_count());
+
+    // And it never ends up below the platform
+    for (0..120) |_| {
+        engine.update(DT);
+        try testing.expect(engine.get_entity_position_y(1) > 0.3);
+    }
+}
+
+test "a continuous box stops at a thin wall" {
+    engine.init();
+    addStaticBox(0, 0, 0, .{ .x = 0.05, .y = 2, .z = 2 });
+    bodies.add(1, .{ .x = -2, .mesh = 1, .gravity_scale = 0.0, .radius = 0.2, .flags = engine.ENTITY_FLAG_CONTINUOUS });
+    engine.set_entity_collision_shape(1, 1, 0.2, 0.2, 0.2);
+    engine.set_entity_velocity(1, 300, 0, 0);
+
+    engine.update(DT);
+
+    try testing.expectApproxEqAbs(@as(f32, -0.25), engine.get_entity_position_x(1), 0.01);
+    try testing.expect(engine.get_entity_velocity_x(1) < 0);
+}
+
+test "a continuous bullet hands its momentum to the body it hits" {
+    engine.init();
+    bodies.add(0, .{ .mesh = 2, .gravity_scale = 0.0, .radius = 0.25, .restitution = 0.0 });
+    engine.set_entity_collision_shape(0, 0, 0.25, 0.25, 0.25);
+    addBullet(1, 2, engine.ENTITY_FLAG_CONTINUOUS);
+    engine.set_entity_gravity_scale(1, 0);
+
+    engine.update(DT);
+
+    try testing.expect(engine.get_entity_velocity_y(0) < -10);
+    try testing.expect(engine.get_entity_position_y(1) > 0.3);
+}
+
+test "continuous bodies respect layers and triggers, and the flag can be toggled" {
+    engine.init();
+    addPlatform(0);
+    addBullet(1, 2, engine.ENTITY_FLAG_CONTINUOUS);
+    engine.set_entity_collision_filter(1, 1 << 1, ~@as(u32, 1)); // Ignores the default layer
+    engine.update(DT);
+    try testing.expect(engine.get_entity_position_y(1) < -0.25);
+
+    engine.init();
+    addPlatform(0);
+    engine.set_entity_trigger(0, true);
+    addBullet(1, 2, engine.ENTITY_FLAG_CONTINUOUS);
+    engine.update(DT);
+    try testing.expect(engine.get_entity_position_y(1) < -0.25);
+
+    engine.init();
+    addPlatform(0);
+    addBullet(1, 2, 0);
+    engine.set_entity_continuous_collision(1, true);
+    engine.update(DT);
+    try testing.expect(engine.get_entity_position_y(1) > 0.3);
+}
+
+test "sweepShape finds the time of impact of a box against each shape" {
+    const origin = core.Vec3{ .x = 0, .y = 2, .z = 0 };
+    const down = core.Vec3{ .x = 0, .y = -1, .z = 0 };
+    const half = core.Vec3{ .x = 0.5, .y = 0.5, .z = 0.5 };
+    const at_origin = core.Vec3{ .x = 0, .y = 0, .z = 0 };
+
+    const box = core.sweepShape(.BOX, half, origin, down, 10, at_origin, .BOX, .{ .x = 1, .y = 0.25, .z = 1 }).?;
+    try testing.expectApproxEqAbs(@as(f32, 1.25), box.distance, 1e-4);
+    try testing.expectApproxEqAbs(@as(f32, 0.25), box.point.y, 1e-4);
+    try testing.expectApproxEqAbs(@as(f32, 1), box.normal.y, 1e-4);
+
+    const sphere = core.sweepShape(.BOX, half, origin, down, 10, at_origin, .SPHERE, .{ .x = 0.5, .y = 0.5, .z = 0.5 }).?;
+    try testing.expectApproxEqAbs(@as(f32, 1), sphere.distance, 1e-3);
+    try testing.expectApproxEqAbs(@as(f32, 0.5), sphere.point.y, 1e-3);
+    try testing.expectApproxEqAbs(@as(f32, 1), sphere.normal.y, 1e-3);
+
+    const plane = core.sweepShape(.BOX, half, origin, down, 10, at_origin, .PLANE, .{ .x = 0, .y = 1, .z = 0 }).?;
+    try testing.expectApproxEqAbs(@as(f32, 1.5), plane.distance, 1e-4);
+    try testing.expectApproxEqAbs(@as(f32, 0), plane.point.y, 1e-4);
+
+    try testing.expect(core.sweepShape(.BOX, half, origin, down, 0.9, at_origin, .BOX, half) == null); // Stops short
+}
@@ -0,0 +1,154 @@
+// src/core/character_controller_test.zig
+// Character controller: a kinematic capsule moved with move_character walking on a floor,
+// sliding along a wall, climbing steps up to its step offset, walking up gentle ramps but not
+// steep ones, bumping its head, and standing on (but not being stopped by) dynamic bodies.
+
+const std = @import("std");
+const testing = std.testing;
+const core = @import("game_core.zig");
+const engine = @import("game_engine.zig");
+const bodies = @import("test_bodies.zig");
+
+const DT: f32 = 1.0 / 60.0;
+const SPEED: f32 = 3.0; // m/s
+const FALL: f32 = -0.05; // Downward part of every move (m), as gravity would press
+const STEP_OFFSET: f32 = 0.3;
+const SLOPE_LIMIT: f32 = std.math.pi / 4.0;
+
+fn v(x: f32, y: f32, z: f32) core.Vec3 {
+    return .{ .x = x, .y = y, .z = z };
+}
+
+fn addBox(id: u32, position: core.Vec3, extents: core.Vec3, body_type: u8) void {
+    bodies.add(id, .{ .x = position.x, .y = position.y, .z = position.z, .body_type = body_type, .restitution = 0 });
+    engine.set_entity_collision_shape(id, 1, extents.x, extents.y, extents.z);
+}
+
+// Floor top at y = 0; the character is a capsule of radius 0.3 whose feet touch it at y = 0.9
+const CHARACTER: u32 = 1;
+fn setUp() void {
+    engine.init();
+    addBox(0, v(0, -1, 0), v(20, 1, 20), 2);
+    bodies.add(CHARACTER, .{ .x = -3, .y = 0.9, .body_type = bodies.KINEMATIC, .gravity_scale = 0, .radius = 0.3, .restitution = 0 });
+    engine.set_entity_collision_shape(CHARACTER, 3, 0.3, 0.9, 0.3);
+}
+
+fn characterPosition() core.Vec3 {
+    return v(engine.get_entity_position_x(CHARACTER), engine.get_entity_position_y(CHARACTER), engine.get_entity_position_z(CHARACTER));
+}
+
+// Walk along (x, z) for `frames` frames; returns the flags of the last move
+fn walk(x: f32, z: f32, frames: u32) u32 {
+    var flags: u32 = 0;
+    for (0..frames) |_| flags = engine.move_character(CHARACTER, x * SPEED * DT, FALL, z * SPEED * DT, STEP_OFFSET, SLOPE_LIMIT);
+    return flags;
+}
+
+test "a character walks along the floor, standing on it" {
+    setUp();
+    const flags = walk(1, 0, 60);
+
+    try testing.expectEqual(engine.CHARACTER_GROUNDED, flags);
+    try testing.expectEqual(@as(u32, 0), engine.get_character_ground());
+    try testing.expectApproxEqAbs(@as(f32, 0), characterPosition().x, 1e-3);
+    try testing.expectApproxEqAbs(@as(f32, 0.9), characterPosition().y, 1e-3);
+
+    // Standing still on it is grounded too (the probe below its feet)
+    try testing.expectEqual(engine.CHARACTER_GROUNDED, engine.move_character(CHARACTER, 0, 0, 0, STEP_OFFSET, SLOPE_LIMIT));
+
+    // An unknown entity does not move
+    try testing.expectEqual(@as(u32, 0), engine.move_character(99, 1, 0, 0, STEP_OFFSET, SLOPE_LIMIT));
+    try testing.expectEqual(engine.NO_GROUND, engine.get_character_ground());
+}
+
+test "a character slides along a wall it walks into at an angle" {
+    setUp();
+    addBox(2, v(-2, 2, 0), v(0.1, 2, 10), 2); // Inner face at x = -2.1
+
+    const flags = walk(1, 1, 60);
+
+    try testing.expect(flags & engine.CHARACTER_SIDES != 0);
+    try testing.expect(flags & engine.CHARACTER_GROUNDED != 0);
+    try testing.expectApproxEqAbs(@as(f32, -2.4), characterPosition().x, 1e-3);
+    try testing.expectApproxEqAbs(@as(f32, 3), characterPosition().z, 1e-3);
+}
+
+test "a character climbs steps up to its step offset" {
+    setUp();
+    addBox(2, v(0, 0.125, 0), v(1, 0.125, 5), 2); // 0.25 high, from x = -1
+
+    _ = walk(1, 0, 50);
+    try testing.expectApproxEqAbs(@as(f32, 1.15), characterPosition().y, 1e-2);
+    try testing.expectEqual(@as(u32, 2), engine.get_character_ground());
+
+    // A 0.45 high one is taller than its rounded bottom: it is lifted over it
+    setUp();
+    addBox(2, v(0, 0.225, 0), v(1, 0.225, 5), 2);
+    for (0..50) |_| _ = engine.move_character(CHARACTER, SPEED * DT, FALL, 0, 0.5, SLOPE_LIMIT);
+    try testing.expectApproxEqAbs(@as(f32, 1.35), characterPosition().y, 1e-2);
+
+    // A 0.5 high one stops it
+    setUp();
+    addBox(2, v(0, 0.25, 0), v(1, 0.25, 5), 2);
+    const flags = walk(1, 0, 50);
+    try testing.expect(flags & engine.CHARACTER_SIDES != 0);
+    try testing.expectApproxEqAbs(@as(f32, 0.9), characterPosition().y, 1e-3);
+    try testing.expectApproxEqAbs(@as(f32, -1.3), characterPosition().x, 1e-3);
+}
+
+fn stageHull(points: []const core.Vec3) u32 {
+    const staging: [*]f32 = @ptrFromInt(engine.get_hull_staging_offset());
+    for (points, 0..) |point, i| {
+        staging[i * 3] = point.x;
+        staging[i * 3 + 1] = point.y;
+        staging[i * 3 + 2] = point.z;
+    }
+    return engine.create_convex_hull(@intCast(points.len));
+}
+
+// A wedge on the floor rising along +x from x = -1 to `height` at x = 1
+fn addRamp(height: f32) void {
+    const wedge = [_]core.Vec3{ v(-1, 0, -5), v(-1, 0, 5), v(1, 0, -5), v(1, 0, 5), v(1, height, -5), v(1, height, 5) };
+    bodies.add(2, .{ .body_type = bodies.STATIC, .restitution = 0 });
+    engine.set_entity_convex_hull(2, stageHull(&wedge));
+}
+
+test "a character walks up a gentle ramp but not a steep one" {
+    setUp();
+    addRamp(2 * @tan(std.math.pi / 9.0)); // 20 degrees
+    const gentle = walk(1, 0, 50); // To x = -0.5, a quarter of the way up
+    try testing.expect(gentle & engine.CHARACTER_GROUNDED != 0);
+    try testing.expectEqual(@as(u32, 2), engine.get_character_ground());
+    try testing.expect(characterPosition().y > 1.05); // 0.18 up the slope under its center
+
+    setUp();
+    addRamp(2 * @tan(std.math.pi / 3.0)); // 60 degrees
+    const steep = walk(1, 0, 50);
+    try testing.expect(steep & engine.CHARACTER_SIDES != 0);
+    try testing.expect(characterPosition().y < 1.0);
+    try testing.expect(characterPosition().x < -1);
+}
+
+test "a character bumps its head on a ceiling" {
+    setUp();
+    addBox(2, v(-3, 2.5, 0), v(1, 0.5, 1), 2); // Underside at y = 2
+
+    const flags = engine.move_character(CHARACTER, 0, 0.5, 0, STEP_OFFSET, SLOPE_LIMIT);
+
+    try testing.expect(flags & engine.CHARACTER_ABOVE != 0);
+    try testing.expectApproxEqAbs(@as(f32, 1.1), characterPosition().y, 1e-3);
+}
+
+test "a character stands on dynamic bodies but walks into them" {
+    setUp();
+    addBox(2, v(-3, 0.1, 0), v(0.5, 0.1, 0.5), 0); // A flat crate under its feet
+    engine.set_entity_position(CHARACTER, -3, 1.1 + 0.05, 0);
+
+    try testing.expect(engine.move_character(CHARACTER, 0, -0.1, 0, STEP_OFFSET, SLOPE_LIMIT) & engine.CHARACTER_GROUNDED != 0);
+    try testing.expectEqual(@as(u32, 2), engine.get_character_ground());
+
+    addBox(3, v(-2, 0.5, 0), v(0.5, 0.5, 0.5), 0);
+    const flags = engine.move_character(CHARACTER, 0.5, 0, 0, STEP_OFFSET, SLOPE_LIMIT);
+    try testing.expectEqual(@as(u32, 0), flags & engine.CHARACTER_SIDES);
+    try testing.expectApproxEqAbs(@as(f32, -2.5), characterPosition().x, 1e-3);
+}
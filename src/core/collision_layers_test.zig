@@ -0,0 +1,72 @@
+// src/core/collision_layers_test.zig
+// Collision layers/masks: a pair of bodies interacts (solid contact or trigger overlap)
+// only if each body's mask contains the other's layer; scene queries only hit bodies
+// on a layer in the query's layer mask.
+
+const std = @import("std");
+const testing = std.testing;
+const engine = @import("game_engine.zig");
+const bodies = @import("test_bodies.zig");
+
+const DEBRIS: u32 = 1 << 1;
+const PLAYER: u32 = 1 << 2;
+
+fn addSphere(id: u32, x: f32, flags: u32) void {
+    bodies.add(id, .{ .x = x, .mesh = 2, .gravity_scale = 0.0, .flags = flags });
+    engine.set_entity_collision_shape(id, 0, 0.5, 0.5, 0.5);
+}
+
+fn overlappingPair(flags: u32) void {
+    engine.init();
+    addSphere(10, -0.3, flags);
+    addSphere(20, 0.3, 0);
+}
+
+test "bodies collide by default" {
+    overlappingPair(0);
+    engine.update(1.0 / 60.0);
+
+    try testing.expectEqual(@as(u32, 1), engine.get_contact_count());
+}
+
+test "a layer left out of the other body's mask never collides" {
+    overlappingPair(0);
+    engine.set_entity_collision_filter(10, DEBRIS, engine.COLLISION_MASK_ALL & ~DEBRIS);
+    engine.set_entity_collision_filter(20, DEBRIS, engine.COLLISION_MASK_ALL & ~DEBRIS);
+
+    engine.update(1.0 / 60.0);
+
+    try testing.expectEqual(@as(u32, 0), engine.get_contact_count());
+    try testing.expectApproxEqAbs(@as(f32, 0.3), engine.get_entity_position_x(20), 0.0001); // not pushed apart
+}
+
+test "filtering is symmetric: one body excluding the other is enough" {
+    overlappingPair(0);
+    engine.set_entity_collision_filter(10, PLAYER, engine.COLLISION_MASK_ALL); // accepts everything
+    engine.set_entity_collision_filter(20, DEBRIS, engine.COLLISION_MASK_ALL & ~PLAYER);
+
+    engine.update(1.0 / 60.0);
+
+    try testing.expectEqual(@as(u32, 0), engine.get_contact_count());
+}
+
+test "trigger overlaps honour the masks" {
+    overlappingPair(engine.ENTITY_FLAG_TRIGGER);
+    engine.set_entity_collision_filter(20, DEBRIS, engine.COLLISION_LAYER_DEFAULT);
+    engine.update(1.0 / 60.0);
+    try testing.expectEqual(@as(u32, 1), engine.get_trigger_pair_count());
+
+    engine.set_entity_collision_filter(20, DEBRIS, PLAYER);
+    engine.update(1.0 / 60.0);
+    try testing.expectEqual(@as(u32, 0), engine.get_trigger_pair_count());
+}
+
+test "scene queries only hit bodies on a layer in the layer mask" {
+    engine.init();
+    addSphere(0, 4, 0);
+    engine.set_entity_collision_filter(0, DEBRIS, engine.COLLISION_MASK_ALL);
+
+    try testing.expectEqual(@as(u32, 1), engine.raycast(0, 0, 0, 1, 0, 0, 100, DEBRIS | PLAYER));
+    try testing.expectEqual(@as(u32, 0), engine.raycast(0, 0, 0, 1, 0, 0, 100, PLAYER));
+    try testing.expectEqual(@as(u32, 0), engine.sphere_cast(0, 0, 0, 0.5, 1, 0, 0, 100, engine.COLLISION_LAYER_DEFAULT));
+}
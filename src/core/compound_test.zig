@@ -0,0 +1,150 @@
+// src/core/compound_test.zig
+// Compound colliders: parts registered once (turned parts baked into axis-aligned boxes),
+// a table resting on its legs over a ball that fits beneath it, rays passing between the
+// parts, and the body's mass spread over its parts for inertia.
+
+const std = @import("std");
+const testing = std.testing;
+const core = @import("game_core.zig");
+const engine = @import("game_engine.zig");
+const bodies = @import("test_bodies.zig");
+
+const DT: f32 = 1.0 / 60.0;
+
+const Part = struct { shape: f32, offset: [3]f32, rotation: [3]f32 = .{ 0, 0, 0 }, extents: [3]f32 };
+
+fn stageCompound(parts: []const Part) u32 {
+    const staging: [*]f32 = @ptrFromInt(engine.get_compound_staging_offset());
+    for (parts, 0..) |part, i| {
+        const f = staging + i * engine.COMPOUND_PART_FLOATS;
+        f[0] = part.shape;
+        for (0..3) |axis| {
+            f[1 + axis] = part.offset[axis];
+            f[4 + axis] = part.rotation[axis];
+            f[7 + axis] = part.extents[axis];
+        }
+    }
+    return engine.create_compound(@intCast(parts.len));
+}
+
+// A 2 x 0.2 x 1 top at y = 0.5 on four 0.8 tall legs: the legs' feet are at y = -0.4
+const TABLE = [_]Part{
+    .{ .shape = 1, .offset = .{ 0, 0.5, 0 }, .extents = .{ 1, 0.1, 0.5 } },
+    .{ .shape = 1, .offset = .{ -0.9, 0, -0.4 }, .extents = .{ 0.1, 0.4, 0.1 } },
+    .{ .shape = 1, .offset = .{ 0.9, 0, -0.4 }, .extents = .{ 0.1, 0.4, 0.1 } },
+    .{ .shape = 1, .offset = .{ -0.9, 0, 0.4 }, .extents = .{ 0.1, 0.4, 0.1 } },
+    .{ .shape = 1, .offset = .{ 0.9, 0, 0.4 }, .extents = .{ 0.1, 0.4, 0.1 } },
+};
+
+fn addBody(id: u32, x: f32, y: f32, body_type: u8, scale: f32) void {
+    bodies.add(id, .{ .x = x, .y = y, .scale = scale, .body_type = body_type, .restitution = 0.2 });
+}
+
+fn addFloor() void {
+    addBody(0, 0, -1, 2, 1);
+    engine.set_entity_collision_shape(0, 1, 5, 1, 5);
+}
+
+test "compounds are registered once, turned parts baked into their boxes" {
+    engine.init();
+    const quarter_turn = std.math.pi / 2.0;
+    const wall = stageCompound(&.{
+        .{ .shape = 1, .offset = .{ 0, 0, 0 }, .extents = .{ 1, 0.5, 0.1 } },
+        .{ .shape = 1, .offset = .{ 0.9, 0, 1 }, .rotation = .{ 0, quarter_turn, 0 }, .extents = .{ 1, 0.5, 0.1 } }, // The L's other arm
+    });
+    try testing.expectEqual(@as(u32, 0), wall);
+    try testing.expectEqual(@as(u32, 1), stageCompound(&TABLE));
+    try testing.expectEqual(engine.NO_COMPOUND, engine.create_compound(0));
+    try testing.expectEqual(engine.NO_COMPOUND, engine.create_compound(engine.MAX_COMPOUND_PARTS + 1));
+    try testing.expectEqual(engine.NO_COMPOUND, stageCompound(&.{.{ .shape = 2, .offset = .{ 0, 0, 0 }, .extents = .{ 0, 1, 0 } }})); // No planes
+    try testing.expectEqual(@as(u32, 2), engine.get_compound_count());
+
+    addBody(1, 0, 0, 2, 1);
+    engine.set_entity_compound(1, wall);
+    engine.set_entity_compound(1, 9); // No such compound: ignored
+    try testing.expectEqual(@as(u8, @intFromEnum(core.CollisionShape.COMPOUND)), engine.get_entity_collision_shape(1));
+    // The turned arm is 0.2 wide along x and 2 long along z: it reaches x = 1 and z = 2
+    try testing.expectApproxEqAbs(@as(f32, 1), engine.get_entity_collision_extent_x(1), 1e-5);
+    try testing.expectApproxEqAbs(@as(f32, 0.5), engine.get_entity_collision_extent_y(1), 1e-5);
+    try testing.expectApproxEqAbs(@as(f32, 2), engine.get_entity_collision_extent_z(1), 1e-5);
+    engine.set_entity_scale(1, 2, 2, 2);
+    try testing.expectApproxEqAbs(@as(f32, 4), engine.get_entity_collision_extent_z(1), 1e-5);
+
+    // Back to a primitive
+    engine.set_entity_collision_shape(1, 1, 0.5, 0.5, 0.5);
+    try testing.expectEqual(@as(u8, @intFromEnum(core.CollisionShape.BOX)), engine.get_entity_collision_shape(1));
+
+    engine.init();
+    try testing.expectEqual(@as(u32, 0), engine.get_compound_count());
+}
+
+test "a table comes to rest on its legs, over a ball that fits beneath it" {
+    engine.init();
+    addFloor();
+    addBody(1, 0, 1.5, 0, 1);
+    engine.set_entity_compound(1, stageCompound(&TABLE));
+    addBody(2, 0, 0.25, 0, 1);
+    engine.set_entity_collision_shape(2, 0, 0.25, 0.25, 0.25);
+
+    for (0..240) |_| engine.update(DT);
+
+    try testing.expectApproxEqAbs(@as(f32, 0.4), engine.get_entity_position_y(1), 0.05);
+    try testing.expectApproxEqAbs(@as(f32, 0), engine.get_entity_position_x(1), 0.05);
+    try testing.expectApproxEqAbs(@as(f32, 0.25), engine.get_entity_position_y(2), 0.05);
+    try testing.expectApproxEqAbs(@as(f32, 0), engine.get_entity_position_x(2), 0.05);
+}
+
+test "a ball dropped on a table lands on its top" {
+    engine.init();
+    addFloor();
+    addBody(1, 0, 0.4, 2, 1);
+    engine.set_entity_compound(1, stageCompound(&TABLE));
+    addBody(2, 0.5, 3, 0, 1);
+    engine.set_entity_collision_shape(2, 0, 0.25, 0.25, 0.25);
+
+    for (0..240) |_| engine.update(DT);
+
+    // The top's upper face is at 0.4 + 0.6
+    try testing.expectApproxEqAbs(@as(f32, 1.25), engine.get_entity_position_y(2), 0.05);
+}
+
+fn firstHitDistance(count: u32) f32 {
+    const hits: [*]const engine.QueryHit = @ptrFromInt(engine.get_query_hits_offset());
+    return if (count > 0) hits[0].distance else -1;
+}
+
+test "rays hit the nearest part and pass between them" {
+    engine.init();
+    addBody(1, 0, 0, 2, 1);
+    engine.set_entity_compound(1, stageCompound(&TABLE));
+
+    // Down onto the top (upper face at y = 0.6)
+    try testing.expectApproxEqAbs(@as(f32, 4.4), firstHitDistance(engine.raycast(0, 5, 0, 0, -1, 0, 10, engine.COLLISION_MASK_ALL)), 1e-4);
+    // Sideways under the top, between the legs: a miss
+    try testing.expectEqual(@as(u32, 0), engine.raycast(-5, 0, 0, 1, 0, 0, 10, engine.COLLISION_MASK_ALL));
+    // Sideways along the front legs: the nearer one
+    try testing.expectApproxEqAbs(@as(f32, 4), firstHitDistance(engine.raycast(-5, 0, 0.4, 1, 0, 0, 10, engine.COLLISION_MASK_ALL)), 1e-4);
+}
+
+test "a compound's mass is spread over its parts for its inertia" {
+    // The same mass as one ball and as two balls 1 m either side of the origin: the dumbbell
+    // turns far more slowly under the same torque
+    engine.init();
+    addBody(1, -5, 0, 0, 1);
+    engine.set_entity_compound(1, stageCompound(&.{.{ .shape = 0, .offset = .{ 0, 0, 0 }, .extents = .{ 0.25, 0.25, 0.25 } }}));
+    addBody(2, 5, 0, 0, 1);
+    engine.set_entity_compound(2, stageCompound(&.{
+        .{ .shape = 0, .offset = .{ -1, 0, 0 }, .extents = .{ 0.25, 0.25, 0.25 } },
+        .{ .shape = 0, .offset = .{ 1, 0, 0 }, .extents = .{ 0.25, 0.25, 0.25 } },
+    }));
+    for ([_]u32{ 1, 2 }) |id| {
+        engine.set_entity_gravity_scale(id, 0);
+        engine.apply_torque(id, 0, 0, 1);
+    }
+
+    engine.update(DT);
+
+    // One ball: I = 2/5·m·r² = 0.025. Dumbbell: 2 · (0.0125 + 0.5·1²) = 1.025
+    try testing.expect(engine.get_entity_angular_velocity_z(2) > 0);
+    try testing.expectApproxEqAbs(@as(f32, 1.025 / 0.025), engine.get_entity_angular_velocity_z(1) / engine.get_entity_angular_velocity_z(2), 1e-2);
+}
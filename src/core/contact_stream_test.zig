@@ -0,0 +1,68 @@
+// src/core/contact_stream_test.zig
+// Contact stream: every touching pair of a physics step is recorded once into the
+// ContactRecord buffer TypeScript reads (collision enter/stay/exit events), with
+// the Object1 POV normal and the normal impulse the solver applied.
+
+const std = @import("std");
+const testing = std.testing;
+const engine = @import("game_engine.zig");
+const bodies = @import("test_bodies.zig");
+
+fn addSphere(id: u32, x: f32, y: f32, body_type: u8, gravity_scale: f32) void {
+    bodies.add(id, .{ .x = x, .y = y, .mesh = 2, .body_type = body_type, .gravity_scale = gravity_scale });
+    engine.set_entity_collision_shape(id, 0, 0.5, 0.5, 0.5);
+}
+
+fn contactSlice() []const engine.ContactRecord {
+    const records: [*]const engine.ContactRecord = @ptrFromInt(engine.get_contacts_offset());
+    return records[0..engine.get_contact_count()];
+}
+
+test "ContactRecord is the 40-byte layout TypeScript reads" {
+    try testing.expectEqual(@as(usize, 40), @sizeOf(engine.ContactRecord));
+    try testing.expectEqual(@as(usize, 8), @offsetOf(engine.ContactRecord, "point"));
+    try testing.expectEqual(@as(usize, 20), @offsetOf(engine.ContactRecord, "normal"));
+    try testing.expectEqual(@as(usize, 32), @offsetOf(engine.ContactRecord, "impulse"));
+    try testing.expectEqual(@as(usize, 36), @offsetOf(engine.ContactRecord, "penetration"));
+}
+
+test "a colliding pair is recorded once per step with normal and impulse" {
+    engine.init();
+    addSphere(10, -0.45, 0, 0, 0); // overlapping dynamic spheres, no gravity
+    addSphere(20, 0.45, 0, 0, 0);
+    engine.set_entity_velocity(10, 2, 0, 0);
+    engine.set_entity_velocity(20, -2, 0, 0);
+
+    engine.update(1.0 / 60.0);
+    const records = contactSlice();
+
+    try testing.expectEqual(@as(usize, 1), records.len);
+    try testing.expectEqual(@as(u32, 10), records[0].entity_a);
+    try testing.expectEqual(@as(u32, 20), records[0].entity_b);
+    try testing.expectApproxEqAbs(@as(f32, -1), records[0].normal[0], 0.0001); // a is pushed toward -x
+    try testing.expect(records[0].impulse > 0);
+    try testing.expect(records[0].penetration > 0);
+}
+
+test "separated pairs are not recorded" {
+    engine.init();
+    addSphere(0, -3, 0, 0, 0);
+    addSphere(1, 3, 0, 0, 0);
+
+    engine.update(1.0 / 60.0);
+
+    try testing.expectEqual(@as(u32, 0), engine.get_contact_count());
+}
+
+test "a resting contact is reported every step (no flicker)" {
+    engine.init();
+    bodies.add(0, .{ .y = -1, .mesh = 1, .body_type = bodies.STATIC, .gravity_scale = 0.0, .radius = 1 }); // static floor
+    engine.set_entity_collision_shape(0, 1, 10, 1, 10);
+    addSphere(1, 0, 0.55, 0, 1.0); // dynamic ball dropped onto it
+
+    for (0..60) |_| engine.update(1.0 / 60.0); // settle
+    for (0..60) |_| {
+        engine.update(1.0 / 60.0);
+        try testing.expectEqual(@as(u32, 1), engine.get_contact_count());
+    }
+}
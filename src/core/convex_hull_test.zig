@@ -0,0 +1,169 @@
+// src/core/convex_hull_test.zig
+// Convex hull colliders: GJK/EPA contacts of hulls against spheres, boxes, cylinders and
+// other hulls (a cube-shaped hull agrees with the BOX collider), and hull bodies registered
+// once, shared, stretched by their scale and resting on their faces.
+
+const std = @import("std");
+const testing = std.testing;
+const core = @import("game_core.zig");
+const engine = @import("game_engine.zig");
+const bodies = @import("test_bodies.zig");
+
+const DT: f32 = 1.0 / 60.0;
+
+fn v(x: f32, y: f32, z: f32) core.Vec3 {
+    return .{ .x = x, .y = y, .z = z };
+}
+
+// createPyramidMesh(1, 1): a unit square base at y = -0.5, apex at y = 0.5
+const PYRAMID = [_]core.Vec3{ v(-0.5, -0.5, -0.5), v(0.5, -0.5, -0.5), v(0.5, -0.5, 0.5), v(-0.5, -0.5, 0.5), v(0, 0.5, 0) };
+const CUBE = [_]core.Vec3{ v(-0.5, -0.5, -0.5), v(0.5, -0.5, -0.5), v(0.5, 0.5, -0.5), v(-0.5, 0.5, -0.5), v(-0.5, -0.5, 0.5), v(0.5, -0.5, 0.5), v(0.5, 0.5, 0.5), v(-0.5, 0.5, 0.5) };
+const HALF = v(0.5, 0.5, 0.5);
+
+fn hull(points: []const core.Vec3, position: core.Vec3) core.ConvexCollider {
+    return .{ .shape = .HULL, .position = position, .extents = core.hullExtents(points), .points = points };
+}
+
+fn solid(shape: core.CollisionShape, position: core.Vec3, extents: core.Vec3) core.ConvexCollider {
+    return .{ .shape = shape, .position = position, .extents = extents };
+}
+
+fn expectVec(expected: core.Vec3, actual: core.Vec3, tolerance: f32) !void {
+    try testing.expectApproxEqAbs(expected.x, actual.x, tolerance);
+    try testing.expectApproxEqAbs(expected.y, actual.y, tolerance);
+    try testing.expectApproxEqAbs(expected.z, actual.z, tolerance);
+}
+
+test "a pyramid hull sits on its base and pokes its apex into things" {
+    const origin = v(0, 0, 0);
+
+    // Base 0.1 into a floor: straight up, contact in the middle of the base
+    const on_floor = core.checkConvexCollision(hull(&PYRAMID, v(0, 0.4, 0)), solid(.BOX, v(0, -1, 0), v(3, 1, 3))).?;
+    try expectVec(v(0, 1, 0), on_floor.contact_normal, 1e-4);
+    try testing.expectApproxEqAbs(@as(f32, 0.1), on_floor.penetration_depth, 1e-4);
+    try expectVec(v(0, -0.1, 0), on_floor.contact_point, 1e-4);
+
+    // Apex 0.1 into a ball resting on it
+    const under_ball = core.checkConvexCollision(hull(&PYRAMID, origin), solid(.SPHERE, v(0, 0.9, 0), HALF)).?;
+    try expectVec(v(0, -1, 0), under_ball.contact_normal, 1e-2);
+    try testing.expectApproxEqAbs(@as(f32, 0.1), under_ball.penetration_depth, 1e-2);
+    try expectVec(v(0, 0.5, 0), under_ball.contact_point, 1e-4);
+
+    // Apex into the base of a second pyramid stacked on it
+    const stacked = core.checkConvexCollision(hull(&PYRAMID, v(0, 0.95, 0)), hull(&PYRAMID, origin)).?;
+    try expectVec(v(0, 1, 0), stacked.contact_normal, 1e-4);
+    try testing.expectApproxEqAbs(@as(f32, 0.05), stacked.penetration_depth, 1e-4);
+
+    // A ball beside the apex, inside the pyramid's bounding box but clear of its slope
+    try testing.expect(core.checkConvexCollision(hull(&PYRAMID, origin), solid(.SPHERE, v(0.6, 0.6, 0), v(0.2, 0.2, 0.2))) == null);
+    try testing.expect(core.checkCollision(origin, .BOX, HALF, v(0.6, 0.6, 0), .SPHERE, v(0.2, 0.2, 0.2)) != null);
+}
+
+test "a cube-shaped hull collides like the BOX collider" {
+    const offsets = [_]core.Vec3{ v(0.9, 0, 0), v(0, -0.85, 0), v(0.3, 0.1, 0.95), v(-0.7, 0.2, -0.1), v(2, 0, 0) };
+    const others = [_]struct { shape: core.CollisionShape, extents: core.Vec3 }{
+        .{ .shape = .BOX, .extents = HALF },
+        .{ .shape = .SPHERE, .extents = HALF },
+        .{ .shape = .CYLINDER, .extents = v(0.5, 1, 0.5) },
+    };
+    for (others) |other| {
+        for (offsets) |offset| {
+            errdefer std.debug.print("{s} at ({d},{d},{d})\n", .{ @tagName(other.shape), offset.x, offset.y, offset.z });
+            const expected = core.checkCollision(v(0, 0, 0), .BOX, HALF, offset, other.shape, other.extents);
+            const actual = core.checkConvexCollision(hull(&CUBE, v(0, 0, 0)), solid(other.shape, offset, other.extents));
+            try testing.expectEqual(expected == null, actual == null);
+            if (expected) |info| {
+                try testing.expectApproxEqAbs(info.penetration_depth, actual.?.penetration_depth, 1e-2);
+                try expectVec(info.contact_normal, actual.?.contact_normal, 2e-2);
+            }
+        }
+    }
+}
+
+test "hulls report the contact from either side" {
+    const a = hull(&CUBE, v(0, 0, 0));
+    const b = hull(&PYRAMID, v(0.3, 0.9, 0.1));
+    const ab = core.checkConvexCollision(a, b).?;
+    const ba = core.checkConvexCollision(b, a).?;
+    try testing.expectApproxEqAbs(ab.penetration_depth, ba.penetration_depth, 1e-4);
+    try expectVec(core.vec3_negate(ab.contact_normal), ba.contact_normal, 1e-4);
+
+    // Deep overlap, centers together
+    const same = core.checkConvexCollision(a, hull(&CUBE, v(0, 0, 0))).?;
+    try testing.expectApproxEqAbs(@as(f32, 1), same.penetration_depth, 1e-4);
+}
+
+fn stageHull(points: []const core.Vec3) u32 {
+    const staging: [*]f32 = @ptrFromInt(engine.get_hull_staging_offset());
+    for (points, 0..) |point, i| {
+        staging[i * 3] = point.x;
+        staging[i * 3 + 1] = point.y;
+        staging[i * 3 + 2] = point.z;
+    }
+    return engine.create_convex_hull(@intCast(points.len));
+}
+
+fn addBody(id: u32, x: f32, y: f32, body_type: u8, scale: f32) void {
+    bodies.add(id, .{ .x = x, .y = y, .scale = scale, .body_type = body_type });
+}
+
+fn addFloor() void {
+    addBody(0, 0, -1, 2, 1);
+    engine.set_entity_collision_shape(0, 1, 3, 1, 3);
+}
+
+test "hulls are registered once and shared by the bodies using them" {
+    engine.init();
+    try testing.expectEqual(@as(u32, 0), stageHull(&PYRAMID));
+    try testing.expectEqual(@as(u32, 1), stageHull(&CUBE));
+    try testing.expectEqual(engine.NO_HULL, engine.create_convex_hull(0));
+    try testing.expectEqual(engine.NO_HULL, engine.create_convex_hull(engine.MAX_HULL_VERTICES + 1));
+    try testing.expectEqual(@as(u32, 2), engine.get_hull_count());
+
+    addBody(1, -2, 0, 2, 1);
+    addBody(2, 2, 0, 2, 2); // Twice the size
+    engine.set_entity_convex_hull(1, 0);
+    engine.set_entity_convex_hull(2, 0);
+    engine.set_entity_convex_hull(2, 7); // No such hull: ignored
+
+    try testing.expectEqual(@as(u8, @intFromEnum(core.CollisionShape.HULL)), engine.get_entity_collision_shape(2));
+    try testing.expectApproxEqAbs(@as(f32, 0.5), engine.get_entity_collision_extent_y(1), 1e-6);
+    try testing.expectApproxEqAbs(@as(f32, 1), engine.get_entity_collision_extent_y(2), 1e-6);
+    engine.set_entity_scale(2, 3, 3, 3);
+    try testing.expectApproxEqAbs(@as(f32, 1.5), engine.get_entity_collision_extent_x(2), 1e-6);
+
+    // Back to a primitive
+    engine.set_entity_collision_shape(2, 1, 0.5, 0.5, 0.5);
+    try testing.expectEqual(@as(u8, @intFromEnum(core.CollisionShape.BOX)), engine.get_entity_collision_shape(2));
+
+    engine.init();
+    try testing.expectEqual(@as(u32, 0), engine.get_hull_count());
+}
+
+test "a pyramid hull comes to rest on its base" {
+    engine.init();
+    addFloor();
+    const pyramid = stageHull(&PYRAMID);
+    addBody(1, 0, 2, 0, 1);
+    engine.set_entity_convex_hull(1, pyramid);
+
+    for (0..240) |_| engine.update(DT);
+
+    try testing.expectApproxEqAbs(@as(f32, 0.5), engine.get_entity_position_y(1), 0.05);
+    try testing.expect(engine.get_contact_count() >= 1);
+}
+
+test "a ball dropped off-center rolls down a pyramid's slope" {
+    engine.init();
+    addFloor();
+    addBody(1, 0, 1, 2, 2); // Static, twice the size: base half-width 1, apex at y = 2
+    engine.set_entity_convex_hull(1, stageHull(&PYRAMID));
+    addBody(2, 0.3, 3, 0, 1);
+    engine.set_entity_collision_shape(2, 0, 0.25, 0.25, 0.25);
+
+    for (0..180) |_| engine.update(DT);
+
+    // A box collider would have held it up on a flat top at y = 2.25
+    try testing.expect(engine.get_entity_position_x(2) > 1);
+    try testing.expect(engine.get_entity_position_y(2) < 0.5);
+}
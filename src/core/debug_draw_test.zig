@@ -0,0 +1,110 @@
+// src/core/debug_draw_test.zig
+// Physics debug draw: colliders as wireframes where physics has them (turned boxes turned),
+// colored by body type and sleep state, the last step's contacts with their normals, and
+// velocity vectors, written as the DebugVertex line list TypeScript draws.
+
+const std = @import("std");
+const testing = std.testing;
+const engine = @import("game_engine.zig");
+const bodies = @import("test_bodies.zig");
+
+const DT: f32 = 1.0 / 60.0;
+
+const SPHERE: u8 = 0;
+const BOX: u8 = 1;
+const PLANE: u8 = 2;
+const DYNAMIC: u8 = 0;
+const STATIC: u8 = 2;
+
+fn addBody(id: u32, x: f32, y: f32, rot_y: f32, body_type: u8, gravity_scale: f32, shape: u8, extents: [3]f32) void {
+    bodies.add(id, .{ .x = x, .y = y, .rot_y = rot_y, .body_type = body_type, .gravity_scale = gravity_scale, .restitution = 0.0 });
+    engine.set_entity_collision_shape(id, shape, extents[0], extents[1], extents[2]);
+}
+
+fn debugLines(flags: u32) []const engine.DebugVertex {
+    const count = engine.build_debug_lines(flags);
+    const vertices: [*]const engine.DebugVertex = @ptrFromInt(engine.get_debug_lines_offset());
+    return vertices[0..count];
+}
+
+test "DebugVertex is the 28-byte layout TypeScript reads" {
+    try testing.expectEqual(@as(usize, 28), @sizeOf(engine.DebugVertex));
+    try testing.expectEqual(@as(usize, 12), @offsetOf(engine.DebugVertex, "color"));
+}
+
+test "each collider is drawn as a wireframe in its body type's color" {
+    engine.init();
+    addBody(0, -2, 0, 0, DYNAMIC, 0, SPHERE, .{ 0.5, 0.5, 0.5 });
+    const spheres = debugLines(engine.DEBUG_DRAW_COLLIDERS);
+    try testing.expectEqual(@as(usize, 96), spheres.len); // Three circles of 16 segments
+    for (spheres) |vertex| try testing.expectEqual(engine.DEBUG_COLOR_DYNAMIC, vertex.color);
+
+    addBody(1, 2, 0, 0, STATIC, 0, BOX, .{ 1, 0.25, 0.5 });
+    addBody(2, 0, -2, 0, STATIC, 0, PLANE, .{ 0, 1, 0 });
+    const lines = debugLines(engine.DEBUG_DRAW_COLLIDERS);
+    try testing.expectEqual(@as(usize, 96 + 24 + 10), lines.len); // 12 box edges; a plane's square and normal
+    for (lines[96..]) |vertex| try testing.expectEqual(engine.DEBUG_COLOR_STATIC, vertex.color);
+    for (lines[96..120]) |vertex| {
+        try testing.expectApproxEqAbs(@as(f32, 1), @abs(vertex.position[0] - 2), 1e-5);
+        try testing.expectApproxEqAbs(@as(f32, 0.25), @abs(vertex.position[1]), 1e-5);
+        try testing.expectApproxEqAbs(@as(f32, 0.5), @abs(vertex.position[2]), 1e-5);
+    }
+}
+
+test "a turned box is drawn turned, where the collider is rather than where the mesh is" {
+    engine.init();
+    addBody(0, 0, 0, std.math.pi / 4.0, STATIC, 0, BOX, .{ 0.5, 0.5, 0.5 });
+
+    var reach: f32 = 0;
+    for (debugLines(engine.DEBUG_DRAW_COLLIDERS)) |vertex| reach = @max(reach, @abs(vertex.position[0]));
+
+    try testing.expectApproxEqAbs(@as(f32, std.math.sqrt1_2), reach, 1e-5);
+}
+
+test "sleeping bodies take their own color only when asked" {
+    engine.init();
+    addBody(0, 0, 0, 0, DYNAMIC, 0, BOX, .{ 0.5, 0.5, 0.5 });
+    engine.set_entity_sleeping(0, true);
+
+    try testing.expectEqual(engine.DEBUG_COLOR_DYNAMIC, debugLines(engine.DEBUG_DRAW_COLLIDERS)[0].color);
+    try testing.expectEqual(engine.DEBUG_COLOR_SLEEPING, debugLines(engine.DEBUG_DRAW_COLLIDERS | engine.DEBUG_DRAW_SLEEPING)[0].color);
+}
+
+test "contacts are drawn as a cross at the point with the normal out of it" {
+    engine.init();
+    addBody(0, 0, -0.5, 0, STATIC, 0, BOX, .{ 3, 0.5, 3 });
+    addBody(1, 0, 0.49, 0, DYNAMIC, 1, BOX, .{ 0.5, 0.5, 0.5 });
+
+    engine.update(DT);
+    try testing.expectEqual(@as(u32, 1), engine.get_contact_count());
+    const lines = debugLines(engine.DEBUG_DRAW_CONTACTS);
+
+    try testing.expectEqual(@as(usize, 8), lines.len);
+    for (lines[0..6]) |vertex| try testing.expectEqual(engine.DEBUG_COLOR_CONTACT, vertex.color);
+    const normal_start = lines[6].position;
+    const normal_end = lines[7].position;
+    try testing.expectEqual(engine.DEBUG_COLOR_NORMAL, lines[6].color);
+    try testing.expectApproxEqAbs(@as(f32, 0), normal_end[0] - normal_start[0], 1e-5);
+    try testing.expectApproxEqAbs(@as(f32, 0.5), @abs(normal_end[1] - normal_start[1]), 1e-5);
+}
+
+test "velocity vectors reach where the body is a quarter second on; resting bodies have none" {
+    engine.init();
+    addBody(0, 0, 0, 0, DYNAMIC, 0, SPHERE, .{ 0.5, 0.5, 0.5 });
+    addBody(1, 2, 0, 0, DYNAMIC, 0, SPHERE, .{ 0.5, 0.5, 0.5 });
+    engine.set_entity_velocity(0, 2, 0, 0);
+
+    const lines = debugLines(engine.DEBUG_DRAW_VELOCITIES);
+
+    try testing.expectEqual(@as(usize, 2), lines.len);
+    try testing.expectEqual(engine.DEBUG_COLOR_VELOCITY, lines[0].color);
+    try testing.expectEqual([3]f32{ 0, 0, 0 }, lines[0].position);
+    try testing.expectApproxEqAbs(@as(f32, 0.5), lines[1].position[0], 1e-5);
+}
+
+test "entities without physics are not drawn" {
+    engine.init();
+    bodies.add(0, .{ .body_type = STATIC, .gravity_scale = 0.0, .physics_enabled = false, .restitution = 0.0 });
+
+    try testing.expectEqual(@as(u32, 0), engine.build_debug_lines(engine.DEBUG_DRAW_COLLIDERS | engine.DEBUG_DRAW_VELOCITIES));
+}
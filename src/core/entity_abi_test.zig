@@ -47,9 +47,9 @@ test "exported buffer-debug functions agree with the struct layout" {
 // Entity-flags ABI behavior (BodyType + mass + gravityScale model)
 // ---------------------------------------------------------------------------
 
-// add_entity(id, x,y,z, rotX,rotY,rotZ, sx,sy,sz, r,g,b,a, mesh, mat, bodyType, mass, gravityScale, radius, physicsEnabled)
+// add_entity(id, x,y,z, rotX,rotY,rotZ, sx,sy,sz, r,g,b,a, mesh, mat, bodyType, mass, gravityScale, radius, physicsEnabled, flags, staticFriction, dynamicFriction, restitution)
 fn addBody(id: u32, y: f32, body_type: u8, mass: f32, gravity_scale: f32) void {
-    engine.add_entity(id, 0, y, 0, 0, 0, 0, 1, 1, 1, 1, 1, 1, 1, 2, 0, body_type, mass, gravity_scale, 0.5, true);
+    engine.add_entity(id, 0, y, 0, 0, 0, 0, 1, 1, 1, 1, 1, 1, 1, 2, 0, body_type, mass, gravity_scale, 0.5, true, 0, 0.6, 0.6, 0.6);
 }
 
 test "gravityScale scales gravity on DYNAMIC bodies (0 = space, no fall)" {
@@ -120,7 +120,7 @@ test "initial rotation is baked at add time (static entities keep their rotation
     engine.init();
     // 90° around Z, no RigidBody-style per-frame sync involved (STATIC body)
     const half_pi: f32 = std.math.pi / 2.0;
-    engine.add_entity(0, 0, 0, 0, 0, 0, half_pi, 1, 1, 1, 1, 1, 1, 1, 2, 0, 2, 0, 1.0, 0.5, true);
+    engine.add_entity(0, 0, 0, 0, 0, 0, half_pi, 1, 1, 1, 1, 1, 1, 1, 2, 0, 2, 0, 1.0, 0.5, true, 0, 0.6, 0.6, 0.6);
 
     // Column-major T*R*S: with Rz(90°), column 0 becomes (cos, sin, 0) ≈ (0, 1, 0)
     const m = engine.rendering_components[0].transform_matrix;
@@ -131,7 +131,7 @@ test "initial rotation is baked at add time (static entities keep their rotation
 test "physicsEnabled=false keeps mesh-only entities fully inert (decorative)" {
     engine.init();
     // A decorative grid: no collision, no gravity — regardless of body type/mass
-    engine.add_entity(0, 0, 5, 0, 0, 0, 0, 1, 1, 1, 1, 1, 1, 1, 4, 0, 0, 1.0, 1.0, 0.5, false);
+    engine.add_entity(0, 0, 5, 0, 0, 0, 0, 1, 1, 1, 1, 1, 1, 1, 4, 0, 0, 1.0, 1.0, 0.5, false, 0, 0.6, 0.6, 0.6);
 
     engine.update(0.016);
     try testing.expectEqual(@as(f32, 0), engine.get_entity_velocity_y(0));
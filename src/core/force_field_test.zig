@@ -0,0 +1,168 @@
+// src/core/force_field_test.zig
+// Force fields: wind pushes what is inside it, gravity wells pull towards their center with
+// their falloff, vortices push around their axis, water floats light crates and sinks heavy
+// ones, layer masks pick the bodies a field pushes, and fields wake what they reach.
+
+const std = @import("std");
+const testing = std.testing;
+const engine = @import("game_engine.zig");
+const bodies = @import("test_bodies.zig");
+
+const DT: f32 = 1.0 / 60.0;
+const DAMPING: f32 = 0.99; // The default per-step damping across gravity
+
+const SPHERE: u8 = 0;
+const BOX: u8 = 1;
+
+fn addFloatingBall(id: u32, x: f32, y: f32, z: f32) void {
+    bodies.add(id, .{ .x = x, .y = y, .z = z, .gravity_scale = 0.0, .radius = 0.25, .restitution = 0.2 });
+}
+
+fn addCrate(id: u32, x: f32, y: f32, mass: f32) void {
+    bodies.add(id, .{ .x = x, .y = y, .mesh = 1, .mass = mass, .restitution = 0.0 });
+    engine.set_entity_collision_shape(id, BOX, 0.5, 0.5, 0.5);
+}
+
+fn addField(id: u32, kind: engine.ForceFieldType, shape: u8, x: f32, y: f32, extents: [3]f32) !void {
+    try testing.expect(engine.add_force_field(id, @intFromEnum(kind), shape));
+    engine.set_force_field_transform(id, x, y, 0, 0, 0, 0, extents[0], extents[1], extents[2]);
+}
+
+test "wind pushes the bodies inside it along its direction, and nothing outside" {
+    engine.init();
+    try addField(0, .DIRECTIONAL, BOX, 0, 0, .{ 2, 2, 2 });
+    engine.set_force_field_strength(0, 6, 1, 0, 0, true, @intFromEnum(engine.ForceFieldFalloff.NONE));
+    addFloatingBall(0, 0, 0, 0);
+    addFloatingBall(1, 0, 4, 0);
+
+    engine.update(DT);
+
+    try testing.expectApproxEqAbs(6 * DT * DAMPING, engine.get_entity_velocity_x(0), 1e-4);
+    try testing.expectEqual(@as(f32, 0), engine.get_entity_velocity_x(1));
+}
+
+test "a turned wind tunnel blows along its turned direction" {
+    engine.init();
+    try testing.expect(engine.add_force_field(0, @intFromEnum(engine.ForceFieldType.DIRECTIONAL), BOX));
+    engine.set_force_field_transform(0, 0, 0, 0, 0, 0, std.math.pi / 2.0, 4, 0.5, 0.5); // Long along y
+    engine.set_force_field_strength(0, 6, 1, 0, 0, true, @intFromEnum(engine.ForceFieldFalloff.NONE));
+    addFloatingBall(0, 0, 3, 0);
+
+    engine.update(DT);
+
+    try testing.expectApproxEqAbs(@as(f32, 0), engine.get_entity_velocity_x(0), 1e-4);
+    try testing.expectApproxEqAbs(6 * DT, engine.get_entity_velocity_y(0), 1e-4); // Along gravity: undamped
+}
+
+test "a gravity well pulls towards its center, harder closer in with inverse-square falloff" {
+    engine.init();
+    try addField(0, .RADIAL, SPHERE, 0, 0, .{ 5, 0, 0 });
+    engine.set_force_field_strength(0, 4, 0, 0, 0, true, @intFromEnum(engine.ForceFieldFalloff.INVERSE_SQUARE));
+    addFloatingBall(0, 1, 0, 0);
+    addFloatingBall(1, -2, 0, 0);
+
+    engine.update(DT);
+
+    try testing.expectApproxEqAbs(-4 * DT * DAMPING, engine.get_entity_velocity_x(0), 1e-4);
+    try testing.expectApproxEqAbs(1 * DT * DAMPING, engine.get_entity_velocity_x(1), 1e-4);
+}
+
+test "linear falloff fades to nothing at the field's edge" {
+    engine.init();
+    try addField(0, .RADIAL, SPHERE, 0, 0, .{ 4, 0, 0 });
+    engine.set_force_field_strength(0, -8, 0, 0, 0, true, @intFromEnum(engine.ForceFieldFalloff.LINEAR)); // Repels
+    addFloatingBall(0, 0, 0, 1);
+
+    engine.update(DT);
+
+    try testing.expectApproxEqAbs(8 * 0.75 * DT * DAMPING, engine.get_entity_velocity_z(0), 1e-4);
+}
+
+test "a vortex pushes around its axis" {
+    engine.init();
+    try addField(0, .VORTEX, SPHERE, 0, 0, .{ 5, 0, 0 });
+    engine.set_force_field_strength(0, 3, 0, 1, 0, true, @intFromEnum(engine.ForceFieldFalloff.NONE)); // About +Y
+    addFloatingBall(0, 2, 1, 0);
+
+    engine.update(DT);
+
+    // Counter-clockwise looking down +Y: at +x it is pushed towards -z
+    try testing.expectApproxEqAbs(@as(f32, 0), engine.get_entity_velocity_x(0), 1e-4);
+    try testing.expectApproxEqAbs(@as(f32, 0), engine.get_entity_velocity_y(0), 1e-4);
+    try testing.expectApproxEqAbs(-3 * DT * DAMPING, engine.get_entity_velocity_z(0), 1e-4);
+}
+
+test "a force pushes through the mass, an acceleration moves every mass alike" {
+    engine.init();
+    try addField(0, .DIRECTIONAL, BOX, 0, 0, .{ 8, 2, 2 });
+    engine.set_force_field_strength(0, 6, 1, 0, 0, false, @intFromEnum(engine.ForceFieldFalloff.NONE));
+    addFloatingBall(0, -2, 0, 0);
+    bodies.add(1, .{ .x = 2, .mass = 3.0, .gravity_scale = 0.0, .radius = 0.25, .restitution = 0.2 });
+
+    engine.update(DT);
+
+    try testing.expectApproxEqAbs(6 * DT * DAMPING, engine.get_entity_velocity_x(0), 1e-4);
+    try testing.expectApproxEqAbs(2 * DT * DAMPING, engine.get_entity_velocity_x(1), 1e-4);
+}
+
+test "water floats a light crate half under and sinks a heavy one" {
+    engine.init();
+    try addField(0, .BUOYANCY, BOX, 0, -1, .{ 6, 1, 2 }); // Surface at y = 0, bottom at -2
+    bodies.add(9, .{ .y = -2.5, .mesh = 1, .body_type = bodies.STATIC, .gravity_scale = 0.0, .radius = 1, .restitution = 0.0 });
+    engine.set_entity_collision_shape(9, BOX, 6, 0.5, 2); // Floor at the water's bottom
+    addCrate(0, -2, 1, 1.0); // 1 m³: floats in the default density (2) half under
+    addCrate(1, 2, 1, 4.0); // Denser than the water
+
+    for (0..600) |_| engine.update(DT);
+
+    try testing.expectApproxEqAbs(@as(f32, 0), engine.get_entity_position_y(0), 0.05);
+    try testing.expectApproxEqAbs(@as(f32, 0), engine.get_entity_velocity_y(0), 0.05);
+    try testing.expectApproxEqAbs(@as(f32, -1.5), engine.get_entity_position_y(1), 0.05);
+}
+
+test "a field only pushes the layers in its mask" {
+    engine.init();
+    try addField(0, .DIRECTIONAL, BOX, 0, 0, .{ 4, 2, 2 });
+    engine.set_force_field_strength(0, 6, 1, 0, 0, true, @intFromEnum(engine.ForceFieldFalloff.NONE));
+    engine.set_force_field_layer_mask(0, 1 << 0);
+    addFloatingBall(0, -2, 0, 0);
+    addFloatingBall(1, 2, 0, 0);
+    engine.set_entity_collision_filter(1, 1 << 3, engine.COLLISION_MASK_ALL);
+
+    engine.update(DT);
+
+    try testing.expect(engine.get_entity_velocity_x(0) > 0);
+    try testing.expectEqual(@as(f32, 0), engine.get_entity_velocity_x(1));
+}
+
+test "a field wakes what it reaches when added, and not when it is re-set unchanged" {
+    engine.init();
+    addFloatingBall(0, 0, 0, 0);
+    engine.set_entity_sleeping(0, true);
+
+    try addField(0, .DIRECTIONAL, BOX, 0, 0, .{ 2, 2, 2 });
+    try testing.expect(!engine.get_entity_sleeping(0));
+
+    engine.set_entity_sleeping(0, true);
+    engine.set_force_field_transform(0, 0, 0, 0, 0, 0, 0, 2, 2, 2);
+    try testing.expect(engine.get_entity_sleeping(0));
+    engine.update(DT);
+    try testing.expectEqual(@as(f32, 0), engine.get_entity_velocity_x(0));
+
+    engine.set_force_field_strength(0, 6, 1, 0, 0, true, @intFromEnum(engine.ForceFieldFalloff.NONE));
+    try testing.expect(!engine.get_entity_sleeping(0));
+}
+
+test "removing a field stops its push" {
+    engine.init();
+    try addField(0, .DIRECTIONAL, BOX, 0, 0, .{ 2, 2, 2 });
+    engine.set_force_field_strength(0, 6, 1, 0, 0, true, @intFromEnum(engine.ForceFieldFalloff.NONE));
+    addFloatingBall(0, 0, 0, 0);
+    try testing.expectEqual(@as(u32, 1), engine.get_force_field_count());
+
+    engine.remove_force_field(0);
+    engine.update(DT);
+
+    try testing.expectEqual(@as(u32, 0), engine.get_force_field_count());
+    try testing.expectEqual(@as(f32, 0), engine.get_entity_velocity_x(0));
+}
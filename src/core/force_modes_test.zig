@@ -0,0 +1,83 @@
+// src/core/force_modes_test.zig
+// Force modes: accumulated forces and accelerations act over the next step (forces through
+// the mass, accelerations alike for every mass), impulses and velocity changes act at once
+// whatever the step length, and immovable bodies ignore them all.
+
+const std = @import("std");
+const testing = std.testing;
+const engine = @import("game_engine.zig");
+const bodies = @import("test_bodies.zig");
+
+const DT: f32 = 1.0 / 60.0;
+const DAMPING: f32 = 0.99; // The default per-step damping across gravity
+
+fn addBall(id: u32, x: f32, body_type: u8, mass: f32) void {
+    bodies.add(id, .{ .x = x, .body_type = body_type, .mass = mass, .gravity_scale = 0.0, .restitution = 0.2 });
+}
+
+test "a force acts over the step through the mass; an acceleration moves every mass alike" {
+    engine.init();
+    addBall(0, -3, 0, 1.0);
+    addBall(1, 3, 0, 4.0);
+
+    engine.accumulate_force(0, 6, 0, 0, false);
+    engine.accumulate_force(1, 6, 0, 0, false);
+    try testing.expectEqual(@as(f32, 0), engine.get_entity_velocity_x(0)); // Nothing until the step
+    engine.update(DT);
+    try testing.expectApproxEqAbs(6 * DT * DAMPING, engine.get_entity_velocity_x(0), 1e-4);
+    try testing.expectApproxEqAbs(6 * DT / 4.0 * DAMPING, engine.get_entity_velocity_x(1), 1e-4);
+
+    // Accumulated forces are cleared by the step they act over
+    engine.update(DT);
+    try testing.expectApproxEqAbs(6 * DT * DAMPING * DAMPING, engine.get_entity_velocity_x(0), 1e-4);
+
+    engine.accumulate_force(0, 0, 0, 3, true);
+    engine.accumulate_force(1, 0, 0, 3, true);
+    engine.update(DT);
+    try testing.expectApproxEqAbs(3 * DT * DAMPING, engine.get_entity_velocity_z(0), 1e-4);
+    try testing.expectApproxEqAbs(3 * DT * DAMPING, engine.get_entity_velocity_z(1), 1e-4);
+}
+
+test "an impulse changes velocity through the mass at once, a velocity change ignores it" {
+    engine.init();
+    addBall(0, -3, 0, 1.0);
+    addBall(1, 3, 0, 4.0);
+
+    engine.apply_impulse(0, 0, 0, 8);
+    engine.apply_impulse(1, 0, 0, 8);
+    try testing.expectApproxEqAbs(@as(f32, 8), engine.get_entity_velocity_z(0), 1e-4);
+    try testing.expectApproxEqAbs(@as(f32, 2), engine.get_entity_velocity_z(1), 1e-4);
+
+    engine.apply_force(0, 0, 0, -8);
+    engine.apply_force(1, 0, 0, -8);
+    try testing.expectApproxEqAbs(@as(f32, 0), engine.get_entity_velocity_z(0), 1e-4);
+    try testing.expectApproxEqAbs(@as(f32, -6), engine.get_entity_velocity_z(1), 1e-4);
+}
+
+test "an impulse wakes a sleeping body" {
+    engine.init();
+    addBall(0, 0, 0, 1.0);
+    engine.set_entity_sleeping(0, true);
+
+    engine.apply_impulse(0, 2, 0, 0);
+
+    try testing.expect(!engine.get_entity_sleeping(0));
+    try testing.expectApproxEqAbs(@as(f32, 2), engine.get_entity_velocity_x(0), 1e-4);
+}
+
+test "immovable bodies ignore forces, accelerations and impulses" {
+    engine.init();
+    addBall(0, -3, 1, 1.0); // KINEMATIC
+    addBall(1, 3, 2, 1.0); // STATIC
+
+    for ([_]u32{ 0, 1 }) |id| {
+        engine.accumulate_force(id, 5, 0, 0, false);
+        engine.accumulate_force(id, 5, 0, 0, true);
+        engine.apply_impulse(id, 5, 0, 0);
+    }
+    engine.update(DT);
+
+    try testing.expectEqual(@as(f32, 0), engine.get_entity_velocity_x(0));
+    try testing.expectEqual(@as(f32, 0), engine.get_entity_velocity_x(1));
+    try testing.expectEqual(@as(f32, -3), engine.get_entity_position_x(0));
+}
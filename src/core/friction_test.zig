@@ -0,0 +1,157 @@
+// src/core/friction_test.zig
+// Physics materials: combine-mode priority, Coulomb friction (sticking vs sliding),
+// per-body restitution, combine modes set through add_entity flags, and swapping a
+// body's material at runtime.
+
+const std = @import("std");
+const testing = std.testing;
+const core = @import("game_core.zig");
+const engine = @import("game_engine.zig");
+const bodies = @import("test_bodies.zig");
+
+const DT: f32 = 1.0 / 60.0;
+
+const Material = struct { static_friction: f32, dynamic_friction: f32, restitution: f32, flags: u32 = 0 };
+const DEFAULT = Material{ .static_friction = 0.6, .dynamic_friction = 0.6, .restitution = 0.6 };
+const ICE = Material{ .static_friction = 0.0, .dynamic_friction = 0.0, .restitution = 0.6 };
+
+fn combineFlags(friction_combine: core.CombineMode, restitution_combine: core.CombineMode) u32 {
+    return (@as(u32, @intFromEnum(friction_combine)) << engine.ENTITY_FLAG_FRICTION_COMBINE_SHIFT) |
+        (@as(u32, @intFromEnum(restitution_combine)) << engine.ENTITY_FLAG_RESTITUTION_COMBINE_SHIFT);
+}
+
+fn addFloor(id: u32, material: Material) void {
+    bodies.add(id, .{ .y = -1, .mesh = 1, .body_type = bodies.STATIC, .gravity_scale = 0.0, .radius = 1, .flags = material.flags, .static_friction = material.static_friction, .dynamic_friction = material.dynamic_friction, .restitution = material.restitution });
+    engine.set_entity_collision_shape(id, 1, 7, 1, 4); // Top at y = 0
+}
+
+fn addBox(id: u32, x: f32, material: Material) void {
+    bodies.add(id, .{ .x = x, .y = 0.5, .mesh = 1, .flags = material.flags, .static_friction = material.static_friction, .dynamic_friction = material.dynamic_friction, .restitution = material.restitution });
+    engine.set_entity_collision_shape(id, 1, 0.5, 0.5, 0.5);
+}
+
+fn addSphere(id: u32, x: f32, y: f32, material: Material) void {
+    bodies.add(id, .{ .x = x, .y = y, .mesh = 2, .flags = material.flags, .static_friction = material.static_friction, .dynamic_friction = material.dynamic_friction, .restitution = material.restitution });
+    engine.set_entity_collision_shape(id, 0, 0.5, 0.5, 0.5);
+}
+
+fn slideBox(floor: Material, box: Material, speed: f32, steps: u32) f32 {
+    engine.init();
+    addFloor(0, floor);
+    addBox(1, -5, box);
+    engine.set_entity_velocity(1, speed, 0, 0);
+    for (0..steps) |_| engine.update(DT);
+    return engine.get_entity_velocity_x(1);
+}
+
+// Speed a body launched at `speed` keeps after `steps` of damping alone
+fn dampedSpeed(speed: f32, steps: u32) f32 {
+    return speed * std.math.pow(f32, 0.99, @floatFromInt(steps));
+}
+
+// Highest point a sphere dropped onto the floor reaches after its first bounce
+fn bounceHeight(floor: Material, sphere: Material) f32 {
+    engine.init();
+    addFloor(0, floor);
+    addSphere(1, 0, 3, sphere);
+
+    var bounced = false;
+    var peak: f32 = 0;
+    for (0..120) |_| {
+        engine.update(DT);
+        const vy = engine.get_entity_velocity_y(1);
+        if (vy > 0) bounced = true;
+        if (bounced) peak = @max(peak, engine.get_entity_position_y(1));
+    }
+    return peak;
+}
+
+test "combine modes: the higher-priority mode of the pair wins" {
+    try testing.expectApproxEqAbs(@as(f32, 0.5), core.combineCoefficients(0.2, .AVERAGE, 0.8, .AVERAGE), 0.0001);
+    try testing.expectApproxEqAbs(@as(f32, 0.2), core.combineCoefficients(0.2, .MINIMUM, 0.8, .AVERAGE), 0.0001);
+    try testing.expectApproxEqAbs(@as(f32, 0.16), core.combineCoefficients(0.2, .MINIMUM, 0.8, .MULTIPLY), 0.0001);
+    try testing.expectApproxEqAbs(@as(f32, 0.8), core.combineCoefficients(0.2, .MULTIPLY, 0.8, .MAXIMUM), 0.0001);
+}
+
+test "friction sticks below the static limit and slides above it" {
+    var v1 = core.Vec3{ .x = 1, .y = 0, .z = 0 };
+    var w1 = core.Vec3{ .x = 0, .y = 0, .z = 0 };
+    var v2 = core.Vec3{ .x = 0, .y = 0, .z = 0 };
+    var w2 = core.Vec3{ .x = 0, .y = 0, .z = 0 };
+    const zero = core.Vec3{ .x = 0, .y = 0, .z = 0 };
+    const up = core.Vec3{ .x = 0, .y = 1, .z = 0 };
+    const body = core.FrictionBody{ .velocity = &v1, .angular_velocity = &w1, .inv_mass = 1, .inv_inertia = zero, .arm = zero };
+    const ground = core.FrictionBody{ .velocity = &v2, .angular_velocity = &w2, .inv_mass = 0, .inv_inertia = zero, .arm = zero };
+
+    // Stopping takes an impulse of 1: within 0.6·2, so the contact sticks
+    try testing.expectApproxEqAbs(@as(f32, 1), core.resolveFriction(body, ground, up, 2, 0.6, 0.4), 0.0001);
+    try testing.expectApproxEqAbs(@as(f32, 0), v1.x, 0.0001);
+
+    // Beyond 0.6·1 it slides, losing only 0.4·1
+    v1.x = 1;
+    try testing.expectApproxEqAbs(@as(f32, 0.4), core.resolveFriction(body, ground, up, 1, 0.6, 0.4), 0.0001);
+    try testing.expectApproxEqAbs(@as(f32, 0.6), v1.x, 0.0001);
+    try testing.expectEqual(@as(f32, 0), v2.x);
+
+    // No normal impulse, no friction
+    try testing.expectEqual(@as(f32, 0), core.resolveFriction(body, ground, up, 0, 0.6, 0.4));
+}
+
+test "a box slides to a stop on a rough floor and keeps going on ice" {
+    const rough = slideBox(DEFAULT, DEFAULT, 3, 90);
+    try testing.expectApproxEqAbs(@as(f32, 0), rough, 0.01);
+
+    const icy = slideBox(ICE, ICE, 3, 90);
+    try testing.expectApproxEqRel(dampedSpeed(3, 90), icy, 0.01); // Only damping slows it
+}
+
+test "combine modes come through add_entity flags" {
+    // An icy box set to MINIMUM stays slippery on a rough (AVERAGE) floor...
+    var slippery = ICE;
+    slippery.flags = combineFlags(.MINIMUM, .AVERAGE);
+    try testing.expectApproxEqRel(dampedSpeed(3, 30), slideBox(DEFAULT, slippery, 3, 30), 0.01);
+
+    // ...but averages to some grip without it
+    try testing.expect(slideBox(DEFAULT, ICE, 3, 30) < dampedSpeed(3, 30) * 0.9);
+}
+
+test "restitution is per body: a rubber ball bounces higher than a clay one" {
+    var rubber = DEFAULT;
+    rubber.restitution = 0.9;
+    var clay = DEFAULT;
+    clay.restitution = 0.0;
+    var floor = DEFAULT;
+    floor.restitution = 0.9;
+
+    const rubber_peak = bounceHeight(floor, rubber);
+    const clay_peak = bounceHeight(floor, clay);
+    try testing.expect(rubber_peak > 1.5);
+    try testing.expect(clay_peak < rubber_peak);
+}
+
+test "a sphere sliding onto a floor starts rolling through friction" {
+    engine.init();
+    addFloor(0, DEFAULT);
+    addSphere(1, -5, 0.5, DEFAULT);
+    engine.set_entity_velocity(1, 3, 0, 0);
+
+    for (0..30) |_| engine.update(DT);
+
+    // Friction traded some speed for spin: rolling without slipping, ω.z = -vx / r
+    const vx = engine.get_entity_velocity_x(1);
+    try testing.expect(vx < 3.0 * 0.99);
+    try testing.expectApproxEqRel(-vx / 0.5, engine.get_entity_angular_velocity_z(1), 0.1);
+}
+
+test "a floor can be iced over at runtime" {
+    engine.init();
+    addFloor(0, DEFAULT);
+    addBox(1, -5, ICE);
+    for (0..10) |_| engine.update(DT); // Settle onto the floor
+
+    engine.set_entity_physics_material(0, 0, 0, 0.6, @intFromEnum(core.CombineMode.MINIMUM), 0);
+    engine.set_entity_velocity(1, 3, 0, 0);
+    for (0..30) |_| engine.update(DT);
+
+    try testing.expectApproxEqRel(dampedSpeed(3, 30), engine.get_entity_velocity_x(1), 0.01);
+}
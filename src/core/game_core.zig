@@ -70,6 +70,10 @@ pub const CollisionShape = enum(u8) {
     SPHERE = 0,
     BOX = 1,
     PLANE = 2, // Future implementation
+    CAPSULE = 3, // Upright (along Y); extents = (radius, half-height incl. caps, radius)
+    CYLINDER = 4, // Upright (along Y); extents = (radius, half-height, radius)
+    HULL = 5, // Convex point set (see "Convex hulls"); extents = half-size of the box holding it
+    COMPOUND = 6, // Several shapes on one body (see the engine's "Compound colliders"); extents = half-size of the box holding them
 };
 
 pub const CollisionAxis = enum(u8) {
@@ -230,6 +234,73 @@ pub fn createRotationMatrix(rotation: Vec3) Mat4 {
     };
 }
 
+// Rotate a body-frame vector into world space by Euler angles (radians): R·v
+pub fn rotateVector(rotation: Vec3, v: Vec3) Vec3 {
+    const m = createRotationMatrix(rotation).data; // Column-major: (row i, col j) at j * 4 + i
+    return .{
+        .x = m[0] * v.x + m[4] * v.y + m[8] * v.z,
+        .y = m[1] * v.x + m[5] * v.y + m[9] * v.z,
+        .z = m[2] * v.x + m[6] * v.y + m[10] * v.z,
+    };
+}
+
+// World-space vector into the body frame: Rᵀ·v
+pub fn inverseRotateVector(rotation: Vec3, v: Vec3) Vec3 {
+    const m = createRotationMatrix(rotation).data;
+    return .{
+        .x = m[0] * v.x + m[1] * v.y + m[2] * v.z,
+        .y = m[4] * v.x + m[5] * v.y + m[6] * v.z,
+        .z = m[8] * v.x + m[9] * v.y + m[10] * v.z,
+    };
+}
+
+// Advance Euler angles (radians, createRotationMatrix convention) by a world-space angular
+// velocity over dt: R' = ΔR·R with ΔR the axis-angle rotation of ω·dt (Rodrigues), then
+// decomposed back into Euler angles.
+pub fn integrateRotation(rotation: Vec3, angular_velocity: Vec3, dt: f32) Vec3 {
+    const angle = magnitude(angular_velocity) * dt;
+    if (angle == 0.0) return rotation;
+
+    const axis = normalize(angular_velocity);
+    const c = @cos(angle);
+    const s = @sin(angle);
+    const t = 1.0 - c;
+    const delta = [3][3]f32{ // [row][col]
+        .{ t * axis.x * axis.x + c, t * axis.x * axis.y - s * axis.z, t * axis.x * axis.z + s * axis.y },
+        .{ t * axis.x * axis.y + s * axis.z, t * axis.y * axis.y + c, t * axis.y * axis.z - s * axis.x },
+        .{ t * axis.x * axis.z - s * axis.y, t * axis.y * axis.z + s * axis.x, t * axis.z * axis.z + c },
+    };
+
+    const r = createRotationMatrix(rotation).data; // Column-major: (row i, col j) at j * 4 + i
+    var m: [3][3]f32 = undefined;
+    for (0..3) |i| {
+        for (0..3) |j| {
+            m[i][j] = delta[i][0] * r[j * 4] + delta[i][1] * r[j * 4 + 1] + delta[i][2] * r[j * 4 + 2];
+        }
+    }
+    return eulerFromRotation(m);
+}
+
+// Inverse of createRotationMatrix for a 3x3 rotation given as [row][col]
+fn eulerFromRotation(m: [3][3]f32) Vec3 {
+    const sin_y = -m[2][0];
+    const y = std.math.asin(@max(-1.0, @min(1.0, sin_y)));
+    if (@abs(sin_y) < 0.9999) {
+        return .{ .x = atan2(m[2][1], m[2][2]), .y = y, .z = atan2(m[1][0], m[0][0]) };
+    }
+    // Gimbal lock (y = ±90°): only x ∓ z is determined; put it all on x
+    return .{ .x = atan2(sin_y * m[0][1], m[1][1]), .y = y, .z = 0 };
+}
+
+pub fn atan2(y: f32, x: f32) f32 {
+    if (x > 0) return std.math.atan(y / x);
+    const pi: f32 = std.math.pi;
+    if (x < 0) return std.math.atan(y / x) + (if (y >= 0) pi else -pi);
+    if (y > 0) return std.math.pi / 2.0;
+    if (y < 0) return -std.math.pi / 2.0;
+    return 0;
+}
+
 // Matrix functions
 pub fn createLookAt(eye: Vec3, center: Vec3, up: Vec3) Mat4 {
     const f = normalize(Vec3{
@@ -750,6 +821,628 @@ pub fn checkSphereBoxCollision(sphere_pos: Vec3, radius: f32, box_pos: Vec3, box
     return null; // No collision
 }
 
+// -----------------------------------------------------------------------------
+// Oriented boxes
+// -----------------------------------------------------------------------------
+// A box turned by its body's rotation (Euler radians, createRotationMatrix convention).
+// Two of them are tested with the separating axis theorem: they overlap unless their
+// projections part along one of 15 axes (the 3 face normals of each, and the cross
+// products of an edge of one with an edge of the other), and the axis along which they
+// overlap least is the way out. A sphere is tested in the box's own frame, where the box
+// is axis-aligned. Unturned, both give the same normal and depth as the AABB tests.
+
+// An edge-edge axis must be this much shallower than the best face axis to win, so a box
+// resting on a face is not flipped onto an edge by rounding
+const SAT_EDGE_BIAS: f32 = 0.95;
+// Edges this close to parallel (sine of the angle) have no cross product axis to test
+const SAT_PARALLEL: f32 = 1e-3;
+
+/// World-space face normals of a box turned by `rotation`
+pub fn boxAxes(rotation: Vec3) [3]Vec3 {
+    return .{
+        rotateVector(rotation, .{ .x = 1, .y = 0, .z = 0 }),
+        rotateVector(rotation, .{ .x = 0, .y = 1, .z = 0 }),
+        rotateVector(rotation, .{ .x = 0, .y = 0, .z = 1 }),
+    };
+}
+
+// Half-length of a turned box's shadow on `axis`
+fn boxReach(axes: [3]Vec3, extents: Vec3, axis: Vec3) f32 {
+    return @abs(dot(axes[0], axis)) * extents.x + @abs(dot(axes[1], axis)) * extents.y + @abs(dot(axes[2], axis)) * extents.z;
+}
+
+/// Two turned boxes (Object1 POV: the normal pushes box 1 away from box 2). The contact
+/// point is the middle of the face, edge or corner of one box reaching into a face of the
+/// other (for an edge-edge contact, halfway between the two edges).
+pub fn checkOrientedBoxCollision(pos1: Vec3, rotation1: Vec3, extents1: Vec3, pos2: Vec3, rotation2: Vec3, extents2: Vec3) ?CollisionInfo {
+    const axes1 = boxAxes(rotation1);
+    const axes2 = boxAxes(rotation2);
+    const delta = vec3_subtract(pos2, pos1);
+
+    var candidates: [15]Vec3 = undefined;
+    for (0..3) |i| {
+        candidates[i] = axes1[i];
+        candidates[3 + i] = axes2[i];
+        for (0..3) |j| candidates[6 + 3 * i + j] = cross(axes1[i], axes2[j]);
+    }
+
+    const Reference = enum { face1, face2, edges };
+    var best_depth = std.math.inf(f32);
+    var best_axis = axes1[0];
+    var best_reference = Reference.face1;
+    for (candidates, 0..) |candidate, k| {
+        const reference: Reference = if (k < 3) .face1 else if (k < 6) .face2 else .edges;
+        var axis = candidate;
+        if (reference == .edges) {
+            const length = magnitude(axis);
+            if (length < SAT_PARALLEL) continue;
+            axis = vec3_scale(axis, 1.0 / length);
+        }
+        const depth = boxReach(axes1, extents1, axis) + boxReach(axes2, extents2, axis) - @abs(dot(delta, axis));
+        if (depth < 0) return null; // A separating axis
+
+        const wins = if (reference == .edges) depth < best_depth * SAT_EDGE_BIAS else depth < best_depth;
+        if (wins) {
+            best_depth = depth;
+            best_axis = axis;
+            best_reference = reference;
+        }
+    }
+
+    const normal = if (dot(delta, best_axis) > 0) vec3_negate(best_axis) else best_axis;
+    const box1 = ConvexCollider{ .shape = .BOX, .position = pos1, .extents = extents1, .rotation = rotation1 };
+    const box2 = ConvexCollider{ .shape = .BOX, .position = pos2, .extents = extents2, .rotation = rotation2 };
+    const contact_point = switch (best_reference) {
+        .face1 => box2.supportFeature(normal), // Box 2's part reaching into box 1's face
+        .face2 => box1.supportFeature(vec3_negate(normal)),
+        .edges => vec3_scale(vec3_add(box1.supportFeature(vec3_negate(normal)), box2.supportFeature(normal)), 0.5),
+    };
+    return CollisionInfo{
+        .has_collision = true,
+        .penetration_depth = best_depth,
+        .contact_normal = normal,
+        .contact_point = contact_point,
+    };
+}
+
+/// Sphere vs turned box (normal pushes the sphere away from the box)
+pub fn checkSphereOrientedBoxCollision(sphere_pos: Vec3, radius: f32, box_pos: Vec3, box_rotation: Vec3, box_extents: Vec3) ?CollisionInfo {
+    const local = inverseRotateVector(box_rotation, vec3_subtract(sphere_pos, box_pos));
+    const info = checkSphereBoxCollision(local, radius, .{ .x = 0, .y = 0, .z = 0 }, box_extents) orelse return null;
+    return CollisionInfo{
+        .has_collision = true,
+        .penetration_depth = info.penetration_depth,
+        .contact_normal = rotateVector(box_rotation, info.contact_normal),
+        .contact_point = vec3_add(box_pos, rotateVector(box_rotation, info.contact_point)),
+    };
+}
+
+// -----------------------------------------------------------------------------
+// Capsules and cylinders
+// -----------------------------------------------------------------------------
+// Both stand upright (along Y), as colliders other than boxes are axis-aligned, with extents
+// (radius, half-height, radius). A capsule's half-height reaches the tips of its
+// caps, so it is the vertical segment of half-length (half-height - radius) grown
+// by the radius. A capsule pair is reduced to a sphere at the point of its segment
+// nearest the other shape; cylinders and boxes are both prisms along Y, so they
+// overlap exactly where their height spans and their cross-sections (discs,
+// rectangles) do, and the shallower of the two overlaps is the way out.
+
+// Half-length of a capsule's core segment
+fn capsuleHalfSegment(extents: Vec3) f32 {
+    return @max(extents.y - extents.x, 0);
+}
+
+/// Point of an upright capsule's core segment nearest the height span [lo, hi]
+/// (the middle of their overlap, or the segment end facing the span)
+pub fn capsuleCorePoint(pos: Vec3, extents: Vec3, lo: f32, hi: f32) Vec3 {
+    const half_segment = capsuleHalfSegment(extents);
+    const overlap_lo = @max(lo, pos.y - half_segment);
+    const overlap_hi = @min(hi, pos.y + half_segment);
+    const y = if (overlap_lo <= overlap_hi) (overlap_lo + overlap_hi) * 0.5 else if (hi < pos.y) pos.y - half_segment else pos.y + half_segment;
+    return .{ .x = pos.x, .y = y, .z = pos.z };
+}
+
+// Height span a shape covers (a capsule: its core segment, which is what capsules test against)
+fn heightSpan(pos: Vec3, shape: CollisionShape, extents: Vec3) [2]f32 {
+    const half = switch (shape) {
+        .SPHERE, .PLANE => 0,
+        .BOX, .CYLINDER, .HULL, .COMPOUND => extents.y,
+        .CAPSULE => capsuleHalfSegment(extents),
+    };
+    return .{ pos.y - half, pos.y + half };
+}
+
+// Sphere vs sphere in the Object1 POV convention (normal pushes sphere 1 away)
+fn sphereSphereInfo(pos1: Vec3, radius1: f32, pos2: Vec3, radius2: f32) ?CollisionInfo {
+    const delta = vec3_subtract(pos1, pos2);
+    const dist = magnitude(delta);
+    if (dist > radius1 + radius2) return null;
+    const normal = if (dist > 0) vec3_scale(delta, 1.0 / dist) else Vec3{ .x = 0, .y = 1, .z = 0 };
+    return CollisionInfo{
+        .has_collision = true,
+        .penetration_depth = radius1 + radius2 - dist,
+        .contact_normal = normal,
+        .contact_point = vec3_subtract(pos1, vec3_scale(normal, radius1)),
+    };
+}
+
+// The same contact seen from the other body
+fn flipped(info: ?CollisionInfo) ?CollisionInfo {
+    var result = info orelse return null;
+    result.contact_normal = vec3_negate(result.contact_normal);
+    return result;
+}
+
+/// Nearest point of an upright cylinder to `point` (the point itself when inside)
+pub fn closestPointOnCylinder(point: Vec3, cyl_pos: Vec3, cyl_extents: Vec3) Vec3 {
+    const dx = point.x - cyl_pos.x;
+    const dz = point.z - cyl_pos.z;
+    const radial = @sqrt(dx * dx + dz * dz);
+    const radial_scale = if (radial > cyl_extents.x) cyl_extents.x / radial else 1.0;
+    return .{
+        .x = cyl_pos.x + dx * radial_scale,
+        .y = std.math.clamp(point.y, cyl_pos.y - cyl_extents.y, cyl_pos.y + cyl_extents.y),
+        .z = cyl_pos.z + dz * radial_scale,
+    };
+}
+
+/// Sphere vs upright cylinder (normal pushes the sphere out)
+pub fn checkSphereCylinderCollision(sphere_pos: Vec3, radius: f32, cyl_pos: Vec3, cyl_extents: Vec3) ?CollisionInfo {
+    const closest = closestPointOnCylinder(sphere_pos, cyl_pos, cyl_extents);
+    const offset = vec3_subtract(sphere_pos, closest);
+    const distance_squared = dot(offset, offset);
+    if (distance_squared > radius * radius) return null;
+
+    if (distance_squared > 0) {
+        const dist = @sqrt(distance_squared);
+        const normal = vec3_scale(offset, 1.0 / dist);
+        return CollisionInfo{
+            .has_collision = true,
+            .penetration_depth = radius - dist,
+            .contact_normal = normal,
+            .contact_point = vec3_subtract(sphere_pos, vec3_scale(normal, radius)),
+        };
+    }
+
+    // Center inside: out through the nearer of the side and the caps
+    const dx = sphere_pos.x - cyl_pos.x;
+    const dy = sphere_pos.y - cyl_pos.y;
+    const dz = sphere_pos.z - cyl_pos.z;
+    const radial = @sqrt(dx * dx + dz * dz);
+    const side_depth = cyl_extents.x - radial;
+    const cap_depth = cyl_extents.y - @abs(dy);
+    const normal = if (cap_depth < side_depth)
+        Vec3{ .x = 0, .y = if (dy >= 0) 1 else -1, .z = 0 }
+    else if (radial > 0)
+        Vec3{ .x = dx / radial, .y = 0, .z = dz / radial }
+    else
+        Vec3{ .x = 1, .y = 0, .z = 0 };
+    return CollisionInfo{
+        .has_collision = true,
+        .penetration_depth = radius + @min(cap_depth, side_depth),
+        .contact_normal = normal,
+        .contact_point = vec3_subtract(sphere_pos, vec3_scale(normal, radius)),
+    };
+}
+
+/// Upright capsule vs any shape (normal pushes the capsule away)
+pub fn checkCapsuleCollision(pos1: Vec3, extents1: Vec3, pos2: Vec3, shape2: CollisionShape, extents2: Vec3) ?CollisionInfo {
+    const span = heightSpan(pos2, shape2, extents2);
+    const core = capsuleCorePoint(pos1, extents1, span[0], span[1]);
+    return switch (shape2) {
+        .SPHERE => sphereSphereInfo(core, extents1.x, pos2, extents2.x),
+        .BOX => checkSphereBoxCollision(core, extents1.x, pos2, extents2),
+        .CYLINDER => checkSphereCylinderCollision(core, extents1.x, pos2, extents2),
+        .CAPSULE => {
+            const own_span = heightSpan(pos1, .CAPSULE, extents1);
+            return sphereSphereInfo(core, extents1.x, capsuleCorePoint(pos2, extents2, own_span[0], own_span[1]), extents2.x);
+        },
+        .PLANE => null, // Future implementation
+        .HULL => null, // Needs the hull's points: see checkConvexCollision
+        .COMPOUND => null, // Tested part by part by the engine
+    };
+}
+
+/// Upright cylinder vs box or cylinder (normal pushes the cylinder away)
+pub fn checkCylinderCollision(pos1: Vec3, extents1: Vec3, pos2: Vec3, shape2: CollisionShape, extents2: Vec3) ?CollisionInfo {
+    const dy = pos1.y - pos2.y;
+    const height_depth = extents1.y + extents2.y - @abs(dy);
+    if (height_depth < 0) return null;
+
+    // Cross-sections: the cylinder's disc vs a rectangle (box) or another disc
+    var side_depth: f32 = undefined;
+    var side_x: f32 = 1;
+    var side_z: f32 = 0;
+    const dx = pos1.x - pos2.x;
+    const dz = pos1.z - pos2.z;
+    switch (shape2) {
+        .BOX => {
+            const ox = dx - std.math.clamp(dx, -extents2.x, extents2.x);
+            const oz = dz - std.math.clamp(dz, -extents2.z, extents2.z);
+            const outside = @sqrt(ox * ox + oz * oz);
+            if (outside > 0) {
+                if (outside > extents1.x) return null;
+                side_depth = extents1.x - outside;
+                side_x = ox / outside;
+                side_z = oz / outside;
+            } else {
+                // Center over the rectangle: out through its nearest edge
+                const depth_x = extents2.x - @abs(dx);
+                const depth_z = extents2.z - @abs(dz);
+                if (depth_x < depth_z) {
+                    side_depth = depth_x + extents1.x;
+                    side_x = if (dx >= 0) 1 else -1;
+                } else {
+                    side_depth = depth_z + extents1.x;
+                    side_x = 0;
+                    side_z = if (dz >= 0) 1 else -1;
+                }
+            }
+        },
+        .CYLINDER => {
+            const apart = @sqrt(dx * dx + dz * dz);
+            if (apart > extents1.x + extents2.x) return null;
+            side_depth = extents1.x + extents2.x - apart;
+            if (apart > 0) {
+                side_x = dx / apart;
+                side_z = dz / apart;
+            }
+        },
+        else => return checkCollision(pos1, .CYLINDER, extents1, pos2, shape2, extents2),
+    }
+
+    if (height_depth < side_depth) {
+        const up: f32 = if (dy >= 0) 1 else -1;
+        return CollisionInfo{
+            .has_collision = true,
+            .penetration_depth = height_depth,
+            .contact_normal = .{ .x = 0, .y = up, .z = 0 },
+            .contact_point = .{ .x = pos1.x, .y = pos1.y - up * extents1.y, .z = pos1.z },
+        };
+    }
+    const mid_y = (@max(pos1.y - extents1.y, pos2.y - extents2.y) + @min(pos1.y + extents1.y, pos2.y + extents2.y)) * 0.5;
+    return CollisionInfo{
+        .has_collision = true,
+        .penetration_depth = side_depth,
+        .contact_normal = .{ .x = side_x, .y = 0, .z = side_z },
+        .contact_point = .{ .x = pos1.x - side_x * extents1.x, .y = mid_y, .z = pos1.z - side_z * extents1.x },
+    };
+}
+
+// -----------------------------------------------------------------------------
+// Convex hulls (GJK / EPA)
+// -----------------------------------------------------------------------------
+// A HULL collider is a point set (the vertices of a convex mesh, in the body's frame)
+// registered once with the engine and shared by every body using it. Like every collider
+// but a box it is axis-aligned: the body's position moves it and its scale stretches it,
+// its rotation does not turn it. Its extents are the half-size of the box around the
+// body's origin that holds it (broadphase, inertia, bounds, casts).
+//
+// Hull pairs (a hull against a sphere, box, capsule, cylinder or another hull) are tested
+// through support functions alone: GJK decides whether the Minkowski difference A - B
+// contains the origin and, if it does, EPA grows its final simplex towards the face of
+// A - B nearest the origin, which gives the penetration depth and the way out.
+
+const GJK_MAX_ITERATIONS: u32 = 64;
+const EPA_MAX_ITERATIONS: u32 = 64;
+const EPA_MAX_POINTS: u32 = EPA_MAX_ITERATIONS + 4;
+const EPA_MAX_FACES: u32 = 2 * EPA_MAX_POINTS; // A closed triangle mesh has 2V - 4 faces
+const EPA_TOLERANCE: f32 = 1e-4; // m: stop once a new support point gains less than this
+const FEATURE_TOLERANCE: f32 = 1e-3; // Directions/points this close count as the same feature
+
+/// A convex collider as GJK/EPA see it: whatever its shape, only its support function
+pub const ConvexCollider = struct {
+    shape: CollisionShape,
+    position: Vec3,
+    extents: Vec3,
+    points: []const Vec3 = &.{}, // HULL: its points in the body frame, before scaling
+    scale: Vec3 = .{ .x = 1, .y = 1, .z = 1 }, // HULL: per-axis stretch of the points
+    rotation: Vec3 = .{ .x = 0, .y = 0, .z = 0 }, // BOX: turns it (Euler radians)
+    margin: f32 = 0, // Grown by this much all round (the contact skin)
+
+    /// Farthest point of the collider along `direction`
+    pub fn support(self: ConvexCollider, direction: Vec3) Vec3 {
+        return self.farthest(direction, 0);
+    }
+
+    /// Middle of the face, edge or vertex farthest along `direction` (where a contact
+    /// pushing the other way sits; a corner when no face or edge lines up with it)
+    pub fn supportFeature(self: ConvexCollider, direction: Vec3) Vec3 {
+        return self.farthest(direction, FEATURE_TOLERANCE);
+    }
+
+    fn farthest(self: ConvexCollider, direction: Vec3, tolerance: f32) Vec3 {
+        const unit = normalize(direction);
+        const point = switch (self.shape) {
+            .SPHERE => vec3_scale(unit, self.extents.x),
+            .BOX => blk: {
+                const local = inverseRotateVector(self.rotation, unit);
+                const corner = Vec3{ .x = featureSign(local.x, tolerance) * self.extents.x, .y = featureSign(local.y, tolerance) * self.extents.y, .z = featureSign(local.z, tolerance) * self.extents.z };
+                break :blk rotateVector(self.rotation, corner);
+            },
+            .CAPSULE => vec3_add(.{ .x = 0, .y = featureSign(unit.y, tolerance) * capsuleHalfSegment(self.extents), .z = 0 }, vec3_scale(unit, self.extents.x)),
+            .CYLINDER => blk: {
+                const radial = @sqrt(unit.x * unit.x + unit.z * unit.z);
+                const rim = if (radial > tolerance) self.extents.x / radial else 0;
+                break :blk Vec3{ .x = unit.x * rim, .y = featureSign(unit.y, tolerance) * self.extents.y, .z = unit.z * rim };
+            },
+            .HULL => hullFeature(self.points, self.scale, unit, tolerance),
+            .PLANE, .COMPOUND => Vec3{ .x = 0, .y = 0, .z = 0 }, // Never handed to GJK (unbounded, or split into parts)
+        };
+        return vec3_add(self.position, vec3_add(point, vec3_scale(unit, self.margin)));
+    }
+};
+
+// +1/-1 by the sign of a direction component; 0 when it is within `tolerance` of 0 (the
+// middle of a face or edge). Support points (tolerance 0) break ties towards +1.
+fn featureSign(component: f32, tolerance: f32) f32 {
+    if (tolerance > 0 and @abs(component) <= tolerance) return 0;
+    return if (component >= 0) 1 else -1;
+}
+
+// Farthest scaled hull point along `direction`, or the middle of the points within
+// `tolerance` of it
+fn hullFeature(points: []const Vec3, stretch: Vec3, direction: Vec3, tolerance: f32) Vec3 {
+    if (points.len == 0) return .{ .x = 0, .y = 0, .z = 0 };
+    const stretched = Vec3{ .x = direction.x * stretch.x, .y = direction.y * stretch.y, .z = direction.z * stretch.z };
+    var best = dot(points[0], stretched);
+    var best_index: usize = 0;
+    for (points[1..], 1..) |point, i| {
+        const reach = dot(point, stretched);
+        if (reach > best) {
+            best = reach;
+            best_index = i;
+        }
+    }
+
+    var sum = points[best_index];
+    var count: f32 = 1;
+    if (tolerance > 0) {
+        sum = .{ .x = 0, .y = 0, .z = 0 };
+        count = 0;
+        for (points) |point| {
+            if (dot(point, stretched) >= best - tolerance) {
+                sum = vec3_add(sum, point);
+                count += 1;
+            }
+        }
+    }
+    return .{ .x = sum.x / count * stretch.x, .y = sum.y / count * stretch.y, .z = sum.z / count * stretch.z };
+}
+
+/// Half-size of the box around the origin that holds every point (a hull's extents)
+pub fn hullExtents(points: []const Vec3) Vec3 {
+    var half = Vec3{ .x = 0, .y = 0, .z = 0 };
+    for (points) |point| half = vec3_max(half, vec3_abs(point));
+    return half;
+}
+
+// Point of the Minkowski difference A - B farthest along `direction`
+fn minkowskiSupport(a: ConvexCollider, b: ConvexCollider, direction: Vec3) Vec3 {
+    return vec3_subtract(a.support(direction), b.support(vec3_negate(direction)));
+}
+
+// GJK simplex: points[count - 1] is the newest
+const Simplex = struct {
+    points: [4]Vec3 = undefined,
+    count: usize = 0,
+
+    fn set(self: *Simplex, points: []const Vec3) void {
+        for (points, 0..) |point, i| self.points[i] = point;
+        self.count = points.len;
+    }
+};
+
+// Does A - B contain the origin? On success `simplex` is a tetrahedron around it.
+fn gjkIntersect(a: ConvexCollider, b: ConvexCollider, simplex: *Simplex) bool {
+    var direction = vec3_subtract(a.position, b.position);
+    if (dot(direction, direction) == 0) direction = .{ .x = 1, .y = 0, .z = 0 };
+
+    const first = minkowskiSupport(a, b, direction);
+    simplex.set(&.{first});
+    direction = vec3_negate(first);
+
+    for (0..GJK_MAX_ITERATIONS) |_| {
+        if (dot(direction, direction) == 0) return false; // Origin on the boundary: touching
+        const point = minkowskiSupport(a, b, direction);
+        if (dot(point, direction) < 0) return false; // Could not reach past the origin
+        simplex.points[simplex.count] = point;
+        simplex.count += 1;
+        if (nextSimplex(simplex, &direction)) return true;
+    }
+    return false;
+}
+
+// Keep the feature of the simplex nearest the origin and aim at the origin from it;
+// true once a tetrahedron encloses the origin
+fn nextSimplex(simplex: *Simplex, direction: *Vec3) bool {
+    switch (simplex.count) {
+        2 => lineCase(simplex, direction),
+        3 => triangleCase(simplex, direction),
+        else => return tetrahedronCase(simplex, direction),
+    }
+    return false;
+}
+
+fn lineCase(simplex: *Simplex, direction: *Vec3) void {
+    const a = simplex.points[1];
+    const b = simplex.points[0];
+    const ab = vec3_subtract(b, a);
+    const ao = vec3_negate(a);
+    if (dot(ab, ao) > 0) {
+        direction.* = cross(cross(ab, ao), ab);
+        // Origin on the line itself: any direction off it
+        if (dot(direction.*, direction.*) < 1e-12) direction.* = perpendicular(ab);
+    } else {
+        simplex.set(&.{a});
+        direction.* = ao;
+    }
+}
+
+fn triangleCase(simplex: *Simplex, direction: *Vec3) void {
+    const a = simplex.points[2];
+    const b = simplex.points[1];
+    const c = simplex.points[0];
+    const ab = vec3_subtract(b, a);
+    const ac = vec3_subtract(c, a);
+    const ao = vec3_negate(a);
+    const abc = cross(ab, ac);
+
+    if (dot(cross(abc, ac), ao) > 0) {
+        if (dot(ac, ao) > 0) {
+            simplex.set(&.{ c, a });
+            direction.* = cross(cross(ac, ao), ac);
+            return;
+        }
+        simplex.set(&.{ b, a });
+        return lineCase(simplex, direction);
+    }
+    if (dot(cross(ab, abc), ao) > 0) {
+        simplex.set(&.{ b, a });
+        return lineCase(simplex, direction);
+    }
+    // Above or below the triangle: store it so cross(b - a, c - a) faces the origin
+    if (dot(abc, ao) > 0) {
+        simplex.set(&.{ c, b, a });
+        direction.* = abc;
+    } else {
+        simplex.set(&.{ b, c, a });
+        direction.* = vec3_negate(abc);
+    }
+}
+
+fn tetrahedronCase(simplex: *Simplex, direction: *Vec3) bool {
+    const a = simplex.points[3];
+    const ao = vec3_negate(a);
+    // The three faces through the newest point, each with the vertex it leaves out
+    const faces = [3][3]Vec3{
+        .{ simplex.points[2], simplex.points[1], simplex.points[0] },
+        .{ simplex.points[1], simplex.points[0], simplex.points[2] },
+        .{ simplex.points[0], simplex.points[2], simplex.points[1] },
+    };
+    for (faces) |face| {
+        var normal = cross(vec3_subtract(face[0], a), vec3_subtract(face[1], a));
+        if (dot(normal, vec3_subtract(face[2], a)) > 0) normal = vec3_negate(normal);
+        if (dot(normal, ao) > 0) {
+            simplex.set(&.{ face[1], face[0], a });
+            triangleCase(simplex, direction);
+            return false;
+        }
+    }
+    return true;
+}
+
+fn perpendicular(v: Vec3) Vec3 {
+    const axis = if (@abs(v.x) < 0.5 * magnitude(v)) Vec3{ .x = 1, .y = 0, .z = 0 } else Vec3{ .x = 0, .y = 1, .z = 0 };
+    return cross(v, axis);
+}
+
+const EpaFace = struct {
+    indices: [3]u8,
+    normal: Vec3, // Unit, pointing out of the polytope
+    distance: f32, // Of its plane from the origin
+};
+
+// Face through three polytope points, turned to face away from `inside`
+fn epaFace(points: []const Vec3, i: u8, j: u8, k: u8, inside: Vec3) EpaFace {
+    const normal = cross(vec3_subtract(points[j], points[i]), vec3_subtract(points[k], points[i]));
+    const length = magnitude(normal);
+    // A sliver: never the nearest face, never seen from a new point
+    if (length < 1e-9) return .{ .indices = .{ i, j, k }, .normal = .{ .x = 0, .y = 0, .z = 0 }, .distance = std.math.inf(f32) };
+    var unit = vec3_scale(normal, 1.0 / length);
+    var indices = [3]u8{ i, j, k };
+    if (dot(unit, vec3_subtract(points[i], inside)) < 0) {
+        unit = vec3_negate(unit);
+        indices = .{ i, k, j };
+    }
+    return .{ .indices = indices, .normal = unit, .distance = dot(unit, points[i]) };
+}
+
+// Face of A - B nearest the origin, grown out of GJK's enclosing tetrahedron
+fn epaNearestFace(a: ConvexCollider, b: ConvexCollider, simplex: Simplex) ?EpaFace {
+    var points: [EPA_MAX_POINTS]Vec3 = undefined;
+    var point_count: u8 = 4;
+    for (simplex.points, 0..) |point, i| points[i] = point;
+    const inside = vec3_scale(vec3_add(vec3_add(points[0], points[1]), vec3_add(points[2], points[3])), 0.25);
+    const volume = dot(vec3_subtract(points[1], points[0]), cross(vec3_subtract(points[2], points[0]), vec3_subtract(points[3], points[0])));
+    if (@abs(volume) < 1e-12) return null; // Flat: no depth to measure
+
+    var faces: [EPA_MAX_FACES]EpaFace = undefined;
+    var face_count: usize = 4;
+    faces[0] = epaFace(&points, 0, 1, 2, inside);
+    faces[1] = epaFace(&points, 0, 3, 1, inside);
+    faces[2] = epaFace(&points, 0, 2, 3, inside);
+    faces[3] = epaFace(&points, 1, 3, 2, inside);
+
+    var nearest: usize = 0;
+    for (0..EPA_MAX_ITERATIONS) |_| {
+        nearest = 0;
+        for (faces[1..face_count], 1..) |face, i| {
+            if (face.distance < faces[nearest].distance) nearest = i;
+        }
+        const face = faces[nearest];
+        const point = minkowskiSupport(a, b, face.normal);
+        if (dot(point, face.normal) - face.distance < EPA_TOLERANCE) return face;
+        if (point_count == EPA_MAX_POINTS) return face;
+
+        // Cut away every face the new point sees, keeping the edges of the hole...
+        var edges: [EPA_MAX_FACES * 3][2]u8 = undefined;
+        var edge_count: usize = 0;
+        var kept: usize = 0;
+        for (faces[0..face_count]) |candidate| {
+            if (dot(candidate.normal, vec3_subtract(point, points[candidate.indices[0]])) > 0) {
+                for (0..3) |e| {
+                    const from = candidate.indices[e];
+                    const to = candidate.indices[(e + 1) % 3];
+                    // An edge two removed faces share is inside the hole
+                    var shared = false;
+                    for (edges[0..edge_count], 0..) |edge, n| {
+                        if (edge[0] == to and edge[1] == from) {
+                            edges[n] = edges[edge_count - 1];
+                            edge_count -= 1;
+                            shared = true;
+                            break;
+                        }
+                    }
+                    if (!shared) {
+                        edges[edge_count] = .{ from, to };
+                        edge_count += 1;
+                    }
+                }
+            } else {
+                faces[kept] = candidate;
+                kept += 1;
+            }
+        }
+        if (kept + edge_count > EPA_MAX_FACES) return face;
+
+        // ...and close it with a fan to the new point
+        points[point_count] = point;
+        face_count = kept;
+        for (edges[0..edge_count]) |edge| {
+            faces[face_count] = epaFace(&points, edge[0], edge[1], point_count, inside);
+            face_count += 1;
+        }
+        point_count += 1;
+    }
+    return faces[nearest];
+}
+
+/// Any two convex colliders, hulls included (normal pushes `a` away from `b`; the contact
+/// point is the middle of the part of `a` that reaches into `b`)
+pub fn checkConvexCollision(a: ConvexCollider, b: ConvexCollider) ?CollisionInfo {
+    var simplex = Simplex{};
+    if (!gjkIntersect(a, b, &simplex)) return null;
+    const face = epaNearestFace(a, b, simplex) orelse return null;
+    return CollisionInfo{
+        .has_collision = true,
+        .penetration_depth = face.distance,
+        .contact_normal = vec3_negate(face.normal),
+        .contact_point = a.supportFeature(face.normal),
+    };
+}
+
 /// Convert legacy sphere collision result to CollisionInfo format
 fn convertSphereCollisionToInfo(pos1: Vec3, radius1: f32, pos2: Vec3, _: f32, overlap: f32) CollisionInfo {
     const delta = vec3_subtract(pos2, pos1);
@@ -776,7 +1469,11 @@ pub fn checkCollision(pos1: Vec3, shape1: CollisionShape, extents1: Vec3, pos2:
                 return null;
             },
             .BOX => return checkSphereBoxCollision(pos1, extents1.x, pos2, extents2),
+            .CAPSULE => return flipped(checkCapsuleCollision(pos2, extents2, pos1, .SPHERE, extents1)),
+            .CYLINDER => return checkSphereCylinderCollision(pos1, extents1.x, pos2, extents2),
             .PLANE => return null, // Future implementation
+            .HULL => return null, // Needs the hull's points: see checkConvexCollision
+            .COMPOUND => return null, // Tested part by part by the engine
         },
         .BOX => switch (shape2) {
             .SPHERE => {
@@ -808,9 +1505,24 @@ pub fn checkCollision(pos1: Vec3, shape1: CollisionShape, extents1: Vec3, pos2:
                 return null;
             },
             .BOX => return checkBoxCollision(pos1, extents1, pos2, extents2),
+            .CAPSULE => return flipped(checkCapsuleCollision(pos2, extents2, pos1, .BOX, extents1)),
+            .CYLINDER => return flipped(checkCylinderCollision(pos2, extents2, pos1, .BOX, extents1)),
             .PLANE => return null, // Future implementation
+            .HULL => return null, // Needs the hull's points: see checkConvexCollision
+            .COMPOUND => return null, // Tested part by part by the engine
+        },
+        .CAPSULE => return checkCapsuleCollision(pos1, extents1, pos2, shape2, extents2),
+        .CYLINDER => switch (shape2) {
+            .SPHERE => return flipped(checkSphereCylinderCollision(pos2, extents2.x, pos1, extents1)),
+            .BOX, .CYLINDER => return checkCylinderCollision(pos1, extents1, pos2, shape2, extents2),
+            .CAPSULE => return flipped(checkCapsuleCollision(pos2, extents2, pos1, .CYLINDER, extents1)),
+            .PLANE => return null, // Future implementation
+            .HULL => return null, // Needs the hull's points: see checkConvexCollision
+            .COMPOUND => return null, // Tested part by part by the engine
         },
         .PLANE => return null, // Future implementation
+        .HULL => return null, // Needs the hull's points: see checkConvexCollision
+        .COMPOUND => return null, // Tested part by part by the engine
     }
 }
 
@@ -1000,6 +1712,7 @@ pub fn resolveCollision(pos1: *Vec3, vel1: *Vec3, shape1: CollisionShape, extent
                 // Sphere-box collision: use specialized sphere-box resolver
                 resolveSphereBoxCollision(pos1, vel1, extents1.x, mass1, is_kinematic1, pos2, vel2, extents2, mass2, is_kinematic2, restitution, collision_info);
             },
+            .CAPSULE, .CYLINDER, .HULL, .COMPOUND => resolveBoxCollision(pos1, vel1, extents1, mass1, is_kinematic1, pos2, vel2, extents2, mass2, is_kinematic2, restitution, collision_info),
             .PLANE => {}, // Future implementation
         },
         .BOX => switch (shape2) {
@@ -1013,8 +1726,458 @@ pub fn resolveCollision(pos1: *Vec3, vel1: *Vec3, shape1: CollisionShape, extent
                 // Box-box collision: use box collision resolution
                 resolveBoxCollision(pos1, vel1, extents1, mass1, is_kinematic1, pos2, vel2, extents2, mass2, is_kinematic2, restitution, collision_info);
             },
+            .CAPSULE, .CYLINDER, .HULL, .COMPOUND => resolveBoxCollision(pos1, vel1, extents1, mass1, is_kinematic1, pos2, vel2, extents2, mass2, is_kinematic2, restitution, collision_info),
             .PLANE => {}, // Future implementation
         },
+        // Capsules, cylinders, hulls and compounds: the shape-agnostic resolver (full separation along the normal, then the impulse)
+        .CAPSULE, .CYLINDER, .HULL, .COMPOUND => switch (shape2) {
+            .PLANE => {}, // Future implementation
+            else => resolveBoxCollision(pos1, vel1, extents1, mass1, is_kinematic1, pos2, vel2, extents2, mass2, is_kinematic2, restitution, collision_info),
+        },
         .PLANE => {}, // Future implementation
     }
 }
+
+// =============================================================================
+// Friction and Material Combining
+// =============================================================================
+
+/// How a pair's coefficients are combined from the two bodies' materials. When the
+/// bodies disagree, the mode with the higher priority wins:
+/// AVERAGE < MINIMUM < MULTIPLY < MAXIMUM (so ice set to MINIMUM stays slippery
+/// against any average surface).
+pub const CombineMode = enum(u8) {
+    AVERAGE = 0,
+    MINIMUM = 1,
+    MULTIPLY = 2,
+    MAXIMUM = 3,
+};
+
+pub fn combineCoefficients(a: f32, mode_a: CombineMode, b: f32, mode_b: CombineMode) f32 {
+    const mode = if (@intFromEnum(mode_a) >= @intFromEnum(mode_b)) mode_a else mode_b;
+    return switch (mode) {
+        .AVERAGE => (a + b) * 0.5,
+        .MINIMUM => @min(a, b),
+        .MULTIPLY => a * b,
+        .MAXIMUM => @max(a, b),
+    };
+}
+
+/// One side of a frictional contact. `arm` runs from the body's center to the contact
+/// point; a zero arm makes friction act through the center (no spin).
+pub const FrictionBody = struct {
+    velocity: *Vec3,
+    angular_velocity: *Vec3,
+    inv_mass: f32,
+    inv_inertia: Vec3, // Diagonal; zero = cannot spin
+    arm: Vec3,
+};
+
+/// Coulomb friction for a contact that just received `normal_impulse` along `normal`
+/// (Object1 POV). Cancels the tangential slip of the contact points outright if that
+/// takes no more than static_friction·jn (sticking), otherwise applies a sliding impulse
+/// of dynamic_friction·jn against the slip. Returns the friction impulse applied.
+pub fn resolveFriction(body1: FrictionBody, body2: FrictionBody, normal: Vec3, normal_impulse: f32, static_friction: f32, dynamic_friction: f32) f32 {
+    if (normal_impulse <= 0) return 0;
+
+    const contact_vel1 = vec3_add(body1.velocity.*, cross(body1.angular_velocity.*, body1.arm));
+    const contact_vel2 = vec3_add(body2.velocity.*, cross(body2.angular_velocity.*, body2.arm));
+    const relative = vec3_subtract(contact_vel1, contact_vel2);
+    const slip = vec3_subtract(relative, vec3_scale(normal, dot(relative, normal)));
+    const slip_speed = magnitude(slip);
+    if (slip_speed < 0.0001) return 0;
+
+    const tangent = vec3_scale(slip, 1.0 / slip_speed);
+    const effective_inv_mass = body1.inv_mass + body2.inv_mass + angularInvMass(body1, tangent) + angularInvMass(body2, tangent);
+    if (effective_inv_mass <= 0) return 0; // Both immovable
+
+    const stick_impulse = slip_speed / effective_inv_mass;
+    const friction_impulse = if (stick_impulse <= static_friction * normal_impulse) stick_impulse else dynamic_friction * normal_impulse;
+
+    applyContactImpulse(body1, vec3_scale(tangent, -friction_impulse));
+    applyContactImpulse(body2, vec3_scale(tangent, friction_impulse));
+    return friction_impulse;
+}
+
+// Rotational share of a body's resistance to an impulse along `direction` at its arm
+fn angularInvMass(body: FrictionBody, direction: Vec3) f32 {
+    const lever = cross(body.arm, direction);
+    return lever.x * lever.x * body.inv_inertia.x + lever.y * lever.y * body.inv_inertia.y + lever.z * lever.z * body.inv_inertia.z;
+}
+
+fn applyContactImpulse(body: FrictionBody, impulse: Vec3) void {
+    body.velocity.* = vec3_add(body.velocity.*, vec3_scale(impulse, body.inv_mass));
+    const angular_impulse = cross(body.arm, impulse);
+    body.angular_velocity.x += angular_impulse.x * body.inv_inertia.x;
+    body.angular_velocity.y += angular_impulse.y * body.inv_inertia.y;
+    body.angular_velocity.z += angular_impulse.z * body.inv_inertia.z;
+}
+
+// =============================================================================
+// Constraint Impulses
+// =============================================================================
+//
+// Building blocks of the joint solver (sequential impulses). Each call drives one scalar
+// velocity constraint between two bodies towards `target_speed`: a linear one on the
+// relative velocity of two anchor points (FrictionBody arms run to the anchors), an
+// angular one on the relative spin. Directions are unit length and point the way body2
+// moves relative to body1. The impulse is accumulated over a step's iterations and the
+// total is clamped to [lower, upper], which makes one-sided limits (ropes, hinge stops)
+// and capped motors.
+
+pub fn solveLinearConstraint(body1: FrictionBody, body2: FrictionBody, axis: Vec3, target_speed: f32, accumulated: *f32, lower: f32, upper: f32) void {
+    const effective_inv_mass = body1.inv_mass + body2.inv_mass + angularInvMass(body1, axis) + angularInvMass(body2, axis);
+    if (effective_inv_mass <= 0) return; // Both immovable
+
+    const point_vel1 = vec3_add(body1.velocity.*, cross(body1.angular_velocity.*, body1.arm));
+    const point_vel2 = vec3_add(body2.velocity.*, cross(body2.angular_velocity.*, body2.arm));
+    const speed = dot(vec3_subtract(point_vel2, point_vel1), axis);
+    const impulse = accumulateImpulse(accumulated, (target_speed - speed) / effective_inv_mass, lower, upper);
+    applyConstraintImpulse(body1, body2, vec3_scale(axis, impulse));
+}
+
+pub fn solveAngularConstraint(body1: FrictionBody, body2: FrictionBody, axis: Vec3, target_speed: f32, accumulated: *f32, lower: f32, upper: f32) void {
+    const effective_inv_inertia = inertiaAlong(body1.inv_inertia, axis) + inertiaAlong(body2.inv_inertia, axis);
+    if (effective_inv_inertia <= 0) return; // Neither can spin
+
+    const speed = dot(vec3_subtract(body2.angular_velocity.*, body1.angular_velocity.*), axis);
+    const impulse = accumulateImpulse(accumulated, (target_speed - speed) / effective_inv_inertia, lower, upper);
+    applyAngularImpulse(body1, vec3_scale(axis, -impulse));
+    applyAngularImpulse(body2, vec3_scale(axis, impulse));
+}
+
+/// Equal and opposite impulses at the anchors: `impulse` on body2, its negation on body1
+pub fn applyConstraintImpulse(body1: FrictionBody, body2: FrictionBody, impulse: Vec3) void {
+    applyContactImpulse(body1, vec3_negate(impulse));
+    applyContactImpulse(body2, impulse);
+}
+
+// Add `impulse` to the running total, clamped; returns the part actually applied
+fn accumulateImpulse(accumulated: *f32, impulse: f32, lower: f32, upper: f32) f32 {
+    const previous = accumulated.*;
+    accumulated.* = @max(lower, @min(upper, previous + impulse));
+    return accumulated.* - previous;
+}
+
+fn inertiaAlong(inv_inertia: Vec3, axis: Vec3) f32 {
+    return axis.x * axis.x * inv_inertia.x + axis.y * axis.y * inv_inertia.y + axis.z * axis.z * inv_inertia.z;
+}
+
+fn applyAngularImpulse(body: FrictionBody, angular_impulse: Vec3) void {
+    body.angular_velocity.x += angular_impulse.x * body.inv_inertia.x;
+    body.angular_velocity.y += angular_impulse.y * body.inv_inertia.y;
+    body.angular_velocity.z += angular_impulse.z * body.inv_inertia.z;
+}
+
+// =============================================================================
+// Ray and Sphere Cast Queries
+// =============================================================================
+//
+// Casts run against the same colliders the solver uses: spheres, axis-aligned
+// boxes, upright capsules and cylinders, and planes (two-sided, through the
+// entity position, extents = normal). The engine casts against a turned box in
+// the box's own frame.
+// `direction` must be unit length and `distance` is measured along it. A cast
+// that STARTS inside (or overlapping) a collider does not report that collider,
+// so a character can cast from inside its own body.
+
+/// Result of a ray or sphere cast against one collider
+pub const RayHit = struct {
+    distance: f32, // Distance travelled along the direction (sphere casts: by the sphere center)
+    point: Vec3, // Contact point on the collider surface
+    normal: Vec3, // Surface normal at the contact, facing the caster
+};
+
+// Entry/exit distances of a ray through an AABB, with the entry face normal
+const SlabInterval = struct {
+    near: f32,
+    far: f32,
+    normal: Vec3,
+};
+
+fn raySlabs(origin: Vec3, direction: Vec3, box_min: Vec3, box_max: Vec3) ?SlabInterval {
+    const o = [3]f32{ origin.x, origin.y, origin.z };
+    const d = [3]f32{ direction.x, direction.y, direction.z };
+    const lo = [3]f32{ box_min.x, box_min.y, box_min.z };
+    const hi = [3]f32{ box_max.x, box_max.y, box_max.z };
+
+    var t_near: f32 = -std.math.inf(f32);
+    var t_far: f32 = std.math.inf(f32);
+    var n = [3]f32{ 0, 0, 0 };
+
+    for (0..3) |axis| {
+        if (@abs(d[axis]) < 1e-8) {
+            // Parallel to this slab: misses unless the origin lies between its faces
+            if (o[axis] < lo[axis] or o[axis] > hi[axis]) return null;
+            continue;
+        }
+        const inv = 1.0 / d[axis];
+        var t0 = (lo[axis] - o[axis]) * inv;
+        var t1 = (hi[axis] - o[axis]) * inv;
+        var face_sign: f32 = -1.0; // Entering through the min face
+        if (t0 > t1) {
+            const tmp = t0;
+            t0 = t1;
+            t1 = tmp;
+            face_sign = 1.0; // Entering through the max face
+        }
+        if (t0 > t_near) {
+            t_near = t0;
+            n = .{ 0, 0, 0 };
+            n[axis] = face_sign;
+        }
+        t_far = @min(t_far, t1);
+        if (t_near > t_far) return null;
+    }
+
+    return SlabInterval{ .near = t_near, .far = t_far, .normal = .{ .x = n[0], .y = n[1], .z = n[2] } };
+}
+
+/// Ray vs sphere
+pub fn raycastSphere(origin: Vec3, direction: Vec3, max_distance: f32, center: Vec3, radius: f32) ?RayHit {
+    const oc = vec3_subtract(origin, center);
+    const c = dot(oc, oc) - radius * radius;
+    if (c < 0) return null; // Starts inside
+    const b = dot(oc, direction);
+    if (b > 0) return null; // Pointing away
+    const discriminant = b * b - c;
+    if (discriminant < 0) return null;
+
+    const t = -b - @sqrt(discriminant);
+    if (t > max_distance) return null;
+    const point = vec3_add(origin, vec3_scale(direction, t));
+    return RayHit{ .distance = t, .point = point, .normal = normalize(vec3_subtract(point, center)) };
+}
+
+/// Ray vs axis-aligned box (slab method)
+pub fn raycastBox(origin: Vec3, direction: Vec3, max_distance: f32, center: Vec3, extents: Vec3) ?RayHit {
+    const slabs = raySlabs(origin, direction, vec3_subtract(center, extents), vec3_add(center, extents)) orelse return null;
+    if (slabs.near < 0) return null; // Starts inside, or the box is behind the ray
+    if (slabs.near > max_distance) return null;
+    return RayHit{
+        .distance = slabs.near,
+        .point = vec3_add(origin, vec3_scale(direction, slabs.near)),
+        .normal = slabs.normal,
+    };
+}
+
+/// Ray vs two-sided plane through `plane_point`
+pub fn raycastPlane(origin: Vec3, direction: Vec3, max_distance: f32, plane_point: Vec3, plane_normal: Vec3) ?RayHit {
+    const n = normalize(plane_normal);
+    const denom = dot(n, direction);
+    if (@abs(denom) < 1e-8) return null; // Parallel
+    const t = dot(vec3_subtract(plane_point, origin), n) / denom;
+    if (t < 0 or t > max_distance) return null;
+    return RayHit{
+        .distance = t,
+        .point = vec3_add(origin, vec3_scale(direction, t)),
+        .normal = if (denom < 0) n else vec3_negate(n),
+    };
+}
+
+/// Sphere cast vs axis-aligned box. The swept sphere hits the box expanded by the
+/// radius with rounded edges/corners: the expanded slabs bound the search and
+/// conservative advancement (step by the current clearance) finds the exact contact.
+pub fn sphereCastBox(origin: Vec3, direction: Vec3, max_distance: f32, radius: f32, center: Vec3, extents: Vec3) ?RayHit {
+    const box_min = vec3_subtract(center, extents);
+    const box_max = vec3_add(center, extents);
+    const start_offset = vec3_subtract(origin, vec3_clamp(origin, box_min, box_max));
+    if (dot(start_offset, start_offset) < radius * radius) return null; // Starts overlapping
+
+    const grown = Vec3{ .x = radius, .y = radius, .z = radius };
+    const slabs = raySlabs(origin, direction, vec3_subtract(box_min, grown), vec3_add(box_max, grown)) orelse return null;
+    const t_end = @min(slabs.far, max_distance);
+    var t = @max(slabs.near, 0);
+
+    const max_iterations = 32;
+    var iteration: u32 = 0;
+    while (iteration < max_iterations and t <= t_end) : (iteration += 1) {
+        const sphere_center = vec3_add(origin, vec3_scale(direction, t));
+        const closest = vec3_clamp(sphere_center, box_min, box_max);
+        const clearance = distance(sphere_center, closest) - radius;
+        if (clearance <= 1e-4) {
+            return RayHit{
+                .distance = t,
+                .point = closest,
+                .normal = normalize(vec3_subtract(sphere_center, closest)),
+            };
+        }
+        t += clearance;
+    }
+    return null; // Passes by an edge or corner
+}
+
+/// Sphere cast vs two-sided plane
+pub fn sphereCastPlane(origin: Vec3, direction: Vec3, max_distance: f32, radius: f32, plane_point: Vec3, plane_normal: Vec3) ?RayHit {
+    const n = normalize(plane_normal);
+    const signed_distance = dot(vec3_subtract(origin, plane_point), n);
+    if (@abs(signed_distance) < radius) return null; // Starts overlapping
+
+    // Cast the sphere center against the plane pushed out by the radius toward the caster
+    const side: f32 = if (signed_distance > 0) 1.0 else -1.0;
+    const offset_point = vec3_add(plane_point, vec3_scale(n, side * radius));
+    const hit = raycastPlane(origin, direction, max_distance, offset_point, n) orelse return null;
+    return RayHit{
+        .distance = hit.distance,
+        .point = vec3_subtract(hit.point, vec3_scale(hit.normal, radius)),
+        .normal = hit.normal,
+    };
+}
+
+// Entry distance of a ray into the side of an infinite upright cylinder (null: misses it,
+// runs parallel to its axis, or starts inside)
+fn raySideOfCylinder(origin: Vec3, direction: Vec3, center: Vec3, radius: f32) ?f32 {
+    const ox = origin.x - center.x;
+    const oz = origin.z - center.z;
+    const a = direction.x * direction.x + direction.z * direction.z;
+    if (a < 1e-8) return null;
+    const b = ox * direction.x + oz * direction.z;
+    const c = ox * ox + oz * oz - radius * radius;
+    if (c < 0) return null;
+    const discriminant = b * b - a * c;
+    if (discriminant < 0 or b > 0) return null;
+    return (-b - @sqrt(discriminant)) / a;
+}
+
+// Side hit at distance t (the normal is radial)
+fn cylinderSideHit(origin: Vec3, direction: Vec3, t: f32, center: Vec3, radius: f32) RayHit {
+    const point = vec3_add(origin, vec3_scale(direction, t));
+    return RayHit{ .distance = t, .point = point, .normal = .{ .x = (point.x - center.x) / radius, .y = 0, .z = (point.z - center.z) / radius } };
+}
+
+/// Ray vs upright capsule: its side, or the sphere capping either end of its segment
+pub fn raycastCapsule(origin: Vec3, direction: Vec3, max_distance: f32, center: Vec3, extents: Vec3) ?RayHit {
+    const radius = extents.x;
+    const half_segment = capsuleHalfSegment(extents);
+    if (distance(origin, capsuleCorePoint(center, extents, origin.y, origin.y)) < radius) return null; // Starts inside
+
+    var best: ?RayHit = null;
+    if (raySideOfCylinder(origin, direction, center, radius)) |t| {
+        const y = origin.y + direction.y * t;
+        if (t <= max_distance and @abs(y - center.y) <= half_segment) best = cylinderSideHit(origin, direction, t, center, radius);
+    }
+    for ([2]f32{ -half_segment, half_segment }) |offset| {
+        const cap_center = Vec3{ .x = center.x, .y = center.y + offset, .z = center.z };
+        const limit = if (best) |hit| hit.distance else max_distance;
+        if (raycastSphere(origin, direction, limit, cap_center, radius)) |hit| best = hit;
+    }
+    return best;
+}
+
+/// Ray vs upright cylinder: its side, or the flat cap facing the ray
+pub fn raycastCylinder(origin: Vec3, direction: Vec3, max_distance: f32, center: Vec3, extents: Vec3) ?RayHit {
+    const radius = extents.x;
+    const half_height = extents.y;
+    const closest = closestPointOnCylinder(origin, center, extents);
+    if (closest.x == origin.x and closest.y == origin.y and closest.z == origin.z) return null; // Starts inside
+
+    var best: ?RayHit = null;
+    if (raySideOfCylinder(origin, direction, center, radius)) |t| {
+        const y = origin.y + direction.y * t;
+        if (t <= max_distance and @abs(y - center.y) <= half_height) best = cylinderSideHit(origin, direction, t, center, radius);
+    }
+    if (@abs(direction.y) > 1e-8) {
+        const side: f32 = if (origin.y > center.y) 1.0 else -1.0;
+        const t = (center.y + side * half_height - origin.y) / direction.y;
+        const limit = if (best) |hit| hit.distance else max_distance;
+        if (t >= 0 and t <= limit) {
+            const point = vec3_add(origin, vec3_scale(direction, t));
+            const dx = point.x - center.x;
+            const dz = point.z - center.z;
+            if (dx * dx + dz * dz <= radius * radius) best = RayHit{ .distance = t, .point = point, .normal = .{ .x = 0, .y = side, .z = 0 } };
+        }
+    }
+    return best;
+}
+
+/// Sphere cast vs upright cylinder, by conservative advancement (as sphereCastBox)
+pub fn sphereCastCylinder(origin: Vec3, direction: Vec3, max_distance: f32, radius: f32, center: Vec3, extents: Vec3) ?RayHit {
+    if (distance(origin, closestPointOnCylinder(origin, center, extents)) < radius) return null; // Starts overlapping
+
+    const grown = vec3_add(extents, .{ .x = radius, .y = radius, .z = radius });
+    const slabs = raySlabs(origin, direction, vec3_subtract(center, grown), vec3_add(center, grown)) orelse return null;
+    const t_end = @min(slabs.far, max_distance);
+    var t = @max(slabs.near, 0);
+
+    const max_iterations = 32;
+    var iteration: u32 = 0;
+    while (iteration < max_iterations and t <= t_end) : (iteration += 1) {
+        const sphere_center = vec3_add(origin, vec3_scale(direction, t));
+        const closest = closestPointOnCylinder(sphere_center, center, extents);
+        const clearance = distance(sphere_center, closest) - radius;
+        if (clearance <= 1e-4) {
+            return RayHit{ .distance = t, .point = closest, .normal = normalize(vec3_subtract(sphere_center, closest)) };
+        }
+        t += clearance;
+    }
+    return null; // Passes by a rim
+}
+
+/// Universal ray cast that dispatches on the collider shape
+pub fn raycastShape(origin: Vec3, direction: Vec3, max_distance: f32, position: Vec3, shape: CollisionShape, extents: Vec3) ?RayHit {
+    return switch (shape) {
+        .SPHERE => raycastSphere(origin, direction, max_distance, position, extents.x),
+        .BOX => raycastBox(origin, direction, max_distance, position, extents),
+        .PLANE => raycastPlane(origin, direction, max_distance, position, extents),
+        .CAPSULE => raycastCapsule(origin, direction, max_distance, position, extents),
+        .CYLINDER => raycastCylinder(origin, direction, max_distance, position, extents),
+        .HULL, .COMPOUND => raycastBox(origin, direction, max_distance, position, extents), // Its bounding box
+    };
+}
+
+/// Universal sphere cast that dispatches on the collider shape
+pub fn sphereCastShape(origin: Vec3, direction: Vec3, max_distance: f32, radius: f32, position: Vec3, shape: CollisionShape, extents: Vec3) ?RayHit {
+    switch (shape) {
+        .SPHERE => {
+            // Sphere vs sphere is a ray vs the sphere grown by the cast radius
+            const hit = raycastSphere(origin, direction, max_distance, position, extents.x + radius) orelse return null;
+            return RayHit{
+                .distance = hit.distance,
+                .point = vec3_add(position, vec3_scale(hit.normal, extents.x)),
+                .normal = hit.normal,
+            };
+        },
+        .BOX => return sphereCastBox(origin, direction, max_distance, radius, position, extents),
+        .PLANE => return sphereCastPlane(origin, direction, max_distance, radius, position, extents),
+        .CAPSULE => {
+            // Likewise a capsule grown by the cast radius (same core segment)
+            const grown = vec3_add(extents, .{ .x = radius, .y = radius, .z = radius });
+            const hit = raycastCapsule(origin, direction, max_distance, position, grown) orelse return null;
+            return RayHit{ .distance = hit.distance, .point = vec3_subtract(hit.point, vec3_scale(hit.normal, radius)), .normal = hit.normal };
+        },
+        .CYLINDER => return sphereCastCylinder(origin, direction, max_distance, radius, position, extents),
+        .HULL, .COMPOUND => return sphereCastBox(origin, direction, max_distance, radius, position, extents), // Its bounding box
+    }
+}
+
+/// Time of impact of a moving collider against a still one: how far the mover's center
+/// travels along `direction` before it touches. Spheres sweep as sphere casts; an
+/// axis-aligned box hits another box where its center ray enters the summed extents,
+/// a sphere where that sphere cast backwards hits the box, and a plane where its center
+/// is as far from it as the box reaches along the normal. Capsules, cylinders, hulls and
+/// compounds sweep, and are swept against by boxes, as their bounding boxes (which may stop
+/// a little short of their rounded edges, slopes and gaps). As with the casts, a mover that starts
+/// overlapping the collider does not report it. The point lies on the still
+/// collider and the normal faces the mover.
+pub fn sweepShape(shape: CollisionShape, extents: Vec3, origin: Vec3, direction: Vec3, max_distance: f32, position: Vec3, other_shape: CollisionShape, other_extents: Vec3) ?RayHit {
+    switch (shape) {
+        .SPHERE => return sphereCastShape(origin, direction, max_distance, extents.x, position, other_shape, other_extents),
+        .BOX, .CAPSULE, .CYLINDER, .HULL, .COMPOUND => switch (other_shape) {
+            .BOX, .CAPSULE, .CYLINDER, .HULL, .COMPOUND => {
+                const hit = raycastBox(origin, direction, max_distance, position, vec3_add(extents, other_extents)) orelse return null;
+                const reach = @abs(hit.normal.x) * extents.x + @abs(hit.normal.y) * extents.y + @abs(hit.normal.z) * extents.z;
+                return RayHit{ .distance = hit.distance, .point = vec3_subtract(hit.point, vec3_scale(hit.normal, reach)), .normal = hit.normal };
+            },
+            .SPHERE => {
+                const hit = sphereCastBox(position, vec3_negate(direction), max_distance, other_extents.x, origin, extents) orelse return null;
+                return RayHit{ .distance = hit.distance, .point = vec3_add(hit.point, vec3_scale(direction, hit.distance)), .normal = vec3_negate(hit.normal) };
+            },
+            .PLANE => {
+                const n = normalize(other_extents);
+                const reach = @abs(n.x) * extents.x + @abs(n.y) * extents.y + @abs(n.z) * extents.z;
+                return sphereCastPlane(origin, direction, max_distance, reach, position, n);
+            },
+        },
+        .PLANE => return null, // Planes are never swept
+    }
+}
@@ -102,6 +102,33 @@ test "createPerspective matrix basic functionality" {
     try testing.expect(@abs(proj_matrix.data[14]) > 0.0001); // z translation
 }
 
+test "integrateRotation turns about a single world axis" {
+    const quarter_turn = core.integrateRotation(.{ .x = 0, .y = 0, .z = 0 }, .{ .x = 0, .y = 0, .z = std.math.pi / 2.0 }, 1.0);
+    try testing.expect(Vec3TestHelper.equals(quarter_turn, .{ .x = 0, .y = 0, .z = std.math.pi / 2.0 }));
+
+    const still = core.Vec3{ .x = 0.3, .y = -0.2, .z = 1.1 };
+    try testing.expect(Vec3TestHelper.equals(core.integrateRotation(still, .{ .x = 0, .y = 0, .z = 0 }, 1.0), still));
+}
+
+test "integrateRotation composes with the existing rotation" {
+    // Spin about world y on top of a tilt about x: the result must match ΔR·R
+    const start = core.Vec3{ .x = 0.4, .y = 0, .z = 0 };
+    const turned = core.integrateRotation(start, .{ .x = 0, .y = 0.5, .z = 0 }, 1.0);
+
+    const result = core.createRotationMatrix(turned).data;
+    const tilt = core.createRotationMatrix(start).data;
+    const c = @cos(@as(f32, 0.5));
+    const s = @sin(@as(f32, 0.5));
+    for (0..3) |col| {
+        const x = tilt[col * 4];
+        const y = tilt[col * 4 + 1];
+        const z = tilt[col * 4 + 2];
+        try testing.expectApproxEqAbs(c * x + s * z, result[col * 4], 0.0001);
+        try testing.expectApproxEqAbs(y, result[col * 4 + 1], 0.0001);
+        try testing.expectApproxEqAbs(-s * x + c * z, result[col * 4 + 2], 0.0001);
+    }
+}
+
 // Mesh Generation Tests
 test "sphere mesh generation produces valid vertices" {
     var vertices: [1000]f32 = undefined;
@@ -38,11 +38,17 @@ var camera_position: core.Vec3 = .{ .x = 0, .y = 0, .z = -20 };
 var camera_target: core.Vec3 = .{ .x = 0, .y = 0, .z = 2 };
 var camera_up: core.Vec3 = .{ .x = 0, .y = 1, .z = 0 };
 
-// Physics configuration (configurable instead of hardcoded)
-var physics_gravity: f32 = -9.8;
-var physics_damping: f32 = 0.99;
-var physics_restitution: f32 = 0.6;
-var world_bounds: core.Vec3 = .{ .x = 8.0, .y = 8.0, .z = 8.0 };
+// Physics configuration (configurable instead of hardcoded); it outlives init()
+var physics_gravity: core.Vec3 = .{ .x = 0, .y = -9.8, .z = 0 };
+var physics_damping: f32 = 0.99; // Per step, on velocity across gravity and on spin
+var physics_restitution: f32 = 0.6; // World-bounds bounces; body pairs use their materials
+// The box bodies are kept inside (invisible walls), unless disabled
+var world_bounds_enabled: bool = true;
+var world_bounds_min: core.Vec3 = .{ .x = -8.0, .y = -8.0, .z = -8.0 };
+var world_bounds_max: core.Vec3 = .{ .x = 8.0, .y = 8.0, .z = 8.0 };
+// Collision resolution passes per step: more settle stacks better, at a cost
+const MAX_SOLVER_ITERATIONS: u32 = 64;
+var solver_iterations: u32 = 5;
 
 // Entity system
 const MAX_ENTITIES: u32 = 10000; // MAXIMUM POWER! 🚀💥
@@ -73,8 +79,8 @@ pub const BodyType = enum(u8) {
 // Physics-only component (hot data - cache-friendly)
 pub const PhysicsComponent = struct {
     position: core.Vec3, // World position
-    velocity: core.Vec3, // Movement velocity (DYNAMIC: simulated; KINEMATIC: script-set; STATIC: 0)
-    force: core.Vec3, // Accumulated forces
+    velocity: core.Vec3, // Movement velocity (DYNAMIC: simulated; KINEMATIC: derived from its moves; STATIC: 0)
+    force: core.Vec3, // Accumulated force, applied over the next step then cleared (DYNAMIC only)
     rotation: core.Vec3, // Rotation in radians (x, y, z)
     scale: core.Vec3, // Scale values (x, y, z)
     mass: f32, // Stored mass. Only ACTIVE on DYNAMIC bodies; stored-but-inert on
@@ -87,7 +93,30 @@ pub const PhysicsComponent = struct {
     radius: f32, // Collision radius/size (legacy - use extents.x for spheres)
     body_type: BodyType,
     collision_shape: core.CollisionShape, // Shape type for collision detection
-    extents: core.Vec3, // Half-extents for boxes, radius in .x for spheres, normal for planes
+    extents: core.Vec3, // Half-extents for boxes, hulls and compounds, radius in .x for spheres, normal for planes
+    is_trigger: bool = false, // Sensor: overlaps go to the trigger stream, the solver never resolves them
+    collision_layer: u32 = COLLISION_LAYER_DEFAULT, // Layer bit(s) this body is on
+    collision_mask: u32 = COLLISION_MASK_ALL, // Layers this body collides with (both masks must agree)
+    angular_velocity: core.Vec3 = .{ .x = 0, .y = 0, .z = 0 }, // rad/s about the world axes (DYNAMIC: simulated)
+    torque: core.Vec3 = .{ .x = 0, .y = 0, .z = 0 }, // Accumulated torque, applied over the next step then cleared
+    inv_inertia: core.Vec3 = .{ .x = 0, .y = 0, .z = 0 }, // Diagonal inverse inertia; 0 = cannot spin.
+    // Derived from shape/extents/mass, never set directly: see deriveInvInertia().
+    // Physics material: combined per pair (see combinedMaterial) when two bodies touch
+    static_friction: f32 = DEFAULT_FRICTION, // Coulomb coefficient that holds a resting contact
+    dynamic_friction: f32 = DEFAULT_FRICTION, // Coulomb coefficient while sliding
+    restitution: f32 = DEFAULT_RESTITUTION, // Bounciness against other bodies (world bounds use the global)
+    friction_combine: core.CombineMode = .AVERAGE,
+    restitution_combine: core.CombineMode = .AVERAGE,
+    // Sleeping (DYNAMIC only, see "Sleeping and simulation islands")
+    sleeping: bool = false, // Not integrated; pairs with no awake body are not collision-tested
+    sleep_timer: f32 = 0, // Seconds spent at rest around rest_anchor
+    rest_anchor: core.Vec3 = .{ .x = 0, .y = 0, .z = 0 }, // Where the current rest began
+    previous_position: core.Vec3 = .{ .x = 0, .y = 0, .z = 0 }, // KINEMATIC: where the last step left it (see "Kinematic bodies")
+    kinematic_target: core.Vec3 = .{ .x = 0, .y = 0, .z = 0 }, // KINEMATIC: where the last script move put it...
+    kinematic_time_left: f32 = 0, // ...and the simulated seconds left to get there
+    continuous: bool = false, // Swept against colliders as it moves (see "Continuous collision detection")
+    hull: u32 = NO_HULL, // HULL colliders: the registered hull (see "Convex hulls")
+    compound: u32 = NO_COMPOUND, // COMPOUND colliders: the registered parts (see "Compound colliders")
 
     // Immovable/unpushable to the solver (infinite effective mass).
     pub fn isImmovable(self: *const PhysicsComponent) bool {
@@ -95,6 +124,28 @@ pub const PhysicsComponent = struct {
     }
 };
 
+// Collision filtering: a pair interacts only if each body's mask contains the other's layer
+pub const COLLISION_LAYER_DEFAULT: u32 = 1 << 0;
+pub const COLLISION_MASK_ALL: u32 = 0xFFFF_FFFF;
+
+pub fn layersInteract(phys1: *const PhysicsComponent, phys2: *const PhysicsComponent) bool {
+    return (phys1.collision_layer & phys2.collision_mask) != 0 and (phys2.collision_layer & phys1.collision_mask) != 0;
+}
+
+// add_entity `flags` bits (per-body options that are not part of the motion model)
+pub const ENTITY_FLAG_TRIGGER: u32 = 1 << 0; // Non-solid sensor collider
+pub const ENTITY_FLAG_CONTINUOUS: u32 = 1 << 1; // Continuous collision detection (fast bodies)
+pub const ENTITY_FLAG_FRICTION_COMBINE_SHIFT: u5 = 8; // 2 bits: core.CombineMode
+pub const ENTITY_FLAG_RESTITUTION_COMBINE_SHIFT: u5 = 10; // 2 bits: core.CombineMode
+
+// Material a body gets unless told otherwise (spawned entities, RigidBody's default)
+pub const DEFAULT_FRICTION: f32 = 0.6;
+pub const DEFAULT_RESTITUTION: f32 = 0.6;
+
+fn combineModeFromFlags(flags: u32, shift: u5) core.CombineMode {
+    return @enumFromInt(@as(u8, @intCast((flags >> shift) & 0b11)));
+}
+
 // Solver mass from (body_type, mass). Rejects mass <= 0 on DYNAMIC bodies by
 // falling back to mass = 1 — a negative/inf inv_mass reaching the solver can
 // NaN an entire simulation island. Returns .{ effective mass, inv_mass }.
@@ -108,6 +159,41 @@ fn deriveInvMass(body_type: BodyType, mass: f32) struct { mass: f32, inv_mass: f
     return .{ .mass = mass, .inv_mass = 1.0 / mass };
 }
 
+// Diagonal inverse inertia from shape, extents and solver mass (see shapeInertia; compounds
+// sum their parts', see compoundInertia). The tensor is taken about the world axes
+// instead of being rotated with the body (only boxes turn with it, see Oriented boxes).
+// Immovable bodies and planes never spin.
+fn deriveInvInertia(phys: *const PhysicsComponent) core.Vec3 {
+    const zero = core.Vec3{ .x = 0, .y = 0, .z = 0 };
+    if (phys.isImmovable()) return zero;
+
+    const inertia = switch (phys.collision_shape) {
+        .PLANE => return zero,
+        .COMPOUND => compoundInertia(phys),
+        else => shapeInertia(phys.collision_shape, phys.extents, phys.mass),
+    };
+    return .{ .x = invOrZero(inertia.x), .y = invOrZero(inertia.y), .z = invOrZero(inertia.z) };
+}
+
+// Diagonal inertia of a solid shape of mass m about its center (sphere 2/5·m·r², box
+// m/3·(b²+c²) over half-extents, cylinder ½·m·r² about its axis and m/12·(3r² + (2h)²)
+// across it; capsules are taken as the cylinder they fill, hulls as the box that holds them)
+fn shapeInertia(shape: core.CollisionShape, e: core.Vec3, m: f32) core.Vec3 {
+    return switch (shape) {
+        .SPHERE => .{ .x = 0.4 * m * e.x * e.x, .y = 0.4 * m * e.x * e.x, .z = 0.4 * m * e.x * e.x },
+        .BOX, .HULL => .{ .x = m / 3.0 * (e.y * e.y + e.z * e.z), .y = m / 3.0 * (e.x * e.x + e.z * e.z), .z = m / 3.0 * (e.x * e.x + e.y * e.y) },
+        .CAPSULE, .CYLINDER => blk: {
+            const across = m / 12.0 * (3.0 * e.x * e.x + 4.0 * e.y * e.y);
+            break :blk .{ .x = across, .y = 0.5 * m * e.x * e.x, .z = across };
+        },
+        .PLANE, .COMPOUND => .{ .x = 0, .y = 0, .z = 0 },
+    };
+}
+
+fn invOrZero(value: f32) f32 {
+    return if (value > 0) 1.0 / value else 0;
+}
+
 // Rendering-only component — GPU instance data, mapped 1:1 into the GPU instance
 // buffer. `extern struct` so the layout is GUARANTEED (B4), not incidental; widened
 // to 96 bytes (24 floats, std430 16-byte-friendly) so future workloads (crowd
@@ -263,8 +349,14 @@ var collision_log_count: u32 = 0; // Limit collision logging
 fn initEntities() void {
     entity_count = 0;
     next_spawn_id = 0;
+    kinematic_move_time = 0;
     @memset(&mesh_bucket_counts, 0);
     @memset(&id_to_index, INVALID_INDEX);
+    clearContacts();
+    clearJoints();
+    clearHulls();
+    clearCompounds();
+    clearForceFields();
 
     // Initialize physics components
     for (&physics_components) |*phys| {
@@ -447,29 +539,48 @@ fn findECSEntityById(id: u32) ?u32 {
 
 // ECS-based physics simulation
 fn updateECSPhysics(delta_time: f32) void {
-    // Step 1: Physics simulation (hot path - only touch physics components)
-    const force = core.Vec3{ .x = 0, .y = physics_gravity, .z = 0 };
+    const force = physics_gravity;
+    // Damping slows motion across gravity, not the fall itself (with no gravity, "up" is +Y)
+    const up = if (core.dot(force, force) > 0) core.normalize(core.vec3_negate(force)) else core.Vec3{ .x = 0, .y = 1, .z = 0 };
+
+    // Step 0: Kinematic bodies take their velocity from how far scripts moved them, carrying
+    // what rides them; force fields push the bodies in them (into the forces integrated below)
+    moveKinematicBodies(delta_time, up);
+    applyForceFields(delta_time);
 
+    // Step 1: Physics simulation (hot path - only touch physics components)
     for (physics_components[0..entity_count], 0..) |*phys, i| {
         if (!entity_metadata[i].physics_enabled or !entity_metadata[i].active) continue;
 
-        // Only DYNAMIC bodies integrate (KINEMATIC/STATIC participate in collision
+        // Only awake DYNAMIC bodies integrate (KINEMATIC/STATIC participate in collision
         // detection but the solver never moves them)
-        if (phys.body_type != .DYNAMIC) continue;
+        if (phys.body_type != .DYNAMIC or phys.sleeping) continue;
 
         // Apply gravity scaled per body (1.0 normal, 0.0 space, 0.16 moon, -1.0 reverse)
         phys.velocity.x += force.x * phys.gravity_scale * delta_time;
         phys.velocity.y += force.y * phys.gravity_scale * delta_time;
         phys.velocity.z += force.z * phys.gravity_scale * delta_time;
 
-        // Apply damping (X and Z only - preserve Y velocity for gravity/collisions)
-        phys.velocity.x *= physics_damping;
-        phys.velocity.z *= physics_damping;
+        // Forces and torques accumulated since the last step act over this one, then reset
+        phys.velocity = core.vec3_add(phys.velocity, core.vec3_scale(phys.force, phys.inv_mass * delta_time));
+        phys.angular_velocity.x += phys.torque.x * phys.inv_inertia.x * delta_time;
+        phys.angular_velocity.y += phys.torque.y * phys.inv_inertia.y * delta_time;
+        phys.angular_velocity.z += phys.torque.z * phys.inv_inertia.z * delta_time;
+        phys.force = .{ .x = 0, .y = 0, .z = 0 };
+        phys.torque = .{ .x = 0, .y = 0, .z = 0 };
+
+        // Apply damping (across gravity only - preserve the fall for gravity/collisions; spin on all axes)
+        const fall = core.vec3_scale(up, core.dot(phys.velocity, up));
+        phys.velocity = core.vec3_add(fall, core.vec3_scale(core.vec3_subtract(phys.velocity, fall), physics_damping));
+        phys.angular_velocity = core.vec3_scale(phys.angular_velocity, physics_damping);
 
         // Mark transform as dirty for rendering update (positions will be updated after collision resolution)
         entity_metadata[i].transform_dirty = true;
     }
 
+    // Step 1.5: Joints pull the bodies they tie back into place
+    solveJoints(delta_time);
+
     // Step 2: Check entity-entity collisions BEFORE position integration
     checkEntityCollisions(delta_time);
 
@@ -483,21 +594,40 @@ fn updateECSPhysics(delta_time: f32) void {
         if (@abs(phys.velocity.x) < VELOCITY_THRESHOLD) phys.velocity.x = 0.0;
         if (@abs(phys.velocity.y) < VELOCITY_THRESHOLD) phys.velocity.y = 0.0;
         if (@abs(phys.velocity.z) < VELOCITY_THRESHOLD) phys.velocity.z = 0.0;
+
+        // Same for spin, plus a cap so a body held at its tipping edge cannot spin up forever
+        if (@abs(phys.angular_velocity.x) < VELOCITY_THRESHOLD) phys.angular_velocity.x = 0.0;
+        if (@abs(phys.angular_velocity.y) < VELOCITY_THRESHOLD) phys.angular_velocity.y = 0.0;
+        if (@abs(phys.angular_velocity.z) < VELOCITY_THRESHOLD) phys.angular_velocity.z = 0.0;
+        const spin = core.magnitude(phys.angular_velocity);
+        if (spin > MAX_ANGULAR_SPEED) phys.angular_velocity = core.vec3_scale(phys.angular_velocity, MAX_ANGULAR_SPEED / spin);
     }
 
-    // Step 3: Update positions using collision-corrected velocities
+    // Step 2.75: Sleep settled islands, wake the ones something disturbed
+    updateSleeping(delta_time);
+
+    // Step 3: Update positions using collision-corrected velocities (kinematic bodies arrive
+    // where scripts put them)
+    placeKinematicBodies(delta_time);
     for (physics_components[0..entity_count], 0..) |*phys, i| {
         if (!entity_metadata[i].physics_enabled or !entity_metadata[i].active) continue;
-        if (phys.body_type != .DYNAMIC) continue;
+        if (phys.body_type != .DYNAMIC or phys.sleeping) continue;
 
-        // Update position with corrected velocity
-        phys.position.x += phys.velocity.x * delta_time;
-        phys.position.y += phys.velocity.y * delta_time;
-        phys.position.z += phys.velocity.z * delta_time;
+        // Update position with corrected velocity (continuous bodies stop at what they would pass through)
+        if (!(phys.continuous and sweepToImpact(i, delta_time))) {
+            phys.position.x += phys.velocity.x * delta_time;
+            phys.position.y += phys.velocity.y * delta_time;
+            phys.position.z += phys.velocity.z * delta_time;
+        }
 
         // Apply world boundary constraints using shape-specific collision detection
-        const entity_collision_flags = applyECSWorldBoundaryConstraintsWithShape(&phys.position, &phys.velocity, phys.collision_shape, phys.extents);
-        collision_state |= entity_collision_flags;
+        if (world_bounds_enabled) {
+            const entity_collision_flags = applyECSWorldBoundaryConstraintsWithShape(&phys.position, &phys.velocity, phys.collision_shape, heldExtents(phys));
+            collision_state |= entity_collision_flags;
+        }
+
+        // Spin: rotate about the world-space angular velocity (the transform is already dirty)
+        phys.rotation = core.integrateRotation(phys.rotation, phys.angular_velocity, delta_time);
     }
 
     // Step 4: Update rotator components (animation system)
@@ -514,63 +644,63 @@ fn applyECSWorldBoundaryConstraintsWithShape(position: *core.Vec3, velocity: *co
     // 🔍 SHAPE TRACING: Log collision calculations with shape-specific extents
     const debug_enabled = false; // Disable for production
     if (debug_enabled and position.y < -6.0) { // Only log entities near floor
-        std.debug.print("🔍 WORLD BOUNDS: pos=({d:.3},{d:.3},{d:.3}), shape={d}, extents=({d:.3},{d:.3},{d:.3}), world_bounds.y={d:.3}\n", .{ position.x, position.y, position.z, @intFromEnum(collision_shape), extents.x, extents.y, extents.z, world_bounds.y });
+        std.debug.print("🔍 WORLD BOUNDS: pos=({d:.3},{d:.3},{d:.3}), shape={d}, extents=({d:.3},{d:.3},{d:.3}), world_bounds_min.y={d:.3}\n", .{ position.x, position.y, position.z, @intFromEnum(collision_shape), extents.x, extents.y, extents.z, world_bounds_min.y });
     }
 
     // Get direction-specific collision extents
     const x_extent = switch (collision_shape) {
         .SPHERE => extents.x, // Sphere radius
-        .BOX => extents.x, // Box half-width
+        .BOX, .CAPSULE, .CYLINDER, .HULL, .COMPOUND => extents.x, // Box half-width, capsule/cylinder radius
         .PLANE => 0.0, // Planes don't collide with boundaries
     };
     const y_extent = switch (collision_shape) {
         .SPHERE => extents.x, // Sphere radius (same in all directions)
-        .BOX => extents.y, // Box half-height
+        .BOX, .CAPSULE, .CYLINDER, .HULL, .COMPOUND => extents.y, // Half-height
         .PLANE => 0.0, // Planes don't collide with boundaries
     };
     const z_extent = switch (collision_shape) {
         .SPHERE => extents.x, // Sphere radius
-        .BOX => extents.z, // Box half-depth
+        .BOX, .CAPSULE, .CYLINDER, .HULL, .COMPOUND => extents.z, // Box half-depth, capsule/cylinder radius
         .PLANE => 0.0, // Planes don't collide with boundaries
     };
 
     // X boundaries (use X extent)
-    if (position.x - x_extent < -world_bounds.x) {
-        if (debug_enabled) std.debug.print("🔍 X-COLLISION: pos.x={d:.3}, x_extent={d:.3}, boundary={d:.3}\n", .{ position.x, x_extent, -world_bounds.x });
-        position.x = -world_bounds.x + x_extent;
+    if (position.x - x_extent < world_bounds_min.x) {
+        if (debug_enabled) std.debug.print("🔍 X-COLLISION: pos.x={d:.3}, x_extent={d:.3}, boundary={d:.3}\n", .{ position.x, x_extent, world_bounds_min.x });
+        position.x = world_bounds_min.x + x_extent;
         velocity.x = -velocity.x * physics_restitution;
         collision_flags |= 1;
-    } else if (position.x + x_extent > world_bounds.x) {
-        if (debug_enabled) std.debug.print("🔍 X-COLLISION: pos.x={d:.3}, x_extent={d:.3}, boundary={d:.3}\n", .{ position.x, x_extent, world_bounds.x });
-        position.x = world_bounds.x - x_extent;
+    } else if (position.x + x_extent > world_bounds_max.x) {
+        if (debug_enabled) std.debug.print("🔍 X-COLLISION: pos.x={d:.3}, x_extent={d:.3}, boundary={d:.3}\n", .{ position.x, x_extent, world_bounds_max.x });
+        position.x = world_bounds_max.x - x_extent;
         velocity.x = -velocity.x * physics_restitution;
         collision_flags |= 2;
     }
 
     // Y boundaries (use Y extent) - CRITICAL FIX FOR BOX FLOOR COLLISION
-    if (position.y - y_extent < -world_bounds.y) {
+    if (position.y - y_extent < world_bounds_min.y) {
         if (debug_enabled) {
-            std.debug.print("🔍 FLOOR COLLISION: pos.y={d:.3}, y_extent={d:.3}, world_bounds.y={d:.3}\n", .{ position.y, y_extent, world_bounds.y });
-            std.debug.print("🔍 FLOOR FORMULA: pos.y - y_extent = {d:.3} - {d:.3} = {d:.3} < {d:.3}\n", .{ position.y, y_extent, position.y - y_extent, -world_bounds.y });
-            std.debug.print("🔍 FLOOR CORRECTION: new pos.y = {d:.3} + {d:.3} = {d:.3}\n", .{ -world_bounds.y, y_extent, -world_bounds.y + y_extent });
+            std.debug.print("🔍 FLOOR COLLISION: pos.y={d:.3}, y_extent={d:.3}, world_bounds_min.y={d:.3}\n", .{ position.y, y_extent, world_bounds_min.y });
+            std.debug.print("🔍 FLOOR FORMULA: pos.y - y_extent = {d:.3} - {d:.3} = {d:.3} < {d:.3}\n", .{ position.y, y_extent, position.y - y_extent, world_bounds_min.y });
+            std.debug.print("🔍 FLOOR CORRECTION: new pos.y = {d:.3} + {d:.3} = {d:.3}\n", .{ world_bounds_min.y, y_extent, world_bounds_min.y + y_extent });
         }
-        position.y = -world_bounds.y + y_extent;
+        position.y = world_bounds_min.y + y_extent;
         velocity.y = -velocity.y * physics_restitution;
         collision_flags |= 4;
-    } else if (position.y + y_extent > world_bounds.y) {
-        if (debug_enabled) std.debug.print("🔍 CEILING COLLISION: pos.y={d:.3}, y_extent={d:.3}, world_bounds.y={d:.3}\n", .{ position.y, y_extent, world_bounds.y });
-        position.y = world_bounds.y - y_extent;
+    } else if (position.y + y_extent > world_bounds_max.y) {
+        if (debug_enabled) std.debug.print("🔍 CEILING COLLISION: pos.y={d:.3}, y_extent={d:.3}, world_bounds_max.y={d:.3}\n", .{ position.y, y_extent, world_bounds_max.y });
+        position.y = world_bounds_max.y - y_extent;
         velocity.y = -velocity.y * physics_restitution;
         collision_flags |= 8;
     }
 
     // Z boundaries (use Z extent)
-    if (position.z - z_extent < -world_bounds.z) {
-        position.z = -world_bounds.z + z_extent;
+    if (position.z - z_extent < world_bounds_min.z) {
+        position.z = world_bounds_min.z + z_extent;
         velocity.z = -velocity.z * physics_restitution;
         collision_flags |= 16;
-    } else if (position.z + z_extent > world_bounds.z) {
-        position.z = world_bounds.z - z_extent;
+    } else if (position.z + z_extent > world_bounds_max.z) {
+        position.z = world_bounds_max.z - z_extent;
         velocity.z = -velocity.z * physics_restitution;
         collision_flags |= 32;
     }
@@ -596,7 +726,7 @@ fn spawnEntityInternal(x: f32, y: f32, z: f32, radius: f32, mesh_type: MeshType)
     // Calculate extents based on collision shape
     const extents = switch (collision_shape) {
         .SPHERE => core.Vec3{ .x = radius, .y = radius, .z = radius }, // radius in all components for compatibility
-        .BOX => core.Vec3{ .x = radius, .y = radius, .z = radius }, // Use radius as half-extent for boxes
+        .BOX, .CAPSULE, .CYLINDER, .HULL, .COMPOUND => core.Vec3{ .x = radius, .y = radius, .z = radius }, // Use radius as half-extent for boxes
         .PLANE => core.Vec3{ .x = 0, .y = 1, .z = 0 }, // Default upward normal
     };
 
@@ -615,6 +745,7 @@ fn spawnEntityInternal(x: f32, y: f32, z: f32, radius: f32, mesh_type: MeshType)
         .collision_shape = collision_shape,
         .extents = extents,
     };
+    physics_components[index].inv_inertia = deriveInvInertia(&physics_components[index]);
 
     // Initialize rendering component with transform matrix
     rendering_components[index] = RenderingComponent{
@@ -674,21 +805,21 @@ fn applyWorldBoundaryConstraints(position: *core.Vec3, velocity: *core.Vec3, rad
     var collision_flags: u8 = 0;
 
     // Floor collision
-    if (position.y - radius < -world_bounds.y) {
-        position.y = -world_bounds.y + radius;
+    if (position.y - radius < world_bounds_min.y) {
+        position.y = world_bounds_min.y + radius;
         velocity.y = -velocity.y * physics_restitution;
         collision_flags |= 0x01;
     }
 
     // Wall collisions
-    if (@abs(position.x) + radius > world_bounds.x) {
-        position.x = std.math.sign(position.x) * (world_bounds.x - radius);
+    if (position.x - radius < world_bounds_min.x or position.x + radius > world_bounds_max.x) {
+        position.x = std.math.clamp(position.x, world_bounds_min.x + radius, world_bounds_max.x - radius);
         velocity.x = -velocity.x * physics_restitution;
         collision_flags |= 0x02;
     }
 
-    if (@abs(position.z) + radius > world_bounds.z) {
-        position.z = std.math.sign(position.z) * (world_bounds.z - radius);
+    if (position.z - radius < world_bounds_min.z or position.z + radius > world_bounds_max.z) {
+        position.z = std.math.clamp(position.z, world_bounds_min.z + radius, world_bounds_max.z - radius);
         velocity.z = -velocity.z * physics_restitution;
         collision_flags |= 0x02;
     }
@@ -718,21 +849,21 @@ fn simulatePhysicsWithConfig(position: *core.Vec3, velocity: *core.Vec3, delta_t
 
     // Collision detection and response using configurable bounds
     // Floor collision
-    if (position.y - radius < -world_bounds.y) {
-        position.y = -world_bounds.y + radius;
+    if (position.y - radius < world_bounds_min.y) {
+        position.y = world_bounds_min.y + radius;
         velocity.y = -velocity.y * physics_restitution;
         local_collision_state |= 0x01;
     }
 
     // Wall collisions
-    if (@abs(position.x) + radius > world_bounds.x) {
-        position.x = std.math.sign(position.x) * (world_bounds.x - radius);
+    if (position.x - radius < world_bounds_min.x or position.x + radius > world_bounds_max.x) {
+        position.x = std.math.clamp(position.x, world_bounds_min.x + radius, world_bounds_max.x - radius);
         velocity.x = -velocity.x * physics_restitution;
         local_collision_state |= 0x02;
     }
 
-    if (@abs(position.z) + radius > world_bounds.z) {
-        position.z = std.math.sign(position.z) * (world_bounds.z - radius);
+    if (position.z - radius < world_bounds_min.z or position.z + radius > world_bounds_max.z) {
+        position.z = std.math.clamp(position.z, world_bounds_min.z + radius, world_bounds_max.z - radius);
         velocity.z = -velocity.z * physics_restitution;
         local_collision_state |= 0x02;
     }
@@ -740,398 +871,1910 @@ fn simulatePhysicsWithConfig(position: *core.Vec3, velocity: *core.Vec3, delta_t
     return local_collision_state;
 }
 
-// ECS entity-entity collision detection and response with iterative resolution
-fn checkEntityCollisions(delta_time: f32) void {
-    _ = delta_time; // For future use in time-based collision resolution
-
-    // Debug: Track collision checking
-    var collision_checks_performed: u32 = 0;
-    var collisions_detected: u32 = 0;
-
-    // ITERATIVE COLLISION RESOLUTION: Run multiple passes to resolve deep penetrations
-    const max_iterations = 5; // Maximum collision resolution iterations per frame
-    var iteration: u32 = 0;
+// =============================================================================
+// Contact Stream (per-step contact pairs for TS collision events)
+// =============================================================================
 
-    while (iteration < max_iterations) : (iteration += 1) {
-        var any_collision_resolved = false;
+// One touching pair of a physics step as TypeScript reads it (10 x 4 bytes). The
+// normal follows the Object1 POV convention (the direction entity_a is pushed away
+// from entity_b); impulse is the normal impulse the solver applied to the pair,
+// summed over the resolution iterations.
+pub const ContactRecord = extern struct {
+    entity_a: u32,
+    entity_b: u32,
+    point: [3]f32,
+    normal: [3]f32,
+    impulse: f32,
+    penetration: f32,
+};
 
-        // Check all pairs of active physics entities
-        for (0..entity_count) |i| {
-            if (!entity_metadata[i].active or !entity_metadata[i].physics_enabled) continue;
-
-            for (i + 1..entity_count) |j| {
-                if (!entity_metadata[j].active or !entity_metadata[j].physics_enabled) continue;
-
-                // Skip collision if both entities are kinematic
-                if (physics_components[i].isImmovable() and physics_components[j].isImmovable()) continue;
-
-                const phys1 = &physics_components[i];
-                const phys2 = &physics_components[j];
-
-                collision_checks_performed += 1;
-
-                // Special case: SPHERE vs SPHERE collision - use original working legacy path
-                if (phys1.collision_shape == core.CollisionShape.SPHERE and phys2.collision_shape == core.CollisionShape.SPHERE) {
-                    // Use legacy sphere collision detection and resolution (the original working system)
-                    if (core.checkSphereCollision(phys1.position, phys1.extents.x, phys2.position, phys2.extents.x)) |_| {
-                        collisions_detected += 1;
-                        any_collision_resolved = true;
-
-                        // 🔍 LOG COLLISION EVENT: Sphere vs Sphere
-                        last_collision_entity1 = @intCast(i);
-                        last_collision_entity2 = @intCast(j);
-                        last_collision_pos1[0] = phys1.position.x;
-                        last_collision_pos1[1] = phys1.position.y;
-                        last_collision_pos1[2] = phys1.position.z;
-                        last_collision_pos2[0] = phys2.position.x;
-                        last_collision_pos2[1] = phys2.position.y;
-                        last_collision_pos2[2] = phys2.position.z;
-                        collision_event_counter += 1;
-
-                        // 🚨 WASM COLLISION LOG: Real-time sphere collision detection
-                        var log_buffer: [256]u8 = undefined;
-                        const log_msg = std.fmt.bufPrint(&log_buffer, "🚨 SPHERE COLLISION: Entity {} vs {} at ({d:.3},{d:.3},{d:.3}) vs ({d:.3},{d:.3},{d:.3})\n", .{ i, j, phys1.position.x, phys1.position.y, phys1.position.z, phys2.position.x, phys2.position.y, phys2.position.z }) catch "SPHERE COLLISION: formatting error\n";
-                        log(log_msg.ptr, log_msg.len);
-
-                        // Debug: Log collision details
-                        if (phys1.isImmovable() or phys2.isImmovable()) {
-                            collision_state |= 0x20; // Kinematic collision flag
-                        }
-
-                        // 🔧 COLLISION RESOLUTION RE-ENABLED WITH DETAILED LOGGING
-                        const pos1_before = core.Vec3{ .x = phys1.position.x, .y = phys1.position.y, .z = phys1.position.z };
-                        const pos2_before = core.Vec3{ .x = phys2.position.x, .y = phys2.position.y, .z = phys2.position.z };
-                        const vel1_before = core.Vec3{ .x = phys1.velocity.x, .y = phys1.velocity.y, .z = phys1.velocity.z };
-                        const vel2_before = core.Vec3{ .x = phys2.velocity.x, .y = phys2.velocity.y, .z = phys2.velocity.z };
-
-                        core.resolveSphereCollisionWithKinematic(&phys1.position, &phys1.velocity, phys1.mass, phys1.extents.x, phys1.isImmovable(), &phys2.position, &phys2.velocity, phys2.mass, phys2.extents.x, phys2.isImmovable(), physics_restitution);
-
-                        // 📊 LOG COLLISION RESOLUTION DETAILS
-                        var res_log_buffer: [512]u8 = undefined;
-                        const res_log_msg = std.fmt.bufPrint(&res_log_buffer, "📊 SPHERE RESOLUTION: Entity {} pos ({d:.3},{d:.3},{d:.3})->[{d:.3},{d:.3},{d:.3}] vel ({d:.3},{d:.3},{d:.3})->[{d:.3},{d:.3},{d:.3}]\n", .{ i, pos1_before.x, pos1_before.y, pos1_before.z, phys1.position.x, phys1.position.y, phys1.position.z, vel1_before.x, vel1_before.y, vel1_before.z, phys1.velocity.x, phys1.velocity.y, phys1.velocity.z }) catch "SPHERE RESOLUTION: formatting error\n";
-                        log(res_log_msg.ptr, res_log_msg.len);
-
-                        var res_log_buffer2: [512]u8 = undefined;
-                        const res_log_msg2 = std.fmt.bufPrint(&res_log_buffer2, "📊 SPHERE RESOLUTION: Entity {} pos ({d:.3},{d:.3},{d:.3})->[{d:.3},{d:.3},{d:.3}] vel ({d:.3},{d:.3},{d:.3})->[{d:.3},{d:.3},{d:.3}]\n", .{ j, pos2_before.x, pos2_before.y, pos2_before.z, phys2.position.x, phys2.position.y, phys2.position.z, vel2_before.x, vel2_before.y, vel2_before.z, phys2.velocity.x, phys2.velocity.y, phys2.velocity.z }) catch "SPHERE RESOLUTION: formatting error\n";
-                        log(res_log_msg2.ptr, res_log_msg2.len);
-
-                        // Mark transforms as dirty for rendering update
-                        entity_metadata[i].transform_dirty = true;
-                        entity_metadata[j].transform_dirty = true;
-
-                        // Update collision state to indicate entity-entity collision
-                        collision_state |= 0x10; // Entity collision flag
-
-                        // Store collision count in unused bits (for debugging)
-                        const collision_count_mask = @as(u8, @intCast(collisions_detected & 0x0F));
-                        collision_state = (collision_state & 0x3F) | (collision_count_mask << 6);
-                    }
-                } else {
-                    // Use universal collision dispatcher for BOX, PLANE, and mixed collision types
-                    if (core.checkCollision(phys1.position, phys1.collision_shape, phys1.extents, phys2.position, phys2.collision_shape, phys2.extents)) |collision_info| {
-                        collisions_detected += 1;
-                        any_collision_resolved = true;
-
-                        // 🔍 LOG COLLISION EVENT: Box/Mixed collision
-                        last_collision_entity1 = @intCast(i);
-                        last_collision_entity2 = @intCast(j);
-                        last_collision_pos1[0] = phys1.position.x;
-                        last_collision_pos1[1] = phys1.position.y;
-                        last_collision_pos1[2] = phys1.position.z;
-                        last_collision_pos2[0] = phys2.position.x;
-                        last_collision_pos2[1] = phys2.position.y;
-                        last_collision_pos2[2] = phys2.position.z;
-                        collision_event_counter += 1;
-
-                        // 🚨 WASM COLLISION LOG: Limited logging for debugging
-                        if (collision_log_count < 25) {
-                            var log_buffer: [256]u8 = undefined;
-                            const shape1_name = if (phys1.collision_shape == core.CollisionShape.BOX) "BOX" else if (phys1.collision_shape == core.CollisionShape.SPHERE) "SPHERE" else "PLANE";
-                            const shape2_name = if (phys2.collision_shape == core.CollisionShape.BOX) "BOX" else if (phys2.collision_shape == core.CollisionShape.SPHERE) "SPHERE" else "PLANE";
-                            const log_msg = std.fmt.bufPrint(&log_buffer, "🚨 {s} vs {s} COLLISION: Entity {} vs {} at ({d:.3},{d:.3},{d:.3}) vs ({d:.3},{d:.3},{d:.3})\n", .{ shape1_name, shape2_name, i, j, phys1.position.x, phys1.position.y, phys1.position.z, phys2.position.x, phys2.position.y, phys2.position.z }) catch "BOX/MIXED COLLISION: formatting error\n";
-                            log(log_msg.ptr, log_msg.len);
-                            collision_log_count += 1;
-                        }
-
-                        // Debug: Log collision details (stored in collision_state bits for inspection)
-                        // Bit pattern: 0x10 = collision detected, 0x20 = kinematic involved
-                        if (phys1.isImmovable() or phys2.isImmovable()) {
-                            collision_state |= 0x20; // Kinematic collision flag
-                        }
-
-                        // 🔧 COLLISION RESOLUTION RE-ENABLED WITH DETAILED LOGGING - Box and mixed collisions
-                        const pos1_before = core.Vec3{ .x = phys1.position.x, .y = phys1.position.y, .z = phys1.position.z };
-                        const pos2_before = core.Vec3{ .x = phys2.position.x, .y = phys2.position.y, .z = phys2.position.z };
-                        const vel1_before = core.Vec3{ .x = phys1.velocity.x, .y = phys1.velocity.y, .z = phys1.velocity.z };
-                        const vel2_before = core.Vec3{ .x = phys2.velocity.x, .y = phys2.velocity.y, .z = phys2.velocity.z };
-
-                        // Use the collision_info from the detection call above (no double-call needed)
-                        core.resolveCollision(&phys1.position, &phys1.velocity, phys1.collision_shape, phys1.extents, phys1.mass, phys1.isImmovable(), &phys2.position, &phys2.velocity, phys2.collision_shape, phys2.extents, phys2.mass, phys2.isImmovable(), physics_restitution, collision_info);
-
-                        // 📊 LOG BOX COLLISION RESOLUTION DETAILS (very limited - only first 3 collisions)
-                        if (collision_log_count <= 3) {
-                            var box_res_log_buffer: [512]u8 = undefined;
-                            const box_res_log_msg = std.fmt.bufPrint(&box_res_log_buffer, "📊 BOX RESOLUTION: Entity {} pos ({d:.3},{d:.3},{d:.3})->[{d:.3},{d:.3},{d:.3}] vel ({d:.3},{d:.3},{d:.3})->[{d:.3},{d:.3},{d:.3}]\n", .{ i, pos1_before.x, pos1_before.y, pos1_before.z, phys1.position.x, phys1.position.y, phys1.position.z, vel1_before.x, vel1_before.y, vel1_before.z, phys1.velocity.x, phys1.velocity.y, phys1.velocity.z }) catch "BOX RESOLUTION: formatting error\n";
-                            log(box_res_log_msg.ptr, box_res_log_msg.len);
-
-                            var box_res_log_buffer2: [512]u8 = undefined;
-                            const box_res_log_msg2 = std.fmt.bufPrint(&box_res_log_buffer2, "📊 BOX RESOLUTION: Entity {} pos ({d:.3},{d:.3},{d:.3})->[{d:.3},{d:.3},{d:.3}] vel ({d:.3},{d:.3},{d:.3})->[{d:.3},{d:.3},{d:.3}]\n", .{ j, pos2_before.x, pos2_before.y, pos2_before.z, phys2.position.x, phys2.position.y, phys2.position.z, vel2_before.x, vel2_before.y, vel2_before.z, phys2.velocity.x, phys2.velocity.y, phys2.velocity.z }) catch "BOX RESOLUTION: formatting error\n";
-                            log(box_res_log_msg2.ptr, box_res_log_msg2.len);
-
-                            // 🔍 LOG COLLISION NORMAL AND PENETRATION DEPTH
-                            var collision_info_buffer: [256]u8 = undefined;
-                            const collision_info_msg = std.fmt.bufPrint(&collision_info_buffer, "🔍 COLLISION INFO: normal ({d:.3},{d:.3},{d:.3}) depth {d:.3}\n", .{ collision_info.contact_normal.x, collision_info.contact_normal.y, collision_info.contact_normal.z, collision_info.penetration_depth }) catch "COLLISION INFO: formatting error\n";
-                            log(collision_info_msg.ptr, collision_info_msg.len);
-                        }
-
-                        // Mark transforms as dirty for rendering update
-                        entity_metadata[i].transform_dirty = true;
-                        entity_metadata[j].transform_dirty = true;
-
-                        // Update collision state to indicate entity-entity collision
-                        collision_state |= 0x10; // New bit for entity collisions
-
-                        // Store collision count in unused bits (for debugging)
-                        const collision_count_mask = @as(u8, @intCast(collisions_detected & 0x0F));
-                        collision_state = (collision_state & 0x3F) | (collision_count_mask << 6);
-                    }
-                }
-            }
-        }
+const MAX_CONTACTS: u32 = 4096;
+const CONTACT_TABLE_SIZE: u32 = 8192; // Power of two, > MAX_CONTACTS: open-addressed pair -> contact lookup
+var contacts: [MAX_CONTACTS]ContactRecord = undefined;
+var contact_count: u32 = 0;
+var contact_table: [CONTACT_TABLE_SIZE]u32 = undefined; // Contact index + 1 (0 = empty)
+
+// Start a step's contact stream. Sleeping pairs are not collision-tested, so their contact
+// from the last step carries over (at zero impulse): a settled stack keeps reporting Stay
+// instead of an Exit when it falls asleep.
+fn clearContacts() void {
+    trigger_pair_count = 0;
+    @memset(&contact_table, 0);
+
+    var kept: u32 = 0;
+    for (contacts[0..contact_count]) |record| {
+        const index_a = findECSEntityById(record.entity_a) orelse continue;
+        const index_b = findECSEntityById(record.entity_b) orelse continue;
+        if (isAwake(&physics_components[index_a]) or isAwake(&physics_components[index_b])) continue;
+
+        contacts[kept] = record;
+        contacts[kept].impulse = 0;
+        kept += 1;
+        contact_table[contactSlot(record.entity_a, record.entity_b)] = kept;
+    }
+    contact_count = kept;
+}
 
-        // If no collisions were resolved in this iteration, we're done
-        if (!any_collision_resolved) {
-            break;
-        }
+// Table slot holding the (id_a, id_b) contact, or the empty slot where it belongs
+fn contactSlot(id_a: u32, id_b: u32) u32 {
+    var slot = ((id_a *% 0x9E3779B1) ^ id_b) & (CONTACT_TABLE_SIZE - 1);
+    while (contact_table[slot] != 0) : (slot = (slot + 1) & (CONTACT_TABLE_SIZE - 1)) {
+        const existing = &contacts[contact_table[slot] - 1];
+        if (existing.entity_a == id_a and existing.entity_b == id_b) break;
     }
+    return slot;
+}
 
-    // Store collision check count in a debug variable for inspection
-    // We'll use the unused debug_floating_entity_index for this
-    if (collision_checks_performed > 0) {
-        debug_floating_entity_index = collision_checks_performed;
+// Add a pair's contact for this step, or fold a repeat detection (a later resolution
+// iteration) into the existing one. Pairs beyond MAX_CONTACTS are dropped.
+fn recordContact(index_a: usize, index_b: usize, info: core.CollisionInfo, impulse: f32) void {
+    const id_a = entity_metadata[index_a].id;
+    const id_b = entity_metadata[index_b].id;
+    const slot = contactSlot(id_a, id_b);
+    if (contact_table[slot] != 0) {
+        contacts[contact_table[slot] - 1].impulse += impulse;
+        return;
     }
+    if (contact_count == MAX_CONTACTS) return;
+
+    contacts[contact_count] = ContactRecord{
+        .entity_a = id_a,
+        .entity_b = id_b,
+        .point = .{ info.contact_point.x, info.contact_point.y, info.contact_point.z },
+        .normal = .{ info.contact_normal.x, info.contact_normal.y, info.contact_normal.z },
+        .impulse = impulse,
+        .penetration = info.penetration_depth,
+    };
+    contact_count += 1;
+    contact_table[slot] = contact_count;
 }
 
-pub export fn update(delta_time: f32) void {
-    collision_state = 0;
+// Trigger overlaps of a physics step: [entity_a, entity_b] id pairs (TS knows which
+// side is the trigger). Each pair is tested once per step, so no dedup is needed.
+const MAX_TRIGGER_PAIRS: u32 = 4096;
+var trigger_pairs: [MAX_TRIGGER_PAIRS][2]u32 = undefined;
+var trigger_pair_count: u32 = 0;
 
-    // Process camera movement from WASD input
-    const camera_speed: f32 = 10.0;
-    if (input_state & 0x01 != 0) { // W - forward
-        const forward = core.Vec3{
-            .x = camera_target.x - camera_position.x,
-            .y = camera_target.y - camera_position.y,
-            .z = camera_target.z - camera_position.z,
-        };
-        const forward_norm = core.normalize(forward);
-        camera_position.x += forward_norm.x * camera_speed * delta_time;
-        camera_position.y += forward_norm.y * camera_speed * delta_time;
-        camera_position.z += forward_norm.z * camera_speed * delta_time;
-        camera_target.x += forward_norm.x * camera_speed * delta_time;
-        camera_target.y += forward_norm.y * camera_speed * delta_time;
-        camera_target.z += forward_norm.z * camera_speed * delta_time;
-    }
-    if (input_state & 0x02 != 0) { // A - left
-        const forward = core.Vec3{
-            .x = camera_target.x - camera_position.x,
-            .y = camera_target.y - camera_position.y,
-            .z = camera_target.z - camera_position.z,
-        };
-        const right = core.cross(core.normalize(forward), camera_up);
-        camera_position.x -= right.x * camera_speed * delta_time;
-        camera_position.y -= right.y * camera_speed * delta_time;
-        camera_position.z -= right.z * camera_speed * delta_time;
-        camera_target.x -= right.x * camera_speed * delta_time;
-        camera_target.y -= right.y * camera_speed * delta_time;
-        camera_target.z -= right.z * camera_speed * delta_time;
-    }
-    if (input_state & 0x04 != 0) { // S - backward
-        const forward = core.Vec3{
-            .x = camera_target.x - camera_position.x,
-            .y = camera_target.y - camera_position.y,
-            .z = camera_target.z - camera_position.z,
-        };
-        const forward_norm = core.normalize(forward);
-        camera_position.x -= forward_norm.x * camera_speed * delta_time;
-        camera_position.y -= forward_norm.y * camera_speed * delta_time;
-        camera_position.z -= forward_norm.z * camera_speed * delta_time;
-        camera_target.x -= forward_norm.x * camera_speed * delta_time;
-        camera_target.y -= forward_norm.y * camera_speed * delta_time;
-        camera_target.z -= forward_norm.z * camera_speed * delta_time;
+fn recordTriggerPair(index_a: usize, index_b: usize) void {
+    if (trigger_pair_count == MAX_TRIGGER_PAIRS) return;
+    trigger_pairs[trigger_pair_count] = .{ entity_metadata[index_a].id, entity_metadata[index_b].id };
+    trigger_pair_count += 1;
+}
+
+fn overlaps(phys1: *const PhysicsComponent, phys2: *const PhysicsComponent) bool {
+    if (phys1.collision_shape == .SPHERE and phys2.collision_shape == .SPHERE) {
+        return core.checkSphereCollision(phys1.position, phys1.extents.x, phys2.position, phys2.extents.x) != null;
     }
-    if (input_state & 0x08 != 0) { // D - right
-        const forward = core.Vec3{
-            .x = camera_target.x - camera_position.x,
-            .y = camera_target.y - camera_position.y,
-            .z = camera_target.z - camera_position.z,
-        };
-        const right = core.cross(core.normalize(forward), camera_up);
-        camera_position.x += right.x * camera_speed * delta_time;
-        camera_position.y += right.y * camera_speed * delta_time;
-        camera_position.z += right.z * camera_speed * delta_time;
-        camera_target.x += right.x * camera_speed * delta_time;
-        camera_target.y += right.y * camera_speed * delta_time;
-        camera_target.z += right.z * camera_speed * delta_time;
+    return checkColliders(phys1, phys2, 0) != null;
+}
+
+// Normal impulse just applied to a pair, read off the velocity change of its movable body
+fn contactImpulse(phys1: *const PhysicsComponent, vel1_before: core.Vec3, phys2: *const PhysicsComponent, vel2_before: core.Vec3, normal: core.Vec3) f32 {
+    if (!phys1.isImmovable()) return phys1.mass * @abs(core.dot(core.vec3_subtract(phys1.velocity, vel1_before), normal));
+    return phys2.mass * @abs(core.dot(core.vec3_subtract(phys2.velocity, vel2_before), normal));
+}
+
+// Contact of the legacy sphere-sphere path (which resolves without a CollisionInfo)
+fn sphereContactInfo(pos1: core.Vec3, radius1: f32, pos2: core.Vec3, overlap: f32) core.CollisionInfo {
+    const delta = core.vec3_subtract(pos1, pos2);
+    const dist = core.magnitude(delta);
+    const normal = if (dist > 0) core.vec3_scale(delta, 1.0 / dist) else core.Vec3{ .x = 0, .y = 1, .z = 0 };
+    return core.CollisionInfo{
+        .has_collision = true,
+        .penetration_depth = overlap,
+        .contact_normal = normal,
+        .contact_point = core.vec3_subtract(pos1, core.vec3_scale(normal, radius1)),
+    };
+}
+
+// Resting pairs end most steps exactly separated (the solver corrects penetration
+// fully), which would make their contacts flicker. The contact stream therefore also
+// reports pairs within CONTACT_SKIN of touching, with zero impulse and depth; the
+// solver itself never sees the skin.
+const CONTACT_SKIN: f32 = 0.02;
+
+fn skinContact(phys1: *const PhysicsComponent, phys2: *const PhysicsComponent) ?core.CollisionInfo {
+    if (phys1.collision_shape == .SPHERE and phys2.collision_shape == .SPHERE) {
+        const overlap = core.checkSphereCollision(phys1.position, phys1.extents.x + CONTACT_SKIN, phys2.position, phys2.extents.x + CONTACT_SKIN) orelse return null;
+        var info = sphereContactInfo(phys1.position, phys1.extents.x, phys2.position, overlap);
+        info.penetration_depth = 0;
+        return info;
     }
+    var info = checkColliders(phys1, phys2, CONTACT_SKIN) orelse return null;
+    info.penetration_depth = 0;
+    return info;
+}
 
-    // Update view matrix if camera moved
-    if (input_state != 0) {
-        updateViewMatrix();
+// Contact between two bodies' colliders, each grown by `skin`: compounds part by part,
+// pairs with a turned box or a hull in them as oriented boxes or through GJK/EPA, the rest
+// through the shape-specific tests
+fn checkColliders(phys1: *const PhysicsComponent, phys2: *const PhysicsComponent, skin: f32) ?core.CollisionInfo {
+    if (phys1.collision_shape == .COMPOUND) return deepestPartContact(phys1, phys2, skin, false);
+    if (phys2.collision_shape == .COMPOUND) return deepestPartContact(phys2, phys1, skin, true);
+    if (isTurnedBox(phys1) or isTurnedBox(phys2)) return turnedBoxContact(phys1, phys2, skin);
+    if (phys1.collision_shape == .HULL or phys2.collision_shape == .HULL) {
+        if (phys1.collision_shape == .PLANE or phys2.collision_shape == .PLANE) return null; // Future implementation
+        return core.checkConvexCollision(convexCollider(phys1, skin), convexCollider(phys2, skin));
     }
+    return core.checkCollision(phys1.position, phys1.collision_shape, grownExtents(phys1, skin), phys2.position, phys2.collision_shape, grownExtents(phys2, skin));
+}
 
-    // ECS physics simulation
-    updateECSPhysics(delta_time);
+fn grownExtents(phys: *const PhysicsComponent, skin: f32) core.Vec3 {
+    if (phys.collision_shape == .PLANE) return phys.extents; // Extents are the plane normal
+    return core.vec3_add(phys.extents, .{ .x = skin, .y = skin, .z = skin });
+}
 
-    // Update model matrix with first active entity position (for backward compatibility)
-    uniforms.model = core.Mat4.identity();
-    if (entity_count > 0 and entity_metadata[0].active) {
-        uniforms.model.data[12] = physics_components[0].position.x;
-        uniforms.model.data[13] = physics_components[0].position.y;
-        uniforms.model.data[14] = physics_components[0].position.z;
+// ============================================================================
+// Oriented boxes
+// ============================================================================
+// A BOX turns with its body's rotation (a tilted ramp, a box knocked onto its edge): box
+// pairs are tested with the separating axis theorem and spheres in the box's frame
+// (core.checkOrientedBoxCollision / checkSphereOrientedBoxCollision), other shapes against
+// it through GJK/EPA, and ray and sphere casts in the box's frame. The broadphase, the world
+// bounds and CCD sweeps take a turned box as the axis-aligned box holding it. Every other
+// collider stays axis-aligned.
+
+fn isTurnedBox(phys: *const PhysicsComponent) bool {
+    return phys.collision_shape == .BOX and (phys.rotation.x != 0 or phys.rotation.y != 0 or phys.rotation.z != 0);
+}
+
+// Half-size of the axis-aligned box holding a collider (a turned box's grows with the turn)
+fn heldExtents(phys: *const PhysicsComponent) core.Vec3 {
+    return if (isTurnedBox(phys)) turnedExtents(phys.rotation, phys.extents) else phys.extents;
+}
+
+// checkColliders for a pair with a turned box in it
+fn turnedBoxContact(phys1: *const PhysicsComponent, phys2: *const PhysicsComponent, skin: f32) ?core.CollisionInfo {
+    const extents1 = grownExtents(phys1, skin);
+    const extents2 = grownExtents(phys2, skin);
+    switch (phys1.collision_shape) {
+        .BOX => switch (phys2.collision_shape) {
+            .BOX => return core.checkOrientedBoxCollision(phys1.position, phys1.rotation, extents1, phys2.position, phys2.rotation, extents2),
+            .SPHERE => {
+                var info = core.checkSphereOrientedBoxCollision(phys2.position, extents2.x, phys1.position, phys1.rotation, extents1) orelse return null;
+                info.contact_normal = core.vec3_negate(info.contact_normal);
+                return info;
+            },
+            .PLANE => return null, // Future implementation
+            else => {},
+        },
+        .SPHERE => if (phys2.collision_shape == .BOX) return core.checkSphereOrientedBoxCollision(phys1.position, extents1.x, phys2.position, phys2.rotation, extents2),
+        .PLANE => return null,
+        else => {},
     }
+    if (phys2.collision_shape == .PLANE) return null;
+    return core.checkConvexCollision(convexCollider(phys1, skin), convexCollider(phys2, skin));
 }
 
-pub export fn set_input(key: u8, pressed: bool) void {
-    const key_map = switch (key) {
-        87 => @as(u8, 0x01), // W
-        65 => @as(u8, 0x02), // A
-        83 => @as(u8, 0x04), // S
-        68 => @as(u8, 0x08), // D
-        else => @as(u8, 0),
-    };
+// Point of a body's box (turned, if it is a turned box) nearest `point`
+fn closestBoxPoint(phys: *const PhysicsComponent, point: core.Vec3) core.Vec3 {
+    if (!isTurnedBox(phys)) return core.vec3_clamp(point, core.vec3_subtract(phys.position, phys.extents), core.vec3_add(phys.position, phys.extents));
+    const local = core.inverseRotateVector(phys.rotation, core.vec3_subtract(point, phys.position));
+    const clamped = core.vec3_clamp(local, core.vec3_negate(phys.extents), phys.extents);
+    return core.vec3_add(phys.position, core.rotateVector(phys.rotation, clamped));
+}
 
-    if (pressed) {
-        input_state |= key_map;
-    } else {
-        input_state &= ~key_map;
+// Point of a collider nearest `point` (the point itself when inside). As casts do, a hull is
+// taken by its bounding box and a compound by its nearest part.
+fn closestColliderPoint(phys: *const PhysicsComponent, point: core.Vec3) core.Vec3 {
+    switch (phys.collision_shape) {
+        .SPHERE => return closestBallPoint(phys.position, phys.extents.x, point),
+        .BOX, .HULL => return closestBoxPoint(phys, point),
+        .CAPSULE => return closestBallPoint(core.capsuleCorePoint(phys.position, phys.extents, point.y, point.y), phys.extents.x, point),
+        .CYLINDER => return core.closestPointOnCylinder(point, phys.position, phys.extents),
+        .PLANE => {
+            const normal = core.normalize(phys.extents);
+            return core.vec3_subtract(point, core.vec3_scale(normal, core.dot(core.vec3_subtract(point, phys.position), normal)));
+        },
+        .COMPOUND => {
+            var nearest = phys.position;
+            var nearest_distance = std.math.inf(f32);
+            for (compoundParts(phys)) |part| {
+                const closest = closestColliderPoint(&partBody(phys, part), point);
+                const distance = core.magnitude(core.vec3_subtract(closest, point));
+                if (distance < nearest_distance) {
+                    nearest = closest;
+                    nearest_distance = distance;
+                }
+            }
+            return nearest;
+        },
     }
 }
 
-pub export fn generate_sphere_mesh(segments: u32) void {
-    // Generate sphere mesh with default radius (for backwards compatibility)
-    const radius = 0.5; // Default radius
-    vertex_count = core.generateWireframeSphere(&vertex_buffer, segments, radius);
+fn closestBallPoint(center: core.Vec3, radius: f32, point: core.Vec3) core.Vec3 {
+    const offset = core.vec3_subtract(point, center);
+    const distance = core.magnitude(offset);
+    if (distance <= radius) return point;
+    return core.vec3_add(center, core.vec3_scale(offset, radius / distance));
 }
 
-pub export fn generate_sphere_mesh_with_radius(segments: u32, radius: f32) void {
-    // Generate sphere mesh with specified radius
-    vertex_count = core.generateWireframeSphere(&vertex_buffer, segments, radius);
+// A ray (radius 0) or sphere cast against a turned box, taken in the box's frame
+fn castTurnedBox(phys: *const PhysicsComponent, origin: core.Vec3, direction: core.Vec3, radius: f32, max_distance: f32) ?core.RayHit {
+    const zero = core.Vec3{ .x = 0, .y = 0, .z = 0 };
+    const local_origin = core.inverseRotateVector(phys.rotation, core.vec3_subtract(origin, phys.position));
+    const local_direction = core.inverseRotateVector(phys.rotation, direction);
+    const hit = (if (radius > 0)
+        core.sphereCastBox(local_origin, local_direction, max_distance, radius, zero, phys.extents)
+    else
+        core.raycastBox(local_origin, local_direction, max_distance, zero, phys.extents)) orelse return null;
+    return core.RayHit{
+        .distance = hit.distance,
+        .point = core.vec3_add(phys.position, core.rotateVector(phys.rotation, hit.point)),
+        .normal = core.rotateVector(phys.rotation, hit.normal),
+    };
 }
 
-pub export fn generate_cube_mesh(size: f32) void {
-    // Generate cube mesh into main vertex buffer (consolidate to main buffer)
-    vertex_count = core.generateWireframeCube(&vertex_buffer, size);
+// ============================================================================
+// Contact-induced spin
+// ============================================================================
+// Layered on top of the linear solver, which it never changes: after a pair is resolved,
+// each movable box turns the linear impulse it just received into an angular one about
+// the point where it was applied (spheres are spun by friction instead). Only boxes turn
+// with their rotation (see Oriented boxes), so spin feeds back into box contacts alone.
+//
+// A box's support (a contact pushing it up) acts at the point of the contact patch
+// nearest its center: zero torque while the center is over the patch, a tipping torque
+// once it overhangs the edge. Other contacts spin a box only on impact, so a box loaded
+// off-center by another resting on it stays put.
+
+const MAX_ANGULAR_SPEED: f32 = 50.0; // rad/s
+const SUPPORT_NORMAL_Y: f32 = 0.7; // Contact normals steeper than this hold a body up
+const SPIN_IMPACT_SPEED: f32 = 0.5; // m/s of approach before a side/top contact spins a box
+
+fn applyContactSpin(phys1: *PhysicsComponent, vel1_before: core.Vec3, phys2: *PhysicsComponent, vel2_before: core.Vec3, info: core.CollisionInfo) void {
+    spinFromContact(phys1, vel1_before, phys2, vel2_before, info.contact_normal, info.contact_point);
+    spinFromContact(phys2, vel2_before, phys1, vel1_before, core.vec3_negate(info.contact_normal), info.contact_point);
 }
 
-pub export fn generate_grid_floor(grid_size: u32) void {
-    grid_vertex_count = generateWireframeGrid(&grid_buffer, grid_size);
+// `normal` points away from `other` (the direction `body` was pushed)
+fn spinFromContact(body: *PhysicsComponent, vel_before: core.Vec3, other: *const PhysicsComponent, other_vel_before: core.Vec3, normal: core.Vec3, contact_point: core.Vec3) void {
+    if (body.isImmovable()) return;
+
+    switch (body.collision_shape) {
+        .SPHERE, .PLANE => {}, // A normal impulse on a sphere passes through its center
+        .CAPSULE => {}, // Capsules (characters) stay upright: contacts never tip them
+        .BOX, .CYLINDER, .HULL, .COMPOUND => {
+            const approach = -core.dot(core.vec3_subtract(vel_before, other_vel_before), normal);
+            if (normal.y <= SUPPORT_NORMAL_Y and approach < SPIN_IMPACT_SPEED) return;
+
+            const point = if (other.collision_shape == .BOX) supportPoint(body, other) else contact_point;
+            const impulse = core.vec3_scale(core.vec3_subtract(body.velocity, vel_before), body.mass);
+            const angular_impulse = core.cross(core.vec3_subtract(point, body.position), impulse);
+            body.angular_velocity.x += angular_impulse.x * body.inv_inertia.x;
+            body.angular_velocity.y += angular_impulse.y * body.inv_inertia.y;
+            body.angular_velocity.z += angular_impulse.z * body.inv_inertia.z;
+        },
+    }
 }
 
-pub fn generateWireframeGrid(vertices: [*]f32, grid_size: u32) u32 {
-    var index: u32 = 0;
-    const grid_extent = 16.0; // Grid extends from -8 to +8 (matches world bounds)
-    const half_size = grid_extent / 2.0;
-    const step = grid_extent / @as(f32, @floatFromInt(grid_size));
+// Point of the box-box contact patch (the AABBs' overlap) nearest the body's center. With a
+// turned box: the point of the other box nearest the body's center, pulled into the body.
+fn supportPoint(body: *const PhysicsComponent, other: *const PhysicsComponent) core.Vec3 {
+    if (isTurnedBox(body) or isTurnedBox(other)) return closestBoxPoint(body, closestBoxPoint(other, body.position));
+    const patch_min = core.vec3_max(core.vec3_subtract(body.position, body.extents), core.vec3_subtract(other.position, other.extents));
+    const patch_max = core.vec3_min(core.vec3_add(body.position, body.extents), core.vec3_add(other.position, other.extents));
+    return core.vec3_clamp(body.position, patch_min, patch_max);
+}
 
-    // Generate horizontal lines (along X axis)
-    var z: u32 = 0;
-    while (z <= grid_size) : (z += 1) {
-        const z_pos = -half_size + @as(f32, @floatFromInt(z)) * step;
+// ============================================================================
+// Contact friction
+// ============================================================================
+// Applied after a pair's normal response (and its spin), from the normal impulse the pair
+// just received, with the pair's combined material. A sphere's friction acts at its contact
+// point, so sliding turns into rolling; a box's acts through its center, since the face it
+// rests on balances the tipping torque.
+
+const PairMaterial = struct { static_friction: f32, dynamic_friction: f32, restitution: f32 };
+
+fn combinedMaterial(phys1: *const PhysicsComponent, phys2: *const PhysicsComponent) PairMaterial {
+    return .{
+        .static_friction = core.combineCoefficients(phys1.static_friction, phys1.friction_combine, phys2.static_friction, phys2.friction_combine),
+        .dynamic_friction = core.combineCoefficients(phys1.dynamic_friction, phys1.friction_combine, phys2.dynamic_friction, phys2.friction_combine),
+        .restitution = core.combineCoefficients(phys1.restitution, phys1.restitution_combine, phys2.restitution, phys2.restitution_combine),
+    };
+}
 
-        // Line from (-half_size, floor_y, z_pos) to (half_size, floor_y, z_pos)
-        vertices[index] = -half_size; // Start X
-        vertices[index + 1] = -world_bounds.y; // Floor Y
-        vertices[index + 2] = z_pos; // Z
+fn applyContactFriction(phys1: *PhysicsComponent, phys2: *PhysicsComponent, normal: core.Vec3, normal_impulse: f32, material: PairMaterial) void {
+    _ = core.resolveFriction(frictionBody(phys1, normal), frictionBody(phys2, core.vec3_negate(normal)), normal, normal_impulse, material.static_friction, material.dynamic_friction);
+}
 
-        vertices[index + 3] = half_size; // End X
-        vertices[index + 4] = -world_bounds.y; // Floor Y
-        vertices[index + 5] = z_pos; // Z
+// `normal` points away from the other body (the direction `phys` was pushed)
+fn frictionBody(phys: *PhysicsComponent, normal: core.Vec3) core.FrictionBody {
+    const arm = if (phys.collision_shape == .SPHERE) core.vec3_scale(normal, -phys.extents.x) else core.Vec3{ .x = 0, .y = 0, .z = 0 };
+    return .{
+        .velocity = &phys.velocity,
+        .angular_velocity = &phys.angular_velocity,
+        .inv_mass = phys.inv_mass,
+        .inv_inertia = phys.inv_inertia,
+        .arm = arm,
+    };
+}
 
-        index += 6;
-    }
+// ============================================================================
+// Kinematic bodies
+// ============================================================================
+// Scripts move KINEMATIC bodies (elevators, doors, conveyors) by setting their position, so
+// each step derives their velocity from how far they went since the last one. The step then
+// treats the move like a DYNAMIC body's: collisions are solved from where the body was, at
+// that velocity, and it arrives where it was set along with everything else, so what it runs
+// into is pushed at the speed it really moves rather than shoved out of a teleport. A DYNAMIC
+// body resting on top of one (by the last step's contacts) is carried: it takes on whatever
+// velocity the platform gained or lost since the last step, so it rides along instead of being
+// left behind and bounced, and friction holds it there as usual. teleport_entity places a body
+// without moving it there: the step derives no velocity from the jump, so nothing is shoved
+// or carried along by it.
+//
+// Scripts move bodies once per frame, but a fixed-timestep frame may run several steps: a
+// move then takes the frame's length (set_kinematic_move_time) to arrive, each step covering
+// its share of the way, so the body moves at the speed the script moved it on every step.
 
-    // Generate vertical lines (along Z axis)
-    var x: u32 = 0;
-    while (x <= grid_size) : (x += 1) {
-        const x_pos = -half_size + @as(f32, @floatFromInt(x)) * step;
+var kinematic_move_time: f32 = 0; // Seconds a script move takes (0: one step)
 
-        // Line from (x_pos, floor_y, -half_size) to (x_pos, floor_y, half_size)
-        vertices[index] = x_pos; // X
-        vertices[index + 1] = -world_bounds.y; // Floor Y
-        vertices[index + 2] = -half_size; // Start Z
+/// Spread the moves scripts make before the next update() over this many simulated seconds
+/// (the frame's length when it runs several fixed steps; 0 arrives within one step)
+pub export fn set_kinematic_move_time(seconds: f32) void {
+    kinematic_move_time = if (seconds > 0 and std.math.isFinite(seconds)) seconds else 0;
+}
 
-        vertices[index + 3] = x_pos; // X
-        vertices[index + 4] = -world_bounds.y; // Floor Y
-        vertices[index + 5] = half_size; // End Z
+fn moveKinematicBodies(delta_time: f32, up: core.Vec3) void {
+    if (delta_time <= 0) return;
 
-        index += 6;
+    // Where each body gets to this step: its share of the way to where a script put it
+    for (physics_components[0..entity_count], 0..) |*phys, i| {
+        if (!isCollider(i) or phys.body_type != .KINEMATIC) continue;
+        if (!std.meta.eql(phys.position, phys.previous_position)) { // Moved since the last step
+            phys.kinematic_target = phys.position;
+            phys.kinematic_time_left = @max(kinematic_move_time, delta_time);
+        }
+        if (phys.kinematic_time_left <= 0) continue;
+        if (phys.kinematic_time_left <= delta_time * 1.001) { // The last step (to within the rounding of the steps' sum)
+            phys.position = phys.kinematic_target;
+            phys.kinematic_time_left = 0;
+        } else {
+            const way = core.vec3_subtract(phys.kinematic_target, phys.previous_position);
+            phys.position = core.vec3_add(phys.previous_position, core.vec3_scale(way, delta_time / phys.kinematic_time_left));
+            phys.kinematic_time_left -= delta_time;
+        }
     }
 
-    return index / 3; // Return vertex count
-}
+    // Riders first, while each platform's velocity is still the last step's
+    for (contacts[0..contact_count]) |record| {
+        const a = findECSEntityById(record.entity_a) orelse continue;
+        const b = findECSEntityById(record.entity_b) orelse continue;
+        const normal = core.Vec3{ .x = record.normal[0], .y = record.normal[1], .z = record.normal[2] };
+        carryRider(a, b, normal, up, delta_time);
+        carryRider(b, a, core.vec3_negate(normal), up, delta_time);
+    }
 
-pub export fn get_vertex_buffer_offset() u32 {
-    if (comptime @import("builtin").target.cpu.arch == .wasm32) {
-        return @as(u32, @intCast(@intFromPtr(&vertex_buffer)));
-    } else {
-        return @truncate(@intFromPtr(&vertex_buffer));
+    for (physics_components[0..entity_count], 0..) |*phys, i| {
+        if (!isCollider(i) or phys.body_type != .KINEMATIC) continue;
+        const target = phys.position;
+        phys.velocity = movedVelocity(phys, delta_time);
+        phys.position = phys.previous_position; // Solved from where the step began...
+        phys.previous_position = target; // ...and placed where it was set (placeKinematicBodies)
     }
 }
 
-pub export fn get_grid_buffer_offset() u32 {
-    if (comptime @import("builtin").target.cpu.arch == .wasm32) {
-        return @as(u32, @intCast(@intFromPtr(&grid_buffer)));
-    } else {
-        return @truncate(@intFromPtr(&grid_buffer));
+fn placeKinematicBodies(delta_time: f32) void {
+    if (delta_time <= 0) return;
+    for (physics_components[0..entity_count], 0..) |*phys, i| {
+        if (!isCollider(i) or phys.body_type != .KINEMATIC) continue;
+        phys.position = phys.previous_position;
+        entity_metadata[i].transform_dirty = true;
     }
 }
 
-pub export fn get_uniform_buffer_offset() u32 {
-    if (comptime @import("builtin").target.cpu.arch == .wasm32) {
-        return @as(u32, @intCast(@intFromPtr(&uniforms)));
-    } else {
-        return @truncate(@intFromPtr(&uniforms));
-    }
+fn movedVelocity(phys: *const PhysicsComponent, delta_time: f32) core.Vec3 {
+    return core.vec3_scale(core.vec3_subtract(phys.position, phys.previous_position), 1.0 / delta_time);
 }
 
-pub export fn get_vertex_count() u32 {
-    return vertex_count;
+// `normal` points away from `platform` (the direction `rider` is pushed)
+fn carryRider(rider_index: usize, platform_index: usize, normal: core.Vec3, up: core.Vec3, delta_time: f32) void {
+    const rider = &physics_components[rider_index];
+    const platform = &physics_components[platform_index];
+    if (rider.body_type != .DYNAMIC or platform.body_type != .KINEMATIC or !isCollider(platform_index)) return;
+    if (core.dot(normal, up) <= SUPPORT_NORMAL_Y) return; // Pushed from the side, not stood on
+
+    const change = core.vec3_subtract(movedVelocity(platform, delta_time), platform.velocity);
+    if (core.dot(change, change) == 0) return;
+    if (rider.sleeping) wakeBody(rider);
+    rider.velocity = core.vec3_add(rider.velocity, change);
 }
 
-pub export fn get_grid_vertex_count() u32 {
-    return grid_vertex_count;
+// ============================================================================
+// Sleeping and simulation islands
+// ============================================================================
+// A DYNAMIC body that stays within SLEEP_DRIFT of where it came to rest (moving slower than
+// SLEEP_MAX_SPEED, spinning slower than SLEEP_ANGULAR_SPEED) for TIME_TO_SLEEP is at rest.
+// Resting contacts keep small velocities bouncing back and forth, so rest is judged by
+// where a body stays rather than by its velocity. Bodies touching through this step's
+// contacts form an island that sleeps and wakes as one: it sleeps once every body in it is
+// at rest, and one awake body (or a sleeping one something hit) wakes all of it. Immovable
+// bodies do not join islands, so a floor does not tie together everything resting on it.
+//
+// Sleeping bodies are not integrated, and pairs with no awake body are not collision-tested.
+// Forces, velocity changes and teleports wake a body; moving, reshaping or removing a body
+// wakes whatever rests on it.
+
+const SLEEP_DRIFT: f32 = 0.05; // m
+const SLEEP_MAX_SPEED: f32 = 1.0; // m/s
+const SLEEP_ANGULAR_SPEED: f32 = 0.2; // rad/s
+const TIME_TO_SLEEP: f32 = 0.5; // s
+
+var island_parent: [MAX_ENTITIES]u32 = undefined; // By entity index (union-find)
+var island_awake: [MAX_ENTITIES]bool = undefined; // By island root
+var sleeping_body_count: u32 = 0;
+
+// Can this body move during the step? (KINEMATIC bodies count: scripts move them)
+fn isAwake(phys: *const PhysicsComponent) bool {
+    return switch (phys.body_type) {
+        .DYNAMIC => !phys.sleeping,
+        .KINEMATIC => true,
+        .STATIC => false,
+    };
 }
 
-// Compatibility exports for vertex counts (estimate based on mesh type)
-pub export fn get_sphere_vertex_count() u32 {
-    // Return vertex count for a single sphere mesh (16 segments = ~256 vertices)
-    return 256;
+fn isMoving(phys: *const PhysicsComponent) bool {
+    return core.magnitude(phys.velocity) > 0 or core.magnitude(phys.angular_velocity) > 0;
 }
 
-pub export fn get_cube_vertex_count() u32 {
-    // Return vertex count for a single cube mesh (wireframe = 24 vertices)
-    return 24;
+fn wakeBody(phys: *PhysicsComponent) void {
+    phys.sleeping = false;
+    phys.sleep_timer = 0;
+    phys.rest_anchor = phys.position;
 }
 
-pub export fn get_collision_state() u8 {
-    return collision_state;
+fn sleepBody(phys: *PhysicsComponent) void {
+    phys.sleeping = true;
+    phys.sleep_timer = TIME_TO_SLEEP;
+    phys.velocity = .{ .x = 0, .y = 0, .z = 0 };
+    phys.angular_velocity = .{ .x = 0, .y = 0, .z = 0 };
 }
 
-pub export fn set_position(x: f32, y: f32, z: f32) void {
-    // Set position of first active entity for backward compatibility
-    if (entity_count > 0 and entity_metadata[0].active) {
-        physics_components[0].position = .{ .x = x, .y = y, .z = z };
-        entity_metadata[0].transform_dirty = true;
+// Wake the DYNAMIC bodies in contact with this entity (by the last step's contacts)
+fn wakeTouching(id: u32) void {
+    for (contacts[0..contact_count]) |record| {
+        const other = if (record.entity_a == id) record.entity_b else if (record.entity_b == id) record.entity_a else continue;
+        const index = findECSEntityById(other) orelse continue;
+        if (physics_components[index].body_type == .DYNAMIC) wakeBody(&physics_components[index]);
     }
 }
 
-pub export fn apply_force(entity_id: u32, x: f32, y: f32, z: f32) void {
-    // Direct velocity impulse (mass-independent by design — see apply_force_to_entity
-    // for the force/mass variant). Resolves the STABLE entity id to the current array
+// A teleport (position or rotation set from outside) wakes the body and what rests on it.
+// Re-setting the same transform, as a kinematic sync does every frame, is not a teleport.
+fn wakeIfTeleported(index: u32, position: core.Vec3, rotation: core.Vec3) void {
+    const phys = &physics_components[index];
+    const moved = !std.meta.eql(phys.position, position) or !std.meta.eql(phys.rotation, rotation);
+    if (!moved) return;
+    if (phys.body_type == .DYNAMIC) wakeBody(phys);
+    wakeTouching(entity_metadata[index].id);
+}
+
+fn islandRoot(index: u32) u32 {
+    var i = index;
+    while (island_parent[i] != i) {
+        island_parent[i] = island_parent[island_parent[i]]; // Path halving
+        i = island_parent[i];
+    }
+    return i;
+}
+
+fn isSimulatedDynamic(index: usize) bool {
+    return isCollider(index) and physics_components[index].body_type == .DYNAMIC;
+}
+
+fn updateSleeping(delta_time: f32) void {
+    // Rest timers; a sleeping body the solver pushed this step is awake again
+    for (0..entity_count) |i| {
+        island_parent[i] = @intCast(i);
+        if (!isSimulatedDynamic(i)) continue;
+        const phys = &physics_components[i];
+        if (phys.sleeping) {
+            if (isMoving(phys)) wakeBody(phys);
+            continue;
+        }
+        const drift = core.magnitude(core.vec3_subtract(phys.position, phys.rest_anchor));
+        if (drift > SLEEP_DRIFT or core.magnitude(phys.velocity) > SLEEP_MAX_SPEED or core.magnitude(phys.angular_velocity) > SLEEP_ANGULAR_SPEED) {
+            phys.rest_anchor = phys.position;
+            phys.sleep_timer = 0;
+        } else {
+            phys.sleep_timer += delta_time;
+        }
+    }
+
+    // Islands: DYNAMIC bodies joined by this step's contacts. Riding a moving KINEMATIC
+    // body keeps a body awake.
+    for (contacts[0..contact_count]) |record| {
+        const a = findECSEntityById(record.entity_a) orelse continue;
+        const b = findECSEntityById(record.entity_b) orelse continue;
+        const dynamic_a = isSimulatedDynamic(a);
+        const dynamic_b = isSimulatedDynamic(b);
+        if (dynamic_a and dynamic_b) {
+            island_parent[islandRoot(a)] = islandRoot(b);
+        } else if (dynamic_a and physics_components[b].body_type == .KINEMATIC and isMoving(&physics_components[b])) {
+            wakeBody(&physics_components[a]);
+        } else if (dynamic_b and physics_components[a].body_type == .KINEMATIC and isMoving(&physics_components[a])) {
+            wakeBody(&physics_components[b]);
+        }
+    }
+
+    // Jointed bodies share an island too, and a running motor keeps its bodies awake
+    for (joints[0..joint_count]) |*joint| {
+        const a = findECSEntityById(joint.body_a) orelse continue;
+        const b = if (joint.body_b == JOINT_WORLD) null else findECSEntityById(joint.body_b);
+        if (jointDrives(joint)) wakeJointBodies(joint);
+        const index_b = b orelse continue;
+        const dynamic_a = isSimulatedDynamic(a);
+        const dynamic_b = isSimulatedDynamic(index_b);
+        if (dynamic_a and dynamic_b) {
+            island_parent[islandRoot(a)] = islandRoot(index_b);
+        } else if (dynamic_a and physics_components[index_b].body_type == .KINEMATIC and isMoving(&physics_components[index_b])) {
+            wakeBody(&physics_components[a]);
+        } else if (dynamic_b and physics_components[a].body_type == .KINEMATIC and isMoving(&physics_components[a])) {
+            wakeBody(&physics_components[index_b]);
+        }
+    }
+
+    // An island stays awake while any of its bodies is not at rest
+    for (0..entity_count) |i| island_awake[i] = false;
+    for (0..entity_count) |i| {
+        if (!isSimulatedDynamic(i)) continue;
+        const phys = &physics_components[i];
+        if (!phys.sleeping and phys.sleep_timer < TIME_TO_SLEEP) island_awake[islandRoot(@intCast(i))] = true;
+    }
+
+    sleeping_body_count = 0;
+    for (0..entity_count) |i| {
+        if (!isSimulatedDynamic(i)) continue;
+        const phys = &physics_components[i];
+        if (island_awake[islandRoot(@intCast(i))]) {
+            if (phys.sleeping) wakeBody(phys);
+        } else {
+            if (!phys.sleeping) sleepBody(phys);
+            sleeping_body_count += 1;
+        }
+    }
+}
+
+// ============================================================================
+// Joints and constraints
+// ============================================================================
+// A joint ties body A to body B (or to the world, JOINT_WORLD) at an anchor point on each,
+// kept in that body's frame. Joints are solved after forces are integrated and before
+// contacts (Step 1.5), by sequential impulses over JOINT_ITERATIONS passes, with Baumgarte
+// feedback pulling drifted anchors back together:
+// - DISTANCE: anchors kept between a min and max length (both the length at creation)
+// - ROPE: anchors no further apart than the max length, slack below it
+// - BALL_SOCKET: anchors coincide, free rotation
+// - HINGE: ball socket that only turns about its axis, with optional angle limits and a
+//   motor driving it at a target speed up to a maximum torque
+// - FIXED: anchors coincide and the bodies keep their relative orientation (weld)
+// - SPRING: a damped spring force between the anchors (soft, applied once per step)
+//
+// Hinge and fixed joints carry a joint frame (axis, reference, axis × reference) in each
+// body's coordinates, coinciding in world space at creation: the hinge angle is the turn
+// of A's reference about B's axis (A turns relative to what it is hinged to). Jointed
+// bodies do not collide with each other unless the joint asks for it, and they sleep and
+// wake as one island.
+
+pub const JointType = enum(u8) {
+    DISTANCE = 0,
+    ROPE = 1,
+    BALL_SOCKET = 2,
+    HINGE = 3,
+    FIXED = 4,
+    SPRING = 5,
+};
+
+pub const JOINT_WORLD: u32 = 0xFFFF_FFFF; // body_b of a joint pinned to the world
+const MAX_JOINTS: u32 = 1024;
+const JOINT_PAIR_TABLE_SIZE: u32 = 2048; // Power of two, > MAX_JOINTS: jointed pairs that skip collision
+const JOINT_ITERATIONS: u32 = 8;
+const JOINT_BAUMGARTE: f32 = 0.2; // Share of the anchor drift corrected per step
+
+pub const DEFAULT_SPRING_STIFFNESS: f32 = 10.0; // N/m
+pub const DEFAULT_SPRING_DAMPING: f32 = 0.5; // N·s/m
+
+const Joint = struct {
+    id: u32,
+    kind: JointType,
+    body_a: u32, // Entity ids
+    body_b: u32, // JOINT_WORLD: pinned to the world
+    anchor_a: core.Vec3, // In A's frame
+    anchor_b: core.Vec3, // In B's frame (a world point when B is the world)
+    frame_a: [3]core.Vec3, // Joint frame in A's coordinates (hinge axis first)
+    frame_b: [3]core.Vec3, // Same frame in B's coordinates
+    lower: f32, // Min length (m) or hinge angle (rad); -inf = unlimited
+    upper: f32, // Max length (m) or hinge angle (rad); inf = unlimited
+    motor_speed: f32 = 0, // rad/s of A relative to B about the hinge axis
+    motor_max_torque: f32 = 0, // N·m; 0 = motor off
+    stiffness: f32 = DEFAULT_SPRING_STIFFNESS,
+    damping: f32 = DEFAULT_SPRING_DAMPING,
+    rest_length: f32,
+    collide_connected: bool,
+    // Impulses accumulated over the current step's iterations
+    point_impulse: [3]f32 = .{ 0, 0, 0 },
+    angular_impulse: [3]f32 = .{ 0, 0, 0 },
+    limit_impulse: f32 = 0,
+    motor_impulse: f32 = 0,
+};
+
+var joints: [MAX_JOINTS]Joint = undefined;
+var joint_count: u32 = 0;
+var joint_pair_table: [JOINT_PAIR_TABLE_SIZE]u64 = undefined; // (min id << 32 | max id) + 1 (0 = empty)
+var joint_pair_count: u32 = 0;
+var world_body: PhysicsComponent = undefined; // Immovable stand-in for JOINT_WORLD
+
+fn clearJoints() void {
+    joint_count = 0;
+    rebuildJointPairs();
+    world_body = PhysicsComponent{
+        .position = .{ .x = 0, .y = 0, .z = 0 },
+        .velocity = .{ .x = 0, .y = 0, .z = 0 },
+        .force = .{ .x = 0, .y = 0, .z = 0 },
+        .rotation = .{ .x = 0, .y = 0, .z = 0 },
+        .scale = .{ .x = 1, .y = 1, .z = 1 },
+        .mass = 0,
+        .inv_mass = 0,
+        .gravity_scale = 0,
+        .radius = 0,
+        .body_type = .STATIC,
+        .collision_shape = .SPHERE,
+        .extents = .{ .x = 0, .y = 0, .z = 0 },
+    };
+}
+
+fn findJoint(id: u32) ?*Joint {
+    for (joints[0..joint_count]) |*joint| {
+        if (joint.id == id) return joint;
+    }
+    return null;
+}
+
+// The body a joint end is attached to (the world stand-in for JOINT_WORLD), or null if
+// that entity is gone or takes no part in physics
+fn jointBody(id: u32) ?*PhysicsComponent {
+    if (id == JOINT_WORLD) return &world_body;
+    const index = findECSEntityById(id) orelse return null;
+    if (!isCollider(index)) return null;
+    return &physics_components[index];
+}
+
+fn jointPairKey(id_a: u32, id_b: u32) u64 {
+    return ((@as(u64, @min(id_a, id_b)) << 32) | @max(id_a, id_b)) + 1;
+}
+
+fn jointPairSlot(key: u64) u32 {
+    var slot: u32 = @intCast((key *% 0x9E3779B97F4A7C15) >> 53); // Top 11 bits
+    while (joint_pair_table[slot] != 0 and joint_pair_table[slot] != key) : (slot = (slot + 1) & (JOINT_PAIR_TABLE_SIZE - 1)) {}
+    return slot;
+}
+
+// Re-collect the body pairs whose joints switch their collisions off
+fn rebuildJointPairs() void {
+    @memset(&joint_pair_table, 0);
+    joint_pair_count = 0;
+    for (joints[0..joint_count]) |joint| {
+        if (joint.collide_connected or joint.body_b == JOINT_WORLD) continue;
+        const key = jointPairKey(joint.body_a, joint.body_b);
+        joint_pair_table[jointPairSlot(key)] = key;
+        joint_pair_count += 1;
+    }
+}
+
+fn jointSkipsCollision(id_a: u32, id_b: u32) bool {
+    if (joint_pair_count == 0) return false;
+    const key = jointPairKey(id_a, id_b);
+    return joint_pair_table[jointPairSlot(key)] == key;
+}
+
+fn wakeJointBodies(joint: *const Joint) void {
+    if (jointBody(joint.body_a)) |phys| {
+        if (phys.body_type == .DYNAMIC) wakeBody(phys);
+    }
+    if (jointBody(joint.body_b)) |phys| {
+        if (phys.body_type == .DYNAMIC) wakeBody(phys);
+    }
+}
+
+fn removeJointAt(slot: u32) void {
+    wakeJointBodies(&joints[slot]);
+    joint_count -= 1;
+    joints[slot] = joints[joint_count];
+    rebuildJointPairs();
+}
+
+// Drop every joint attached to an entity that is going away
+fn removeJointsOf(id: u32) void {
+    var slot: u32 = 0;
+    while (slot < joint_count) {
+        if (joints[slot].body_a == id or joints[slot].body_b == id) {
+            removeJointAt(slot);
+        } else {
+            slot += 1;
+        }
+    }
+}
+
+// Does the motor keep its bodies moving?
+fn jointDrives(joint: *const Joint) bool {
+    return joint.kind == .HINGE and joint.motor_max_torque > 0 and joint.motor_speed != 0;
+}
+
+// Any unit vector perpendicular to `v` (the zero angle of a hinge about it)
+fn perpendicular(v: core.Vec3) core.Vec3 {
+    const other = if (@abs(v.x) < 0.9) core.Vec3{ .x = 1, .y = 0, .z = 0 } else core.Vec3{ .x = 0, .y = 1, .z = 0 };
+    return core.normalize(core.cross(v, other));
+}
+
+fn worldFrame(phys: *const PhysicsComponent, frame: [3]core.Vec3) [3]core.Vec3 {
+    return .{ core.rotateVector(phys.rotation, frame[0]), core.rotateVector(phys.rotation, frame[1]), core.rotateVector(phys.rotation, frame[2]) };
+}
+
+fn bodyFrame(phys: *const PhysicsComponent, frame: [3]core.Vec3) [3]core.Vec3 {
+    return .{ core.inverseRotateVector(phys.rotation, frame[0]), core.inverseRotateVector(phys.rotation, frame[1]), core.inverseRotateVector(phys.rotation, frame[2]) };
+}
+
+// Turn of A's reference about B's hinge axis (radians, counter-clockwise about the axis)
+fn hingeAngle(frame_a: [3]core.Vec3, frame_b: [3]core.Vec3) f32 {
+    return core.atan2(core.dot(core.cross(frame_b[1], frame_a[1]), frame_b[0]), core.dot(frame_b[1], frame_a[1]));
+}
+
+fn jointSide(phys: *PhysicsComponent, arm: core.Vec3) core.FrictionBody {
+    return .{
+        .velocity = &phys.velocity,
+        .angular_velocity = &phys.angular_velocity,
+        .inv_mass = phys.inv_mass,
+        .inv_inertia = phys.inv_inertia,
+        .arm = arm,
+    };
+}
+
+fn solveJoints(delta_time: f32) void {
+    if (joint_count == 0 or delta_time <= 0) return;
+
+    // Start the step: fresh accumulators, and springs push once
+    for (joints[0..joint_count]) |*joint| {
+        joint.point_impulse = .{ 0, 0, 0 };
+        joint.angular_impulse = .{ 0, 0, 0 };
+        joint.limit_impulse = 0;
+        joint.motor_impulse = 0;
+        if (joint.kind != .SPRING) continue;
+        const a = jointBody(joint.body_a) orelse continue;
+        const b = jointBody(joint.body_b) orelse continue;
+        if (!isAwake(a) and !isAwake(b)) continue;
+        applySpring(joint, a, b, delta_time);
+    }
+
+    for (0..JOINT_ITERATIONS) |_| {
+        for (joints[0..joint_count]) |*joint| {
+            if (joint.kind == .SPRING) continue;
+            const a = jointBody(joint.body_a) orelse continue;
+            const b = jointBody(joint.body_b) orelse continue;
+            if (!isAwake(a) and !isAwake(b)) continue;
+            solveJoint(joint, a, b, delta_time);
+        }
+    }
+}
+
+fn solveJoint(joint: *Joint, a: *PhysicsComponent, b: *PhysicsComponent, delta_time: f32) void {
+    const bias_rate = JOINT_BAUMGARTE / delta_time;
+    const arm_a = core.rotateVector(a.rotation, joint.anchor_a);
+    const arm_b = core.rotateVector(b.rotation, joint.anchor_b);
+    const side_a = jointSide(a, arm_a);
+    const side_b = jointSide(b, arm_b);
+    // From A's anchor to B's: zero while the joint holds
+    const separation = core.vec3_subtract(core.vec3_add(b.position, arm_b), core.vec3_add(a.position, arm_a));
+
+    switch (joint.kind) {
+        .DISTANCE, .ROPE => solveDistance(joint, side_a, side_b, separation, bias_rate),
+        .BALL_SOCKET => solvePoint(joint, side_a, side_b, separation, bias_rate),
+        .HINGE => {
+            solveHinge(joint, worldFrame(a, joint.frame_a), worldFrame(b, joint.frame_b), side_a, side_b, bias_rate, delta_time);
+            solvePoint(joint, side_a, side_b, separation, bias_rate);
+        },
+        .FIXED => {
+            solveWeld(joint, worldFrame(a, joint.frame_a), worldFrame(b, joint.frame_b), side_a, side_b, bias_rate);
+            solvePoint(joint, side_a, side_b, separation, bias_rate);
+        },
+        .SPRING => {},
+    }
+}
+
+// Anchors coincide: one constraint per world axis
+fn solvePoint(joint: *Joint, side_a: core.FrictionBody, side_b: core.FrictionBody, separation: core.Vec3, bias_rate: f32) void {
+    const inf = std.math.inf(f32);
+    const axes = [3]core.Vec3{ .{ .x = 1, .y = 0, .z = 0 }, .{ .x = 0, .y = 1, .z = 0 }, .{ .x = 0, .y = 0, .z = 1 } };
+    const drift = [3]f32{ separation.x, separation.y, separation.z };
+    for (axes, 0..) |axis, k| {
+        core.solveLinearConstraint(side_a, side_b, axis, -bias_rate * drift[k], &joint.point_impulse[k], -inf, inf);
+    }
+}
+
+// Anchor distance within [lower, upper]: a rod when they match, a rope below an upper bound
+fn solveDistance(joint: *Joint, side_a: core.FrictionBody, side_b: core.FrictionBody, separation: core.Vec3, bias_rate: f32) void {
+    const inf = std.math.inf(f32);
+    const length = core.magnitude(separation);
+    if (length < 0.0001) return; // Anchors coincide: no direction to act along
+    const direction = core.vec3_scale(separation, 1.0 / length);
+
+    if (joint.lower == joint.upper) {
+        core.solveLinearConstraint(side_a, side_b, direction, -bias_rate * (length - joint.upper), &joint.limit_impulse, -inf, inf);
+    } else if (length >= joint.upper) {
+        core.solveLinearConstraint(side_a, side_b, direction, -bias_rate * (length - joint.upper), &joint.limit_impulse, -inf, 0); // Pull only
+    } else if (length <= joint.lower) {
+        core.solveLinearConstraint(side_a, side_b, direction, bias_rate * (joint.lower - length), &joint.limit_impulse, 0, inf); // Push only
+    }
+}
+
+// Keep the hinge axes aligned, then drive and limit the turn about them. The motor and
+// limits act on A relative to B, so they solve with the sides swapped.
+fn solveHinge(joint: *Joint, frame_a: [3]core.Vec3, frame_b: [3]core.Vec3, side_a: core.FrictionBody, side_b: core.FrictionBody, bias_rate: f32, delta_time: f32) void {
+    const inf = std.math.inf(f32);
+    const misalignment = core.cross(frame_a[0], frame_b[0]); // Rotation taking A's axis onto B's
+    for (1..3) |k| {
+        core.solveAngularConstraint(side_a, side_b, frame_a[k], -bias_rate * core.dot(misalignment, frame_a[k]), &joint.angular_impulse[k], -inf, inf);
+    }
+
+    const axis = frame_b[0];
+    if (joint.motor_max_torque > 0) {
+        const max_impulse = joint.motor_max_torque * delta_time;
+        core.solveAngularConstraint(side_b, side_a, axis, joint.motor_speed, &joint.motor_impulse, -max_impulse, max_impulse);
+    }
+
+    const angle = hingeAngle(frame_a, frame_b);
+    if (angle <= joint.lower) {
+        core.solveAngularConstraint(side_b, side_a, axis, bias_rate * (joint.lower - angle), &joint.limit_impulse, 0, inf);
+    } else if (angle >= joint.upper) {
+        core.solveAngularConstraint(side_b, side_a, axis, -bias_rate * (angle - joint.upper), &joint.limit_impulse, -inf, 0);
+    }
+}
+
+// Keep the two joint frames aligned (rotation error ≈ ½ Σ a_k × b_k for small angles)
+fn solveWeld(joint: *Joint, frame_a: [3]core.Vec3, frame_b: [3]core.Vec3, side_a: core.FrictionBody, side_b: core.FrictionBody, bias_rate: f32) void {
+    const inf = std.math.inf(f32);
+    var misalignment = core.Vec3{ .x = 0, .y = 0, .z = 0 };
+    for (0..3) |k| misalignment = core.vec3_add(misalignment, core.vec3_scale(core.cross(frame_a[k], frame_b[k]), 0.5));
+    for (0..3) |k| {
+        core.solveAngularConstraint(side_a, side_b, frame_a[k], -bias_rate * core.dot(misalignment, frame_a[k]), &joint.angular_impulse[k], -inf, inf);
+    }
+}
+
+// Hooke's law plus damping on the anchors' separation speed, as one impulse per step
+fn applySpring(joint: *const Joint, a: *PhysicsComponent, b: *PhysicsComponent, delta_time: f32) void {
+    const arm_a = core.rotateVector(a.rotation, joint.anchor_a);
+    const arm_b = core.rotateVector(b.rotation, joint.anchor_b);
+    const separation = core.vec3_subtract(core.vec3_add(b.position, arm_b), core.vec3_add(a.position, arm_a));
+    const length = core.magnitude(separation);
+    if (length < 0.0001) return;
+    const direction = core.vec3_scale(separation, 1.0 / length);
+
+    const point_vel_a = core.vec3_add(a.velocity, core.cross(a.angular_velocity, arm_a));
+    const point_vel_b = core.vec3_add(b.velocity, core.cross(b.angular_velocity, arm_b));
+    const stretch_speed = core.dot(core.vec3_subtract(point_vel_b, point_vel_a), direction);
+    const force = -joint.stiffness * (length - joint.rest_length) - joint.damping * stretch_speed;
+    core.applyConstraintImpulse(jointSide(a, arm_a), jointSide(b, arm_b), core.vec3_scale(direction, force * delta_time));
+}
+
+// ============================================================================
+// Convex hulls
+// ============================================================================
+// A hull is registered once (create_convex_hull, from points TS wrote to the staging
+// buffer) and shared by every body given it (set_entity_convex_hull): the points stay in
+// the hull, in the body frame, and each body stretches them by its own scale. Pairs with a
+// hull in them are tested with GJK/EPA (core.checkConvexCollision); casts and sweeps take
+// a hull as the box that holds it.
+
+pub const MAX_HULLS: u32 = 256;
+pub const MAX_HULL_VERTICES: u32 = 64; // Per hull; TS simplifies meshes down to this
+pub const NO_HULL: u32 = 0xFFFF_FFFF;
+
+const Hull = struct {
+    points: [MAX_HULL_VERTICES]core.Vec3,
+    count: u32,
+    extents: core.Vec3, // Half-size of the box around the origin holding the points (unscaled)
+};
+
+var hulls: [MAX_HULLS]Hull = undefined;
+var hull_count: u32 = 0;
+var hull_staging: [MAX_HULL_VERTICES * 3]f32 = undefined; // x, y, z per point, written by TS
+
+fn clearHulls() void {
+    hull_count = 0;
+}
+
+// A hull body's extents: its hull's, stretched by the body's scale
+fn hullBodyExtents(hull_id: u32, scale: core.Vec3) core.Vec3 {
+    const half = hulls[hull_id].extents;
+    return .{ .x = half.x * @abs(scale.x), .y = half.y * @abs(scale.y), .z = half.z * @abs(scale.z) };
+}
+
+// The body as GJK/EPA see it, grown by `skin`
+fn convexCollider(phys: *const PhysicsComponent, skin: f32) core.ConvexCollider {
+    const points: []const core.Vec3 = if (phys.hull < hull_count) hulls[phys.hull].points[0..hulls[phys.hull].count] else &.{};
+    return .{ .shape = phys.collision_shape, .position = phys.position, .extents = phys.extents, .points = points, .scale = phys.scale, .rotation = phys.rotation, .margin = skin };
+}
+
+// ============================================================================
+// Compound colliders
+// ============================================================================
+// A compound is a list of parts (spheres, boxes, capsules and cylinders, each at an offset
+// from the body's origin) registered once (create_compound, from parts TS wrote to the
+// staging buffer) and given to a body (set_entity_compound), so a table or an L-shaped wall
+// is one rigid body. Unlike a box it is axis-aligned: a part's own rotation is baked
+// in at registration (a box becomes the box holding the turned box, exact for quarter
+// turns; capsules and cylinders stay upright), the body's scale stretches the offsets and
+// extents, and the body's rotation turns neither.
+//
+// A pair with a compound in it is tested part by part, each part standing in for the body
+// (its mass, velocity and material), and resolved at the deepest contact; casts hit the
+// nearest part, sweeps take the compound as its bounding box. The body's mass is spread
+// over the parts by volume for its inertia, which is taken about the body's origin (the
+// point it turns about).
+
+pub const MAX_COMPOUNDS: u32 = 256;
+pub const MAX_COMPOUND_PARTS: u32 = 16; // Per compound
+pub const NO_COMPOUND: u32 = 0xFFFF_FFFF;
+pub const COMPOUND_PART_FLOATS: u32 = 10; // Staged per part: shape, offset xyz, rotation xyz (radians), extents xyz
+
+const CompoundPart = struct {
+    shape: core.CollisionShape,
+    offset: core.Vec3, // From the body's origin (unscaled)
+    extents: core.Vec3, // Unscaled, with the part's rotation baked in
+};
+
+const Compound = struct {
+    parts: [MAX_COMPOUND_PARTS]CompoundPart,
+    count: u32,
+};
+
+var compounds: [MAX_COMPOUNDS]Compound = undefined;
+var compound_count: u32 = 0;
+var compound_staging: [MAX_COMPOUND_PARTS * COMPOUND_PART_FLOATS]f32 = undefined; // Written by TS
+
+fn clearCompounds() void {
+    compound_count = 0;
+}
+
+fn compoundParts(phys: *const PhysicsComponent) []const CompoundPart {
+    if (phys.compound >= compound_count) return &.{};
+    return compounds[phys.compound].parts[0..compounds[phys.compound].count];
+}
+
+fn stretched(v: core.Vec3, scale: core.Vec3) core.Vec3 {
+    return .{ .x = v.x * @abs(scale.x), .y = v.y * @abs(scale.y), .z = v.z * @abs(scale.z) };
+}
+
+// Half-extents of the box holding a box of half-extents `e` turned by `rotation` (|R|·e)
+fn turnedExtents(rotation: core.Vec3, e: core.Vec3) core.Vec3 {
+    const x = core.vec3_abs(core.rotateVector(rotation, .{ .x = e.x, .y = 0, .z = 0 }));
+    const y = core.vec3_abs(core.rotateVector(rotation, .{ .x = 0, .y = e.y, .z = 0 }));
+    const z = core.vec3_abs(core.rotateVector(rotation, .{ .x = 0, .y = 0, .z = e.z }));
+    return core.vec3_add(x, core.vec3_add(y, z));
+}
+
+// A part as a body of its own: a copy of the compound body with the part's shape, placed
+// and stretched by the body
+fn partBody(phys: *const PhysicsComponent, part: CompoundPart) PhysicsComponent {
+    var body = phys.*;
+    body.collision_shape = part.shape;
+    body.position = core.vec3_add(phys.position, stretched(part.offset, phys.scale));
+    body.extents = stretched(part.extents, phys.scale);
+    body.rotation = .{ .x = 0, .y = 0, .z = 0 }; // Parts do not turn with the body
+    body.compound = NO_COMPOUND;
+    return body;
+}
+
+// How far a part reaches from its center along each axis
+fn partReach(part: *const PhysicsComponent) core.Vec3 {
+    return if (part.collision_shape == .SPHERE) .{ .x = part.extents.x, .y = part.extents.x, .z = part.extents.x } else part.extents;
+}
+
+// A compound body's extents: the half-size of the box around its origin holding every part
+fn compoundBodyExtents(phys: *const PhysicsComponent) core.Vec3 {
+    var half = core.Vec3{ .x = 0, .y = 0, .z = 0 };
+    for (compoundParts(phys)) |part| {
+        const body = partBody(phys, part);
+        half = core.vec3_max(half, core.vec3_add(core.vec3_abs(core.vec3_subtract(body.position, phys.position)), partReach(&body)));
+    }
+    return half;
+}
+
+fn partVolume(part: *const PhysicsComponent) f32 {
+    const e = part.extents;
+    const ball = 4.0 / 3.0 * std.math.pi * e.x * e.x * e.x;
+    return switch (part.collision_shape) {
+        .SPHERE => ball,
+        .BOX => 8.0 * e.x * e.y * e.z,
+        .CYLINDER => std.math.pi * e.x * e.x * 2.0 * e.y,
+        .CAPSULE => std.math.pi * e.x * e.x * 2.0 * @max(e.y - e.x, 0) + ball,
+        .PLANE, .HULL, .COMPOUND => 0,
+    };
+}
+
+// Inertia of a compound body about its origin: the body's mass spread over the parts by
+// volume, each part's own inertia moved out to its offset (parallel axis theorem)
+fn compoundInertia(phys: *const PhysicsComponent) core.Vec3 {
+    var total_volume: f32 = 0;
+    for (compoundParts(phys)) |part| total_volume += partVolume(&partBody(phys, part));
+    var inertia = core.Vec3{ .x = 0, .y = 0, .z = 0 };
+    if (total_volume <= 0) return inertia;
+
+    for (compoundParts(phys)) |part| {
+        const body = partBody(phys, part);
+        const m = phys.mass * partVolume(&body) / total_volume;
+        const d = core.vec3_subtract(body.position, phys.position);
+        const own = shapeInertia(body.collision_shape, body.extents, m);
+        inertia.x += own.x + m * (d.y * d.y + d.z * d.z);
+        inertia.y += own.y + m * (d.x * d.x + d.z * d.z);
+        inertia.z += own.z + m * (d.x * d.x + d.y * d.y);
+    }
+    return inertia;
+}
+
+// The deepest contact between any part of `compound` and `other` (Object1 POV: the
+// compound's side unless `compound_second`)
+fn deepestPartContact(compound: *const PhysicsComponent, other: *const PhysicsComponent, skin: f32, compound_second: bool) ?core.CollisionInfo {
+    var deepest: ?core.CollisionInfo = null;
+    for (compoundParts(compound)) |part| {
+        const body = partBody(compound, part);
+        const info = (if (compound_second) checkColliders(other, &body, skin) else checkColliders(&body, other, skin)) orelse continue;
+        if (deepest == null or info.penetration_depth > deepest.?.penetration_depth) deepest = info;
+    }
+    return deepest;
+}
+
+// ============================================================================
+// Continuous collision detection
+// ============================================================================
+// Collisions are tested between steps, so a body that moves further in one step than the
+// thickness of what lies in its path (a projectile and a thin platform) can pass through
+// without ever overlapping it. Bodies flagged `continuous` instead sweep their shape along
+// the step's motion when their position is integrated (Step 3): at the first time of impact
+// they stop just short of contact, and the hit is resolved there like a discrete contact
+// (restitution, friction, the contact stream). The colliders swept against are taken as
+// standing still for the step, and ones the body already overlaps are left to the solver.
+
+// Gap left between a swept body and what it hit: inside CONTACT_SKIN, so the pair keeps
+// reporting contact on the next step
+const CCD_CLEARANCE: f32 = 0.005;
+
+// Sweep body `index` along this step's velocity. On impact it is moved into contact, the hit
+// is resolved and true is returned (the body travels no further this step).
+fn sweepToImpact(index: usize, delta_time: f32) bool {
+    const phys = &physics_components[index];
+    const travel = core.magnitude(phys.velocity) * delta_time;
+    if (travel < 1e-6) return false;
+    const direction = core.vec3_scale(phys.velocity, delta_time / travel);
+
+    var nearest: ?core.RayHit = null;
+    var hit_index: usize = 0;
+    for (0..entity_count) |j| {
+        if (j == index or !isCollider(j)) continue;
+        const other = &physics_components[j];
+        if (other.is_trigger or !layersInteract(phys, other)) continue;
+        if (jointSkipsCollision(entity_metadata[index].id, entity_metadata[j].id)) continue;
+
+        const max_distance = if (nearest) |hit| hit.distance else travel;
+        if (core.sweepShape(phys.collision_shape, heldExtents(phys), phys.position, direction, max_distance, other.position, other.collision_shape, heldExtents(other))) |hit| {
+            nearest = hit;
+            hit_index = j;
+        }
+    }
+    const hit = nearest orelse return false;
+    const other = &physics_components[hit_index];
+
+    phys.position = core.vec3_add(phys.position, core.vec3_scale(direction, @max(hit.distance - CCD_CLEARANCE, 0)));
+
+    // Bounce off along the normal (Object1 POV: it faces the swept body), as the solver would
+    const material = combinedMaterial(phys, other);
+    const approach = core.dot(core.vec3_subtract(phys.velocity, other.velocity), hit.normal);
+    var impulse: f32 = 0;
+    if (approach < 0) {
+        impulse = -(1 + material.restitution) * approach / (phys.inv_mass + other.inv_mass);
+        phys.velocity = core.vec3_add(phys.velocity, core.vec3_scale(hit.normal, impulse * phys.inv_mass));
+        other.velocity = core.vec3_subtract(other.velocity, core.vec3_scale(hit.normal, impulse * other.inv_mass));
+        applyContactFriction(phys, other, hit.normal, impulse, material);
+        if (other.sleeping) wakeBody(other);
+    }
+
+    const info = core.CollisionInfo{ .has_collision = true, .penetration_depth = 0, .contact_normal = hit.normal, .contact_point = hit.point };
+    if (index < hit_index) {
+        recordContact(index, hit_index, info, impulse);
+    } else {
+        var flipped = info;
+        flipped.contact_normal = core.vec3_negate(hit.normal);
+        recordContact(hit_index, index, flipped, impulse);
+    }
+    entity_metadata[hit_index].transform_dirty = true;
+    collision_state |= 0x10; // Entity collision flag
+    return true;
+}
+
+// ============================================================================
+// Force fields
+// ============================================================================
+// Volumes (a sphere or a box, turned by its rotation) that push the awake DYNAMIC bodies whose
+// collider overlaps them, on the layers in the field's mask. Before each step's integration
+// (Step 1) every field adds its push to those bodies' accumulated force:
+// - DIRECTIONAL: along the field's direction (wind, a conveyor of air)
+// - RADIAL: towards the field's center, away with a negative strength (gravity wells)
+// - VORTEX: around the field's axis (its direction), counter-clockwise looking down it
+// - BUOYANCY: a fluid filling the field up to its top (against gravity): it lifts a body by
+//   the weight of the fluid it displaces and drags on its motion and spin, both by the
+//   share of the body below the surface (judged by the box holding its collider)
+//
+// Strength is a force (N), or with per_mass an acceleration (m/s²) that moves every mass
+// alike. Falloff scales it by the body's distance from the field's center (from the axis of
+// a vortex): LINEAR down to nothing at the field's reach, INVERSE_SQUARE as 1/d² with
+// strength the push 1 m out. A settled body in a steady field sleeps like any other; a field
+// wakes what it overlaps when it is added, moves or changes.
+
+pub const ForceFieldType = enum(u8) {
+    DIRECTIONAL = 0,
+    RADIAL = 1,
+    VORTEX = 2,
+    BUOYANCY = 3,
+};
+
+pub const ForceFieldFalloff = enum(u8) {
+    NONE = 0,
+    LINEAR = 1,
+    INVERSE_SQUARE = 2,
+};
+
+const MAX_FORCE_FIELDS: u32 = 64;
+const FIELD_MIN_DISTANCE: f32 = 0.5; // INVERSE_SQUARE stops growing this close to the center
+
+pub const DEFAULT_FLUID_DENSITY: f32 = 2.0; // kg/m³: a unit crate of the default 1 kg floats half under
+pub const DEFAULT_FLUID_DRAG: f32 = 1.0; // Share of velocity (and spin) lost per second when fully under
+
+const ForceField = struct {
+    id: u32,
+    kind: ForceFieldType,
+    shape: core.CollisionShape, // SPHERE (radius in extents.x) or BOX
+    position: core.Vec3 = .{ .x = 0, .y = 0, .z = 0 },
+    rotation: core.Vec3 = .{ .x = 0, .y = 0, .z = 0 }, // Euler radians: turns the box and the direction
+    extents: core.Vec3 = .{ .x = 0.5, .y = 0.5, .z = 0.5 },
+    direction: core.Vec3 = .{ .x = 0, .y = 1, .z = 0 }, // In the field's frame: wind direction, vortex axis
+    strength: f32 = 0,
+    per_mass: bool = true,
+    falloff: ForceFieldFalloff = .NONE,
+    layer_mask: u32 = COLLISION_MASK_ALL,
+    density: f32 = DEFAULT_FLUID_DENSITY,
+    drag: f32 = DEFAULT_FLUID_DRAG,
+};
+
+var force_fields: [MAX_FORCE_FIELDS]ForceField = undefined;
+var force_field_count: u32 = 0;
+
+fn clearForceFields() void {
+    force_field_count = 0;
+}
+
+fn findForceField(id: u32) ?*ForceField {
+    for (force_fields[0..force_field_count]) |*field| {
+        if (field.id == id) return field;
+    }
+    return null;
+}
+
+// The field's volume as a body, for the collider overlap tests
+fn fieldBody(field: *const ForceField) PhysicsComponent {
+    return volumeBody(field.shape, field.position, field.rotation, field.extents);
+}
+
+// Is body `index` one the field pushes? (Sleeping ones count: the field may wake them.)
+fn fieldReaches(field: *const ForceField, volume: *const PhysicsComponent, index: usize) bool {
+    if (!isCollider(index)) return false;
+    const phys = &physics_components[index];
+    if (phys.body_type != .DYNAMIC or phys.collision_layer & field.layer_mask == 0) return false;
+    if (!aabbsOverlap(&colliderAabb(volume), &colliderAabb(phys))) return false;
+    return overlaps(volume, phys);
+}
+
+fn wakeFieldBodies(field: *const ForceField) void {
+    const volume = fieldBody(field);
+    for (0..entity_count) |i| {
+        if (fieldReaches(field, &volume, i)) wakeBody(&physics_components[i]);
+    }
+}
+
+// How far a collider reaches from its center along `axis` (a unit vector)
+fn reachAlong(phys: *const PhysicsComponent, axis: core.Vec3) f32 {
+    if (phys.collision_shape == .SPHERE) return phys.extents.x;
+    return core.dot(core.vec3_abs(axis), heldExtents(phys));
+}
+
+// Volume a collider displaces when fully under (a hull: the box holding it)
+fn colliderVolume(phys: *const PhysicsComponent) f32 {
+    return switch (phys.collision_shape) {
+        .HULL => 8.0 * phys.extents.x * phys.extents.y * phys.extents.z,
+        .COMPOUND => blk: {
+            var volume: f32 = 0;
+            for (compoundParts(phys)) |part| volume += partVolume(&partBody(phys, part));
+            break :blk volume;
+        },
+        else => partVolume(phys),
+    };
+}
+
+// Distance from the center to the field's edge (a box's corner): where LINEAR falloff ends
+fn fieldReach(field: *const ForceField) f32 {
+    return if (field.shape == .SPHERE) field.extents.x else core.magnitude(field.extents);
+}
+
+fn falloffScale(field: *const ForceField, distance: f32) f32 {
+    return switch (field.falloff) {
+        .NONE => 1,
+        .LINEAR => @max(1 - distance / fieldReach(field), 0),
+        .INVERSE_SQUARE => 1 / (@max(distance, FIELD_MIN_DISTANCE) * @max(distance, FIELD_MIN_DISTANCE)),
+    };
+}
+
+// Push of a DIRECTIONAL, RADIAL or VORTEX field on a body (N)
+fn fieldForce(field: *const ForceField, phys: *const PhysicsComponent) core.Vec3 {
+    const offset = core.vec3_subtract(phys.position, field.position);
+    const axis = core.normalize(core.rotateVector(field.rotation, field.direction));
+    var direction = axis;
+    var distance = core.magnitude(offset);
+    switch (field.kind) {
+        .RADIAL => direction = core.normalize(core.vec3_negate(offset)),
+        .VORTEX => {
+            const from_axis = core.vec3_subtract(offset, core.vec3_scale(axis, core.dot(offset, axis)));
+            direction = core.normalize(core.cross(axis, from_axis));
+            distance = core.magnitude(from_axis);
+        },
+        .DIRECTIONAL, .BUOYANCY => {},
+    }
+    const push = core.vec3_scale(direction, field.strength * falloffScale(field, distance));
+    return if (field.per_mass) core.vec3_scale(push, phys.mass) else push;
+}
+
+// Lift and drag of a BUOYANCY field on a body (N); its spin is slowed here directly
+fn buoyancyForce(field: *const ForceField, phys: *PhysicsComponent, volume: *const PhysicsComponent, delta_time: f32) core.Vec3 {
+    const g = core.magnitude(physics_gravity);
+    const up = if (g > 0) core.vec3_scale(physics_gravity, -1 / g) else core.Vec3{ .x = 0, .y = 1, .z = 0 };
+    const surface = core.dot(field.position, up) + reachAlong(volume, up);
+    const half_height = reachAlong(phys, up);
+    if (half_height <= 0) return .{ .x = 0, .y = 0, .z = 0 };
+    const bottom = core.dot(phys.position, up) - half_height;
+    const under = std.math.clamp((surface - bottom) / (2 * half_height), 0, 1);
+
+    const drag = @min(field.drag * under * delta_time, 1);
+    phys.angular_velocity = core.vec3_scale(phys.angular_velocity, 1 - drag);
+    const lift = core.vec3_scale(up, field.density * colliderVolume(phys) * under * g);
+    return core.vec3_add(lift, core.vec3_scale(phys.velocity, -drag / delta_time * phys.mass));
+}
+
+// Every field adds its push to the accumulated force of the awake bodies it reaches
+fn applyForceFields(delta_time: f32) void {
+    if (delta_time <= 0) return;
+    for (force_fields[0..force_field_count]) |*field| {
+        const volume = fieldBody(field);
+        for (0..entity_count) |i| {
+            if (!fieldReaches(field, &volume, i)) continue;
+            const phys = &physics_components[i];
+            if (phys.sleeping) continue;
+            const push = if (field.kind == .BUOYANCY) buoyancyForce(field, phys, &volume, delta_time) else fieldForce(field, phys);
+            phys.force = core.vec3_add(phys.force, push);
+        }
+    }
+}
+
+// ============================================================================
+// Broadphase: sweep-and-prune over AABBs
+// ============================================================================
+// Each solver iteration, every collider's AABB (derived from its extents, grown by the
+// contact skin) is sorted along the axis its centers spread most, and a sweep over that
+// order collects the pairs whose boxes overlap on all three axes. Only those pairs reach the
+// narrowphase. Pairs are then sorted by (i, j), so the solver visits them in exactly the
+// order of the full O(n²) scan and both paths resolve identically. If a crowd yields more
+// candidate pairs than the buffer holds, that iteration falls back to the full scan.
+
+const MAX_BROADPHASE_PAIRS: u32 = 65536;
+
+var broadphase_enabled: bool = true;
+var broadphase_pairs: [MAX_BROADPHASE_PAIRS]u64 = undefined; // (i << 32) | j, i < j
+var broadphase_pair_count: u32 = 0;
+var sap_order: [MAX_ENTITIES]u32 = undefined; // Collider indices, sorted by AABB min on sap_axis
+var sap_bounds: [MAX_ENTITIES]Aabb = undefined; // By entity index
+var sap_axis: u2 = 0;
+
+// Narrowphase stats of the last update(): pairs tested vs. pairs actually in contact
+var pairs_tested: u32 = 0;
+var pairs_overlapping: u32 = 0;
+
+const Aabb = struct {
+    min: [3]f32,
+    max: [3]f32,
+};
+
+const CollisionCounters = struct {
+    checks: u32 = 0,
+    detected: u32 = 0,
+};
+
+fn isCollider(index: usize) bool {
+    return entity_metadata[index].active and entity_metadata[index].physics_enabled;
+}
+
+fn colliderAabb(phys: *const PhysicsComponent) Aabb {
+    const inf = std.math.inf(f32);
+    const half = switch (phys.collision_shape) {
+        .SPHERE => core.Vec3{ .x = phys.extents.x, .y = phys.extents.x, .z = phys.extents.x },
+        .BOX, .CAPSULE, .CYLINDER, .HULL, .COMPOUND => heldExtents(phys),
+        .PLANE => return .{ .min = .{ -inf, -inf, -inf }, .max = .{ inf, inf, inf } }, // Unbounded
+    };
+    const p = phys.position;
+    return .{
+        .min = .{ p.x - half.x - CONTACT_SKIN, p.y - half.y - CONTACT_SKIN, p.z - half.z - CONTACT_SKIN },
+        .max = .{ p.x + half.x + CONTACT_SKIN, p.y + half.y + CONTACT_SKIN, p.z + half.z + CONTACT_SKIN },
+    };
+}
+
+fn aabbsOverlap(a: *const Aabb, b: *const Aabb) bool {
+    inline for (0..3) |axis| {
+        if (a.min[axis] > b.max[axis] or b.min[axis] > a.max[axis]) return false;
+    }
+    return true;
+}
+
+// Axis along which the (bounded) colliders' centers spread most
+fn sweepAxis(count: usize) u2 {
+    var sum = [3]f32{ 0, 0, 0 };
+    var sum_sq = [3]f32{ 0, 0, 0 };
+    var n: f32 = 0;
+    for (sap_order[0..count]) |index| {
+        const phys = &physics_components[index];
+        if (phys.collision_shape == .PLANE) continue;
+        const c = [3]f32{ phys.position.x, phys.position.y, phys.position.z };
+        inline for (0..3) |axis| {
+            sum[axis] += c[axis];
+            sum_sq[axis] += c[axis] * c[axis];
+        }
+        n += 1;
+    }
+    if (n == 0) return 0;
+
+    var best: u2 = 0;
+    var best_variance: f32 = -1;
+    inline for (0..3) |axis| {
+        const mean = sum[axis] / n;
+        const variance = sum_sq[axis] / n - mean * mean;
+        if (variance > best_variance) {
+            best_variance = variance;
+            best = axis;
+        }
+    }
+    return best;
+}
+
+fn sapLessThan(_: void, a: u32, b: u32) bool {
+    return sap_bounds[a].min[sap_axis] < sap_bounds[b].min[sap_axis];
+}
+
+fn pairLessThan(_: void, a: u64, b: u64) bool {
+    return a < b;
+}
+
+// Fill broadphase_pairs with this iteration's candidate pairs; false if they do not fit
+fn buildBroadphasePairs() bool {
+    var count: usize = 0;
+    for (0..entity_count) |index| {
+        if (!isCollider(index)) continue;
+        sap_bounds[index] = colliderAabb(&physics_components[index]);
+        sap_order[count] = @intCast(index);
+        count += 1;
+    }
+
+    sap_axis = sweepAxis(count);
+    const order = sap_order[0..count];
+    std.mem.sort(u32, order, {}, sapLessThan);
+
+    broadphase_pair_count = 0;
+    for (order, 0..) |a, k| {
+        const bounds_a = &sap_bounds[a];
+        for (order[k + 1 ..]) |b| {
+            const bounds_b = &sap_bounds[b];
+            if (bounds_b.min[sap_axis] > bounds_a.max[sap_axis]) break; // Sorted: no later box reaches back
+            if (!aabbsOverlap(bounds_a, bounds_b)) continue;
+
+            if (broadphase_pair_count == MAX_BROADPHASE_PAIRS) return false;
+            const i: u64 = @min(a, b);
+            const j: u64 = @max(a, b);
+            broadphase_pairs[broadphase_pair_count] = (i << 32) | j;
+            broadphase_pair_count += 1;
+        }
+    }
+
+    std.mem.sort(u64, broadphase_pairs[0..broadphase_pair_count], {}, pairLessThan);
+    return true;
+}
+
+// Narrowphase + resolution for one pair of active physics entities (i < j). Returns true
+// if a collision was resolved (another solver iteration is needed).
+fn collidePair(i: usize, j: usize, iteration: u32, counters: *CollisionCounters) bool {
+    const phys1 = &physics_components[i];
+    const phys2 = &physics_components[j];
+
+    // Layer/mask filtering applies to solid contacts and trigger overlaps alike
+    if (!layersInteract(phys1, phys2)) return false;
+
+    // Triggers are never resolved: their overlaps are reported once per step
+    // (any pair but STATIC vs STATIC, which can never start or stop overlapping)
+    if (phys1.is_trigger or phys2.is_trigger) {
+        if (iteration == 0 and !(phys1.body_type == .STATIC and phys2.body_type == .STATIC)) {
+            pairs_tested += 1;
+            if (overlaps(phys1, phys2)) {
+                pairs_overlapping += 1;
+                recordTriggerPair(i, j);
+            }
+        }
+        return false;
+    }
+
+    // Skip collision if both entities are kinematic
+    if (phys1.isImmovable() and phys2.isImmovable()) return false;
+    // ...or if a joint ties them together without collide_connected
+    if (jointSkipsCollision(entity_metadata[i].id, entity_metadata[j].id)) return false;
+    // ...or if neither can move this step (sleeping against sleeping or STATIC)
+    if (!isAwake(phys1) and !isAwake(phys2)) return false;
+
+    counters.checks += 1;
+    pairs_tested += 1;
+
+    // First pass: a pair not even within the contact skin cannot collide either
+    var resolved = false;
+    var skin_contact: ?core.CollisionInfo = null;
+    if (iteration == 0) {
+        skin_contact = skinContact(phys1, phys2) orelse return false;
+    }
+    const contacts_before = contact_count;
+
+    // Special case: SPHERE vs SPHERE collision - use original working legacy path
+    if (phys1.collision_shape == core.CollisionShape.SPHERE and phys2.collision_shape == core.CollisionShape.SPHERE) {
+        // Use legacy sphere collision detection and resolution (the original working system)
+        if (core.checkSphereCollision(phys1.position, phys1.extents.x, phys2.position, phys2.extents.x)) |overlap| {
+            counters.detected += 1;
+            resolved = true;
+
+            // 🔍 LOG COLLISION EVENT: Sphere vs Sphere
+            last_collision_entity1 = @intCast(i);
+            last_collision_entity2 = @intCast(j);
+            last_collision_pos1[0] = phys1.position.x;
+            last_collision_pos1[1] = phys1.position.y;
+            last_collision_pos1[2] = phys1.position.z;
+            last_collision_pos2[0] = phys2.position.x;
+            last_collision_pos2[1] = phys2.position.y;
+            last_collision_pos2[2] = phys2.position.z;
+            collision_event_counter += 1;
+
+            // 🚨 WASM COLLISION LOG: Real-time sphere collision detection
+            var log_buffer: [256]u8 = undefined;
+            const log_msg = std.fmt.bufPrint(&log_buffer, "🚨 SPHERE COLLISION: Entity {} vs {} at ({d:.3},{d:.3},{d:.3}) vs ({d:.3},{d:.3},{d:.3})\n", .{ i, j, phys1.position.x, phys1.position.y, phys1.position.z, phys2.position.x, phys2.position.y, phys2.position.z }) catch "SPHERE COLLISION: formatting error\n";
+            log(log_msg.ptr, log_msg.len);
+
+            // Debug: Log collision details
+            if (phys1.isImmovable() or phys2.isImmovable()) {
+                collision_state |= 0x20; // Kinematic collision flag
+            }
+
+            // 🔧 COLLISION RESOLUTION RE-ENABLED WITH DETAILED LOGGING
+            const pos1_before = core.Vec3{ .x = phys1.position.x, .y = phys1.position.y, .z = phys1.position.z };
+            const pos2_before = core.Vec3{ .x = phys2.position.x, .y = phys2.position.y, .z = phys2.position.z };
+            const vel1_before = core.Vec3{ .x = phys1.velocity.x, .y = phys1.velocity.y, .z = phys1.velocity.z };
+            const vel2_before = core.Vec3{ .x = phys2.velocity.x, .y = phys2.velocity.y, .z = phys2.velocity.z };
+
+            const material = combinedMaterial(phys1, phys2);
+            core.resolveSphereCollisionWithKinematic(&phys1.position, &phys1.velocity, phys1.mass, phys1.extents.x, phys1.isImmovable(), &phys2.position, &phys2.velocity, phys2.mass, phys2.extents.x, phys2.isImmovable(), material.restitution);
+
+            const sphere_contact = sphereContactInfo(pos1_before, phys1.extents.x, pos2_before, overlap);
+            const normal_impulse = contactImpulse(phys1, vel1_before, phys2, vel2_before, sphere_contact.contact_normal);
+            recordContact(i, j, sphere_contact, normal_impulse);
+            applyContactSpin(phys1, vel1_before, phys2, vel2_before, sphere_contact);
+            applyContactFriction(phys1, phys2, sphere_contact.contact_normal, normal_impulse, material);
+
+            // 📊 LOG COLLISION RESOLUTION DETAILS
+            var res_log_buffer: [512]u8 = undefined;
+            const res_log_msg = std.fmt.bufPrint(&res_log_buffer, "📊 SPHERE RESOLUTION: Entity {} pos ({d:.3},{d:.3},{d:.3})->[{d:.3},{d:.3},{d:.3}] vel ({d:.3},{d:.3},{d:.3})->[{d:.3},{d:.3},{d:.3}]\n", .{ i, pos1_before.x, pos1_before.y, pos1_before.z, phys1.position.x, phys1.position.y, phys1.position.z, vel1_before.x, vel1_before.y, vel1_before.z, phys1.velocity.x, phys1.velocity.y, phys1.velocity.z }) catch "SPHERE RESOLUTION: formatting error\n";
+            log(res_log_msg.ptr, res_log_msg.len);
+
+            var res_log_buffer2: [512]u8 = undefined;
+            const res_log_msg2 = std.fmt.bufPrint(&res_log_buffer2, "📊 SPHERE RESOLUTION: Entity {} pos ({d:.3},{d:.3},{d:.3})->[{d:.3},{d:.3},{d:.3}] vel ({d:.3},{d:.3},{d:.3})->[{d:.3},{d:.3},{d:.3}]\n", .{ j, pos2_before.x, pos2_before.y, pos2_before.z, phys2.position.x, phys2.position.y, phys2.position.z, vel2_before.x, vel2_before.y, vel2_before.z, phys2.velocity.x, phys2.velocity.y, phys2.velocity.z }) catch "SPHERE RESOLUTION: formatting error\n";
+            log(res_log_msg2.ptr, res_log_msg2.len);
+
+            // Mark transforms as dirty for rendering update
+            entity_metadata[i].transform_dirty = true;
+            entity_metadata[j].transform_dirty = true;
+
+            // Update collision state to indicate entity-entity collision
+            collision_state |= 0x10; // Entity collision flag
+
+            // Store collision count in unused bits (for debugging)
+            const collision_count_mask = @as(u8, @intCast(counters.detected & 0x0F));
+            collision_state = (collision_state & 0x3F) | (collision_count_mask << 6);
+        }
+    } else {
+        // Use universal collision dispatcher for BOX, PLANE, and mixed collision types
+        if (checkColliders(phys1, phys2, 0)) |collision_info| {
+            counters.detected += 1;
+            resolved = true;
+
+            // 🔍 LOG COLLISION EVENT: Box/Mixed collision
+            last_collision_entity1 = @intCast(i);
+            last_collision_entity2 = @intCast(j);
+            last_collision_pos1[0] = phys1.position.x;
+            last_collision_pos1[1] = phys1.position.y;
+            last_collision_pos1[2] = phys1.position.z;
+            last_collision_pos2[0] = phys2.position.x;
+            last_collision_pos2[1] = phys2.position.y;
+            last_collision_pos2[2] = phys2.position.z;
+            collision_event_counter += 1;
+
+            // 🚨 WASM COLLISION LOG: Limited logging for debugging
+            if (collision_log_count < 25) {
+                var log_buffer: [256]u8 = undefined;
+                const shape1_name = @tagName(phys1.collision_shape);
+                const shape2_name = @tagName(phys2.collision_shape);
+                const log_msg = std.fmt.bufPrint(&log_buffer, "🚨 {s} vs {s} COLLISION: Entity {} vs {} at ({d:.3},{d:.3},{d:.3}) vs ({d:.3},{d:.3},{d:.3})\n", .{ shape1_name, shape2_name, i, j, phys1.position.x, phys1.position.y, phys1.position.z, phys2.position.x, phys2.position.y, phys2.position.z }) catch "BOX/MIXED COLLISION: formatting error\n";
+                log(log_msg.ptr, log_msg.len);
+                collision_log_count += 1;
+            }
+
+            // Debug: Log collision details (stored in collision_state bits for inspection)
+            // Bit pattern: 0x10 = collision detected, 0x20 = kinematic involved
+            if (phys1.isImmovable() or phys2.isImmovable()) {
+                collision_state |= 0x20; // Kinematic collision flag
+            }
+
+            // 🔧 COLLISION RESOLUTION RE-ENABLED WITH DETAILED LOGGING - Box and mixed collisions
+            const pos1_before = core.Vec3{ .x = phys1.position.x, .y = phys1.position.y, .z = phys1.position.z };
+            const pos2_before = core.Vec3{ .x = phys2.position.x, .y = phys2.position.y, .z = phys2.position.z };
+            const vel1_before = core.Vec3{ .x = phys1.velocity.x, .y = phys1.velocity.y, .z = phys1.velocity.z };
+            const vel2_before = core.Vec3{ .x = phys2.velocity.x, .y = phys2.velocity.y, .z = phys2.velocity.z };
+
+            // Use the collision_info from the detection call above (no double-call needed)
+            const material = combinedMaterial(phys1, phys2);
+            core.resolveCollision(&phys1.position, &phys1.velocity, phys1.collision_shape, phys1.extents, phys1.mass, phys1.isImmovable(), &phys2.position, &phys2.velocity, phys2.collision_shape, phys2.extents, phys2.mass, phys2.isImmovable(), material.restitution, collision_info);
+            const normal_impulse = contactImpulse(phys1, vel1_before, phys2, vel2_before, collision_info.contact_normal);
+            recordContact(i, j, collision_info, normal_impulse);
+            applyContactSpin(phys1, vel1_before, phys2, vel2_before, collision_info);
+            applyContactFriction(phys1, phys2, collision_info.contact_normal, normal_impulse, material);
+
+            // 📊 LOG BOX COLLISION RESOLUTION DETAILS (very limited - only first 3 collisions)
+            if (collision_log_count <= 3) {
+                var box_res_log_buffer: [512]u8 = undefined;
+                const box_res_log_msg = std.fmt.bufPrint(&box_res_log_buffer, "📊 BOX RESOLUTION: Entity {} pos ({d:.3},{d:.3},{d:.3})->[{d:.3},{d:.3},{d:.3}] vel ({d:.3},{d:.3},{d:.3})->[{d:.3},{d:.3},{d:.3}]\n", .{ i, pos1_before.x, pos1_before.y, pos1_before.z, phys1.position.x, phys1.position.y, phys1.position.z, vel1_before.x, vel1_before.y, vel1_before.z, phys1.velocity.x, phys1.velocity.y, phys1.velocity.z }) catch "BOX RESOLUTION: formatting error\n";
+                log(box_res_log_msg.ptr, box_res_log_msg.len);
+
+                var box_res_log_buffer2: [512]u8 = undefined;
+                const box_res_log_msg2 = std.fmt.bufPrint(&box_res_log_buffer2, "📊 BOX RESOLUTION: Entity {} pos ({d:.3},{d:.3},{d:.3})->[{d:.3},{d:.3},{d:.3}] vel ({d:.3},{d:.3},{d:.3})->[{d:.3},{d:.3},{d:.3}]\n", .{ j, pos2_before.x, pos2_before.y, pos2_before.z, phys2.position.x, phys2.position.y, phys2.position.z, vel2_before.x, vel2_before.y, vel2_before.z, phys2.velocity.x, phys2.velocity.y, phys2.velocity.z }) catch "BOX RESOLUTION: formatting error\n";
+                log(box_res_log_msg2.ptr, box_res_log_msg2.len);
+
+                // 🔍 LOG COLLISION NORMAL AND PENETRATION DEPTH
+                var collision_info_buffer: [256]u8 = undefined;
+                const collision_info_msg = std.fmt.bufPrint(&collision_info_buffer, "🔍 COLLISION INFO: normal ({d:.3},{d:.3},{d:.3}) depth {d:.3}\n", .{ collision_info.contact_normal.x, collision_info.contact_normal.y, collision_info.contact_normal.z, collision_info.penetration_depth }) catch "COLLISION INFO: formatting error\n";
+                log(collision_info_msg.ptr, collision_info_msg.len);
+            }
+
+            // Mark transforms as dirty for rendering update
+            entity_metadata[i].transform_dirty = true;
+            entity_metadata[j].transform_dirty = true;
+
+            // Update collision state to indicate entity-entity collision
+            collision_state |= 0x10; // New bit for entity collisions
+
+            // Store collision count in unused bits (for debugging)
+            const collision_count_mask = @as(u8, @intCast(counters.detected & 0x0F));
+            collision_state = (collision_state & 0x3F) | (collision_count_mask << 6);
+        }
+    }
+
+    // A resting pair the solver left exactly separated still touches
+    if (skin_contact) |touch| {
+        if (contact_count == contacts_before) recordContact(i, j, touch, 0);
+    }
+    if (skin_contact != null or resolved) pairs_overlapping += 1;
+    return resolved;
+}
+
+// ECS entity-entity collision detection and response with iterative resolution
+fn checkEntityCollisions(delta_time: f32) void {
+    _ = delta_time; // For future use in time-based collision resolution
+
+    clearContacts();
+
+    // Debug: Track collision checking
+    var counters = CollisionCounters{};
+    pairs_tested = 0;
+    pairs_overlapping = 0;
+
+    // ITERATIVE COLLISION RESOLUTION: Run multiple passes to resolve deep penetrations
+    var iteration: u32 = 0;
+
+    while (iteration < solver_iterations) : (iteration += 1) {
+        var any_collision_resolved = false;
+
+        if (broadphase_enabled and buildBroadphasePairs()) {
+            // Only the pairs whose AABBs overlap, in the same (i, j) order as the full scan
+            for (broadphase_pairs[0..broadphase_pair_count]) |key| {
+                if (collidePair(@intCast(key >> 32), @intCast(key & 0xFFFF_FFFF), iteration, &counters)) any_collision_resolved = true;
+            }
+        } else {
+            // Check all pairs of active physics entities
+            for (0..entity_count) |i| {
+                if (!isCollider(i)) continue;
+
+                for (i + 1..entity_count) |j| {
+                    if (!isCollider(j)) continue;
+                    if (collidePair(i, j, iteration, &counters)) any_collision_resolved = true;
+                }
+            }
+        }
+
+        // If no collisions were resolved in this iteration, we're done
+        if (!any_collision_resolved) {
+            break;
+        }
+    }
+
+    // Store collision check count in a debug variable for inspection
+    // We'll use the unused debug_floating_entity_index for this
+    if (counters.checks > 0) {
+        debug_floating_entity_index = counters.checks;
+    }
+}
+
+pub export fn update(delta_time: f32) void {
+    collision_state = 0;
+
+    // Process camera movement from WASD input
+    const camera_speed: f32 = 10.0;
+    if (input_state & 0x01 != 0) { // W - forward
+        const forward = core.Vec3{
+            .x = camera_target.x - camera_position.x,
+            .y = camera_target.y - camera_position.y,
+            .z = camera_target.z - camera_position.z,
+        };
+        const forward_norm = core.normalize(forward);
+        camera_position.x += forward_norm.x * camera_speed * delta_time;
+        camera_position.y += forward_norm.y * camera_speed * delta_time;
+        camera_position.z += forward_norm.z * camera_speed * delta_time;
+        camera_target.x += forward_norm.x * camera_speed * delta_time;
+        camera_target.y += forward_norm.y * camera_speed * delta_time;
+        camera_target.z += forward_norm.z * camera_speed * delta_time;
+    }
+    if (input_state & 0x02 != 0) { // A - left
+        const forward = core.Vec3{
+            .x = camera_target.x - camera_position.x,
+            .y = camera_target.y - camera_position.y,
+            .z = camera_target.z - camera_position.z,
+        };
+        const right = core.cross(core.normalize(forward), camera_up);
+        camera_position.x -= right.x * camera_speed * delta_time;
+        camera_position.y -= right.y * camera_speed * delta_time;
+        camera_position.z -= right.z * camera_speed * delta_time;
+        camera_target.x -= right.x * camera_speed * delta_time;
+        camera_target.y -= right.y * camera_speed * delta_time;
+        camera_target.z -= right.z * camera_speed * delta_time;
+    }
+    if (input_state & 0x04 != 0) { // S - backward
+        const forward = core.Vec3{
+            .x = camera_target.x - camera_position.x,
+            .y = camera_target.y - camera_position.y,
+            .z = camera_target.z - camera_position.z,
+        };
+        const forward_norm = core.normalize(forward);
+        camera_position.x -= forward_norm.x * camera_speed * delta_time;
+        camera_position.y -= forward_norm.y * camera_speed * delta_time;
+        camera_position.z -= forward_norm.z * camera_speed * delta_time;
+        camera_target.x -= forward_norm.x * camera_speed * delta_time;
+        camera_target.y -= forward_norm.y * camera_speed * delta_time;
+        camera_target.z -= forward_norm.z * camera_speed * delta_time;
+    }
+    if (input_state & 0x08 != 0) { // D - right
+        const forward = core.Vec3{
+            .x = camera_target.x - camera_position.x,
+            .y = camera_target.y - camera_position.y,
+            .z = camera_target.z - camera_position.z,
+        };
+        const right = core.cross(core.normalize(forward), camera_up);
+        camera_position.x += right.x * camera_speed * delta_time;
+        camera_position.y += right.y * camera_speed * delta_time;
+        camera_position.z += right.z * camera_speed * delta_time;
+        camera_target.x += right.x * camera_speed * delta_time;
+        camera_target.y += right.y * camera_speed * delta_time;
+        camera_target.z += right.z * camera_speed * delta_time;
+    }
+
+    // Update view matrix if camera moved
+    if (input_state != 0) {
+        updateViewMatrix();
+    }
+
+    // ECS physics simulation
+    updateECSPhysics(delta_time);
+
+    // Update model matrix with first active entity position (for backward compatibility)
+    uniforms.model = core.Mat4.identity();
+    if (entity_count > 0 and entity_metadata[0].active) {
+        uniforms.model.data[12] = physics_components[0].position.x;
+        uniforms.model.data[13] = physics_components[0].position.y;
+        uniforms.model.data[14] = physics_components[0].position.z;
+    }
+}
+
+// Rebuild the render matrices of entities whose transform was set after the last update()
+// (e.g. hierarchy children the bridge re-placed under a parent physics just moved), so the
+// frame renders them without waiting for the next physics step.
+pub export fn update_transforms() void {
+    updateDirtyTransforms();
+}
+
+pub export fn set_input(key: u8, pressed: bool) void {
+    const key_map = switch (key) {
+        87 => @as(u8, 0x01), // W
+        65 => @as(u8, 0x02), // A
+        83 => @as(u8, 0x04), // S
+        68 => @as(u8, 0x08), // D
+        else => @as(u8, 0),
+    };
+
+    if (pressed) {
+        input_state |= key_map;
+    } else {
+        input_state &= ~key_map;
+    }
+}
+
+pub export fn generate_sphere_mesh(segments: u32) void {
+    // Generate sphere mesh with default radius (for backwards compatibility)
+    const radius = 0.5; // Default radius
+    vertex_count = core.generateWireframeSphere(&vertex_buffer, segments, radius);
+}
+
+pub export fn generate_sphere_mesh_with_radius(segments: u32, radius: f32) void {
+    // Generate sphere mesh with specified radius
+    vertex_count = core.generateWireframeSphere(&vertex_buffer, segments, radius);
+}
+
+pub export fn generate_cube_mesh(size: f32) void {
+    // Generate cube mesh into main vertex buffer (consolidate to main buffer)
+    vertex_count = core.generateWireframeCube(&vertex_buffer, size);
+}
+
+pub export fn generate_grid_floor(grid_size: u32) void {
+    grid_vertex_count = generateWireframeGrid(&grid_buffer, grid_size);
+}
+
+pub fn generateWireframeGrid(vertices: [*]f32, grid_size: u32) u32 {
+    var index: u32 = 0;
+    const grid_extent = 16.0; // Grid extends from -8 to +8 (matches world bounds)
+    const half_size = grid_extent / 2.0;
+    const step = grid_extent / @as(f32, @floatFromInt(grid_size));
+
+    // Generate horizontal lines (along X axis)
+    var z: u32 = 0;
+    while (z <= grid_size) : (z += 1) {
+        const z_pos = -half_size + @as(f32, @floatFromInt(z)) * step;
+
+        // Line from (-half_size, floor_y, z_pos) to (half_size, floor_y, z_pos)
+        vertices[index] = -half_size; // Start X
+        vertices[index + 1] = world_bounds_min.y; // Floor Y
+        vertices[index + 2] = z_pos; // Z
+
+        vertices[index + 3] = half_size; // End X
+        vertices[index + 4] = world_bounds_min.y; // Floor Y
+        vertices[index + 5] = z_pos; // Z
+
+        index += 6;
+    }
+
+    // Generate vertical lines (along Z axis)
+    var x: u32 = 0;
+    while (x <= grid_size) : (x += 1) {
+        const x_pos = -half_size + @as(f32, @floatFromInt(x)) * step;
+
+        // Line from (x_pos, floor_y, -half_size) to (x_pos, floor_y, half_size)
+        vertices[index] = x_pos; // X
+        vertices[index + 1] = world_bounds_min.y; // Floor Y
+        vertices[index + 2] = -half_size; // Start Z
+
+        vertices[index + 3] = x_pos; // X
+        vertices[index + 4] = world_bounds_min.y; // Floor Y
+        vertices[index + 5] = half_size; // End Z
+
+        index += 6;
+    }
+
+    return index / 3; // Return vertex count
+}
+
+pub export fn get_vertex_buffer_offset() u32 {
+    if (comptime @import("builtin").target.cpu.arch == .wasm32) {
+        return @as(u32, @intCast(@intFromPtr(&vertex_buffer)));
+    } else {
+        return @truncate(@intFromPtr(&vertex_buffer));
+    }
+}
+
+pub export fn get_grid_buffer_offset() u32 {
+    if (comptime @import("builtin").target.cpu.arch == .wasm32) {
+        return @as(u32, @intCast(@intFromPtr(&grid_buffer)));
+    } else {
+        return @truncate(@intFromPtr(&grid_buffer));
+    }
+}
+
+pub export fn get_uniform_buffer_offset() u32 {
+    if (comptime @import("builtin").target.cpu.arch == .wasm32) {
+        return @as(u32, @intCast(@intFromPtr(&uniforms)));
+    } else {
+        return @truncate(@intFromPtr(&uniforms));
+    }
+}
+
+pub export fn get_vertex_count() u32 {
+    return vertex_count;
+}
+
+pub export fn get_grid_vertex_count() u32 {
+    return grid_vertex_count;
+}
+
+// Compatibility exports for vertex counts (estimate based on mesh type)
+pub export fn get_sphere_vertex_count() u32 {
+    // Return vertex count for a single sphere mesh (16 segments = ~256 vertices)
+    return 256;
+}
+
+pub export fn get_cube_vertex_count() u32 {
+    // Return vertex count for a single cube mesh (wireframe = 24 vertices)
+    return 24;
+}
+
+pub export fn get_collision_state() u8 {
+    return collision_state;
+}
+
+pub export fn set_position(x: f32, y: f32, z: f32) void {
+    // Set position of first active entity for backward compatibility
+    if (entity_count > 0 and entity_metadata[0].active) {
+        physics_components[0].position = .{ .x = x, .y = y, .z = z };
+        entity_metadata[0].transform_dirty = true;
+    }
+}
+
+pub export fn apply_force(entity_id: u32, x: f32, y: f32, z: f32) void {
+    // Direct velocity impulse (mass-independent by design — see apply_force_to_entity
+    // for the force/mass variant). Resolves the STABLE entity id to the current array
     // index (B2), and only DYNAMIC bodies respond: KINEMATIC/STATIC velocity is
     // script-owned/zero and must never accumulate solver-visible shove from forces.
     if (findECSEntityById(entity_id)) |index| {
         if (physics_components[index].body_type != .DYNAMIC) return;
+        wakeBody(&physics_components[index]);
         physics_components[index].velocity.x += x;
         physics_components[index].velocity.y += y;
         physics_components[index].velocity.z += z;
@@ -1161,14 +2804,35 @@ pub export fn set_camera_target(x: f32, y: f32, z: f32) void {
     updateViewMatrix();
 }
 
+// Gravity along Y (m/s²), velocity damping per step and world-bounds restitution
 pub export fn set_physics_config(gravity: f32, damping: f32, restitution: f32) void {
-    physics_gravity = gravity;
+    physics_gravity = .{ .x = 0, .y = gravity, .z = 0 };
     physics_damping = damping;
     physics_restitution = restitution;
 }
 
+pub export fn set_gravity(x: f32, y: f32, z: f32) void {
+    physics_gravity = .{ .x = x, .y = y, .z = z };
+}
+
+// World bounds from -(x, y, z) to +(x, y, z)
 pub export fn set_world_bounds(x: f32, y: f32, z: f32) void {
-    world_bounds = .{ .x = x, .y = y, .z = z };
+    set_world_box(-x, -y, -z, x, y, z);
+}
+
+pub export fn set_world_box(min_x: f32, min_y: f32, min_z: f32, max_x: f32, max_y: f32, max_z: f32) void {
+    world_bounds_min = .{ .x = min_x, .y = min_y, .z = min_z };
+    world_bounds_max = .{ .x = max_x, .y = max_y, .z = max_z };
+}
+
+// Without world bounds bodies fall and fly as far as nothing stops them
+pub export fn set_world_bounds_enabled(enabled: bool) void {
+    world_bounds_enabled = enabled;
+}
+
+// Collision resolution passes per step (1..MAX_SOLVER_ITERATIONS)
+pub export fn set_solver_iterations(iterations: u32) void {
+    solver_iterations = std.math.clamp(iterations, 1, MAX_SOLVER_ITERATIONS);
 }
 
 pub export fn get_camera_position_x() f32 {
@@ -1229,6 +2893,7 @@ pub export fn despawn_all_entities() void {
     }
     @memset(&mesh_bucket_counts, 0);
     entity_count = 0;
+    clearJoints();
 }
 
 // The entity accessors below take the STABLE entity id (as handed out by
@@ -1255,24 +2920,41 @@ pub export fn get_entity_position_z(id: u32) f32 {
 
 pub export fn set_entity_position(id: u32, x: f32, y: f32, z: f32) void {
     const index = findECSEntityById(id) orelse return;
+    wakeIfTeleported(index, .{ .x = x, .y = y, .z = z }, physics_components[index].rotation);
     physics_components[index].position = .{ .x = x, .y = y, .z = z };
     entity_metadata[index].transform_dirty = true;
 }
 
+/// Place a body without moving it there (a KINEMATIC body takes no velocity from the jump)
+pub export fn teleport_entity(id: u32, x: f32, y: f32, z: f32) void {
+    const index = findECSEntityById(id) orelse return;
+    set_entity_position(id, x, y, z);
+    physics_components[index].previous_position = physics_components[index].position;
+    physics_components[index].kinematic_time_left = 0;
+}
+
 pub export fn set_entity_velocity(id: u32, x: f32, y: f32, z: f32) void {
     const index = findECSEntityById(id) orelse return;
+    if (x != 0 or y != 0 or z != 0) wakeBody(&physics_components[index]);
     physics_components[index].velocity = .{ .x = x, .y = y, .z = z };
 }
 
 pub export fn set_entity_rotation(id: u32, x: f32, y: f32, z: f32) void {
     const index = findECSEntityById(id) orelse return;
+    wakeIfTeleported(index, physics_components[index].position, .{ .x = x, .y = y, .z = z });
     physics_components[index].rotation = .{ .x = x, .y = y, .z = z };
     entity_metadata[index].transform_dirty = true;
 }
 
 pub export fn set_entity_scale(id: u32, x: f32, y: f32, z: f32) void {
     const index = findECSEntityById(id) orelse return;
-    physics_components[index].scale = .{ .x = x, .y = y, .z = z };
+    const phys = &physics_components[index];
+    phys.scale = .{ .x = x, .y = y, .z = z };
+    if (phys.collision_shape == .HULL or phys.collision_shape == .COMPOUND) {
+        // Hull and compound colliders stretch with the body
+        phys.extents = if (phys.collision_shape == .HULL) hullBodyExtents(phys.hull, phys.scale) else compoundBodyExtents(phys);
+        phys.inv_inertia = deriveInvInertia(phys);
+    }
     entity_metadata[index].transform_dirty = true;
 }
 
@@ -1317,7 +2999,7 @@ pub export fn clear_debug_floating_entity() void {
 // - gravityScale: DYNAMIC only (1.0 normal, 0.0 space, 0.16 moon, -1.0 reverse)
 // - physicsEnabled: false for mesh-only decorative entities (no collision at all);
 //   replaces the old `mass != 0` inference that made zero-mass colliders silently inert
-pub export fn add_entity(id: u32, x: f32, y: f32, z: f32, rotX: f32, rotY: f32, rotZ: f32, scaleX: f32, scaleY: f32, scaleZ: f32, colorR: f32, colorG: f32, colorB: f32, colorA: f32, meshIndex: u32, materialId: u32, bodyType: u8, mass: f32, gravityScale: f32, radius: f32, physicsEnabled: bool) void {
+pub export fn add_entity(id: u32, x: f32, y: f32, z: f32, rotX: f32, rotY: f32, rotZ: f32, scaleX: f32, scaleY: f32, scaleZ: f32, colorR: f32, colorG: f32, colorB: f32, colorA: f32, meshIndex: u32, materialId: u32, bodyType: u8, mass: f32, gravityScale: f32, radius: f32, physicsEnabled: bool, flags: u32, staticFriction: f32, dynamicFriction: f32, restitution: f32) void {
     const index = allocateEntitySlot(meshIndex) orelse return; // full
 
     const body_type: BodyType = switch (bodyType) {
@@ -1337,7 +3019,7 @@ pub export fn add_entity(id: u32, x: f32, y: f32, z: f32, rotX: f32, rotY: f32,
     // Calculate extents based on collision shape and provided radius
     const extents = switch (collision_shape) {
         .SPHERE => core.Vec3{ .x = radius, .y = radius, .z = radius },
-        .BOX => core.Vec3{ .x = radius, .y = radius, .z = radius }, // Use radius as half-extent
+        .BOX, .CAPSULE, .CYLINDER, .HULL, .COMPOUND => core.Vec3{ .x = radius, .y = radius, .z = radius }, // Use radius as half-extent
         .PLANE => core.Vec3{ .x = 0, .y = 1, .z = 0 }, // Default upward normal
     };
 
@@ -1355,7 +3037,16 @@ pub export fn add_entity(id: u32, x: f32, y: f32, z: f32, rotX: f32, rotY: f32,
         .body_type = body_type,
         .collision_shape = collision_shape,
         .extents = extents,
+        .is_trigger = (flags & ENTITY_FLAG_TRIGGER) != 0,
+        .continuous = (flags & ENTITY_FLAG_CONTINUOUS) != 0,
+        .static_friction = staticFriction,
+        .dynamic_friction = dynamicFriction,
+        .restitution = restitution,
+        .friction_combine = combineModeFromFlags(flags, ENTITY_FLAG_FRICTION_COMBINE_SHIFT),
+        .restitution_combine = combineModeFromFlags(flags, ENTITY_FLAG_RESTITUTION_COMBINE_SHIFT),
+        .previous_position = .{ .x = x, .y = y, .z = z },
     };
+    physics_components[index].inv_inertia = deriveInvInertia(&physics_components[index]);
 
     // Rendering component: color now; the transform matrix (incl. rotation) is
     // built below by updateECSTransformMatrix from the physics component.
@@ -1391,6 +3082,54 @@ pub export fn add_entity(id: u32, x: f32, y: f32, z: f32, rotX: f32, rotY: f32,
     updateECSTransformMatrix(index);
 }
 
+// Runtime collision filter change (layer bits + mask of layers to collide with)
+pub export fn set_entity_collision_filter(id: u32, layer: u32, mask: u32) void {
+    if (findECSEntityById(id)) |index| {
+        physics_components[index].collision_layer = layer;
+        physics_components[index].collision_mask = mask;
+    }
+}
+
+// Sleep state (DYNAMIC bodies). Putting a body to sleep stops it where it is until something
+// wakes it; one still touching awake bodies is woken again by its island on the next step.
+pub export fn set_entity_sleeping(id: u32, sleeping: bool) void {
+    const index = findECSEntityById(id) orelse return;
+    const phys = &physics_components[index];
+    if (phys.body_type != .DYNAMIC) return;
+    if (sleeping) sleepBody(phys) else wakeBody(phys);
+}
+
+pub export fn get_entity_sleeping(id: u32) bool {
+    const index = findECSEntityById(id) orelse return false;
+    return physics_components[index].sleeping;
+}
+
+// Runtime physics material swap (e.g. a floor that ices over). Combine modes are
+// core.CombineMode values.
+pub export fn set_entity_physics_material(id: u32, static_friction: f32, dynamic_friction: f32, restitution: f32, friction_combine: u8, restitution_combine: u8) void {
+    if (findECSEntityById(id)) |index| {
+        physics_components[index].static_friction = static_friction;
+        physics_components[index].dynamic_friction = dynamic_friction;
+        physics_components[index].restitution = restitution;
+        physics_components[index].friction_combine = @enumFromInt(friction_combine & 0b11);
+        physics_components[index].restitution_combine = @enumFromInt(restitution_combine & 0b11);
+    }
+}
+
+// Continuous collision detection on/off (fast projectiles, dropped items)
+pub export fn set_entity_continuous_collision(id: u32, continuous: bool) void {
+    if (findECSEntityById(id)) |index| {
+        physics_components[index].continuous = continuous;
+    }
+}
+
+// Runtime trigger toggle (e.g. a checkpoint that turns solid once reached)
+pub export fn set_entity_trigger(id: u32, is_trigger: bool) void {
+    if (findECSEntityById(id)) |index| {
+        physics_components[index].is_trigger = is_trigger;
+    }
+}
+
 // Runtime body-type transition (e.g. a KINEMATIC elevator whose cable snaps -> DYNAMIC
 // and falls). The stored mass survives transitions; inv_mass is re-derived, with the
 // same mass <= 0 fallback for DYNAMIC.
@@ -1402,15 +3141,21 @@ pub export fn set_entity_body_type(id: u32, bodyType: u8) void {
             else => .STATIC,
         };
         const solver_mass = deriveInvMass(body_type, physics_components[index].mass);
+        wakeBody(&physics_components[index]);
+        wakeTouching(id);
         physics_components[index].body_type = body_type;
+        physics_components[index].previous_position = physics_components[index].position;
+        physics_components[index].kinematic_time_left = 0;
         physics_components[index].mass = solver_mass.mass;
         physics_components[index].inv_mass = solver_mass.inv_mass;
+        physics_components[index].inv_inertia = deriveInvInertia(&physics_components[index]);
     }
 }
 
 // Runtime gravity-scale change (DYNAMIC bodies; a no-op for the solver on others).
 pub export fn set_entity_gravity_scale(id: u32, scale: f32) void {
     if (findECSEntityById(id)) |index| {
+        wakeBody(&physics_components[index]);
         physics_components[index].gravity_scale = scale;
     }
 }
@@ -1419,28 +3164,117 @@ pub export fn remove_entity(id: u32) void {
     // Bucket-aware removal (B2): keeps same-mesh entities contiguous, unlike the
     // old global swap-remove that landed an arbitrary mesh into another mesh's range.
     if (findECSEntityById(id)) |index| {
+        wakeTouching(id); // Whatever rested on it falls
+        removeJointsOf(id); // ...and whatever hung from it
         removeEntityAt(index);
     }
 }
 
-pub export fn get_entity_count() u32 {
-    return entity_count;
+pub export fn get_entity_count() u32 {
+    return entity_count;
+}
+
+pub export fn apply_force_to_entity(id: u32, fx: f32, fy: f32, fz: f32) void {
+    if (findECSEntityById(id)) |index| {
+        // Only DYNAMIC bodies respond to forces; inv_mass multiply (never divides by zero)
+        const inv_mass = physics_components[index].inv_mass;
+        if (physics_components[index].body_type == .DYNAMIC) {
+            wakeBody(&physics_components[index]);
+            physics_components[index].velocity.x += fx * inv_mass;
+            physics_components[index].velocity.y += fy * inv_mass;
+            physics_components[index].velocity.z += fz * inv_mass;
+        }
+    }
+}
+
+// Accumulate a torque (N·m, world axes) for the next step. DYNAMIC bodies only.
+pub export fn apply_torque(id: u32, tx: f32, ty: f32, tz: f32) void {
+    if (findECSEntityById(id)) |index| {
+        const phys = &physics_components[index];
+        if (phys.body_type != .DYNAMIC) return;
+        wakeBody(phys);
+        phys.torque = core.vec3_add(phys.torque, .{ .x = tx, .y = ty, .z = tz });
+    }
+}
+
+// Accumulate a force applied at a world-space point for the next step: the force moves the
+// body and, off-center, also torques it by (point - center) × force. DYNAMIC bodies only.
+pub export fn apply_force_at_point(id: u32, fx: f32, fy: f32, fz: f32, px: f32, py: f32, pz: f32) void {
+    if (findECSEntityById(id)) |index| {
+        const phys = &physics_components[index];
+        if (phys.body_type != .DYNAMIC) return;
+        wakeBody(phys);
+        const force = core.Vec3{ .x = fx, .y = fy, .z = fz };
+        const arm = core.vec3_subtract(.{ .x = px, .y = py, .z = pz }, phys.position);
+        phys.force = core.vec3_add(phys.force, force);
+        phys.torque = core.vec3_add(phys.torque, core.cross(arm, force));
+    }
+}
+
+// Accumulate a force (N) at the center for the next step; with per_mass it is an acceleration
+// (m/s²), scaled by the mass so every body speeds up alike. DYNAMIC bodies only.
+pub export fn accumulate_force(id: u32, x: f32, y: f32, z: f32, per_mass: bool) void {
+    if (findECSEntityById(id)) |index| {
+        const phys = &physics_components[index];
+        if (phys.body_type != .DYNAMIC) return;
+        wakeBody(phys);
+        const force = core.Vec3{ .x = x, .y = y, .z = z };
+        phys.force = core.vec3_add(phys.force, if (per_mass) core.vec3_scale(force, phys.mass) else force);
+    }
+}
+
+// Kick a body at once: its velocity changes by impulse / mass (N·s), however long the step is.
+// For one-shot hits and jumps; apply_force is the mass-independent velocity change. DYNAMIC only.
+pub export fn apply_impulse(id: u32, ix: f32, iy: f32, iz: f32) void {
+    if (findECSEntityById(id)) |index| {
+        const phys = &physics_components[index];
+        if (phys.body_type != .DYNAMIC) return;
+        wakeBody(phys);
+        phys.velocity = core.vec3_add(phys.velocity, core.vec3_scale(.{ .x = ix, .y = iy, .z = iz }, phys.inv_mass));
+    }
+}
+
+// Physics spin (rad/s, world axes). Only DYNAMIC bodies integrate it.
+pub export fn set_entity_angular_velocity(id: u32, x: f32, y: f32, z: f32) void {
+    const index = findECSEntityById(id) orelse return;
+    if (x != 0 or y != 0 or z != 0) wakeBody(&physics_components[index]);
+    physics_components[index].angular_velocity = .{ .x = x, .y = y, .z = z };
+}
+
+pub export fn get_entity_angular_velocity_x(id: u32) f32 {
+    const index = findECSEntityById(id) orelse return 0;
+    return physics_components[index].angular_velocity.x;
+}
+
+pub export fn get_entity_angular_velocity_y(id: u32) f32 {
+    const index = findECSEntityById(id) orelse return 0;
+    return physics_components[index].angular_velocity.y;
+}
+
+pub export fn get_entity_angular_velocity_z(id: u32) f32 {
+    const index = findECSEntityById(id) orelse return 0;
+    return physics_components[index].angular_velocity.z;
+}
+
+// Euler rotation in radians (what the physics step integrated spin into)
+pub export fn get_entity_rotation_x(id: u32) f32 {
+    const index = findECSEntityById(id) orelse return 0;
+    return physics_components[index].rotation.x;
 }
 
-pub export fn apply_force_to_entity(id: u32, fx: f32, fy: f32, fz: f32) void {
-    if (findECSEntityById(id)) |index| {
-        // Only DYNAMIC bodies respond to forces; inv_mass multiply (never divides by zero)
-        const inv_mass = physics_components[index].inv_mass;
-        if (physics_components[index].body_type == .DYNAMIC) {
-            physics_components[index].velocity.x += fx * inv_mass;
-            physics_components[index].velocity.y += fy * inv_mass;
-            physics_components[index].velocity.z += fz * inv_mass;
-        }
-    }
+pub export fn get_entity_rotation_y(id: u32) f32 {
+    const index = findECSEntityById(id) orelse return 0;
+    return physics_components[index].rotation.y;
+}
+
+pub export fn get_entity_rotation_z(id: u32) f32 {
+    const index = findECSEntityById(id) orelse return 0;
+    return physics_components[index].rotation.z;
 }
 
 pub export fn set_entity_position_by_id(id: u32, x: f32, y: f32, z: f32) void {
     if (findECSEntityById(id)) |index| {
+        wakeIfTeleported(index, .{ .x = x, .y = y, .z = z }, physics_components[index].rotation);
         physics_components[index].position = .{ .x = x, .y = y, .z = z };
         entity_metadata[index].transform_dirty = true;
     }
@@ -1448,6 +3282,7 @@ pub export fn set_entity_position_by_id(id: u32, x: f32, y: f32, z: f32) void {
 
 pub export fn set_entity_velocity_by_id(id: u32, vx: f32, vy: f32, vz: f32) void {
     if (findECSEntityById(id)) |index| {
+        if (vx != 0 or vy != 0 or vz != 0) wakeBody(&physics_components[index]);
         physics_components[index].velocity = .{ .x = vx, .y = vy, .z = vz };
     }
 }
@@ -1519,8 +3354,8 @@ pub export fn disable_entity_rotator(id: u32) void {
     }
 }
 
-// Update rotator angular velocity
-pub export fn set_entity_angular_velocity(id: u32, angular_vel_x: f32, angular_vel_y: f32, angular_vel_z: f32) void {
+// Update rotator angular velocity (scripted animation; physics spin is set_entity_angular_velocity)
+pub export fn set_entity_rotator_velocity(id: u32, angular_vel_x: f32, angular_vel_y: f32, angular_vel_z: f32) void {
     if (findECSEntityById(id)) |index| {
         if (rotator_components[index].enabled) {
             rotator_components[index].angular_velocity = .{ .x = angular_vel_x, .y = angular_vel_y, .z = angular_vel_z };
@@ -1568,10 +3403,10 @@ pub export fn spawn_entity_with_collider(
     x: f32,
     y: f32,
     z: f32,
-    collision_shape: u8, // 0=sphere, 1=box, 2=plane
-    extent_x: f32, // radius for sphere, half-width for box, normal.x for plane
-    extent_y: f32, // unused for sphere, half-height for box, normal.y for plane
-    extent_z: f32, // unused for sphere, half-depth for box, normal.z for plane
+    collision_shape: u8, // 0=sphere, 1=box, 2=plane, 3=capsule, 4=cylinder
+    extent_x: f32, // radius for sphere/capsule/cylinder, half-width for box, normal.x for plane
+    extent_y: f32, // unused for sphere, half-height for box/capsule/cylinder, normal.y for plane
+    extent_z: f32, // unused for sphere, half-depth for box, radius for capsule/cylinder, normal.z for plane
     mesh_type_id: u8,
 ) u32 {
     const mesh_id = mesh_type_id;
@@ -1584,6 +3419,8 @@ pub export fn spawn_entity_with_collider(
         0 => core.CollisionShape.SPHERE,
         1 => core.CollisionShape.BOX,
         2 => core.CollisionShape.PLANE,
+        3 => core.CollisionShape.CAPSULE,
+        4 => core.CollisionShape.CYLINDER,
         else => core.CollisionShape.SPHERE, // Default to sphere for invalid types
     };
 
@@ -1605,6 +3442,7 @@ pub export fn spawn_entity_with_collider(
         .collision_shape = shape,
         .extents = extents,
     };
+    physics_components[index].inv_inertia = deriveInvInertia(&physics_components[index]);
 
     // Initialize rendering component with transform matrix
     rendering_components[index] = RenderingComponent{
@@ -1618,6 +3456,9 @@ pub export fn spawn_entity_with_collider(
             .SPHERE => [_]f32{ 1.0, 0.8, 0.2, 1.0 }, // Golden yellow for spheres
             .BOX => [_]f32{ 0.2, 0.8, 1.0, 1.0 }, // Sky blue for boxes
             .PLANE => [_]f32{ 0.3, 0.7, 0.3, 1.0 }, // Green for planes
+            .CAPSULE, .CYLINDER => [_]f32{ 0.9, 0.5, 0.3, 1.0 }, // Terracotta for capsules and cylinders
+            .HULL => [_]f32{ 0.6, 0.4, 0.9, 1.0 }, // Violet for convex hulls
+            .COMPOUND => [_]f32{ 0.9, 0.8, 0.5, 1.0 }, // Sand for compounds
         },
         .anim_time = 0,
         .variant_tex_index = 0,
@@ -1649,18 +3490,117 @@ pub export fn set_entity_collision_shape(id: u32, shape: u8, extent_x: f32, exte
             0 => core.CollisionShape.SPHERE,
             1 => core.CollisionShape.BOX,
             2 => core.CollisionShape.PLANE,
+            3 => core.CollisionShape.CAPSULE,
+            4 => core.CollisionShape.CYLINDER,
             else => core.CollisionShape.SPHERE,
         };
 
         // const old_radius = physics_components[index].radius;
         physics_components[index].collision_shape = collision_shape;
+        physics_components[index].hull = NO_HULL;
+        physics_components[index].compound = NO_COMPOUND;
         physics_components[index].extents = core.Vec3{ .x = extent_x, .y = extent_y, .z = extent_z };
         physics_components[index].radius = extent_x; // Update legacy field
+        physics_components[index].inv_inertia = deriveInvInertia(&physics_components[index]);
+        wakeBody(&physics_components[index]);
+        wakeTouching(id);
 
         // std.debug.print("🔍 SET_COLLISION_SHAPE: radius {d:.3} -> {d:.3} (extent_x)\n", .{old_radius, extent_x});
     }
 }
 
+// Where TS writes a hull's points (x, y, z each, up to MAX_HULL_VERTICES) for create_convex_hull
+pub export fn get_hull_staging_offset() u32 {
+    if (comptime @import("builtin").target.cpu.arch == .wasm32) {
+        return @as(u32, @intCast(@intFromPtr(&hull_staging)));
+    } else {
+        return @truncate(@intFromPtr(&hull_staging));
+    }
+}
+
+// Register the first `point_count` staged points as a hull. Returns its id, or NO_HULL
+// when there are no points, too many, or no room for another hull.
+pub export fn create_convex_hull(point_count: u32) u32 {
+    if (point_count == 0 or point_count > MAX_HULL_VERTICES or hull_count == MAX_HULLS) return NO_HULL;
+    const hull = &hulls[hull_count];
+    for (0..point_count) |i| {
+        hull.points[i] = .{ .x = hull_staging[i * 3], .y = hull_staging[i * 3 + 1], .z = hull_staging[i * 3 + 2] };
+    }
+    hull.count = point_count;
+    hull.extents = core.hullExtents(hull.points[0..point_count]);
+    hull_count += 1;
+    return hull_count - 1;
+}
+
+pub export fn get_hull_count() u32 {
+    return hull_count;
+}
+
+// Give a body a registered hull as its collider (stretched by the body's scale)
+pub export fn set_entity_convex_hull(id: u32, hull_id: u32) void {
+    if (hull_id >= hull_count) return;
+    const index = findECSEntityById(id) orelse return;
+    const phys = &physics_components[index];
+    phys.collision_shape = .HULL;
+    phys.hull = hull_id;
+    phys.extents = hullBodyExtents(hull_id, phys.scale);
+    phys.radius = phys.extents.x; // Legacy field
+    phys.inv_inertia = deriveInvInertia(phys);
+    wakeBody(phys);
+    wakeTouching(id);
+}
+
+// Where TS writes a compound's parts (COMPOUND_PART_FLOATS each, up to MAX_COMPOUND_PARTS)
+// for create_compound
+pub export fn get_compound_staging_offset() u32 {
+    if (comptime @import("builtin").target.cpu.arch == .wasm32) {
+        return @as(u32, @intCast(@intFromPtr(&compound_staging)));
+    } else {
+        return @truncate(@intFromPtr(&compound_staging));
+    }
+}
+
+// Register the first `part_count` staged parts as a compound. Returns its id, or NO_COMPOUND
+// when there are no parts, too many, one that is not a sphere, box, capsule or cylinder, or
+// no room for another compound.
+pub export fn create_compound(part_count: u32) u32 {
+    if (part_count == 0 or part_count > MAX_COMPOUND_PARTS or compound_count == MAX_COMPOUNDS) return NO_COMPOUND;
+    const compound = &compounds[compound_count];
+    for (0..part_count) |i| {
+        const f = compound_staging[i * COMPOUND_PART_FLOATS ..][0..COMPOUND_PART_FLOATS];
+        const shape: core.CollisionShape = if (f[0] == 0) .SPHERE else if (f[0] == 1) .BOX else if (f[0] == 3) .CAPSULE else if (f[0] == 4) .CYLINDER else return NO_COMPOUND;
+        const rotation = core.Vec3{ .x = f[4], .y = f[5], .z = f[6] };
+        const extents = core.Vec3{ .x = f[7], .y = f[8], .z = f[9] };
+        compound.parts[i] = .{
+            .shape = shape,
+            .offset = .{ .x = f[1], .y = f[2], .z = f[3] },
+            .extents = if (shape == .BOX) turnedExtents(rotation, extents) else extents,
+        };
+    }
+    compound.count = part_count;
+    compound_count += 1;
+    return compound_count - 1;
+}
+
+pub export fn get_compound_count() u32 {
+    return compound_count;
+}
+
+// Give a body a registered compound as its collider (stretched by the body's scale)
+pub export fn set_entity_compound(id: u32, compound_id: u32) void {
+    if (compound_id >= compound_count) return;
+    const index = findECSEntityById(id) orelse return;
+    const phys = &physics_components[index];
+    phys.collision_shape = .COMPOUND;
+    phys.compound = compound_id;
+    phys.hull = NO_HULL;
+    phys.extents = compoundBodyExtents(phys);
+    phys.radius = phys.extents.x; // Legacy field
+    phys.inv_inertia = deriveInvInertia(phys);
+    wakeBody(phys);
+    wakeTouching(id);
+}
+
 /// Get collision shape information
 pub export fn get_entity_collision_shape(id: u32) u8 {
     if (findECSEntityById(id)) |index| {
@@ -1696,7 +3636,7 @@ pub export fn debug_get_collision_radius(id: u32) f32 {
         const phys = &physics_components[index];
         return switch (phys.collision_shape) {
             .SPHERE => phys.extents.x, // Sphere radius
-            .BOX => phys.extents.y, // Box Y extent (half-height) for floor collision
+            .BOX, .CAPSULE, .CYLINDER, .HULL, .COMPOUND => phys.extents.y, // Y extent (half-height) for floor collision
             .PLANE => 0.0,
         };
     }
@@ -1760,3 +3700,851 @@ pub export fn get_last_collision_pos2(axis: u32) f32 {
 pub export fn clear_collision_event_counter() void {
     collision_event_counter = 0;
 }
+
+// =============================================================================
+// Scene Queries (raycast / sphere cast / overlaps)
+// =============================================================================
+
+// One cast result as TypeScript reads it from WASM memory (8 x 4 bytes). Hits are
+// written nearest-first to a static buffer (zero-copy, like the transform array);
+// a query reports at most MAX_QUERY_HITS, keeping the nearest ones.
+pub const QueryHit = extern struct {
+    id: u32,
+    distance: f32,
+    point: [3]f32,
+    normal: [3]f32,
+};
+
+const MAX_QUERY_HITS: u32 = 256;
+var query_hits: [MAX_QUERY_HITS]QueryHit = undefined;
+var query_hit_count: u32 = 0;
+
+// Insert keeping the buffer sorted by distance; when full, farther hits are dropped.
+fn recordQueryHit(id: u32, hit: core.RayHit) void {
+    var slot = query_hit_count;
+    if (slot == MAX_QUERY_HITS) {
+        if (hit.distance >= query_hits[MAX_QUERY_HITS - 1].distance) return;
+        slot = MAX_QUERY_HITS - 1;
+    } else {
+        query_hit_count += 1;
+    }
+    while (slot > 0 and query_hits[slot - 1].distance > hit.distance) : (slot -= 1) {
+        query_hits[slot] = query_hits[slot - 1];
+    }
+    query_hits[slot] = QueryHit{
+        .id = id,
+        .distance = hit.distance,
+        .point = .{ hit.point.x, hit.point.y, hit.point.z },
+        .normal = .{ hit.normal.x, hit.normal.y, hit.normal.z },
+    };
+}
+
+// Cast against every active solid physics collider on a layer in layer_mask (decorative
+// physics_enabled=false entities and triggers are not hit). radius == 0 is a ray.
+fn castQuery(origin: core.Vec3, dir: core.Vec3, radius: f32, max_distance: f32, layer_mask: u32) u32 {
+    query_hit_count = 0;
+    if (!(max_distance >= 0) or core.magnitude(dir) == 0) return 0;
+    const direction = core.normalize(dir);
+
+    for (physics_components[0..entity_count], 0..) |*phys, i| {
+        if (!entity_metadata[i].active or !entity_metadata[i].physics_enabled or phys.is_trigger) continue;
+        if ((phys.collision_layer & layer_mask) == 0) continue;
+
+        if (castCollider(phys, origin, direction, radius, max_distance)) |hit| recordQueryHit(entity_metadata[i].id, hit);
+    }
+    return query_hit_count;
+}
+
+// A ray (radius 0) or sphere cast against one collider; a compound is hit at its nearest part
+fn castCollider(phys: *const PhysicsComponent, origin: core.Vec3, direction: core.Vec3, radius: f32, max_distance: f32) ?core.RayHit {
+    if (phys.collision_shape == .COMPOUND) {
+        var nearest: ?core.RayHit = null;
+        for (compoundParts(phys)) |part| {
+            const reach = if (nearest) |hit| hit.distance else max_distance;
+            if (castCollider(&partBody(phys, part), origin, direction, radius, reach)) |hit| nearest = hit;
+        }
+        return nearest;
+    }
+    if (isTurnedBox(phys)) return castTurnedBox(phys, origin, direction, radius, max_distance);
+    return if (radius > 0)
+        core.sphereCastShape(origin, direction, max_distance, radius, phys.position, phys.collision_shape, phys.extents)
+    else
+        core.raycastShape(origin, direction, max_distance, phys.position, phys.collision_shape, phys.extents);
+}
+
+// A volume (a sphere or a box, turned by its rotation) as a STATIC body, for the collider
+// overlap tests
+fn volumeBody(shape: core.CollisionShape, position: core.Vec3, rotation: core.Vec3, extents: core.Vec3) PhysicsComponent {
+    return .{
+        .position = position,
+        .velocity = .{ .x = 0, .y = 0, .z = 0 },
+        .force = .{ .x = 0, .y = 0, .z = 0 },
+        .rotation = rotation,
+        .scale = .{ .x = 1, .y = 1, .z = 1 },
+        .mass = 0,
+        .inv_mass = 0,
+        .gravity_scale = 0,
+        .radius = extents.x,
+        .body_type = .STATIC,
+        .collision_shape = shape,
+        .extents = extents,
+    };
+}
+
+// Every active solid physics collider on a layer in layer_mask that touches the volume goes to
+// the hit buffer, nearest first: `point` is the collider's point nearest the volume's center
+// (the center itself when inside the collider), `distance` how far that is from the center
+// and `normal` the way out from the volume's center to the body's (+Y when they coincide).
+// Triggers are not reported, as with casts.
+fn overlapQuery(volume: *const PhysicsComponent, layer_mask: u32) u32 {
+    query_hit_count = 0;
+    const bounds = colliderAabb(volume);
+    for (physics_components[0..entity_count], 0..) |*phys, i| {
+        if (!entity_metadata[i].active or !entity_metadata[i].physics_enabled or phys.is_trigger) continue;
+        if ((phys.collision_layer & layer_mask) == 0) continue;
+        if (!aabbsOverlap(&bounds, &colliderAabb(phys)) or !overlaps(volume, phys)) continue;
+
+        const point = closestColliderPoint(phys, volume.position);
+        const offset = core.vec3_subtract(phys.position, volume.position);
+        const length = core.magnitude(offset);
+        const normal = if (length > 0) core.vec3_scale(offset, 1.0 / length) else core.Vec3{ .x = 0, .y = 1, .z = 0 };
+        recordQueryHit(entity_metadata[i].id, .{ .distance = core.magnitude(core.vec3_subtract(point, volume.position)), .point = point, .normal = normal });
+    }
+    return query_hit_count;
+}
+
+/// Cast a ray; returns the hit count (hits readable at get_query_hits_offset)
+pub export fn raycast(ox: f32, oy: f32, oz: f32, dx: f32, dy: f32, dz: f32, max_distance: f32, layer_mask: u32) u32 {
+    return castQuery(.{ .x = ox, .y = oy, .z = oz }, .{ .x = dx, .y = dy, .z = dz }, 0, max_distance, layer_mask);
+}
+
+/// Sweep a sphere; returns the hit count (hits readable at get_query_hits_offset)
+pub export fn sphere_cast(ox: f32, oy: f32, oz: f32, radius: f32, dx: f32, dy: f32, dz: f32, max_distance: f32, layer_mask: u32) u32 {
+    return castQuery(.{ .x = ox, .y = oy, .z = oz }, .{ .x = dx, .y = dy, .z = dz }, @max(radius, 0), max_distance, layer_mask);
+}
+
+/// Every collider touching a sphere; returns the hit count (hits readable at get_query_hits_offset)
+pub export fn overlap_sphere(cx: f32, cy: f32, cz: f32, radius: f32, layer_mask: u32) u32 {
+    query_hit_count = 0;
+    if (!(radius > 0)) return 0;
+    const volume = volumeBody(.SPHERE, .{ .x = cx, .y = cy, .z = cz }, .{ .x = 0, .y = 0, .z = 0 }, .{ .x = radius, .y = radius, .z = radius });
+    return overlapQuery(&volume, layer_mask);
+}
+
+/// Every collider touching a box of half-size (ex, ey, ez) turned by (rx, ry, rz) radians;
+/// returns the hit count (hits readable at get_query_hits_offset)
+pub export fn overlap_box(cx: f32, cy: f32, cz: f32, ex: f32, ey: f32, ez: f32, rx: f32, ry: f32, rz: f32, layer_mask: u32) u32 {
+    query_hit_count = 0;
+    if (!(ex > 0 and ey > 0 and ez > 0)) return 0;
+    const volume = volumeBody(.BOX, .{ .x = cx, .y = cy, .z = cz }, .{ .x = rx, .y = ry, .z = rz }, .{ .x = ex, .y = ey, .z = ez });
+    return overlapQuery(&volume, layer_mask);
+}
+
+pub export fn get_query_hits_offset() u32 {
+    return @intCast(@intFromPtr(&query_hits[0]));
+}
+
+// =============================================================================
+// Contact Stream Exports
+// =============================================================================
+
+/// Number of contact pairs recorded by the last update()
+pub export fn get_contact_count() u32 {
+    return contact_count;
+}
+
+/// Byte offset of the ContactRecord array (read get_contact_count() records)
+pub export fn get_contacts_offset() u32 {
+    return @intCast(@intFromPtr(&contacts[0]));
+}
+
+/// Toggle the sweep-and-prune broadphase (on by default; off = test every pair)
+pub export fn set_broadphase_enabled(enabled: bool) void {
+    broadphase_enabled = enabled;
+}
+
+pub export fn get_broadphase_enabled() bool {
+    return broadphase_enabled;
+}
+
+/// Pairs that reached the narrowphase in the last update() (summed over solver iterations)
+pub export fn get_pairs_tested() u32 {
+    return pairs_tested;
+}
+
+/// Pairs the narrowphase found touching in the last update() (summed over solver iterations)
+pub export fn get_pairs_overlapping() u32 {
+    return pairs_overlapping;
+}
+
+/// Number of trigger overlap pairs recorded by the last update()
+pub export fn get_trigger_pair_count() u32 {
+    return trigger_pair_count;
+}
+
+/// Byte offset of the trigger pair array ([entity_a, entity_b] u32 pairs)
+pub export fn get_trigger_pairs_offset() u32 {
+    return @intCast(@intFromPtr(&trigger_pairs[0]));
+}
+
+/// Number of DYNAMIC bodies asleep after the last update()
+pub export fn get_sleeping_body_count() u32 {
+    return sleeping_body_count;
+}
+
+// =============================================================================
+// Joint Exports
+// =============================================================================
+
+/// Tie entity body_a to body_b (JOINT_WORLD: to the world) with a joint of `kind`
+/// (JointType). Anchors and the hinge axis are given in world space as the bodies stand
+/// now and are stored in each body's frame; lengths, the hinge angle's zero and the weld
+/// orientation are taken from this placement too. Returns false if the id is taken, an
+/// entity is missing, both ends are the same body or the table is full.
+pub export fn add_joint(joint_id: u32, kind: u8, body_a: u32, body_b: u32, ax: f32, ay: f32, az: f32, bx: f32, by: f32, bz: f32, axis_x: f32, axis_y: f32, axis_z: f32, collide_connected: bool) bool {
+    if (joint_count == MAX_JOINTS or kind > @intFromEnum(JointType.SPRING)) return false;
+    if (body_a == body_b or findJoint(joint_id) != null) return false;
+    const a = jointBody(body_a) orelse return false;
+    const b = jointBody(body_b) orelse return false;
+
+    const anchor_a = core.Vec3{ .x = ax, .y = ay, .z = az };
+    const anchor_b = core.Vec3{ .x = bx, .y = by, .z = bz };
+    const length = core.distance(anchor_a, anchor_b);
+
+    const given_axis = core.Vec3{ .x = axis_x, .y = axis_y, .z = axis_z };
+    const axis = if (core.magnitude(given_axis) > 0) core.normalize(given_axis) else core.Vec3{ .x = 0, .y = 1, .z = 0 };
+    const reference = perpendicular(axis);
+    const frame = [3]core.Vec3{ axis, reference, core.cross(axis, reference) };
+
+    const joint_type: JointType = @enumFromInt(kind);
+    const inf = std.math.inf(f32);
+    joints[joint_count] = Joint{
+        .id = joint_id,
+        .kind = joint_type,
+        .body_a = body_a,
+        .body_b = body_b,
+        .anchor_a = core.inverseRotateVector(a.rotation, core.vec3_subtract(anchor_a, a.position)),
+        .anchor_b = core.inverseRotateVector(b.rotation, core.vec3_subtract(anchor_b, b.position)),
+        .frame_a = bodyFrame(a, frame),
+        .frame_b = bodyFrame(b, frame),
+        .lower = switch (joint_type) {
+            .DISTANCE => length,
+            .ROPE => 0,
+            else => -inf,
+        },
+        .upper = switch (joint_type) {
+            .DISTANCE, .ROPE => length,
+            else => inf,
+        },
+        .rest_length = length,
+        .collide_connected = collide_connected,
+    };
+    joint_count += 1;
+    wakeJointBodies(&joints[joint_count - 1]);
+    rebuildJointPairs();
+    return true;
+}
+
+pub export fn remove_joint(joint_id: u32) void {
+    for (joints[0..joint_count], 0..) |joint, slot| {
+        if (joint.id == joint_id) return removeJointAt(@intCast(slot));
+    }
+}
+
+/// Length range of a DISTANCE/ROPE joint (m) or angle range of a HINGE (radians);
+/// -inf/inf leave that side unlimited
+pub export fn set_joint_limits(joint_id: u32, lower: f32, upper: f32) void {
+    const joint = findJoint(joint_id) orelse return;
+    joint.lower = lower;
+    joint.upper = upper;
+    wakeJointBodies(joint);
+}
+
+/// HINGE motor: drive A relative to B at `speed` (rad/s about the axis) with at most
+/// `max_torque` (N·m; 0 turns the motor off)
+pub export fn set_joint_motor(joint_id: u32, speed: f32, max_torque: f32) void {
+    const joint = findJoint(joint_id) orelse return;
+    joint.motor_speed = speed;
+    joint.motor_max_torque = @max(max_torque, 0);
+    wakeJointBodies(joint);
+}
+
+/// SPRING stiffness (N/m) and damping (N·s/m); a negative rest length keeps the current one
+pub export fn set_joint_spring(joint_id: u32, stiffness: f32, damping: f32, rest_length: f32) void {
+    const joint = findJoint(joint_id) orelse return;
+    joint.stiffness = stiffness;
+    joint.damping = damping;
+    if (rest_length >= 0) joint.rest_length = rest_length;
+    wakeJointBodies(joint);
+}
+
+/// Current HINGE angle (radians, A relative to B about the axis; 0 at creation)
+pub export fn get_joint_angle(joint_id: u32) f32 {
+    const joint = findJoint(joint_id) orelse return 0;
+    if (joint.kind != .HINGE) return 0;
+    const a = jointBody(joint.body_a) orelse return 0;
+    const b = jointBody(joint.body_b) orelse return 0;
+    return hingeAngle(worldFrame(a, joint.frame_a), worldFrame(b, joint.frame_b));
+}
+
+pub export fn get_joint_count() u32 {
+    return joint_count;
+}
+
+// =============================================================================
+// Force Field Exports
+// =============================================================================
+
+/// Add a force field of `kind` (ForceFieldType) shaped as a SPHERE or BOX (CollisionShape).
+/// It pushes nothing until it is placed and given a strength (a BUOYANCY field: placed).
+/// Returns false if the id is taken, the kind or shape is invalid or the table is full.
+pub export fn add_force_field(field_id: u32, kind: u8, shape: u8) bool {
+    if (force_field_count == MAX_FORCE_FIELDS or kind > @intFromEnum(ForceFieldType.BUOYANCY)) return false;
+    if (shape != @intFromEnum(core.CollisionShape.SPHERE) and shape != @intFromEnum(core.CollisionShape.BOX)) return false;
+    if (findForceField(field_id) != null) return false;
+    force_fields[force_field_count] = .{ .id = field_id, .kind = @enumFromInt(kind), .shape = @enumFromInt(shape) };
+    force_field_count += 1;
+    wakeFieldBodies(&force_fields[force_field_count - 1]);
+    return true;
+}
+
+pub export fn remove_force_field(field_id: u32) void {
+    for (force_fields[0..force_field_count], 0..) |*field, slot| {
+        if (field.id != field_id) continue;
+        wakeFieldBodies(field); // What it held up falls
+        force_field_count -= 1;
+        force_fields[slot] = force_fields[force_field_count];
+        return;
+    }
+}
+
+// Wake what a field reached and what it reaches after a change (nothing if it is unchanged)
+fn forceFieldChanged(field: *const ForceField, before: ForceField) void {
+    if (std.meta.eql(before, field.*)) return;
+    wakeFieldBodies(&before);
+    wakeFieldBodies(field);
+}
+
+/// Place a field: center, rotation (Euler radians) and half-extents (a sphere's radius in x)
+pub export fn set_force_field_transform(field_id: u32, x: f32, y: f32, z: f32, rx: f32, ry: f32, rz: f32, ex: f32, ey: f32, ez: f32) void {
+    const field = findForceField(field_id) orelse return;
+    const before = field.*;
+    field.position = .{ .x = x, .y = y, .z = z };
+    field.rotation = .{ .x = rx, .y = ry, .z = rz };
+    field.extents = .{ .x = @abs(ex), .y = @abs(ey), .z = @abs(ez) };
+    forceFieldChanged(field, before);
+}
+
+/// Push of a DIRECTIONAL, RADIAL or VORTEX field: strength (N, or m/s² with per_mass), the
+/// direction in the field's frame (the wind's direction, the vortex axis) and a ForceFieldFalloff
+pub export fn set_force_field_strength(field_id: u32, strength: f32, dx: f32, dy: f32, dz: f32, per_mass: bool, falloff: u8) void {
+    const field = findForceField(field_id) orelse return;
+    const before = field.*;
+    field.strength = strength;
+    field.direction = .{ .x = dx, .y = dy, .z = dz };
+    field.per_mass = per_mass;
+    if (falloff <= @intFromEnum(ForceFieldFalloff.INVERSE_SQUARE)) field.falloff = @enumFromInt(falloff);
+    forceFieldChanged(field, before);
+}
+
+/// BUOYANCY fluid: density (kg/m³) and drag (share of velocity and spin lost per second when
+/// fully under)
+pub export fn set_force_field_buoyancy(field_id: u32, density: f32, drag: f32) void {
+    const field = findForceField(field_id) orelse return;
+    const before = field.*;
+    field.density = @max(density, 0);
+    field.drag = @max(drag, 0);
+    forceFieldChanged(field, before);
+}
+
+/// Collision layers whose bodies the field pushes
+pub export fn set_force_field_layer_mask(field_id: u32, mask: u32) void {
+    const field = findForceField(field_id) orelse return;
+    const before = field.*;
+    field.layer_mask = mask;
+    forceFieldChanged(field, before);
+}
+
+pub export fn get_force_field_count() u32 {
+    return force_field_count;
+}
+
+// =============================================================================
+// Physics debug draw
+// =============================================================================
+// build_debug_lines writes what the physics step sees as a line list that TS draws over
+// the scene: every collider as a wireframe colored by its body type (triggers and, on
+// request, sleeping bodies in their own color), the last step's contact points with their
+// normals, and velocity vectors. Colliders are drawn where physics has them, so one that
+// does not match its mesh (extents left at a box's default while the mesh is scaled) shows.
+// Lines beyond MAX_DEBUG_VERTICES are dropped.
+
+pub const DEBUG_DRAW_COLLIDERS: u32 = 1;
+pub const DEBUG_DRAW_CONTACTS: u32 = 2;
+pub const DEBUG_DRAW_VELOCITIES: u32 = 4;
+pub const DEBUG_DRAW_SLEEPING: u32 = 8; // Sleeping bodies' colliders in DEBUG_COLOR_SLEEPING
+
+// One end of a debug line as TypeScript reads it (7 x 4 bytes)
+pub const DebugVertex = extern struct {
+    position: [3]f32,
+    color: [4]f32,
+};
+
+pub const MAX_DEBUG_VERTICES: u32 = 65536;
+const DEBUG_CIRCLE_SEGMENTS: u32 = 16;
+const DEBUG_PLANE_HALF_SIZE: f32 = 5; // Planes are unbounded: drawn as a square this far out
+const DEBUG_NORMAL_LENGTH: f32 = 0.5;
+const DEBUG_CONTACT_SIZE: f32 = 0.05; // Half-size of a contact point's cross
+const DEBUG_VELOCITY_TIME: f32 = 0.25; // A velocity vector reaches where the body is this many seconds on
+
+pub const DEBUG_COLOR_DYNAMIC = [4]f32{ 0.2, 1.0, 0.3, 1.0 };
+pub const DEBUG_COLOR_KINEMATIC = [4]f32{ 0.2, 0.8, 1.0, 1.0 };
+pub const DEBUG_COLOR_STATIC = [4]f32{ 0.6, 0.6, 0.6, 1.0 };
+pub const DEBUG_COLOR_TRIGGER = [4]f32{ 1.0, 0.6, 0.1, 1.0 };
+pub const DEBUG_COLOR_SLEEPING = [4]f32{ 0.1, 0.4, 0.15, 1.0 };
+pub const DEBUG_COLOR_CONTACT = [4]f32{ 1.0, 0.2, 0.2, 1.0 };
+pub const DEBUG_COLOR_NORMAL = [4]f32{ 1.0, 1.0, 1.0, 1.0 };
+pub const DEBUG_COLOR_VELOCITY = [4]f32{ 1.0, 0.3, 0.9, 1.0 };
+
+var debug_vertices: [MAX_DEBUG_VERTICES]DebugVertex = undefined;
+var debug_vertex_count: u32 = 0;
+
+fn debugLine(a: core.Vec3, b: core.Vec3, color: [4]f32) void {
+    if (debug_vertex_count + 2 > MAX_DEBUG_VERTICES) return;
+    debug_vertices[debug_vertex_count] = .{ .position = .{ a.x, a.y, a.z }, .color = color };
+    debug_vertices[debug_vertex_count + 1] = .{ .position = .{ b.x, b.y, b.z }, .color = color };
+    debug_vertex_count += 2;
+}
+
+// Arc of `radius` about `center` from `u` turning towards `v` (unit vectors) by `sweep` radians
+fn debugArc(center: core.Vec3, u: core.Vec3, v: core.Vec3, radius: f32, sweep: f32, segments: u32, color: [4]f32) void {
+    var previous = core.vec3_add(center, core.vec3_scale(u, radius));
+    for (1..segments + 1) |i| {
+        const angle = sweep * @as(f32, @floatFromInt(i)) / @as(f32, @floatFromInt(segments));
+        const point = core.vec3_add(center, core.vec3_add(core.vec3_scale(u, radius * @cos(angle)), core.vec3_scale(v, radius * @sin(angle))));
+        debugLine(previous, point, color);
+        previous = point;
+    }
+}
+
+fn debugCircle(center: core.Vec3, u: core.Vec3, v: core.Vec3, radius: f32, color: [4]f32) void {
+    debugArc(center, u, v, radius, 2 * std.math.pi, DEBUG_CIRCLE_SEGMENTS, color);
+}
+
+// The 12 edges of a box of half-size `extents` about `center`, turned by `rotation`
+fn debugBox(center: core.Vec3, rotation: core.Vec3, extents: core.Vec3, color: [4]f32) void {
+    const axes = core.boxAxes(rotation);
+    const half = [3]core.Vec3{ core.vec3_scale(axes[0], extents.x), core.vec3_scale(axes[1], extents.y), core.vec3_scale(axes[2], extents.z) };
+    var corners: [8]core.Vec3 = undefined;
+    for (&corners, 0..) |*corner, i| {
+        corner.* = center;
+        for (half, 0..) |axis, bit| {
+            const sign: f32 = if (i & (@as(usize, 1) << @intCast(bit)) != 0) 1 else -1;
+            corner.* = core.vec3_add(corner.*, core.vec3_scale(axis, sign));
+        }
+    }
+    for (0..8) |i| {
+        for ([_]usize{ 1, 2, 4 }) |bit| {
+            if (i & bit == 0) debugLine(corners[i], corners[i | bit], color);
+        }
+    }
+}
+
+// An upright capsule (caps as half circles) or cylinder: its end rings and four side lines
+fn debugUpright(phys: *const PhysicsComponent, color: [4]f32) void {
+    const x = core.Vec3{ .x = 1, .y = 0, .z = 0 };
+    const y = core.Vec3{ .x = 0, .y = 1, .z = 0 };
+    const z = core.Vec3{ .x = 0, .y = 0, .z = 1 };
+    const radius = phys.extents.x;
+    const half = if (phys.collision_shape == .CAPSULE) @max(phys.extents.y - radius, 0) else phys.extents.y;
+    const top = core.vec3_add(phys.position, core.vec3_scale(y, half));
+    const bottom = core.vec3_subtract(phys.position, core.vec3_scale(y, half));
+    debugCircle(top, x, z, radius, color);
+    debugCircle(bottom, x, z, radius, color);
+    for ([_]core.Vec3{ x, z, core.vec3_negate(x), core.vec3_negate(z) }) |side| {
+        const offset = core.vec3_scale(side, radius);
+        debugLine(core.vec3_add(bottom, offset), core.vec3_add(top, offset), color);
+    }
+    if (phys.collision_shape != .CAPSULE) return;
+    const segments = DEBUG_CIRCLE_SEGMENTS / 2;
+    for ([_]core.Vec3{ x, z }) |across| {
+        debugArc(top, across, y, radius, std.math.pi, segments, color);
+        debugArc(bottom, across, core.vec3_negate(y), radius, std.math.pi, segments, color);
+    }
+}
+
+fn debugCollider(phys: *const PhysicsComponent, color: [4]f32) void {
+    switch (phys.collision_shape) {
+        .SPHERE => {
+            const axes = core.boxAxes(phys.rotation); // Turned, so spin shows
+            debugCircle(phys.position, axes[0], axes[1], phys.extents.x, color);
+            debugCircle(phys.position, axes[1], axes[2], phys.extents.x, color);
+            debugCircle(phys.position, axes[2], axes[0], phys.extents.x, color);
+        },
+        .BOX => debugBox(phys.position, phys.rotation, phys.extents, color),
+        .HULL => debugBox(phys.position, phys.rotation, phys.extents, color), // The box holding it
+        .PLANE => {
+            const normal = core.normalize(phys.extents);
+            const u = core.vec3_scale(perpendicular(normal), DEBUG_PLANE_HALF_SIZE);
+            const v = core.vec3_scale(core.cross(normal, core.normalize(u)), DEBUG_PLANE_HALF_SIZE);
+            const corners = [4]core.Vec3{
+                core.vec3_add(phys.position, core.vec3_add(u, v)),
+                core.vec3_add(phys.position, core.vec3_subtract(u, v)),
+                core.vec3_subtract(phys.position, core.vec3_add(u, v)),
+                core.vec3_subtract(phys.position, core.vec3_subtract(u, v)),
+            };
+            for (corners, 0..) |corner, i| debugLine(corner, corners[(i + 1) % 4], color);
+            debugLine(phys.position, core.vec3_add(phys.position, core.vec3_scale(normal, DEBUG_NORMAL_LENGTH)), color);
+        },
+        .CAPSULE, .CYLINDER => debugUpright(phys, color),
+        .COMPOUND => for (compoundParts(phys)) |part| {
+            const body = partBody(phys, part);
+            debugCollider(&body, color);
+        },
+    }
+}
+
+fn debugColor(phys: *const PhysicsComponent, flags: u32) [4]f32 {
+    if (phys.is_trigger) return DEBUG_COLOR_TRIGGER;
+    return switch (phys.body_type) {
+        .DYNAMIC => if (phys.sleeping and flags & DEBUG_DRAW_SLEEPING != 0) DEBUG_COLOR_SLEEPING else DEBUG_COLOR_DYNAMIC,
+        .KINEMATIC => DEBUG_COLOR_KINEMATIC,
+        .STATIC => DEBUG_COLOR_STATIC,
+    };
+}
+
+/// Write the debug lines `flags` (DEBUG_DRAW_*) ask for: the colliders of every active
+/// physics entity, the last update()'s contacts and velocity vectors. Returns the number of
+/// vertices (two per line) at get_debug_lines_offset().
+pub export fn build_debug_lines(flags: u32) u32 {
+    debug_vertex_count = 0;
+    for (0..entity_count) |i| {
+        if (!isCollider(i)) continue;
+        const phys = &physics_components[i];
+        if (flags & DEBUG_DRAW_COLLIDERS != 0) debugCollider(phys, debugColor(phys, flags));
+        if (flags & DEBUG_DRAW_VELOCITIES != 0 and core.magnitude(phys.velocity) > 0) {
+            debugLine(phys.position, core.vec3_add(phys.position, core.vec3_scale(phys.velocity, DEBUG_VELOCITY_TIME)), DEBUG_COLOR_VELOCITY);
+        }
+    }
+    if (flags & DEBUG_DRAW_CONTACTS != 0) {
+        for (contacts[0..contact_count]) |record| {
+            const point = core.Vec3{ .x = record.point[0], .y = record.point[1], .z = record.point[2] };
+            const normal = core.Vec3{ .x = record.normal[0], .y = record.normal[1], .z = record.normal[2] };
+            for ([_]core.Vec3{ .{ .x = DEBUG_CONTACT_SIZE, .y = 0, .z = 0 }, .{ .x = 0, .y = DEBUG_CONTACT_SIZE, .z = 0 }, .{ .x = 0, .y = 0, .z = DEBUG_CONTACT_SIZE } }) |arm| {
+                debugLine(core.vec3_subtract(point, arm), core.vec3_add(point, arm), DEBUG_COLOR_CONTACT);
+            }
+            debugLine(point, core.vec3_add(point, core.vec3_scale(normal, DEBUG_NORMAL_LENGTH)), DEBUG_COLOR_NORMAL);
+        }
+    }
+    return debug_vertex_count;
+}
+
+/// Byte offset of the DebugVertex array written by build_debug_lines
+pub export fn get_debug_lines_offset() u32 {
+    return @intCast(@intFromPtr(&debug_vertices[0]));
+}
+
+// =============================================================================
+// World snapshots
+// =============================================================================
+// A snapshot is the world as raw sections of WASM memory: a header of counts and record
+// sizes, then the used part of each table. TS copies the sections out after snapshot_begin
+// (get_snapshot_section_offset/size). To restore, it writes the header back, asks
+// restore_begin whether this build can take it, writes the other sections (now sized by
+// the header) and calls restore_end, which makes the header's counts live and rebuilds
+// what is derived from the tables. Physics settings and staging buffers are not world state.
+
+pub const SNAPSHOT_SECTIONS: u32 = 10; // Header, 4 component tables, joints, hulls, compounds, contacts, trigger pairs
+
+// Record sizes: a snapshot restores only into the layout it was taken with
+const SnapshotLayout = extern struct {
+    physics: u32 = @sizeOf(PhysicsComponent),
+    rendering: u32 = @sizeOf(RenderingComponent),
+    metadata: u32 = @sizeOf(EntityMetadata),
+    rotator: u32 = @sizeOf(RotatorComponent),
+    joint: u32 = @sizeOf(Joint),
+    hull: u32 = @sizeOf(Hull),
+    compound: u32 = @sizeOf(Compound),
+    contact: u32 = @sizeOf(ContactRecord),
+};
+
+const SnapshotHeader = extern struct {
+    layout: SnapshotLayout,
+    entity_count: u32,
+    next_spawn_id: u32,
+    joint_count: u32,
+    hull_count: u32,
+    compound_count: u32,
+    contact_count: u32,
+    trigger_pair_count: u32,
+    mesh_bucket_counts: [MAX_MESH_BUCKETS]u32,
+};
+
+var snapshot_header: SnapshotHeader = undefined;
+
+// Section bytes, sized by snapshot_header's counts (the exports below hand TS their place)
+pub fn snapshotSection(section: u32) []u8 {
+    const h = &snapshot_header;
+    return switch (section) {
+        0 => std.mem.asBytes(h),
+        1 => std.mem.sliceAsBytes(physics_components[0..h.entity_count]),
+        2 => std.mem.sliceAsBytes(rendering_components[0..h.entity_count]),
+        3 => std.mem.sliceAsBytes(entity_metadata[0..h.entity_count]),
+        4 => std.mem.sliceAsBytes(rotator_components[0..h.entity_count]),
+        5 => std.mem.sliceAsBytes(joints[0..h.joint_count]),
+        6 => std.mem.sliceAsBytes(hulls[0..h.hull_count]),
+        7 => std.mem.sliceAsBytes(compounds[0..h.compound_count]),
+        8 => std.mem.sliceAsBytes(contacts[0..h.contact_count]),
+        9 => std.mem.sliceAsBytes(trigger_pairs[0..h.trigger_pair_count]),
+        else => &.{},
+    };
+}
+
+/// Describe the current world in the snapshot header; returns the section count
+pub export fn snapshot_begin() u32 {
+    snapshot_header = .{
+        .layout = .{},
+        .entity_count = entity_count,
+        .next_spawn_id = next_spawn_id,
+        .joint_count = joint_count,
+        .hull_count = hull_count,
+        .compound_count = compound_count,
+        .contact_count = contact_count,
+        .trigger_pair_count = trigger_pair_count,
+        .mesh_bucket_counts = mesh_bucket_counts,
+    };
+    return SNAPSHOT_SECTIONS;
+}
+
+pub export fn get_snapshot_section_offset(section: u32) u32 {
+    return @intCast(@intFromPtr(snapshotSection(section).ptr));
+}
+
+pub export fn get_snapshot_section_size(section: u32) u32 {
+    return @intCast(snapshotSection(section).len);
+}
+
+/// Check the header TS wrote back: true if this build can restore it (nothing changes yet)
+pub export fn restore_begin() bool {
+    const h = &snapshot_header;
+    if (!std.meta.eql(h.layout, SnapshotLayout{})) return false;
+    if (h.entity_count > MAX_ENTITIES or h.joint_count > MAX_JOINTS or h.hull_count > MAX_HULLS or
+        h.compound_count > MAX_COMPOUNDS or h.contact_count > MAX_CONTACTS or h.trigger_pair_count > MAX_TRIGGER_PAIRS) return false;
+
+    var bucketed: u32 = 0;
+    for (h.mesh_bucket_counts) |count| bucketed +|= count;
+    return bucketed == h.entity_count;
+}
+
+/// Make the restored tables live: take the header's counts and rebuild the id lookup,
+/// the jointed pairs and the sleeping count
+pub export fn restore_end() void {
+    const h = &snapshot_header;
+    entity_count = h.entity_count;
+    next_spawn_id = h.next_spawn_id;
+    joint_count = h.joint_count;
+    hull_count = h.hull_count;
+    compound_count = h.compound_count;
+    contact_count = h.contact_count;
+    trigger_pair_count = h.trigger_pair_count;
+    mesh_bucket_counts = h.mesh_bucket_counts;
+
+    @memset(&id_to_index, INVALID_INDEX);
+    for (entity_metadata[0..entity_count], 0..) |meta, i| rememberEntityIndex(meta.id, @intCast(i));
+    for (entity_metadata[entity_count..]) |*meta| meta.active = false;
+    rebuildJointPairs();
+
+    sleeping_body_count = 0;
+    for (0..entity_count) |i| {
+        if (isSimulatedDynamic(i) and physics_components[i].sleeping) sleeping_body_count += 1;
+    }
+    character_ground = NO_GROUND;
+}
+
+// =============================================================================
+// Character controller
+// =============================================================================
+// A character is a KINEMATIC body (usually an upright capsule) that scripts move with
+// move_character instead of velocities: the motion is taken in sub-moves no longer than
+// half the character's radius, and after each one the character is pushed back out of
+// what it ran into, so it slides along walls and floors rather than stopping dead. Ground
+// no steeper than the slope limit is stood on (pushed straight up, so a character on a
+// slope does not creep down it); steeper ground and walls only push sideways, so they
+// cannot be climbed and are slid off. Steps are climbed two ways: an edge caught under
+// the character's rounded bottom no higher than the step offset, with walkable ground
+// beyond it, is stood on like ground; and a move blocked by a wall while grounded is tried
+// again lifted by the step offset and set back down. DYNAMIC bodies are only stood on:
+// walked into, they are shoved aside by the solver like by any moving kinematic body.
+
+pub const CHARACTER_GROUNDED: u32 = 1; // Standing on walkable ground
+pub const CHARACTER_SIDES: u32 = 2; // Blocked by a wall or a slope too steep to walk
+pub const CHARACTER_ABOVE: u32 = 4; // Hit its head
+pub const NO_GROUND: u32 = 0xFFFF_FFFF;
+
+// Push-out passes per sub-move (pushing out of one collider can push into another)
+const CHARACTER_PASSES: u32 = 4;
+const MAX_CHARACTER_SUBSTEPS: u32 = 32;
+// How far beyond an edge the ground is sampled to tell a step from a steep slope (m)
+const EDGE_PROBE: f32 = 0.05;
+
+const CharacterMove = struct {
+    flags: u32 = 0,
+    ground: u32 = NO_GROUND,
+};
+
+const CharacterLimits = struct {
+    walkable: f32, // Cosine of the slope limit: the least normal.y of walkable ground
+    slope: f32, // Tangent of the slope limit
+    step_top: f32, // Highest a step's edge may be: the step offset above where the move began
+};
+
+var character_ground: u32 = NO_GROUND;
+
+fn characterBlocks(index: usize, j: usize) bool {
+    if (j == index or !isCollider(j)) return false;
+    const other = &physics_components[j];
+    return !other.is_trigger and layersInteract(&physics_components[index], other);
+}
+
+// Is a contact the edge of a step the character can stand on: low on its rounded bottom,
+// no higher than the step offset above its feet when the move began, and with the collider's top beyond it rising no more
+// steeply than the slope limit (a point that far above the edge is clear of it)?
+fn isStepEdge(phys: *const PhysicsComponent, other: *const PhysicsComponent, contact: core.CollisionInfo, limits: CharacterLimits) bool {
+    const n = contact.contact_normal;
+    const sideways = core.Vec3{ .x = n.x, .y = 0, .z = n.z };
+    if (n.y < 0.1 or core.magnitude(sideways) < 1e-6) return false;
+    if (contact.contact_point.y > limits.step_top) return false;
+
+    var probe = phys.*;
+    probe.collision_shape = .SPHERE;
+    probe.extents = .{ .x = 1e-3, .y = 1e-3, .z = 1e-3 };
+    probe.compound = NO_COMPOUND;
+    probe.position = core.vec3_subtract(contact.contact_point, core.vec3_scale(core.normalize(sideways), EDGE_PROBE));
+    probe.position.y += EDGE_PROBE * limits.slope;
+    return checkColliders(&probe, other, 0) == null;
+}
+
+// Push the character out of the colliders it overlaps, noting what it touched
+fn depenetrateCharacter(index: usize, limits: CharacterLimits, result: *CharacterMove) void {
+    const phys = &physics_components[index];
+    for (0..CHARACTER_PASSES) |_| {
+        var pushed = false;
+        for (0..entity_count) |j| {
+            if (!characterBlocks(index, j)) continue;
+            const other = &physics_components[j];
+            const contact = checkColliders(phys, other, 0) orelse continue;
+            const depth = contact.penetration_depth;
+            if (depth <= 0) continue;
+            const n = contact.contact_normal; // Object1 POV: away from the other collider
+
+            var push: core.Vec3 = undefined;
+            if (n.y >= limits.walkable or isStepEdge(phys, other, contact, limits)) {
+                push = .{ .x = 0, .y = depth / n.y, .z = 0 };
+                result.flags |= CHARACTER_GROUNDED;
+                result.ground = entity_metadata[j].id;
+            } else if (other.body_type == .DYNAMIC) {
+                continue;
+            } else if (n.y <= -limits.walkable) {
+                push = core.vec3_scale(n, depth);
+                result.flags |= CHARACTER_ABOVE;
+            } else {
+                const sideways = core.Vec3{ .x = n.x, .y = 0, .z = n.z };
+                const reach = core.dot(sideways, sideways);
+                push = if (reach > 1e-6) core.vec3_scale(sideways, depth / reach) else core.vec3_scale(n, depth);
+                result.flags |= CHARACTER_SIDES;
+            }
+            phys.position = core.vec3_add(phys.position, push);
+            pushed = true;
+        }
+        if (!pushed) return;
+    }
+}
+
+fn slideCharacter(index: usize, motion: core.Vec3, limits: CharacterLimits, result: *CharacterMove) void {
+    const phys = &physics_components[index];
+    const radius = @max(@min(phys.extents.x, @min(phys.extents.y, phys.extents.z)), 0.01);
+    const length = core.magnitude(motion);
+    const substeps: u32 = @intFromFloat(std.math.clamp(@ceil(length / (0.5 * radius)), 1, @as(f32, MAX_CHARACTER_SUBSTEPS)));
+    const step = core.vec3_scale(motion, 1 / @as(f32, @floatFromInt(substeps)));
+    for (0..substeps) |_| {
+        phys.position = core.vec3_add(phys.position, step);
+        depenetrateCharacter(index, limits, result);
+    }
+}
+
+// Ground within CONTACT_SKIN below the character's feet counts as stood on
+fn probeGround(index: usize, limits: CharacterLimits, result: *CharacterMove) void {
+    const phys = &physics_components[index];
+    const feet = phys.position;
+    defer phys.position = feet;
+    phys.position.y -= CONTACT_SKIN;
+    for (0..entity_count) |j| {
+        if (!characterBlocks(index, j)) continue;
+        const other = &physics_components[j];
+        const contact = checkColliders(phys, other, 0) orelse continue;
+        if (contact.penetration_depth <= 0) continue;
+        if (contact.contact_normal.y >= limits.walkable or isStepEdge(phys, other, contact, limits)) {
+            result.flags |= CHARACTER_GROUNDED;
+            result.ground = entity_metadata[j].id;
+            return;
+        }
+    }
+}
+
+fn horizontalDistance(a: core.Vec3, b: core.Vec3) f32 {
+    return @sqrt((a.x - b.x) * (a.x - b.x) + (a.z - b.z) * (a.z - b.z));
+}
+
+/// Move character `id` by (dx, dy, dz), sliding along what it runs into. Steps up to
+/// `step_offset` high are climbed and ground up to `slope_limit` (radians from level) is
+/// walkable. Returns CHARACTER_* flags; the ground stood on is get_character_ground().
+pub export fn move_character(id: u32, dx: f32, dy: f32, dz: f32, step_offset: f32, slope_limit: f32) u32 {
+    character_ground = NO_GROUND;
+    const index = findECSEntityById(id) orelse return 0;
+    const phys = &physics_components[index];
+    const limit = std.math.clamp(slope_limit, 0, 1.5);
+    const start = phys.position;
+    const lift_height = @max(step_offset, 0);
+    const limits = CharacterLimits{ .walkable = @cos(limit), .slope = @tan(limit), .step_top = start.y - phys.extents.y + lift_height };
+    const across = core.Vec3{ .x = dx, .y = 0, .z = dz };
+
+    var result = CharacterMove{};
+    slideCharacter(index, .{ .x = dx, .y = dy, .z = dz }, limits, &result);
+
+    const blocked = (result.flags & CHARACTER_SIDES) != 0 and (result.flags & CHARACTER_GROUNDED) != 0;
+    if (blocked and lift_height > 0 and core.magnitude(across) > 0) {
+        // Up by the step offset, across, then back down onto whatever is there
+        const plain = result;
+        const plain_end = phys.position;
+        phys.position = start;
+        var lift = CharacterMove{};
+        slideCharacter(index, .{ .x = 0, .y = lift_height, .z = 0 }, limits, &lift);
+        var stepped = CharacterMove{};
+        if ((lift.flags & CHARACTER_ABOVE) == 0) {
+            slideCharacter(index, across, limits, &stepped);
+            slideCharacter(index, .{ .x = 0, .y = @min(dy, 0) - lift_height, .z = 0 }, limits, &stepped);
+        }
+        const climbed = (stepped.flags & CHARACTER_GROUNDED) != 0 and
+            horizontalDistance(phys.position, start) > horizontalDistance(plain_end, start) + 1e-4;
+        if (climbed) {
+            result = stepped;
+        } else {
+            phys.position = plain_end;
+            result = plain;
+        }
+    }
+
+    if ((result.flags & CHARACTER_GROUNDED) == 0 and dy <= 0) probeGround(index, limits, &result);
+
+    if (!std.meta.eql(phys.position, start)) {
+        entity_metadata[index].transform_dirty = true;
+        wakeTouching(id);
+    }
+    character_ground = result.ground;
+    return result.flags;
+}
+
+/// Entity the last move_character stood on (NO_GROUND if none)
+pub export fn get_character_ground() u32 {
+    return character_ground;
+}
@@ -0,0 +1,227 @@
+// src/core/joints_test.zig
+// Joints: pendulums keep their length, ropes go slack, ball sockets and welds hold their
+// anchors, hinges turn only about their axis (within limits, driven by motors), springs
+// settle where gravity balances them, and joints switch off collisions, tie islands
+// together and go away with their bodies.
+
+const std = @import("std");
+const testing = std.testing;
+const core = @import("game_core.zig");
+const engine = @import("game_engine.zig");
+const bodies = @import("test_bodies.zig");
+
+const DT: f32 = 1.0 / 60.0;
+const WORLD = engine.JOINT_WORLD;
+const inf = std.math.inf(f32);
+
+fn addBall(id: u32, x: f32, y: f32) void {
+    bodies.add(id, .{ .x = x, .y = y, .mesh = 2, .radius = 0.25 });
+    engine.set_entity_collision_shape(id, 0, 0.25, 0.25, 0.25);
+}
+
+fn addBox(id: u32, x: f32, y: f32, half: core.Vec3) void {
+    bodies.add(id, .{ .x = x, .y = y, .mesh = 1 });
+    engine.set_entity_collision_shape(id, 1, half.x, half.y, half.z);
+}
+
+fn position(id: u32) core.Vec3 {
+    return .{ .x = engine.get_entity_position_x(id), .y = engine.get_entity_position_y(id), .z = engine.get_entity_position_z(id) };
+}
+
+fn rotation(id: u32) core.Vec3 {
+    return .{ .x = engine.get_entity_rotation_x(id), .y = engine.get_entity_rotation_y(id), .z = engine.get_entity_rotation_z(id) };
+}
+
+// World position of a point given in the body's frame
+fn worldPoint(id: u32, local: core.Vec3) core.Vec3 {
+    return core.vec3_add(position(id), core.rotateVector(rotation(id), local));
+}
+
+// Anchors and axis in world space, as the bodies stand when the joint is made
+fn addJoint(joint_id: u32, kind: engine.JointType, body_a: u32, body_b: u32, anchor_a: core.Vec3, anchor_b: core.Vec3, axis: core.Vec3) !void {
+    try testing.expect(engine.add_joint(joint_id, @intFromEnum(kind), body_a, body_b, anchor_a.x, anchor_a.y, anchor_a.z, anchor_b.x, anchor_b.y, anchor_b.z, axis.x, axis.y, axis.z, false));
+}
+
+const ZERO = core.Vec3{ .x = 0, .y = 0, .z = 0 };
+const UP = core.Vec3{ .x = 0, .y = 1, .z = 0 };
+
+test "a pendulum on a distance joint swings at a fixed length" {
+    engine.init();
+    addBall(1, 2, 4);
+    try addJoint(1, .DISTANCE, 1, WORLD, position(1), .{ .x = 0, .y = 4, .z = 0 }, UP);
+
+    var lowest: f32 = 4;
+    for (0..120) |_| {
+        engine.update(DT);
+        const length = core.distance(position(1), .{ .x = 0, .y = 4, .z = 0 });
+        try testing.expectApproxEqAbs(@as(f32, 2), length, 0.05);
+        lowest = @min(lowest, engine.get_entity_position_y(1));
+    }
+    try testing.expect(lowest < 2.2); // It swung through the bottom
+}
+
+test "a rope is slack below its length and holds at it" {
+    engine.init();
+    addBall(1, 0, 3);
+    try addJoint(1, .ROPE, 1, WORLD, position(1), .{ .x = 0, .y = 4, .z = 0 }, UP);
+    engine.set_joint_limits(1, -inf, 2.5);
+
+    for (0..10) |_| engine.update(DT);
+    try testing.expect(engine.get_entity_velocity_y(1) < -1); // Falling freely on the slack rope
+
+    for (0..120) |_| engine.update(DT);
+    try testing.expectApproxEqAbs(@as(f32, 1.5), engine.get_entity_position_y(1), 0.05);
+}
+
+test "a ball-socket chain keeps its links together" {
+    engine.init();
+    for (1..4) |k| addBox(@intCast(k), @as(f32, @floatFromInt(k)), 5, .{ .x = 0.5, .y = 0.1, .z = 0.1 });
+    const left = core.Vec3{ .x = -0.5, .y = 0, .z = 0 };
+    const right = core.Vec3{ .x = 0.5, .y = 0, .z = 0 };
+    for (1..4) |k| {
+        const link: u32 = @intCast(k);
+        const hook = worldPoint(link, left);
+        try addJoint(link, .BALL_SOCKET, link, if (link == 1) WORLD else link - 1, hook, hook, UP);
+    }
+
+    for (0..180) |_| engine.update(DT);
+
+    try testing.expect(core.distance(worldPoint(1, left), .{ .x = 0.5, .y = 5, .z = 0 }) < 0.05);
+    try testing.expect(core.distance(worldPoint(2, left), worldPoint(1, right)) < 0.05);
+    try testing.expect(core.distance(worldPoint(3, left), worldPoint(2, right)) < 0.05);
+    try testing.expect(engine.get_entity_position_y(3) < 4); // Swung down from level
+}
+
+// A 1 x 2 door hinged to the world along its left edge (vertical axis), gravity off
+fn hangDoor() !void {
+    engine.init();
+    addBox(1, 0.5, 0, .{ .x = 0.5, .y = 1, .z = 0.05 });
+    engine.set_entity_gravity_scale(1, 0);
+    try addJoint(1, .HINGE, 1, WORLD, ZERO, ZERO, UP);
+}
+
+test "a hinge turns only about its axis" {
+    try hangDoor();
+    engine.set_entity_velocity(1, 0, 0.5, -1); // Push the free edge back (and up)
+
+    for (0..60) |_| engine.update(DT);
+
+    const angle = engine.get_joint_angle(1);
+    try testing.expect(angle > 0.3);
+    try testing.expect(core.distance(worldPoint(1, .{ .x = -0.5, .y = 0, .z = 0 }), ZERO) < 0.05);
+    try testing.expectApproxEqAbs(@as(f32, 0), engine.get_entity_position_y(1), 0.05); // Cannot lift off the hinge
+    try testing.expectApproxEqAbs(angle, engine.get_entity_rotation_y(1), 0.05);
+}
+
+test "hinge limits stop the turn" {
+    try hangDoor();
+    engine.set_joint_limits(1, -0.5, 0.5);
+    engine.set_entity_velocity(1, 0, 0, -2);
+
+    var widest: f32 = 0;
+    for (0..90) |_| {
+        engine.update(DT);
+        widest = @max(widest, engine.get_joint_angle(1));
+    }
+    try testing.expect(widest > 0.4);
+    try testing.expect(widest < 0.6);
+}
+
+test "a hinge motor drives the door up to its torque" {
+    try hangDoor();
+    engine.set_joint_motor(1, 1.0, 100);
+
+    for (0..30) |_| engine.update(DT);
+    try testing.expectApproxEqAbs(@as(f32, 1.0), engine.get_entity_angular_velocity_y(1), 0.05);
+
+    // A weak motor only gets it going slowly
+    try hangDoor();
+    engine.set_joint_motor(1, 1.0, 0.01);
+    for (0..30) |_| engine.update(DT);
+    try testing.expect(engine.get_entity_angular_velocity_y(1) < 0.5);
+}
+
+test "a fixed joint welds two bodies into one" {
+    engine.init();
+    const half = core.Vec3{ .x = 0.5, .y = 0.5, .z = 0.5 };
+    addBox(1, 0, 0, half);
+    addBox(2, 1.5, 0, half);
+    engine.set_entity_gravity_scale(1, 0);
+    engine.set_entity_gravity_scale(2, 0);
+    try addJoint(1, .FIXED, 2, 1, .{ .x = 0.75, .y = 0, .z = 0 }, .{ .x = 0.75, .y = 0, .z = 0 }, UP);
+
+    engine.apply_force_at_point(1, 0, 0, 60, -0.5, 0, 0); // Push one end sideways: both turn
+    for (0..30) |_| engine.update(DT);
+
+    const offset = core.inverseRotateVector(rotation(1), core.vec3_subtract(position(2), position(1)));
+    try testing.expectApproxEqAbs(@as(f32, 1.5), offset.x, 0.05);
+    try testing.expectApproxEqAbs(@as(f32, 0), offset.z, 0.05);
+    try testing.expect(@abs(engine.get_entity_rotation_y(1)) > 0.1);
+    try testing.expectApproxEqAbs(engine.get_entity_rotation_y(1), engine.get_entity_rotation_y(2), 0.05);
+}
+
+test "a spring settles where it balances gravity" {
+    engine.init();
+    addBall(1, 0, 2);
+    try addJoint(1, .SPRING, 1, WORLD, position(1), .{ .x = 0, .y = 4, .z = 0 }, UP);
+    engine.set_joint_spring(1, 49, 5, -1); // Rest length stays 2 m
+
+    for (0..300) |_| engine.update(DT);
+
+    // Stretched by m·g / k = 0.2 m beyond its rest length
+    try testing.expectApproxEqAbs(@as(f32, 1.8), engine.get_entity_position_y(1), 0.05);
+}
+
+test "jointed bodies do not collide unless the joint says so" {
+    engine.init();
+    addBall(1, 0, 0);
+    addBall(2, 0.3, 0); // Overlapping
+    engine.set_entity_gravity_scale(1, 0);
+    engine.set_entity_gravity_scale(2, 0);
+    try addJoint(1, .BALL_SOCKET, 1, 2, ZERO, ZERO, UP);
+
+    engine.update(DT);
+    try testing.expectEqual(@as(u32, 0), engine.get_contact_count());
+
+    engine.remove_joint(1);
+    try testing.expect(engine.add_joint(1, @intFromEnum(engine.JointType.BALL_SOCKET), 1, 2, 0, 0, 0, 0, 0, 0, 0, 1, 0, true));
+    engine.update(DT);
+    try testing.expectEqual(@as(u32, 1), engine.get_contact_count());
+}
+
+test "removing a body removes its joints" {
+    engine.init();
+    addBall(1, 0, 3);
+    addBall(2, 0, 2);
+    try addJoint(1, .DISTANCE, 1, WORLD, position(1), .{ .x = 0, .y = 4, .z = 0 }, UP);
+    try addJoint(2, .DISTANCE, 2, 1, position(2), position(1), UP);
+    try testing.expectEqual(@as(u32, 2), engine.get_joint_count());
+    try testing.expect(!engine.add_joint(2, 0, 2, 1, 0, 0, 0, 0, 0, 0, 0, 1, 0, false)); // Id taken
+    try testing.expect(!engine.add_joint(3, 0, 2, 9, 0, 0, 0, 0, 0, 0, 0, 1, 0, false)); // No entity 9
+
+    engine.remove_entity(1);
+    try testing.expectEqual(@as(u32, 0), engine.get_joint_count());
+    for (0..30) |_| engine.update(DT);
+    try testing.expect(engine.get_entity_velocity_y(2) < -1); // Nothing holds it up anymore
+}
+
+test "jointed bodies sleep and wake as one island" {
+    engine.init();
+    addBall(1, 0, 3);
+    addBall(2, 0, 2);
+    try addJoint(1, .DISTANCE, 1, WORLD, position(1), .{ .x = 0, .y = 4, .z = 0 }, UP);
+    try addJoint(2, .DISTANCE, 2, 1, position(2), position(1), UP);
+
+    for (0..120) |_| engine.update(DT);
+    try testing.expect(engine.get_entity_sleeping(1) and engine.get_entity_sleeping(2));
+
+    engine.apply_force_to_entity(2, 3, 0, 0);
+    engine.update(DT);
+    try testing.expect(!engine.get_entity_sleeping(1));
+
+    // A running motor never lets its door sleep
+    try hangDoor();
+    engine.set_joint_motor(1, 0.5, 100);
+    for (0..120) |_| engine.update(DT);
+    try testing.expect(!engine.get_entity_sleeping(1));
+}
@@ -0,0 +1,168 @@
+// src/core/kinematic_test.zig
+// Kinematic bodies: their velocity is derived from how far scripts move them each step (a
+// frame's move spread over the frame's steps), and DYNAMIC bodies resting on top ride them
+// (elevators up and down, conveyors sideways) and stop with them, while bodies beside one
+// are only pushed and a teleported one shoves nothing.
+
+const std = @import("std");
+const testing = std.testing;
+const engine = @import("game_engine.zig");
+const bodies = @import("test_bodies.zig");
+
+const DT: f32 = 1.0 / 60.0;
+
+const BOX: u8 = 1;
+const DYNAMIC: u8 = 0;
+const KINEMATIC: u8 = 1;
+
+fn addBox(id: u32, x: f32, y: f32, body_type: u8, extents: [3]f32) void {
+    bodies.add(id, .{ .x = x, .y = y, .mesh = 1, .body_type = body_type, .restitution = 0.0 });
+    engine.set_entity_collision_shape(id, BOX, extents[0], extents[1], extents[2]);
+}
+
+// A 2x0.2x2 platform with its top at y = 0 and a 1 m crate settled on it
+fn addPlatformWithCrate() void {
+    engine.init();
+    addBox(0, 0, -0.1, KINEMATIC, .{ 1, 0.1, 1 });
+    addBox(1, 0, 0.5, DYNAMIC, .{ 0.5, 0.5, 0.5 });
+    for (0..30) |_| engine.update(DT);
+}
+
+// Move the platform by (dx, dy) per step for `steps` steps, returning the crate's largest
+// distance from where it sits on the platform
+fn movePlatform(dx: f32, dy: f32, steps: u32) f32 {
+    const offset_x = engine.get_entity_position_x(1) - engine.get_entity_position_x(0);
+    const offset_y = engine.get_entity_position_y(1) - engine.get_entity_position_y(0);
+    var drift: f32 = 0;
+    for (0..steps) |_| {
+        engine.set_entity_position(0, engine.get_entity_position_x(0) + dx, engine.get_entity_position_y(0) + dy, 0);
+        engine.update(DT);
+        const away_x = engine.get_entity_position_x(1) - engine.get_entity_position_x(0) - offset_x;
+        const away_y = engine.get_entity_position_y(1) - engine.get_entity_position_y(0) - offset_y;
+        drift = @max(drift, @sqrt(away_x * away_x + away_y * away_y));
+    }
+    return drift;
+}
+
+test "a kinematic body's velocity is how far it was moved over the step" {
+    engine.init();
+    addBox(0, 0, 0, KINEMATIC, .{ 0.5, 0.5, 0.5 });
+
+    engine.set_entity_position(0, 0.1, 0, 0);
+    engine.update(DT);
+    try testing.expectApproxEqAbs(@as(f32, 6), engine.get_entity_velocity_x(0), 1e-3);
+
+    engine.update(DT);
+    try testing.expectEqual(@as(f32, 0), engine.get_entity_velocity_x(0));
+}
+
+test "a move made once per frame is spread over the frame's steps" {
+    engine.init();
+    addBox(0, 0, 0, KINEMATIC, .{ 0.5, 0.5, 0.5 });
+    engine.set_kinematic_move_time(3 * DT);
+
+    engine.set_entity_position(0, 0.3, 0, 0);
+    for (1..4) |i| {
+        engine.update(DT);
+        try testing.expectApproxEqAbs(@as(f32, 6), engine.get_entity_velocity_x(0), 1e-3);
+        try testing.expectApproxEqAbs(0.1 * @as(f32, @floatFromInt(i)), engine.get_entity_position_x(0), 1e-5);
+    }
+
+    engine.update(DT); // There
+    try testing.expectEqual(@as(f32, 0), engine.get_entity_velocity_x(0));
+    try testing.expectEqual(@as(f32, 0.3), engine.get_entity_position_x(0));
+}
+
+test "a crate rides an elevator moved once per frame of several steps" {
+    addPlatformWithCrate();
+    engine.set_kinematic_move_time(3 * DT);
+
+    var drift: f32 = 0;
+    for (0..20) |_| {
+        engine.set_entity_position(0, 0, engine.get_entity_position_y(0) + 3.0 * DT, 0);
+        for (0..3) |_| {
+            engine.update(DT);
+            try testing.expectApproxEqAbs(@as(f32, 1), engine.get_entity_velocity_y(0), 1e-3);
+            drift = @max(drift, @abs(engine.get_entity_position_y(1) - engine.get_entity_position_y(0) - 0.6));
+        }
+    }
+    try testing.expect(drift < 0.02);
+}
+
+test "a teleport cancels a move still under way" {
+    engine.init();
+    addBox(0, 0, 0, KINEMATIC, .{ 0.5, 0.5, 0.5 });
+    engine.set_kinematic_move_time(3 * DT);
+    engine.set_entity_position(0, 0.3, 0, 0);
+    engine.update(DT);
+
+    engine.teleport_entity(0, 0, 2, 0);
+    engine.update(DT);
+
+    try testing.expectEqual(@as(f32, 0), engine.get_entity_velocity_x(0));
+    try testing.expectEqual(@as(f32, 0), engine.get_entity_position_x(0));
+}
+
+test "a crate rides a rising elevator without bouncing, and stops with it" {
+    addPlatformWithCrate();
+
+    try testing.expect(movePlatform(0, 1.0 * DT, 60) < 0.02);
+    try testing.expect(movePlatform(0, 0, 30) < 0.02);
+}
+
+test "a crate rides a sinking elevator down instead of falling after it" {
+    addPlatformWithCrate();
+
+    try testing.expect(movePlatform(0, -1.0 * DT, 60) < 0.02);
+}
+
+test "a conveyor carries what rests on it along" {
+    addPlatformWithCrate();
+
+    try testing.expect(movePlatform(1.0 * DT, 0, 60) < 0.02);
+    try testing.expect(movePlatform(0, 0, 30) < 0.02);
+}
+
+test "a body beside a moving platform is pushed, not carried" {
+    engine.init();
+    addBox(0, 0, 0, KINEMATIC, .{ 0.5, 0.5, 0.5 });
+    addBox(1, 1.0, 0, DYNAMIC, .{ 0.5, 0.5, 0.5 });
+    engine.set_entity_gravity_scale(1, 0);
+    engine.update(DT);
+
+    for (0..10) |_| {
+        engine.set_entity_position(0, engine.get_entity_position_x(0), engine.get_entity_position_y(0) + 1.0 * DT, 0);
+        engine.update(DT);
+    }
+
+    try testing.expectApproxEqAbs(@as(f32, 0), engine.get_entity_position_y(1), 1e-5);
+}
+
+test "a body made KINEMATIC starts from where it is" {
+    engine.init();
+    addBox(0, 0, 0, DYNAMIC, .{ 0.5, 0.5, 0.5 });
+    engine.set_entity_gravity_scale(0, 0);
+    engine.set_entity_position(0, 2, 0, 0); // Teleported while DYNAMIC
+
+    engine.set_entity_body_type(0, KINEMATIC);
+    engine.set_entity_velocity(0, 0, 0, 0);
+    engine.update(DT);
+
+    try testing.expectEqual(@as(f32, 0), engine.get_entity_velocity_x(0));
+}
+
+test "a teleported platform does not launch what rides it" {
+    addPlatformWithCrate();
+
+    engine.teleport_entity(0, 0, 0.15, 0); // 0.25 m up, into the crate
+    for (0..30) |_| {
+        engine.update(DT);
+        try testing.expect(engine.get_entity_velocity_y(1) < 1.0);
+    }
+    try testing.expectEqual(@as(f32, 0), engine.get_entity_velocity_y(0));
+    try testing.expectApproxEqAbs(@as(f32, 0.75), engine.get_entity_position_y(1), 0.02); // Back on top
+
+    engine.teleport_entity(0, 5, 0.15, 0); // Out from under it
+    engine.update(DT);
+    try testing.expectEqual(@as(f32, 0), engine.get_entity_velocity_x(1));
+}
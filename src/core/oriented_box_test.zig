@@ -0,0 +1,144 @@
+// src/core/oriented_box_test.zig
+// Oriented boxes: SAT box pairs and spheres against turned boxes (core), matching the AABB
+// tests when unturned; and in the engine, balls rolling down a tilted ramp, a box sliding
+// off a box standing on its edge, and rays hitting the turned faces.
+
+const std = @import("std");
+const testing = std.testing;
+const core = @import("game_core.zig");
+const engine = @import("game_engine.zig");
+const bodies = @import("test_bodies.zig");
+
+const DT: f32 = 1.0 / 60.0;
+const epsilon: f32 = 0.0001;
+
+const origin = core.Vec3{ .x = 0, .y = 0, .z = 0 };
+const unturned = core.Vec3{ .x = 0, .y = 0, .z = 0 };
+const half = core.Vec3{ .x = 0.5, .y = 0.5, .z = 0.5 };
+const quarter_turn_z = core.Vec3{ .x = 0, .y = 0, .z = std.math.pi / 4.0 }; // Corner up: a diamond
+
+fn expectVec3(expected: core.Vec3, actual: core.Vec3) !void {
+    try testing.expectApproxEqAbs(expected.x, actual.x, epsilon);
+    try testing.expectApproxEqAbs(expected.y, actual.y, epsilon);
+    try testing.expectApproxEqAbs(expected.z, actual.z, epsilon);
+}
+
+// ---------------------------------------------------------------------------
+// Core
+// ---------------------------------------------------------------------------
+
+test "unturned boxes get the AABB test's normal and depth" {
+    const pos2 = core.Vec3{ .x = 0.3, .y = 0.8, .z = 0.1 };
+    const aabb = core.checkBoxCollision(origin, half, pos2, half) orelse return error.ExpectedContact;
+    const obb = core.checkOrientedBoxCollision(origin, unturned, half, pos2, unturned, half) orelse return error.ExpectedContact;
+
+    try expectVec3(aabb.contact_normal, obb.contact_normal);
+    try testing.expectApproxEqAbs(aabb.penetration_depth, obb.penetration_depth, epsilon);
+}
+
+test "a diamond clears a box corner its unturned box would overlap" {
+    // The diamond's lower-left edge runs from (0.19, 0.9) to (0.9, 0.19), outside the box
+    const diamond = core.Vec3{ .x = 0.9, .y = 0.9, .z = 0 };
+    try testing.expect(core.checkBoxCollision(origin, half, diamond, half) != null);
+    try testing.expect(core.checkOrientedBoxCollision(origin, unturned, half, diamond, quarter_turn_z, half) == null);
+
+    // Closer, it touches along that edge's face: pushed out diagonally
+    const touching = core.Vec3{ .x = 0.8, .y = 0.8, .z = 0 };
+    const info = core.checkOrientedBoxCollision(touching, quarter_turn_z, half, origin, unturned, half) orelse return error.ExpectedContact;
+    const diagonal: f32 = std.math.sqrt1_2;
+    try expectVec3(.{ .x = diagonal, .y = diagonal, .z = 0 }, info.contact_normal);
+    try testing.expectApproxEqAbs(0.5 + diagonal - 1.6 * diagonal, info.penetration_depth, 1e-4); // Its face, the box's corner
+}
+
+test "a diamond standing on a floor is pushed straight up at its bottom edge" {
+    const floor_extents = core.Vec3{ .x = 4, .y = 0.5, .z = 4 };
+    const floor = core.Vec3{ .x = 0, .y = -0.5, .z = 0 }; // Top at y = 0
+    const diamond = core.Vec3{ .x = 0, .y = 0.65, .z = 0 }; // Reaches down to 0.65 - 0.707
+
+    const info = core.checkOrientedBoxCollision(diamond, quarter_turn_z, half, floor, unturned, floor_extents) orelse return error.ExpectedContact;
+
+    try expectVec3(.{ .x = 0, .y = 1, .z = 0 }, info.contact_normal);
+    try testing.expectApproxEqAbs(@as(f32, std.math.sqrt1_2 - 0.65), info.penetration_depth, 1e-4);
+    try expectVec3(.{ .x = 0, .y = 0.65 - std.math.sqrt1_2, .z = 0 }, info.contact_point);
+}
+
+test "a sphere on a tilted box is pushed along the tilted face normal" {
+    const tilt = core.Vec3{ .x = 0, .y = 0, .z = 0.3 };
+    const up = core.rotateVector(tilt, .{ .x = 0, .y = 1, .z = 0 });
+    const ball = core.vec3_scale(up, 0.5 + 0.4); // Radius 0.5, 0.1 deep
+
+    const info = core.checkSphereOrientedBoxCollision(ball, 0.5, origin, tilt, half) orelse return error.ExpectedContact;
+
+    try expectVec3(up, info.contact_normal);
+    try testing.expectApproxEqAbs(@as(f32, 0.1), info.penetration_depth, 1e-4);
+    try expectVec3(core.vec3_scale(up, 0.4), info.contact_point);
+    try testing.expect(core.checkSphereOrientedBoxCollision(core.vec3_scale(up, 1.1), 0.5, origin, tilt, half) == null);
+}
+
+// ---------------------------------------------------------------------------
+// Engine
+// ---------------------------------------------------------------------------
+
+fn addStaticBox(id: u32, x: f32, y: f32, rotation: core.Vec3, extents: core.Vec3) void {
+    bodies.add(id, .{ .x = x, .y = y, .rot_x = rotation.x, .rot_y = rotation.y, .rot_z = rotation.z, .mesh = 1, .body_type = bodies.STATIC, .gravity_scale = 0.0, .radius = 1 });
+    engine.set_entity_collision_shape(id, 1, extents.x, extents.y, extents.z);
+}
+
+fn addBall(id: u32, x: f32, y: f32) void {
+    bodies.add(id, .{ .x = x, .y = y, .restitution = 0.2 });
+}
+
+fn addBox(id: u32, x: f32, y: f32) void {
+    bodies.add(id, .{ .x = x, .y = y, .mesh = 1, .restitution = 0.2 });
+    engine.set_entity_collision_shape(id, 1, 0.5, 0.5, 0.5);
+}
+
+fn run(frames: u32) void {
+    for (0..frames) |_| engine.update(DT);
+}
+
+test "a ball dropped on a tilted ramp rolls down it, on its surface" {
+    engine.init();
+    // Tilted up towards +x: its surface normal leans to -x
+    const tilt = core.Vec3{ .x = 0, .y = 0, .z = 0.3 };
+    addStaticBox(0, 0, 0, tilt, .{ .x = 4, .y = 0.25, .z = 2 });
+    addBall(1, 1, 2);
+
+    run(60);
+
+    const ball = core.Vec3{ .x = engine.get_entity_position_x(1), .y = engine.get_entity_position_y(1), .z = 0 };
+    try testing.expect(ball.x < 0.5);
+    try testing.expect(engine.get_entity_velocity_x(1) < -0.5);
+    // Resting on the surface: half a ball above the tilted top face
+    const up = core.rotateVector(tilt, .{ .x = 0, .y = 1, .z = 0 });
+    try testing.expectApproxEqAbs(@as(f32, 0.75), core.dot(ball, up), 0.05);
+}
+
+test "a box dropped beside the top edge of a diamond slides off it" {
+    engine.init();
+    addStaticBox(0, 0, -3.5, unturned, .{ .x = 6, .y = 0.5, .z = 2 }); // Floor, top at y = -3
+    addStaticBox(1, 0, -2, quarter_turn_z, .{ .x = 0.7, .y = 0.7, .z = 1 }); // Top edge at y ≈ -1
+    addBox(2, 0.3, 0.5);
+
+    run(180);
+
+    // Unturned, the diamond would hold the box on its flat top at y = -0.8
+    try testing.expect(engine.get_entity_position_x(2) > 1);
+    try testing.expect(engine.get_entity_position_y(2) < -2);
+}
+
+test "rays hit the faces of a turned box" {
+    engine.init();
+    addStaticBox(7, 0, 0, quarter_turn_z, half);
+
+    // Straight down at x = 0.2 onto the upper-right face (x + y = 0.707)
+    try testing.expectEqual(@as(u32, 1), engine.raycast(0.2, 5, 0, 0, -1, 0, 100, 0xFFFF_FFFF));
+    const hits: [*]const engine.QueryHit = @ptrFromInt(engine.get_query_hits_offset());
+    try testing.expectEqual(@as(u32, 7), hits[0].id);
+    try testing.expectApproxEqAbs(@as(f32, 5 - (std.math.sqrt1_2 - 0.2)), hits[0].distance, 1e-4);
+    try testing.expectApproxEqAbs(@as(f32, std.math.sqrt1_2), hits[0].normal[0], 1e-4);
+    try testing.expectApproxEqAbs(@as(f32, std.math.sqrt1_2), hits[0].normal[1], 1e-4);
+
+    // Past the diamond's side corner, inside where its unturned box would be
+    try testing.expectEqual(@as(u32, 0), engine.raycast(0.45, 0.4, -5, 0, 0, 1, 100, 0xFFFF_FFFF));
+}
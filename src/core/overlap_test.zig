@@ -0,0 +1,87 @@
+// src/core/overlap_test.zig
+// Overlap queries: overlap_sphere and overlap_box report every solid collider touching the
+// volume (tested against the real shapes, not their bounding boxes) into the QueryHit buffer,
+// nearest first by the collider's closest point, honouring the layer mask and skipping
+// triggers and inert entities.
+
+const std = @import("std");
+const testing = std.testing;
+const engine = @import("game_engine.zig");
+const bodies = @import("test_bodies.zig");
+
+const SPHERE: u8 = 0;
+const BOX: u8 = 1;
+
+fn addBody(id: u32, x: f32, y: f32, rot_y: f32, shape: u8, extents: [3]f32) void {
+    bodies.add(id, .{ .x = x, .y = y, .rot_y = rot_y, .gravity_scale = 0.0, .restitution = 0.0 });
+    engine.set_entity_collision_shape(id, shape, extents[0], extents[1], extents[2]);
+}
+
+fn queryHits(count: u32) []const engine.QueryHit {
+    const hits: [*]const engine.QueryHit = @ptrFromInt(engine.get_query_hits_offset());
+    return hits[0..count];
+}
+
+test "overlap_sphere reports what touches it, nearest first, with the way out to each" {
+    engine.init();
+    addBody(1, 2.4, 0, 0, SPHERE, .{ 0.5, 0.5, 0.5 }); // Surface 1.9 m out: reaches into a 2 m sphere
+    addBody(2, 0, -1, 0, BOX, .{ 1, 0.5, 1 });
+    addBody(3, 3, 0, 0, SPHERE, .{ 0.5, 0.5, 0.5 }); // 2.5 m out: does not
+
+    const hits = queryHits(engine.overlap_sphere(0, 0, 0, 2, engine.COLLISION_MASK_ALL));
+
+    try testing.expectEqual(@as(usize, 2), hits.len);
+    try testing.expectEqual(@as(u32, 2), hits[0].id);
+    try testing.expectApproxEqAbs(@as(f32, 0.5), hits[0].distance, 1e-5); // To the box's top face
+    try testing.expectEqual([3]f32{ 0, -0.5, 0 }, hits[0].point);
+    try testing.expectEqual([3]f32{ 0, -1, 0 }, hits[0].normal);
+    try testing.expectEqual(@as(u32, 1), hits[1].id);
+    try testing.expectApproxEqAbs(@as(f32, 1.9), hits[1].distance, 1e-5);
+    try testing.expectEqual([3]f32{ 1, 0, 0 }, hits[1].normal);
+}
+
+test "overlaps are tested against the collider's shape, not its bounding box" {
+    engine.init();
+    addBody(1, 0, 0, 0, SPHERE, .{ 1, 1, 1 });
+
+    // Inside the sphere's bounding box but off its surface: the corner region
+    try testing.expectEqual(@as(u32, 0), engine.overlap_sphere(0.9, 0.9, 0.9, 0.2, engine.COLLISION_MASK_ALL));
+    try testing.expectEqual(@as(u32, 0), engine.overlap_box(0.9, 0.9, 0.9, 0.1, 0.1, 0.1, 0, 0, 0, engine.COLLISION_MASK_ALL));
+    try testing.expectEqual(@as(u32, 1), engine.overlap_box(0.6, 0.6, 0, 0.1, 0.1, 0.1, 0, 0, 0, engine.COLLISION_MASK_ALL));
+}
+
+test "overlap_box turns with its rotation, and reaches turned boxes" {
+    engine.init();
+    addBody(1, 1.2, 0, 0, SPHERE, .{ 0.1, 0.1, 0.1 });
+
+    // A 1 m cube reaches 0.5 m along x, turned 45° about y it reaches 0.71 m
+    try testing.expectEqual(@as(u32, 0), engine.overlap_box(0, 0, 0, 0.5, 0.5, 0.5, 0, 0, 0, engine.COLLISION_MASK_ALL));
+    try testing.expectEqual(@as(u32, 0), engine.overlap_box(0.5, 0, 0, 0.5, 0.5, 0.5, 0, 0, 0, engine.COLLISION_MASK_ALL));
+    try testing.expectEqual(@as(u32, 1), engine.overlap_box(0.5, 0, 0, 0.5, 0.5, 0.5, 0, std.math.pi / 4.0, 0, engine.COLLISION_MASK_ALL));
+
+    addBody(2, -1.2, 0, std.math.pi / 4.0, BOX, .{ 0.5, 0.5, 0.5 }); // Corner out to -1.91
+    try testing.expectEqual(@as(u32, 1), engine.overlap_sphere(-2.1, 0, 0, 0.25, engine.COLLISION_MASK_ALL));
+}
+
+test "overlaps honour the layer mask and skip triggers and entities without physics" {
+    engine.init();
+    addBody(1, 1, 0, 0, SPHERE, .{ 0.5, 0.5, 0.5 });
+    addBody(2, -1, 0, 0, SPHERE, .{ 0.5, 0.5, 0.5 });
+    engine.set_entity_collision_filter(2, 1 << 3, engine.COLLISION_MASK_ALL);
+    addBody(3, 0, 1, 0, SPHERE, .{ 0.5, 0.5, 0.5 });
+    engine.set_entity_trigger(3, true);
+    bodies.add(4, .{ .y = -1, .body_type = bodies.STATIC, .gravity_scale = 0.0, .physics_enabled = false, .restitution = 0.0 });
+
+    try testing.expectEqual(@as(u32, 2), engine.overlap_sphere(0, 0, 0, 2, engine.COLLISION_MASK_ALL));
+    const hits = queryHits(engine.overlap_sphere(0, 0, 0, 2, 1 << 3));
+    try testing.expectEqual(@as(usize, 1), hits.len);
+    try testing.expectEqual(@as(u32, 2), hits[0].id);
+}
+
+test "an empty volume reports nothing" {
+    engine.init();
+    addBody(1, 0, 0, 0, SPHERE, .{ 0.5, 0.5, 0.5 });
+
+    try testing.expectEqual(@as(u32, 0), engine.overlap_sphere(0, 0, 0, 0, engine.COLLISION_MASK_ALL));
+    try testing.expectEqual(@as(u32, 0), engine.overlap_box(0, 0, 0, 1, 0, 1, 0, 0, 0, engine.COLLISION_MASK_ALL));
+}
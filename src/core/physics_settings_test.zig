@@ -0,0 +1,94 @@
+// src/core/physics_settings_test.zig
+// World settings: gravity along any direction (damping only slows motion across it), world
+// bounds switched off or moved to a custom box, their restitution, solver iterations per
+// step. The settings outlive init(), so every test starts from the defaults.
+
+const std = @import("std");
+const testing = std.testing;
+const engine = @import("game_engine.zig");
+const bodies = @import("test_bodies.zig");
+
+const DT: f32 = 1.0 / 60.0;
+
+fn addBall(id: u32, x: f32, y: f32) void {
+    bodies.add(id, .{ .x = x, .y = y });
+}
+
+fn addBox(id: u32, y: f32, body_type: u8) void {
+    bodies.add(id, .{ .y = y, .mesh = 1, .body_type = body_type });
+    engine.set_entity_collision_shape(id, 1, 0.5, 0.5, 0.5);
+}
+
+fn setUp() void {
+    engine.init();
+    engine.set_physics_config(-9.8, 0.99, 0.6);
+    engine.set_world_bounds(8, 8, 8);
+    engine.set_world_bounds_enabled(true);
+    engine.set_solver_iterations(5);
+}
+
+fn run(frames: u32) void {
+    for (0..frames) |_| engine.update(DT);
+}
+
+test "gravity pulls along any direction; damping slows motion across it only" {
+    setUp();
+    engine.set_gravity(9.8, 0, 0);
+    addBall(0, -5, 0);
+    engine.set_entity_velocity(0, 0, 0, 1);
+
+    run(60);
+
+    try testing.expectApproxEqAbs(@as(f32, 9.8), engine.get_entity_velocity_x(0), 0.05);
+    try testing.expectApproxEqAbs(@as(f32, 0), engine.get_entity_velocity_y(0), 1e-4);
+    try testing.expectApproxEqAbs(std.math.pow(f32, 0.99, 60), engine.get_entity_velocity_z(0), 1e-3);
+}
+
+test "set_physics_config sets gravity along Y" {
+    setUp();
+    engine.set_physics_config(-2, 1, 0.6);
+    addBall(0, 0, 0);
+    run(60);
+    try testing.expectApproxEqAbs(@as(f32, -2), engine.get_entity_velocity_y(0), 0.05);
+    try testing.expectApproxEqAbs(@as(f32, 0), engine.get_entity_velocity_x(0), 1e-6);
+}
+
+test "without world bounds bodies fall past the old floor; a custom box stops them where it says" {
+    setUp();
+    engine.set_world_bounds_enabled(false);
+    addBall(0, 0, 0);
+    run(120);
+    try testing.expect(engine.get_entity_position_y(0) < -9);
+
+    // A box whose floor is at y = -2, with walls that do not bounce
+    setUp();
+    engine.set_world_box(-1, -2, -1, 20, 20, 20);
+    engine.set_physics_config(-9.8, 0.99, 0);
+    addBall(0, 0, 0);
+    engine.set_entity_velocity(0, -3, 0, 0);
+    run(60);
+    try testing.expectApproxEqAbs(@as(f32, -1.5), engine.get_entity_position_y(0), 1e-3);
+    try testing.expectApproxEqAbs(@as(f32, -0.5), engine.get_entity_position_x(0), 1e-3);
+    try testing.expectApproxEqAbs(@as(f32, 0), engine.get_entity_velocity_x(0), 1e-4);
+}
+
+test "solver iterations bound the resolution passes per step" {
+    // Two boxes sunk halfway into each other: a pass pushes them apart, the next checks again
+    setUp();
+    addBox(0, 0, 2);
+    addBox(1, 0.5, 0);
+
+    engine.set_solver_iterations(1);
+    engine.update(DT);
+    try testing.expectEqual(@as(u32, 1), engine.get_pairs_tested());
+
+    engine.set_entity_position(1, 0, 0.5, 0);
+    engine.set_solver_iterations(8);
+    engine.update(DT);
+    try testing.expect(engine.get_pairs_tested() > 1);
+
+    // At least one pass
+    engine.set_solver_iterations(0);
+    engine.update(DT);
+    try testing.expect(engine.get_pairs_tested() >= 1);
+}
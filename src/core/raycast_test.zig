@@ -0,0 +1,162 @@
+// src/core/raycast_test.zig
+// Scene queries: ray and sphere casts against the solver's SPHERE/BOX/PLANE
+// colliders (core), and the raycast/sphere_cast exports that write nearest-first
+// hits into the QueryHit buffer TypeScript reads.
+
+const std = @import("std");
+const testing = std.testing;
+const core = @import("game_core.zig");
+const engine = @import("game_engine.zig");
+const bodies = @import("test_bodies.zig");
+
+const epsilon: f32 = 0.0001;
+
+fn expectVec3(expected: core.Vec3, actual: core.Vec3) !void {
+    try testing.expectApproxEqAbs(expected.x, actual.x, epsilon);
+    try testing.expectApproxEqAbs(expected.y, actual.y, epsilon);
+    try testing.expectApproxEqAbs(expected.z, actual.z, epsilon);
+}
+
+const origin = core.Vec3{ .x = 0, .y = 0, .z = 0 };
+const down = core.Vec3{ .x = 0, .y = -1, .z = 0 };
+const right = core.Vec3{ .x = 1, .y = 0, .z = 0 };
+
+// ---------------------------------------------------------------------------
+// Core ray casts
+// ---------------------------------------------------------------------------
+
+test "ray hits the near side of a sphere" {
+    const hit = core.raycastSphere(origin, right, 100, .{ .x = 5, .y = 0, .z = 0 }, 1) orelse return error.ExpectedHit;
+
+    try testing.expectApproxEqAbs(@as(f32, 4), hit.distance, epsilon);
+    try expectVec3(.{ .x = 4, .y = 0, .z = 0 }, hit.point);
+    try expectVec3(.{ .x = -1, .y = 0, .z = 0 }, hit.normal);
+}
+
+test "ray misses spheres behind it, beyond max distance, or containing its origin" {
+    try testing.expect(core.raycastSphere(origin, right, 100, .{ .x = -5, .y = 0, .z = 0 }, 1) == null);
+    try testing.expect(core.raycastSphere(origin, right, 3.5, .{ .x = 5, .y = 0, .z = 0 }, 1) == null);
+    try testing.expect(core.raycastSphere(origin, right, 100, origin, 1) == null);
+}
+
+test "ray hits the entry face of a box" {
+    const hit = core.raycastBox(.{ .x = 0, .y = 10, .z = 0 }, down, 100, origin, .{ .x = 2, .y = 1, .z = 2 }) orelse return error.ExpectedHit;
+
+    try testing.expectApproxEqAbs(@as(f32, 9), hit.distance, epsilon);
+    try expectVec3(.{ .x = 0, .y = 1, .z = 0 }, hit.point);
+    try expectVec3(.{ .x = 0, .y = 1, .z = 0 }, hit.normal);
+}
+
+test "ray parallel to a box face misses when outside the slab" {
+    try testing.expect(core.raycastBox(.{ .x = -5, .y = 3, .z = 0 }, right, 100, origin, .{ .x = 1, .y = 1, .z = 1 }) == null);
+    try testing.expect(core.raycastBox(.{ .x = -5, .y = 0.5, .z = 0 }, right, 100, origin, .{ .x = 1, .y = 1, .z = 1 }) != null);
+}
+
+test "plane is two-sided and its normal faces the caster" {
+    const up = core.Vec3{ .x = 0, .y = 1, .z = 0 };
+    const from_above = core.raycastPlane(.{ .x = 0, .y = 4, .z = 0 }, down, 100, origin, up) orelse return error.ExpectedHit;
+    try testing.expectApproxEqAbs(@as(f32, 4), from_above.distance, epsilon);
+    try expectVec3(up, from_above.normal);
+
+    const from_below = core.raycastPlane(.{ .x = 0, .y = -4, .z = 0 }, up, 100, origin, up) orelse return error.ExpectedHit;
+    try expectVec3(down, from_below.normal);
+
+    try testing.expect(core.raycastPlane(.{ .x = 0, .y = 4, .z = 0 }, right, 100, origin, up) == null);
+}
+
+// ---------------------------------------------------------------------------
+// Core sphere casts
+// ---------------------------------------------------------------------------
+
+test "sphere cast stops one radius short of a sphere" {
+    const hit = core.sphereCastShape(origin, right, 100, 0.5, .{ .x = 5, .y = 0, .z = 0 }, .SPHERE, .{ .x = 1, .y = 1, .z = 1 }) orelse return error.ExpectedHit;
+
+    try testing.expectApproxEqAbs(@as(f32, 3.5), hit.distance, epsilon);
+    try expectVec3(.{ .x = 4, .y = 0, .z = 0 }, hit.point);
+}
+
+test "sphere cast onto a box face reports the face contact" {
+    const hit = core.sphereCastBox(.{ .x = 0, .y = 10, .z = 0 }, down, 100, 0.5, origin, .{ .x = 2, .y = 1, .z = 2 }) orelse return error.ExpectedHit;
+
+    try testing.expectApproxEqAbs(@as(f32, 8.5), hit.distance, 0.001);
+    try expectVec3(.{ .x = 0, .y = 1, .z = 0 }, hit.point);
+    try expectVec3(.{ .x = 0, .y = 1, .z = 0 }, hit.normal);
+}
+
+test "sphere cast rounds box corners (hits where a ray would miss)" {
+    const box = core.Vec3{ .x = 1, .y = 1, .z = 1 };
+    const start = core.Vec3{ .x = -5, .y = 1.3, .z = 0 }; // passes just above the top face
+
+    try testing.expect(core.raycastBox(start, right, 100, origin, box) == null);
+
+    const hit = core.sphereCastBox(start, right, 100, 0.5, origin, box) orelse return error.ExpectedHit;
+    try expectVec3(.{ .x = -1, .y = 1, .z = 0 }, hit.point); // the top-left edge
+    try testing.expectApproxEqAbs(@as(f32, 0.5), core.distance(core.vec3_add(start, core.vec3_scale(right, hit.distance)), hit.point), 0.001);
+
+    // ...but not when it clears the rounded edge
+    try testing.expect(core.sphereCastBox(.{ .x = -5, .y = 1.6, .z = 0 }, right, 100, 0.5, origin, box) == null);
+}
+
+test "sphere cast vs plane stops the sphere on the surface" {
+    const hit = core.sphereCastPlane(.{ .x = 0, .y = 4, .z = 0 }, down, 100, 1, origin, .{ .x = 0, .y = 1, .z = 0 }) orelse return error.ExpectedHit;
+
+    try testing.expectApproxEqAbs(@as(f32, 3), hit.distance, epsilon);
+    try expectVec3(origin, hit.point);
+}
+
+// ---------------------------------------------------------------------------
+// WASM exports
+// ---------------------------------------------------------------------------
+
+fn addStaticSphere(id: u32, x: f32, radius: f32, physics_enabled: bool) void {
+    bodies.add(id, .{ .x = x, .mesh = 2, .body_type = bodies.STATIC, .gravity_scale = 0.0, .radius = radius, .physics_enabled = physics_enabled });
+    engine.set_entity_collision_shape(id, 0, radius, radius, radius);
+}
+
+fn queryHits(count: u32) []const engine.QueryHit {
+    const hits: [*]const engine.QueryHit = @ptrFromInt(engine.get_query_hits_offset());
+    return hits[0..count];
+}
+
+test "QueryHit is the 32-byte layout TypeScript reads" {
+    try testing.expectEqual(@as(usize, 32), @sizeOf(engine.QueryHit));
+    try testing.expectEqual(@as(usize, 4), @offsetOf(engine.QueryHit, "distance"));
+    try testing.expectEqual(@as(usize, 8), @offsetOf(engine.QueryHit, "point"));
+    try testing.expectEqual(@as(usize, 20), @offsetOf(engine.QueryHit, "normal"));
+}
+
+test "raycast reports every collider along the ray, nearest first" {
+    engine.init();
+    addStaticSphere(7, 9, 1, true);
+    addStaticSphere(3, 4, 1, true);
+    addStaticSphere(5, 6, 1, false); // decorative: not a collider
+
+    const count = engine.raycast(0, 0, 0, 2, 0, 0, 100, engine.COLLISION_MASK_ALL); // direction is normalized
+    const hits = queryHits(count);
+
+    try testing.expectEqual(@as(u32, 2), count);
+    try testing.expectEqual(@as(u32, 3), hits[0].id);
+    try testing.expectApproxEqAbs(@as(f32, 3), hits[0].distance, epsilon);
+    try testing.expectEqual(@as(u32, 7), hits[1].id);
+    try testing.expectApproxEqAbs(@as(f32, 8), hits[1].distance, epsilon);
+    try testing.expectApproxEqAbs(@as(f32, -1), hits[1].normal[0], epsilon);
+}
+
+test "raycast honours max distance and rejects a zero direction" {
+    engine.init();
+    addStaticSphere(0, 4, 1, true);
+
+    try testing.expectEqual(@as(u32, 0), engine.raycast(0, 0, 0, 1, 0, 0, 2.5, engine.COLLISION_MASK_ALL));
+    try testing.expectEqual(@as(u32, 0), engine.raycast(0, 0, 0, 0, 0, 0, 100, engine.COLLISION_MASK_ALL));
+}
+
+test "sphere_cast sweeps the radius" {
+    engine.init();
+    addStaticSphere(0, 4, 1, true);
+
+    // A ray along y = 1.5 misses the sphere; a 1-radius sweep along it does not
+    try testing.expectEqual(@as(u32, 0), engine.raycast(0, 1.5, 0, 1, 0, 0, 100, engine.COLLISION_MASK_ALL));
+    const count = engine.sphere_cast(0, 1.5, 0, 1, 1, 0, 0, 100, engine.COLLISION_MASK_ALL);
+    try testing.expectEqual(@as(u32, 1), count);
+    try testing.expect(queryHits(count)[0].distance < 4);
+}
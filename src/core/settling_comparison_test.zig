@@ -48,7 +48,10 @@ fn runFloorBoundaryTest() !SettlingData {
         1.0,        // mass
         1.0,        // gravityScale
         1.0,        // radius
-        true        // physicsEnabled
+        true,       // physicsEnabled
+        0,          // flags
+        0.6, 0.6,   // static, dynamic friction
+        0.6         // restitution
     );
     const sphere_id: u32 = 1;
 
@@ -170,7 +173,10 @@ fn runKinematicBoxTest() !SettlingData {
         5.0,        // mass (stored, inert while kinematic)
         1.0,        // gravityScale
         1.0,        // extents (collision size)
-        true        // physicsEnabled
+        true,       // physicsEnabled
+        0,          // flags
+        0.6, 0.6,   // static, dynamic friction
+        0.6         // restitution
     );
 
     // Add sphere at same relative height as floor test
@@ -186,7 +192,10 @@ fn runKinematicBoxTest() !SettlingData {
         1.0,        // mass
         1.0,        // gravityScale
         1.0,        // radius
-        true        // physicsEnabled
+        true,       // physicsEnabled
+        0,          // flags
+        0.6, 0.6,   // static, dynamic friction
+        0.6         // restitution
     );
     const sphere_id: u32 = 1;
 
@@ -0,0 +1,127 @@
+// src/core/sleep_test.zig
+// Sleeping and simulation islands: settled stacks fall asleep together and stop being
+// integrated and collision-tested (keeping their contacts), separate piles sleep and wake
+// independently, and contact, forces, teleports and removals wake what they touch.
+
+const std = @import("std");
+const testing = std.testing;
+const engine = @import("game_engine.zig");
+const bodies = @import("test_bodies.zig");
+
+const DT: f32 = 1.0 / 60.0;
+
+fn addFloor(id: u32) void {
+    bodies.add(id, .{ .y = -1, .mesh = 1, .body_type = bodies.STATIC, .gravity_scale = 0.0, .radius = 1 });
+    engine.set_entity_collision_shape(id, 1, 7, 1, 4); // Top at y = 0
+}
+
+fn addBox(id: u32, x: f32, y: f32) void {
+    bodies.add(id, .{ .x = x, .y = y, .mesh = 1 });
+    engine.set_entity_collision_shape(id, 1, 0.5, 0.5, 0.5);
+}
+
+// Floor (id 0) with a three-box stack (ids 1-3) at x = -3 and a lone box (id 4) at x = 3
+fn settledScene() !void {
+    engine.init();
+    addFloor(0);
+    for (1..4) |k| addBox(@intCast(k), -3, @as(f32, @floatFromInt(k)) - 0.5);
+    addBox(4, 3, 0.5);
+    for (0..120) |_| engine.update(DT);
+    try testing.expectEqual(@as(u32, 4), engine.get_sleeping_body_count());
+}
+
+fn stackAsleep() bool {
+    return engine.get_entity_sleeping(1) and engine.get_entity_sleeping(2) and engine.get_entity_sleeping(3);
+}
+
+test "a settled stack falls asleep and is no longer simulated" {
+    try settledScene();
+    const top_y = engine.get_entity_position_y(3);
+
+    for (0..60) |_| engine.update(DT);
+
+    try testing.expect(stackAsleep());
+    try testing.expectEqual(top_y, engine.get_entity_position_y(3));
+    try testing.expectEqual(@as(f32, 0), engine.get_entity_velocity_y(3));
+    try testing.expectEqual(@as(u32, 0), engine.get_pairs_tested());
+    // Its resting contacts carry over (floor-box, box-box, box-box, floor-lone box)
+    try testing.expectEqual(@as(u32, 4), engine.get_contact_count());
+}
+
+test "a body that keeps moving never sleeps" {
+    engine.init();
+    addFloor(0);
+    addBox(1, -5, 0.5);
+    engine.set_entity_physics_material(1, 0, 0, 0.6, 1, 0); // Frictionless: slides on
+    engine.set_entity_velocity(1, 0.5, 0, 0);
+
+    for (0..90) |_| {
+        engine.update(DT);
+        try testing.expect(!engine.get_entity_sleeping(1));
+    }
+}
+
+test "a body landing on a sleeping stack wakes the whole island, not other islands" {
+    try settledScene();
+
+    addBox(5, -3, 4.5);
+    for (0..30) |_| engine.update(DT);
+
+    try testing.expect(!engine.get_entity_sleeping(1));
+    try testing.expect(!engine.get_entity_sleeping(2));
+    try testing.expect(!engine.get_entity_sleeping(3));
+    try testing.expect(engine.get_entity_sleeping(4));
+}
+
+test "a force on one body wakes its island" {
+    try settledScene();
+
+    engine.apply_force_to_entity(3, 30, 0, 0);
+    try testing.expect(!engine.get_entity_sleeping(3));
+    engine.update(DT);
+
+    try testing.expect(!stackAsleep() and !engine.get_entity_sleeping(1));
+    try testing.expect(engine.get_entity_sleeping(4));
+}
+
+test "removing or moving a support wakes what rests on it" {
+    try settledScene();
+
+    engine.remove_entity(1); // Bottom of the stack
+    try testing.expect(!engine.get_entity_sleeping(2));
+    for (0..30) |_| engine.update(DT);
+    try testing.expect(engine.get_entity_position_y(2) < 1.0); // Fell into the gap
+
+    engine.set_entity_position(0, 0, -4, 0); // Floor drops away
+    for (0..10) |_| engine.update(DT);
+    try testing.expect(engine.get_entity_velocity_y(4) < 0);
+}
+
+test "re-setting the same transform is not a teleport" {
+    try settledScene();
+
+    engine.set_entity_position(0, 0, -1, 0);
+    engine.set_entity_position(4, engine.get_entity_position_x(4), engine.get_entity_position_y(4), 0);
+    try testing.expect(engine.get_entity_sleeping(4));
+
+    engine.set_entity_position(4, 3, 3, 0);
+    try testing.expect(!engine.get_entity_sleeping(4));
+}
+
+test "bodies can be put to sleep and woken explicitly" {
+    engine.init();
+    addBox(1, 0, 3);
+    engine.set_entity_gravity_scale(1, 0);
+    engine.set_entity_velocity(1, 1, 0, 0);
+
+    engine.set_entity_sleeping(1, true);
+    engine.update(DT);
+    try testing.expect(engine.get_entity_sleeping(1));
+    try testing.expectEqual(@as(f32, 0), engine.get_entity_position_x(1));
+
+    engine.set_entity_sleeping(1, false);
+    engine.set_entity_gravity_scale(1, 1);
+    engine.update(DT);
+    try testing.expect(!engine.get_entity_sleeping(1));
+    try testing.expect(engine.get_entity_velocity_y(1) < 0);
+}
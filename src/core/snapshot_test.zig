@@ -0,0 +1,144 @@
+// src/core/snapshot_test.zig
+// World snapshots: copying the sections out and back rewinds bodies, joints and sleep
+// exactly (the rerun matches the first run), restores entities removed since and drops
+// those added since, and a header from another layout is refused.
+
+const std = @import("std");
+const testing = std.testing;
+const engine = @import("game_engine.zig");
+const bodies = @import("test_bodies.zig");
+
+const DT: f32 = 1.0 / 60.0;
+
+fn addBox(id: u32, mesh: u32, x: f32, y: f32, body_type: u8) void {
+    bodies.add(id, .{ .x = x, .y = y, .mesh = mesh, .body_type = body_type });
+    engine.set_entity_collision_shape(id, 1, 0.5, 0.5, 0.5);
+}
+
+fn addFloor() void {
+    bodies.add(0, .{ .y = -1, .mesh = 1, .body_type = bodies.STATIC, .gravity_scale = 0.0, .radius = 1 });
+    engine.set_entity_collision_shape(0, 1, 7, 1, 4); // Top at y = 0
+}
+
+// Floor (id 0), a box falling onto it (id 1), a ball (mesh 2) swinging from a point above (id 2)
+fn setUp() void {
+    engine.init();
+    addFloor();
+    addBox(1, 1, -2, 3, 0);
+    bodies.add(2, .{ .x = 2, .y = 3, .mesh = 2 });
+    _ = engine.add_joint(0, @intFromEnum(engine.JointType.DISTANCE), 2, engine.JOINT_WORLD, 2, 3, 0, 3, 5, 0, 0, 0, 1, false);
+}
+
+// The sections, copied out and written back as TS does (natively, pointers do not fit
+// the u32 offsets TS gets, so the slices are used directly)
+const Snapshot = struct {
+    bytes: [engine.SNAPSHOT_SECTIONS][]u8,
+
+    fn take() !Snapshot {
+        var snapshot: Snapshot = undefined;
+        const sections = engine.snapshot_begin();
+        for (0..sections) |i| {
+            snapshot.bytes[i] = try testing.allocator.dupe(u8, engine.snapshotSection(@intCast(i)));
+        }
+        return snapshot;
+    }
+
+    fn restore(self: *const Snapshot) !void {
+        writeSection(0, self.bytes[0]);
+        try testing.expect(engine.restore_begin());
+        for (self.bytes[1..], 1..) |bytes, i| {
+            try testing.expectEqual(@as(u32, @intCast(bytes.len)), engine.get_snapshot_section_size(@intCast(i)));
+            writeSection(@intCast(i), bytes);
+        }
+        engine.restore_end();
+    }
+
+    fn deinit(self: *Snapshot) void {
+        for (self.bytes) |bytes| testing.allocator.free(bytes);
+    }
+};
+
+fn writeSection(section: u32, bytes: []const u8) void {
+    @memcpy(engine.snapshotSection(section)[0..bytes.len], bytes);
+}
+
+fn positions() [3]f32 {
+    return .{ engine.get_entity_position_y(1), engine.get_entity_position_x(2), engine.get_entity_position_y(2) };
+}
+
+test "restoring a snapshot rewinds the world; the rerun matches the first run" {
+    setUp();
+    for (0..20) |_| engine.update(DT);
+    var snapshot = try Snapshot.take();
+    defer snapshot.deinit();
+
+    for (0..60) |_| engine.update(DT);
+    const first_run = positions();
+
+    try snapshot.restore();
+    try testing.expectEqual(@as(u32, 3), engine.get_entity_count());
+    try testing.expectEqual(@as(u32, 1), engine.get_joint_count());
+    for (0..60) |_| engine.update(DT);
+
+    try testing.expectEqual(first_run, positions());
+}
+
+test "entities removed since the snapshot come back; entities added since are gone" {
+    setUp();
+    for (0..10) |_| engine.update(DT);
+    var snapshot = try Snapshot.take();
+    defer snapshot.deinit();
+    const box_y = engine.get_entity_position_y(1);
+    const ball_x = engine.get_entity_position_x(2);
+
+    engine.remove_entity(1);
+    addBox(7, 0, 2, 2, 0);
+    addBox(8, 3, 4, 2, 0);
+    try snapshot.restore();
+
+    try testing.expectEqual(@as(u32, 3), engine.get_entity_count());
+    try testing.expectEqual(box_y, engine.get_entity_position_y(1));
+    try testing.expectEqual(@as(f32, 0), engine.get_entity_position_y(8)); // Unknown id
+    // The mesh buckets are the snapshot's too: a new entity goes into its bucket
+    addBox(9, 1, 3, 3, 2);
+    try testing.expectEqual(@as(u32, 4), engine.get_entity_count());
+    try testing.expectEqual(@as(f32, 3), engine.get_entity_position_x(9));
+    try testing.expectEqual(ball_x, engine.get_entity_position_x(2));
+}
+
+test "a sleeping body is restored asleep" {
+    engine.init();
+    addFloor();
+    addBox(1, 1, -2, 0.5, 0);
+    for (0..120) |_| engine.update(DT);
+    try testing.expectEqual(@as(u32, 1), engine.get_sleeping_body_count());
+    var snapshot = try Snapshot.take();
+    defer snapshot.deinit();
+
+    engine.set_entity_velocity(1, 0, 5, 0);
+    engine.update(DT);
+    try testing.expectEqual(@as(u32, 0), engine.get_sleeping_body_count());
+
+    try snapshot.restore();
+    try testing.expectEqual(@as(u32, 1), engine.get_sleeping_body_count());
+    try testing.expect(engine.get_entity_sleeping(1));
+}
+
+test "a header from another layout or with impossible counts is refused" {
+    setUp();
+    var snapshot = try Snapshot.take();
+    defer snapshot.deinit();
+
+    const words = std.mem.bytesAsSlice(u32, snapshot.bytes[0]);
+    words[0] += 4; // PhysicsComponent size
+    writeSection(0, snapshot.bytes[0]);
+    try testing.expect(!engine.restore_begin());
+
+    words[0] -= 4;
+    words[words.len - 1] += 1; // One more entity bucketed than counted
+    writeSection(0, snapshot.bytes[0]);
+    try testing.expect(!engine.restore_begin());
+
+    // Nothing changed
+    try testing.expectEqual(@as(u32, 3), engine.get_entity_count());
+}
@@ -0,0 +1,34 @@
+// src/core/test_bodies.zig
+// Bodies for the physics tests: add_entity takes 25 arguments, most of them the same in every
+// test, so a test names only the ones it is about and the rest take the defaults below.
+
+const engine = @import("game_engine.zig");
+
+pub const DYNAMIC: u8 = 0;
+pub const KINEMATIC: u8 = 1;
+pub const STATIC: u8 = 2;
+
+pub const Body = struct {
+    x: f32 = 0,
+    y: f32 = 0,
+    z: f32 = 0,
+    rot_x: f32 = 0, // Radians
+    rot_y: f32 = 0,
+    rot_z: f32 = 0,
+    scale: f32 = 1, // On every axis
+    mesh: u32 = 0, // Mesh index: 1 (cube) starts the body as a BOX, others as a SPHERE
+    body_type: u8 = DYNAMIC,
+    mass: f32 = 1,
+    gravity_scale: f32 = 1,
+    radius: f32 = 0.5,
+    physics_enabled: bool = true,
+    flags: u32 = 0, // ENTITY_FLAG_*
+    static_friction: f32 = 0.6,
+    dynamic_friction: f32 = 0.6,
+    restitution: f32 = 0.6,
+};
+
+// add_entity(id, x,y,z, rotX,rotY,rotZ, sx,sy,sz, r,g,b,a, mesh, mat, bodyType, mass, gravityScale, radius, physicsEnabled, flags, staticFriction, dynamicFriction, restitution)
+pub fn add(id: u32, body: Body) void {
+    engine.add_entity(id, body.x, body.y, body.z, body.rot_x, body.rot_y, body.rot_z, body.scale, body.scale, body.scale, 1, 1, 1, 1, body.mesh, 0, body.body_type, body.mass, body.gravity_scale, body.radius, body.physics_enabled, body.flags, body.static_friction, body.dynamic_friction, body.restitution);
+}
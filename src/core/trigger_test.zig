@@ -0,0 +1,92 @@
+// src/core/trigger_test.zig
+// Trigger volumes: bodies flagged ENTITY_FLAG_TRIGGER are never resolved against
+// (other bodies pass through them), but every overlap of a physics step is
+// recorded into the trigger pair stream TypeScript reads for enter/exit events.
+
+const std = @import("std");
+const testing = std.testing;
+const engine = @import("game_engine.zig");
+const bodies = @import("test_bodies.zig");
+
+const Pair = [2]u32;
+
+fn addSphere(id: u32, x: f32, y: f32, body_type: u8, gravity_scale: f32, flags: u32) void {
+    bodies.add(id, .{ .x = x, .y = y, .mesh = 2, .body_type = body_type, .gravity_scale = gravity_scale, .flags = flags });
+    engine.set_entity_collision_shape(id, 0, 0.5, 0.5, 0.5);
+}
+
+fn addStaticBox(id: u32, y: f32, flags: u32) void {
+    bodies.add(id, .{ .y = y, .mesh = 1, .body_type = bodies.STATIC, .gravity_scale = 0.0, .radius = 1, .flags = flags });
+    engine.set_entity_collision_shape(id, 1, 10, 1, 10);
+}
+
+fn triggerPairs() []const Pair {
+    const pairs: [*]const Pair = @ptrFromInt(engine.get_trigger_pairs_offset());
+    return pairs[0..engine.get_trigger_pair_count()];
+}
+
+test "a dynamic body falls through a trigger and the overlap is reported" {
+    engine.init();
+    addStaticBox(0, -1, engine.ENTITY_FLAG_TRIGGER);
+    addSphere(1, 0, 0.55, 0, 1.0, 0);
+
+    var overlapping_steps: u32 = 0;
+    for (0..60) |_| {
+        engine.update(1.0 / 60.0);
+        const pairs = triggerPairs();
+        if (pairs.len > 0) {
+            try testing.expectEqual(@as(usize, 1), pairs.len);
+            try testing.expectEqual(Pair{ 0, 1 }, pairs[0]);
+            overlapping_steps += 1;
+        }
+    }
+
+    try testing.expect(overlapping_steps > 0);
+    try testing.expect(engine.get_entity_position_y(1) < -2.5); // fell straight through the slab
+    try testing.expectEqual(@as(u32, 0), engine.get_contact_count()); // no solid contacts
+}
+
+test "trigger overlaps are not solid contacts and do not push bodies apart" {
+    engine.init();
+    addSphere(10, -0.3, 0, 0, 0, engine.ENTITY_FLAG_TRIGGER);
+    addSphere(20, 0.3, 0, 0, 0, 0);
+
+    engine.update(1.0 / 60.0);
+
+    try testing.expectEqual(@as(usize, 1), triggerPairs().len);
+    try testing.expectEqual(@as(u32, 0), engine.get_contact_count());
+    try testing.expectApproxEqAbs(@as(f32, 0.3), engine.get_entity_position_x(20), 0.0001);
+}
+
+test "static triggers never report overlaps with other static bodies" {
+    engine.init();
+    addStaticBox(0, 0, engine.ENTITY_FLAG_TRIGGER);
+    addStaticBox(1, 0.5, 0);
+
+    engine.update(1.0 / 60.0);
+
+    try testing.expectEqual(@as(u32, 0), engine.get_trigger_pair_count());
+}
+
+test "set_entity_trigger turns a solid body into a trigger and back" {
+    engine.init();
+    addSphere(10, -0.3, 0, 0, 0, 0);
+    addSphere(20, 0.3, 0, 0, 0, 0);
+
+    engine.set_entity_trigger(10, true);
+    engine.update(1.0 / 60.0);
+    try testing.expectEqual(@as(u32, 1), engine.get_trigger_pair_count());
+    try testing.expectEqual(@as(u32, 0), engine.get_contact_count());
+
+    engine.set_entity_trigger(10, false);
+    engine.update(1.0 / 60.0);
+    try testing.expectEqual(@as(u32, 0), engine.get_trigger_pair_count());
+    try testing.expectEqual(@as(u32, 1), engine.get_contact_count());
+}
+
+test "scene queries ignore triggers" {
+    engine.init();
+    addSphere(0, 4, 0, 2, 0, engine.ENTITY_FLAG_TRIGGER);
+
+    try testing.expectEqual(@as(u32, 0), engine.raycast(0, 0, 0, 1, 0, 0, 100, engine.COLLISION_MASK_ALL));
+}
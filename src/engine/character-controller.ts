@@ -0,0 +1,159 @@
+// src/engine/character-controller.ts
+// Character controller: player-style movement (walk, slide, step, jump) for a kinematic body
+
+import { Component, RigidBody, CollisionShape, BodyType, Vector3 } from './components';
+import type { GameObject } from './gameobject';
+import type { WasmPhysicsBridge } from './wasm-physics-bridge';
+import type { Scene } from './scene-system';
+
+// What a character's last move touched, as bit flags (mirrors CHARACTER_* in game_engine.zig)
+export enum CharacterCollision {
+    // eslint-disable-next-line no-unused-vars
+    NONE = 0,
+    // eslint-disable-next-line no-unused-vars
+    GROUNDED = 1, // Standing on walkable ground
+    // eslint-disable-next-line no-unused-vars
+    SIDES = 2, // Blocked by a wall or a slope too steep to walk
+    // eslint-disable-next-line no-unused-vars
+    ABOVE = 4, // Hit its head
+}
+
+export interface CharacterControllerOptions {
+    speed?: number; // Walking speed (m/s)
+    jumpHeight?: number; // How high a jump rises (m)
+    stepOffset?: number; // Tallest step climbed without jumping (m)
+    slopeLimit?: number; // Steepest walkable ground (degrees from level)
+    gravity?: number; // m/s² along Y, negative is down (default: the Y of the scene's gravity)
+}
+
+const DEFAULT_GRAVITY = -9.8; // Outside a scene: the PhysicsSettings default
+
+/**
+ * Moves a GameObject like a player character rather than a ball: it walks at a set speed, slides
+ * along walls instead of bouncing off them, climbs steps up to `stepOffset`, walks up slopes
+ * up to `slopeLimit` and slides down steeper ones, jumps from the ground and rides whatever it
+ * stands on (a moving platform carries it along). The GameObject needs a KINEMATIC RigidBody,
+ * usually an upright capsule:
+ *
+ *     player.addComponent(CharacterController.body(0.4, 0.9));
+ *     player.addComponent(new CharacterController({ speed: 5, stepOffset: 0.3 }));
+ *     scene.setInputTarget(player); // WASD / left stick to walk, Space / A to jump
+ *
+ * Each frame the controller moves the body by its walking input, its vertical speed (gravity,
+ * jumps) and its ground's motion, through a move-and-slide in WASM. Nothing pushes the
+ * character back, but it pushes DYNAMIC bodies out of its way as any moving kinematic body does.
+ * Up is +Y: the character falls along Y only (ground, slopes and jumps are measured against it),
+ * so the X and Z of a scene's sideways gravity do not move it (it warns once if they are set).
+ */
+export class CharacterController extends Component {
+    public speed: number;
+    public jumpHeight: number;
+    public stepOffset: number;
+    public slopeLimit: number;
+    public gravity: number | undefined; // Undefined follows the scene's PhysicsSettings
+
+    // Vertical speed (m/s): gravity pulls it down, a jump sets it, ground and ceilings stop it
+    public verticalSpeed = 0;
+    public collisionFlags = CharacterCollision.NONE;
+    public ground: GameObject | null = null;
+
+    private input = { x: 0, z: 0 };
+    private jumpRequested = false;
+    private groundPosition: Vector3 | null = null; // Where the ground stood after the last move
+    private warned = false;
+    private warnedGravity = false;
+
+    constructor(opts: CharacterControllerOptions = {}) {
+        super();
+        this.speed = opts.speed ?? 4;
+        this.jumpHeight = opts.jumpHeight ?? 1;
+        this.stepOffset = opts.stepOffset ?? 0.3;
+        this.slopeLimit = opts.slopeLimit ?? 45;
+        this.gravity = opts.gravity;
+    }
+
+    // A KINEMATIC upright capsule to carry a character (halfHeight includes the caps)
+    static body(radius: number = 0.4, halfHeight: number = 0.9): RigidBody {
+        return new RigidBody(1.0, false, CollisionShape.CAPSULE, { x: radius, y: Math.max(halfHeight, radius), z: radius }, { bodyType: BodyType.KINEMATIC });
+    }
+
+    public get isGrounded(): boolean {
+        return (this.collisionFlags & CharacterCollision.GROUNDED) !== 0;
+    }
+
+    // Walking direction on the ground (world X/Z), each component -1..1; kept until changed
+    public setMoveInput(x: number, z: number): void {
+        const length = Math.hypot(x, z);
+        const scale = length > 1 ? 1 / length : 1; // Diagonals are no faster
+        this.input = { x: x * scale, z: z * scale };
+    }
+
+    // Jump on the next update if the character is on the ground then
+    public jump(): void {
+        this.jumpRequested = true;
+    }
+
+    override update(deltaTime: number): void {
+        const body = this.gameObject?.getComponent(RigidBody);
+        const bridge = body?.getPhysicsBridge() as WasmPhysicsBridge | undefined;
+        const wasmEntityId = body?.getWasmEntityId();
+        if (!body || !bridge || wasmEntityId === undefined || deltaTime <= 0) return;
+        if (body.bodyType !== BodyType.KINEMATIC) {
+            if (!this.warned) console.warn(`CharacterController: "${this.gameObject.name}" needs a KINEMATIC RigidBody (see CharacterController.body())`);
+            this.warned = true;
+            return;
+        }
+
+        const gravity = this.gravity ?? this.sceneGravity();
+        if (this.jumpRequested && this.isGrounded) {
+            this.verticalSpeed = Math.sqrt(2 * Math.abs(gravity) * this.jumpHeight);
+        }
+        this.jumpRequested = false;
+        this.verticalSpeed += gravity * deltaTime;
+
+        const motion = {
+            x: this.input.x * this.speed * deltaTime,
+            y: this.verticalSpeed * deltaTime,
+            z: this.input.z * this.speed * deltaTime,
+        };
+        // On the ground, press down at least as far as a walkable slope falls away under the
+        // walk, so walking down one keeps the character on it
+        if (this.isGrounded && this.verticalSpeed <= 0) {
+            const walked = Math.hypot(motion.x, motion.z);
+            motion.y = Math.min(motion.y, -walked * Math.tan(this.slopeLimit * Math.PI / 180));
+        }
+        // Ride the ground: follow it as far as it moved since the last frame
+        if (this.ground && this.groundPosition) {
+            const now = this.ground.transform.worldPosition;
+            motion.x += now.x - this.groundPosition.x;
+            motion.y += now.y - this.groundPosition.y;
+            motion.z += now.z - this.groundPosition.z;
+        }
+
+        const before = this.gameObject.transform.worldPosition;
+        const { flags, ground } = bridge.moveCharacter(wasmEntityId, motion, this.stepOffset, this.slopeLimit);
+        this.collisionFlags = flags;
+        this.ground = ground;
+        this.groundPosition = ground ? ground.transform.worldPosition : null;
+        if (this.isGrounded && this.verticalSpeed < 0) this.verticalSpeed = 0;
+        if ((flags & CharacterCollision.ABOVE) !== 0 && this.verticalSpeed > 0) this.verticalSpeed = 0;
+
+        // The physics step derives the body's velocity from how far it went, so the solver
+        // pushes what it walks into
+        const after = bridge.getEntityPosition(wasmEntityId) ?? before;
+        this.gameObject.transform.setWorldPosition(after.x, after.y, after.z);
+        body.syncToWasm();
+    }
+
+    // The Y of the scene's gravity (the only axis a character falls along)
+    private sceneGravity(): number {
+        const scene = this.gameObject.getScene() as Scene | null;
+        if (!scene) return DEFAULT_GRAVITY;
+        const { x, y, z } = scene.physicsSettings.gravity;
+        if ((x !== 0 || z !== 0) && !this.warnedGravity) {
+            console.warn(`CharacterController: "${this.gameObject.name}" falls along Y only — the scene gravity's x = ${x}, z = ${z} do not move it`);
+            this.warnedGravity = true;
+        }
+        return y;
+    }
+}
@@ -0,0 +1,87 @@
+// src/engine/collider.ts
+// Colliders: collision shapes without a body of their own, gathered into their parent's RigidBody
+
+import { Component, CollisionShape, RigidBody, Vector3 } from './components';
+import type { GameObject } from './gameobject';
+
+// Most parts WASM takes per compound, the body's own shape included (mirrors
+// MAX_COMPOUND_PARTS in game_engine.zig)
+export const MAX_COMPOUND_PARTS = 16;
+
+// The shapes a compound is built from
+export type ColliderShape = CollisionShape.SPHERE | CollisionShape.BOX | CollisionShape.CAPSULE | CollisionShape.CYLINDER;
+
+// One part of a compound, in the body's local space
+export interface CompoundPart {
+    shape: ColliderShape;
+    offset: Vector3;
+    rotation: Vector3; // Euler angles in degrees
+    extents: Vector3; // As RigidBody.extents, for the shape
+}
+
+/**
+ * A collision shape on a child of a GameObject with a RigidBody. The body's own shape and the
+ * Colliders of its direct children (those without a RigidBody of their own) make up one
+ * compound collider, so a table or an L-shaped wall is a single rigid body built from the same
+ * hierarchy that renders it:
+ *
+ *     const leg = new GameObject('leg');
+ *     leg.transform.setPosition(0.9, -0.5, 0.4);
+ *     leg.addComponent(Collider.box(0.1, 0.4, 0.1));
+ *     table.addChild(leg);
+ *
+ * Each part sits at its child's local position, turned by its rotation and sized by its scale.
+ * Like every collider the compound is axis-aligned: a turned box collides as the box holding
+ * it (exact for quarter turns), capsules and cylinders stay upright, and the body's rotation
+ * does not turn the parts. The body's mass is spread over the parts by volume for its
+ * inertia, taken about the body's origin.
+ *
+ * Colliders are gathered when the body is registered with physics; call
+ * RigidBody.refreshColliders() after changing them or the hierarchy later on.
+ */
+export class Collider extends Component {
+    constructor(
+        public readonly shape: ColliderShape,
+        public readonly extents: Vector3,
+    ) {
+        super();
+    }
+
+    static box(halfWidth: number, halfHeight: number, halfDepth: number): Collider {
+        return new Collider(CollisionShape.BOX, { x: halfWidth, y: halfHeight, z: halfDepth });
+    }
+
+    static sphere(radius: number): Collider {
+        return new Collider(CollisionShape.SPHERE, { x: radius, y: radius, z: radius });
+    }
+
+    // Upright along Y; halfHeight includes the caps (as RigidBody.setCapsuleCollider)
+    static capsule(radius: number, halfHeight: number): Collider {
+        return new Collider(CollisionShape.CAPSULE, { x: radius, y: Math.max(halfHeight, radius), z: radius });
+    }
+
+    static cylinder(radius: number, halfHeight: number): Collider {
+        return new Collider(CollisionShape.CYLINDER, { x: radius, y: halfHeight, z: radius });
+    }
+}
+
+export function isColliderShape(shape: CollisionShape): shape is ColliderShape {
+    return shape === CollisionShape.SPHERE || shape === CollisionShape.BOX || shape === CollisionShape.CAPSULE || shape === CollisionShape.CYLINDER;
+}
+
+// The parts the Collider children of `gameObject` add to its body (none: no compound)
+export function childColliderParts(gameObject: GameObject): CompoundPart[] {
+    const parts: CompoundPart[] = [];
+    for (const child of gameObject.getChildren()) {
+        const collider = child.getComponent(Collider);
+        if (!collider || child.hasComponent(RigidBody)) continue;
+        const { position, rotation, scale } = child.transform;
+        parts.push({
+            shape: collider.shape,
+            offset: { ...position },
+            rotation: { ...rotation },
+            extents: { x: collider.extents.x * Math.abs(scale.x), y: collider.extents.y * Math.abs(scale.y), z: collider.extents.z * Math.abs(scale.z) },
+        });
+    }
+    return parts;
+}
@@ -0,0 +1,93 @@
+// src/engine/collision-layers.ts
+// Named collision layers + the layer collision matrix (owned by a Scene)
+
+// 32-bit layer/mask values (mirror COLLISION_LAYER_DEFAULT / COLLISION_MASK_ALL in game_engine.zig)
+export const MAX_COLLISION_LAYERS = 32;
+export const DEFAULT_LAYER = 'default';
+export const DEFAULT_LAYER_BIT = 1 << 0; // Layer 0, where every RigidBody starts
+export const ALL_LAYERS = 0xFFFFFFFF;
+
+/**
+ * Registry of up to 32 named collision layers and which pairs of layers collide.
+ *
+ * A RigidBody carries a layer bit and a mask of the layers it collides with; WASM lets a pair
+ * interact (solid contact or trigger overlap) only if each body's mask contains the other's
+ * layer. The matrix is the authoring view of those masks: `collisionMask(name)` is the mask a
+ * body on that layer gets (Scene.setLayer), and matrix edits are pushed to bodies already on
+ * the affected layers through the change listeners.
+ *
+ * Every layer collides with every layer until told otherwise:
+ *
+ *     scene.layers.define('debris');
+ *     scene.layers.setLayerCollision('debris', 'debris', false); // debris piles don't jitter
+ */
+export class CollisionLayers {
+    private names: string[] = [DEFAULT_LAYER]; // layer index -> name
+    private matrix: number[] = new Array(MAX_COLLISION_LAYERS).fill(ALL_LAYERS); // layer index -> mask
+    private listeners = new Set<(_layers: string[]) => void>();
+
+    // Register a layer name (idempotent) and return its bit. Throws once all 32 layers are taken.
+    define(name: string): number {
+        if (!this.names.includes(name)) {
+            if (this.names.length === MAX_COLLISION_LAYERS) {
+                throw new Error(`❌ Cannot define collision layer "${name}": all ${MAX_COLLISION_LAYERS} layers are in use`);
+            }
+            this.names.push(name);
+        }
+        return this.layer(name);
+    }
+
+    has(name: string): boolean {
+        return this.names.includes(name);
+    }
+
+    // The layer's bit (1 << index). Throws for names that were never defined.
+    layer(name: string): number {
+        const index = this.names.indexOf(name);
+        if (index < 0) {
+            throw new Error(`❌ Unknown collision layer "${name}" (define it first)`);
+        }
+        return (1 << index) >>> 0;
+    }
+
+    // Combined bits of several layers, e.g. a raycast layer mask
+    mask(...names: string[]): number {
+        return names.reduce((bits, name) => (bits | this.layer(name)) >>> 0, 0);
+    }
+
+    // Name of the layer a single bit stands for, if any
+    nameOf(bit: number): string | undefined {
+        const index = Math.log2(bit >>> 0);
+        return Number.isInteger(index) ? this.names[index] : undefined;
+    }
+
+    // Enable/disable collisions between two layers (symmetric; a === b covers same-layer pairs)
+    setLayerCollision(a: string, b: string, collide: boolean): void {
+        const indexA = Math.log2(this.layer(a));
+        const indexB = Math.log2(this.layer(b));
+        this.matrix[indexA] = setBit(this.matrix[indexA]!, indexB, collide);
+        this.matrix[indexB] = setBit(this.matrix[indexB]!, indexA, collide);
+
+        for (const listener of this.listeners) listener(a === b ? [a] : [a, b]);
+    }
+
+    canCollide(a: string, b: string): boolean {
+        return (this.collisionMask(a) & this.layer(b)) !== 0;
+    }
+
+    // Mask of the layers a body on `name` collides with (its matrix row)
+    collisionMask(name: string): number {
+        return this.matrix[Math.log2(this.layer(name))]!;
+    }
+
+    // Called with the layers whose row changed; returns an unsubscribe function
+    onChange(listener: (_layers: string[]) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+}
+
+function setBit(mask: number, index: number, on: boolean): number {
+    const bit = (1 << index) >>> 0;
+    return (on ? mask | bit : mask & ~bit) >>> 0;
+}
@@ -5,11 +5,17 @@ import {
     createLookAtMatrix,
     createPerspectiveMatrix,
     createOrthographicMatrix,
+    invertMat4,
     multiplyMat4,
+    transformPoint,
 } from '../utils/math-utils';
+import type { GameObject } from './gameobject';
 import type { Mesh } from './mesh';
+import { ConvexHull } from './convex-hull';
 import { Material } from './material';
 import type { RenderMode } from '../renderer/mesh-registry';
+import { ALL_LAYERS, DEFAULT_LAYER_BIT } from './collision-layers';
+import { PhysicsMaterial } from './physics-material';
 
 export abstract class Component {
     public gameObject: any; // Will be GameObject, but avoiding circular import
@@ -21,6 +27,19 @@ export abstract class Component {
     start(): void { }
     update(_deltaTime: number): void { } // Underscore prefix indicates unused parameter
     destroy(): void { }
+
+    // Collision callbacks, dispatched by the physics bridge after each physics step to every
+    // component of both GameObjects of a contact pair: Enter on the first touching step, Stay
+    // while it keeps touching, Exit (with the last contact) on the first step it no longer does.
+    onCollisionEnter(_other: GameObject, _contact: ContactInfo): void { }
+    onCollisionStay(_other: GameObject, _contact: ContactInfo): void { }
+    onCollisionExit(_other: GameObject, _contact: ContactInfo): void { }
+
+    // Trigger callbacks, dispatched the same way for overlaps involving a trigger RigidBody
+    // (to the trigger's components and to the other body's): Enter on the first overlapping
+    // step, Exit on the first step it no longer overlaps.
+    onTriggerEnter(_other: GameObject): void { }
+    onTriggerExit(_other: GameObject): void { }
 }
 
 // Vector3 utility interface
@@ -30,12 +49,34 @@ export interface Vector3 {
     z: number;
 }
 
-// Transform component - handles position, rotation, scale and matrix calculations
+// One contact of a collision callback, from the receiving GameObject's point of view: `normal`
+// points away from the other body (the way this one is pushed); `impulse` is the normal impulse
+// the solver applied this step (0 for a resting contact it did not need to push apart).
+export interface ContactInfo {
+    point: Vector3;
+    normal: Vector3;
+    impulse: number;
+}
+
+// Transform component - handles position, rotation, scale and matrix calculations.
+// position/rotation/scale are LOCAL (relative to the parent GameObject, if any); the world-space
+// view is world = parent.world × local, cached and invalidated by markDirty(). The setters call
+// markDirty() themselves, and in-place field edits (`position.x = 3`) are picked up the next time
+// the world transform is read.
 export class Transform extends Component {
     public position: Vector3;
     public rotation: Vector3; // Euler angles in degrees
     public scale: Vector3;
 
+    // Set whenever the world transform changes (own edit or an ancestor's); the physics bridge
+    // clears it once it has pushed the new world transform to WASM.
+    public hasChanged = true;
+
+    private worldMatrix: Float32Array = new Float32Array(16);
+    private worldDirty = true;
+    // Local values the cached world matrix was built from (detects in-place field edits).
+    private builtFrom: number[] = [];
+
     constructor(
         position: Vector3 = { x: 0, y: 0, z: 0 },
         rotation: Vector3 = { x: 0, y: 0, z: 0 },
@@ -63,15 +104,16 @@ export class Transform extends Component {
         const cz = Math.cos(rz), sz = Math.sin(rz);
 
         // TRS Matrix calculation (Translation * Rotation * Scale)
-        // Combined rotation matrix (ZYX order)
+        // Combined rotation matrix Rz·Ry·Rx: turned about X, then Y, then Z (world axes), the
+        // order WASM's createRotationMatrix builds, so both sides read the same Euler angles
         const r11 = cy * cz;
-        const r12 = -cy * sz;
-        const r13 = sy;
-        const r21 = sx * sy * cz + cx * sz;
-        const r22 = -sx * sy * sz + cx * cz;
-        const r23 = -sx * cy;
-        const r31 = -cx * sy * cz + sx * sz;
-        const r32 = cx * sy * sz + sx * cz;
+        const r12 = sx * sy * cz - cx * sz;
+        const r13 = cx * sy * cz + sx * sz;
+        const r21 = cy * sz;
+        const r22 = sx * sy * sz + cx * cz;
+        const r23 = cx * sy * sz - sx * cz;
+        const r31 = -sy;
+        const r32 = sx * cy;
         const r33 = cx * cy;
 
         // Apply scale and set matrix elements (column-major order)
@@ -83,36 +125,154 @@ export class Transform extends Component {
         return matrix;
     }
 
+    // ── World space (hierarchy) ──────────────────────────────────────────────────────
+
+    // The parent GameObject's transform, or null for a root (or a GameObject not in a scene).
+    getParentTransform(): Transform | null {
+        return this.gameObject?.getParent?.()?.transform ?? null;
+    }
+
+    // Invalidate the cached world matrix of this transform and every descendant.
+    markDirty(): void {
+        this.worldDirty = true;
+        this.hasChanged = true;
+        for (const child of this.gameObject?.getChildren?.() ?? []) {
+            child.transform.markDirty();
+        }
+    }
+
+    // World matrix = parent world × local (column-major). Returns a copy.
+    getWorldMatrix(): Float32Array {
+        this.updateWorldMatrix();
+        return new Float32Array(this.worldMatrix);
+    }
+
+    // Rebuild the cached world matrix if this transform or an ancestor changed. Ancestors are
+    // refreshed first, so an in-place edit on a parent dirties this subtree before we check it.
+    updateWorldMatrix(): void {
+        const parent = this.getParentTransform();
+        parent?.updateWorldMatrix();
+
+        const local = this.localValues();
+        if (local.some((value, i) => value !== this.builtFrom[i])) {
+            this.markDirty();
+        }
+        if (!this.worldDirty) return;
+
+        const localMatrix = this.getLocalMatrix();
+        this.worldMatrix = parent ? multiplyMat4(parent.worldMatrix, localMatrix) : localMatrix;
+        this.builtFrom = local;
+        this.worldDirty = false;
+    }
+
+    get worldPosition(): Vector3 {
+        if (!this.getParentTransform()) return { ...this.position };
+        const m = this.getWorldMatrix();
+        return { x: m[12]!, y: m[13]!, z: m[14]! };
+    }
+
+    // World rotation as Euler degrees in the same convention as `rotation` (see getLocalMatrix).
+    // Under a non-uniformly scaled parent the world matrix can shear; the rotation is then the
+    // closest one the scale-normalized axes describe.
+    get worldRotation(): Vector3 {
+        if (!this.getParentTransform()) return { ...this.rotation };
+        return this.eulerFrom(this.getWorldMatrix());
+    }
+
+    get worldScale(): Vector3 {
+        if (!this.getParentTransform()) return { ...this.scale };
+        return this.worldScaleFrom(this.getWorldMatrix());
+    }
+
+    // Place this transform at a world-space position (converted into the parent's space).
+    setWorldPosition(x: number, y: number, z: number): void {
+        const parent = this.getParentTransform();
+        const inverseParent = parent ? invertMat4(parent.getWorldMatrix()) : null;
+        if (!inverseParent) {
+            this.setPosition(x, y, z);
+            return;
+        }
+        const [lx, ly, lz] = transformPoint(inverseParent, [x, y, z]);
+        this.setPosition(lx, ly, lz);
+    }
+
+    // Turn this transform to a world rotation (Euler degrees, converted into the parent's space).
+    setWorldRotation(x: number, y: number, z: number): void {
+        const parent = this.getParentTransform();
+        const inverseParent = parent ? invertMat4(parent.getWorldMatrix()) : null;
+        if (!inverseParent) {
+            this.setRotation(x, y, z);
+            return;
+        }
+        const world = new Transform(undefined, { x, y, z }).getLocalMatrix();
+        const local = this.eulerFrom(multiplyMat4(inverseParent, world));
+        this.setRotation(local.x, local.y, local.z);
+    }
+
+    // Euler degrees of a matrix's rotation (the inverse of getLocalMatrix's)
+    private eulerFrom(m: Float32Array): Vector3 {
+        const { x: sx, y: sy, z: sz } = this.worldScaleFrom(m);
+        const r11 = m[0]! / sx, r21 = m[1]! / sx, r31 = m[2]! / sx;
+        const r12 = m[4]! / sy, r22 = m[5]! / sy, r32 = m[6]! / sy;
+        const r33 = m[10]! / sz;
+        const RAD2DEG = 180 / Math.PI;
+
+        const sinY = -r31;
+        const y = Math.asin(Math.max(-1, Math.min(1, sinY)));
+        if (Math.abs(sinY) < 0.9999) {
+            return { x: Math.atan2(r32, r33) * RAD2DEG, y: y * RAD2DEG, z: Math.atan2(r21, r11) * RAD2DEG };
+        }
+        // Gimbal lock (y = ±90°): only x ∓ z is determined; put it all on x.
+        return { x: Math.atan2(sinY * r12, r22) * RAD2DEG, y: y * RAD2DEG, z: 0 };
+    }
+
+    private worldScaleFrom(m: Float32Array): Vector3 {
+        return {
+            x: Math.hypot(m[0]!, m[1]!, m[2]!),
+            y: Math.hypot(m[4]!, m[5]!, m[6]!),
+            z: Math.hypot(m[8]!, m[9]!, m[10]!),
+        };
+    }
+
+    private localValues(): number[] {
+        const { position: p, rotation: r, scale: s } = this;
+        return [p.x, p.y, p.z, r.x, r.y, r.z, s.x, s.y, s.z];
+    }
+
     // Convenience methods for position manipulation
     translate(x: number, y: number, z: number): void {
         this.position.x += x;
         this.position.y += y;
         this.position.z += z;
+        this.markDirty();
     }
 
     rotate(x: number, y: number, z: number): void {
         this.rotation.x += x;
         this.rotation.y += y;
         this.rotation.z += z;
-
+        this.markDirty();
     }
 
     setPosition(x: number, y: number, z: number): void {
         this.position.x = x;
         this.position.y = y;
         this.position.z = z;
+        this.markDirty();
     }
 
     setRotation(x: number, y: number, z: number): void {
         this.rotation.x = x;
         this.rotation.y = y;
         this.rotation.z = z;
+        this.markDirty();
     }
 
     setScale(x: number, y: number, z: number): void {
         this.scale.x = x;
         this.scale.y = y;
         this.scale.z = z;
+        this.markDirty();
     }
 }
 
@@ -191,6 +351,14 @@ export enum CollisionShape {
     BOX = 1,
     // eslint-disable-next-line no-unused-vars
     PLANE = 2,
+    // eslint-disable-next-line no-unused-vars
+    CAPSULE = 3,
+    // eslint-disable-next-line no-unused-vars
+    CYLINDER = 4,
+    // eslint-disable-next-line no-unused-vars
+    HULL = 5,
+    // eslint-disable-next-line no-unused-vars
+    COMPOUND = 6, // Set by WASM for a body with Collider children (see Collider); never set directly
 }
 
 // Body type — the whole motion model, mirrors WASM BodyType (game_engine.zig):
@@ -208,13 +376,35 @@ export enum BodyType {
     STATIC = 2,
 }
 
+// How RigidBody.applyForce acts on a DYNAMIC body:
+// - FORCE: newtons over the next step, through the mass (thrust, wind)
+// - IMPULSE: newton-seconds at once, through the mass (a bullet hit, an explosion kick)
+// - VELOCITY_CHANGE: m/s at once, whatever the mass (a jump); applyForce's default
+// - ACCELERATION: m/s² over the next step, whatever the mass (extra gravity)
+// IMPULSE and VELOCITY_CHANGE do not depend on the frame time, so one-shot actions use them.
+export enum ForceMode {
+    // eslint-disable-next-line no-unused-vars
+    FORCE = 0,
+    // eslint-disable-next-line no-unused-vars
+    IMPULSE = 1,
+    // eslint-disable-next-line no-unused-vars
+    VELOCITY_CHANGE = 2,
+    // eslint-disable-next-line no-unused-vars
+    ACCELERATION = 3,
+}
+
 // RigidBody component - handles physics simulation
 export class RigidBody extends Component {
     // Stored mass. ACTIVE only while DYNAMIC (must be > 0 — WASM clamps invalid values
     // to 1 and warns). Stored-but-inert on KINEMATIC (kept for type transitions, e.g.
     // an elevator whose cable snaps, and for gameplay reads); ignored on STATIC.
     public mass: number;
+    // DYNAMIC: synced back from WASM every step. KINEMATIC: derived by the physics step from
+    // how far the body was moved, and synced back too (move a kinematic body, don't set this)
     public velocity: Vector3;
+    // Spin in rad/s about the world axes (DYNAMIC bodies; synced back from WASM every step,
+    // together with the rotation it integrates into)
+    public angularVelocity: Vector3;
     public bodyType: BodyType;
     // Gravity multiplier, DYNAMIC only: 1.0 normal, 0.0 space (still simulated,
     // still collides, responds to forces — just doesn't fall), 0.16 moon, -1.0 reverse.
@@ -222,7 +412,25 @@ export class RigidBody extends Component {
 
     // Physics shape (enhanced collision system)
     public collisionShape: CollisionShape;
-    public extents: Vector3; // Half-extents for boxes, radius in .x for spheres, normal for planes
+    public extents: Vector3; // Half-extents for boxes, radius in .x for spheres, normal for planes,
+    // (radius, halfHeight, radius) for upright capsules and cylinders, the hull's bounding half-size
+    // for hulls
+    public convexHull: ConvexHull | undefined; // The HULL collider's points (see setConvexHullCollider)
+    // Trigger volume: never solid (nothing is pushed by or resolved against it), but its
+    // overlaps are reported through onTriggerEnter/onTriggerExit.
+    public isTrigger: boolean;
+    // Continuous collision detection (DYNAMIC bodies): the body is swept along each step's
+    // motion and stops at the first collider in its path, so fast projectiles and dropped
+    // items cannot tunnel through thin floors. Costs a sweep against every collider per step.
+    public continuousCollision: boolean;
+    // Collision filtering (32-bit): the layer bit(s) this body is on and the mask of layers it
+    // collides with. A pair interacts only if each mask contains the other's layer. Usually
+    // assigned from the Scene's named layers (scene.setLayer) rather than by hand.
+    public collisionLayer: number;
+    public collisionMask: number;
+    // Surface friction/bounciness, combined with the other body's per contact. Shared and
+    // immutable: swap it with setMaterial() rather than editing it.
+    public material: PhysicsMaterial;
 
     // WASM integration
     private wasmEntityId?: number;
@@ -233,15 +441,30 @@ export class RigidBody extends Component {
         useGravity: boolean = true, // kept positional for compatibility; sets gravityScale 1/0
         collisionShape: CollisionShape = CollisionShape.SPHERE,
         extents: Vector3 = { x: 0.5, y: 0.5, z: 0.5 }, // Default sphere radius 0.5
-        opts: { kinematic?: boolean; bodyType?: BodyType; gravityScale?: number } = {}
+        opts: {
+            kinematic?: boolean;
+            bodyType?: BodyType;
+            gravityScale?: number;
+            isTrigger?: boolean;
+            continuousCollision?: boolean;
+            collisionLayer?: number;
+            collisionMask?: number;
+            material?: PhysicsMaterial;
+        } = {}
     ) {
         super();
         this.mass = mass;
         this.velocity = { x: 0, y: 0, z: 0 };
+        this.angularVelocity = { x: 0, y: 0, z: 0 };
         this.bodyType = opts.bodyType ?? (opts.kinematic ? BodyType.KINEMATIC : BodyType.DYNAMIC);
         this.gravityScale = opts.gravityScale ?? (useGravity ? 1.0 : 0.0);
         this.collisionShape = collisionShape;
         this.extents = extents;
+        this.isTrigger = opts.isTrigger ?? false;
+        this.continuousCollision = opts.continuousCollision ?? false;
+        this.collisionLayer = opts.collisionLayer ?? DEFAULT_LAYER_BIT;
+        this.collisionMask = opts.collisionMask ?? ALL_LAYERS;
+        this.material = opts.material ?? PhysicsMaterial.DEFAULT;
     }
 
     // Immovable/unpushable to the solver (KINEMATIC or STATIC). Kept as an accessor so
@@ -310,10 +533,11 @@ export class RigidBody extends Component {
         if (!this.gameObject || !this.physicsBridge || this.wasmEntityId === undefined) return;
 
         const transform = this.gameObject.transform;
-        // Update ALL transform properties in WASM physics system
-        this.physicsBridge.updateEntity(this.wasmEntityId, transform.position, this.velocity);
-        this.physicsBridge.updateEntityRotation(this.wasmEntityId, transform.rotation);
-        this.physicsBridge.updateEntityScale(this.wasmEntityId, transform.scale);
+        // Update ALL transform properties in WASM physics system (world space: WASM has no
+        // hierarchy, so a body parented under another GameObject is placed where it renders)
+        this.physicsBridge.updateEntity(this.wasmEntityId, transform.worldPosition, this.velocity);
+        this.physicsBridge.updateEntityRotation(this.wasmEntityId, transform.worldRotation);
+        this.physicsBridge.updateEntityScale(this.wasmEntityId, transform.worldScale);
     }
 
     // Clean up physics entity
@@ -325,12 +549,56 @@ export class RigidBody extends Component {
         }
     }
 
-    // Apply force to physics body. The bridge + wasmEntityId are wired by the Engine at
+    // Apply force to physics body, as the ForceMode says (by default a velocity change, what
+    // input controllers are tuned for). The bridge + wasmEntityId are wired by the Engine at
     // registration (WasmPhysicsBridge.addEntity), so input controllers apply force through the
     // RigidBody without needing a reference to the Scene or the bridge.
-    public applyForce(fx: number, fy: number, fz: number): void {
+    public applyForce(fx: number, fy: number, fz: number, mode: ForceMode = ForceMode.VELOCITY_CHANGE): void {
+        if (this.isKinematic || !this.physicsBridge || this.wasmEntityId === undefined) return;
+        const force = { x: fx, y: fy, z: fz };
+        switch (mode) {
+        case ForceMode.FORCE:
+            this.physicsBridge.accumulateForce(this.wasmEntityId, force);
+            break;
+        case ForceMode.ACCELERATION:
+            this.physicsBridge.accumulateForce(this.wasmEntityId, force, true);
+            break;
+        case ForceMode.IMPULSE:
+            this.physicsBridge.applyImpulse(this.wasmEntityId, force);
+            break;
+        case ForceMode.VELOCITY_CHANGE:
+            this.physicsBridge.applyForce(this.wasmEntityId, force);
+            break;
+        }
+    }
+
+    // Torque (world axes) acting over the next physics step; spin follows the shape's inertia.
+    public applyTorque(tx: number, ty: number, tz: number): void {
+        if (this.isKinematic || !this.physicsBridge || this.wasmEntityId === undefined) return;
+        this.physicsBridge.applyTorque(this.wasmEntityId, { x: tx, y: ty, z: tz });
+    }
+
+    // Force acting over the next physics step at a world-space point: off-center it also spins
+    // the body (e.g. a shove on a crate's corner).
+    public applyForceAtPoint(force: Vector3, point: Vector3): void {
+        if (this.isKinematic || !this.physicsBridge || this.wasmEntityId === undefined) return;
+        this.physicsBridge.applyForceAtPoint(this.wasmEntityId, force, point);
+    }
+
+    // Impulse (N·s) from a hit at a world-space point, e.g. a raycast hit's point. Linear only:
+    // the body is knocked back as if hit at its center and does not spin
+    // (applyForceAtPoint spins it).
+    public applyImpulseAtPoint(impulse: Vector3, _point: Vector3): void {
         if (this.isKinematic || !this.physicsBridge || this.wasmEntityId === undefined) return;
-        this.physicsBridge.applyForce(this.wasmEntityId, { x: fx, y: fy, z: fz });
+        this.physicsBridge.applyImpulse(this.wasmEntityId, impulse);
+    }
+
+    // Set spin directly (rad/s, world axes)
+    public setAngularVelocity(wx: number, wy: number, wz: number): void {
+        this.angularVelocity = { x: wx, y: wy, z: wz };
+        if (this.physicsBridge && this.wasmEntityId !== undefined) {
+            this.physicsBridge.setAngularVelocity(this.wasmEntityId, this.angularVelocity);
+        }
     }
 
     // Set velocity directly
@@ -344,6 +612,17 @@ export class RigidBody extends Component {
         }
     }
 
+    // Jump the body to a world-space position (a respawn, a platform back at the start of its
+    // track). Moving a KINEMATIC body's transform is motion the physics step turns into
+    // velocity; a teleport is not, so it shoves nothing it lands in and flings no rider.
+    public teleport(x: number, y: number, z: number): void {
+        if (!this.gameObject) return;
+        this.gameObject.transform.setWorldPosition(x, y, z);
+        if (this.physicsBridge && this.wasmEntityId !== undefined) {
+            this.physicsBridge.teleportEntity(this.wasmEntityId, { x, y, z });
+        }
+    }
+
     // Runtime body-type transition, applied WASM-side too (e.g. a KINEMATIC elevator
     // whose cable snaps -> DYNAMIC and falls; the stored mass becomes live).
     public setBodyType(bodyType: BodyType): void {
@@ -353,6 +632,63 @@ export class RigidBody extends Component {
         }
     }
 
+    // Runtime trigger toggle, applied WASM-side (e.g. a checkpoint that turns solid once reached).
+    public setTrigger(isTrigger: boolean): void {
+        this.isTrigger = isTrigger;
+        if (this.physicsBridge && this.wasmEntityId !== undefined) {
+            this.physicsBridge.setTrigger(this.wasmEntityId, isTrigger);
+        }
+    }
+
+    // Runtime continuous-collision toggle, applied WASM-side (e.g. on while a thrown item is fast).
+    public setContinuousCollision(enabled: boolean): void {
+        this.continuousCollision = enabled;
+        if (this.physicsBridge && this.wasmEntityId !== undefined) {
+            this.physicsBridge.setContinuousCollision(this.wasmEntityId, enabled);
+        }
+    }
+
+    // Runtime layer/mask change, applied WASM-side (e.g. a projectile that starts hitting its
+    // owner's layer once it has left the barrel).
+    public setCollisionFilter(layer: number, mask: number): void {
+        this.collisionLayer = layer >>> 0;
+        this.collisionMask = mask >>> 0;
+        if (this.physicsBridge && this.wasmEntityId !== undefined) {
+            this.physicsBridge.setCollisionFilter(this.wasmEntityId, this.collisionLayer, this.collisionMask);
+        }
+    }
+
+    // Runtime material swap, applied WASM-side (e.g. a floor that ices over).
+    public setMaterial(material: PhysicsMaterial): void {
+        this.material = material;
+        if (this.physicsBridge && this.wasmEntityId !== undefined) {
+            this.physicsBridge.setPhysicsMaterial(this.wasmEntityId, material);
+        }
+    }
+
+    // Asleep: a settled DYNAMIC body WASM no longer simulates. Bodies touching each other sleep
+    // and wake together; forces, velocity changes, teleports and contact wake them.
+    public get isSleeping(): boolean {
+        if (!this.physicsBridge || this.wasmEntityId === undefined) return false;
+        return this.physicsBridge.isSleeping(this.wasmEntityId);
+    }
+
+    public wakeUp(): void {
+        if (this.physicsBridge && this.wasmEntityId !== undefined) {
+            this.physicsBridge.setSleeping(this.wasmEntityId, false);
+        }
+    }
+
+    // Stop the body where it is until something wakes it (still touching awake bodies, it is
+    // woken again on the next step)
+    public sleep(): void {
+        this.velocity = { x: 0, y: 0, z: 0 };
+        this.angularVelocity = { x: 0, y: 0, z: 0 };
+        if (this.physicsBridge && this.wasmEntityId !== undefined) {
+            this.physicsBridge.setSleeping(this.wasmEntityId, true);
+        }
+    }
+
     // Legacy convenience: kinematic <-> dynamic toggle on top of setBodyType.
     public setKinematic(kinematic: boolean): void {
         console.log(`🎮 RigidBody.setKinematic(${kinematic}) for "${this.gameObject?.name}"`);
@@ -383,6 +719,11 @@ export class RigidBody extends Component {
         this.physicsBridge = bridge;
     }
 
+    // The bridge simulating this body, once registered (joints added later register through it)
+    public getPhysicsBridge(): any {
+        return this.physicsBridge;
+    }
+
     // Collision shape configuration methods
     public setSphereCollider(radius: number): void {
         this.collisionShape = CollisionShape.SPHERE;
@@ -396,15 +737,49 @@ export class RigidBody extends Component {
         this.updateWasmCollisionShape();
     }
 
+    // Upright along Y; halfHeight is the full half-height, caps included (so radius <= halfHeight)
+    public setCapsuleCollider(radius: number, halfHeight: number): void {
+        this.collisionShape = CollisionShape.CAPSULE;
+        this.extents = { x: radius, y: Math.max(halfHeight, radius), z: radius };
+        this.updateWasmCollisionShape();
+    }
+
+    // Upright along Y, flat ends at ±halfHeight
+    public setCylinderCollider(radius: number, halfHeight: number): void {
+        this.collisionShape = CollisionShape.CYLINDER;
+        this.extents = { x: radius, y: halfHeight, z: radius };
+        this.updateWasmCollisionShape();
+    }
+
+    // The convex outline of the mesh's vertices, simplified to at most maxVertices points. Hulls
+    // are cached per mesh, so every body built from one mesh shares one hull in WASM.
+    public setConvexHullCollider(mesh: Mesh, maxVertices?: number): void {
+        this.convexHull = ConvexHull.fromMesh(mesh, maxVertices);
+        this.collisionShape = CollisionShape.HULL;
+        this.extents = { ...this.convexHull.extents };
+        this.updateWasmCollisionShape();
+    }
+
     public setPlaneCollider(normalX: number = 0, normalY: number = 1, normalZ: number = 0): void {
         this.collisionShape = CollisionShape.PLANE;
         this.extents = { x: normalX, y: normalY, z: normalZ };
         this.updateWasmCollisionShape();
     }
 
+    // Re-gather the Collider children into this body's compound (after adding, removing or
+    // moving them once the body is in the physics simulation)
+    public refreshColliders(): void {
+        this.updateWasmCollisionShape();
+    }
+
     // Update collision shape in WASM physics system
     private updateWasmCollisionShape(): void {
         if (this.physicsBridge && this.wasmEntityId !== undefined) {
+            if (this.physicsBridge.setCompoundCollider(this.wasmEntityId, this.gameObject)) return;
+            if (this.collisionShape === CollisionShape.HULL && this.convexHull) {
+                this.physicsBridge.setConvexHull(this.wasmEntityId, this.convexHull);
+                return;
+            }
             this.physicsBridge.setEntityCollisionShape(this.wasmEntityId, this.collisionShape, this.extents.x, this.extents.y, this.extents.z);
             console.log(`🔧 RigidBody.updateWasmCollisionShape() for entity ${this.wasmEntityId}: shape=${this.collisionShape}, extents=(${this.extents.x}, ${this.extents.y}, ${this.extents.z})`);
         }
@@ -437,6 +812,11 @@ export class CameraComponent extends Component {
     public target: [number, number, number] | null = null;
     public up: [number, number, number] = [0, 1, 0];
 
+    // Viewport size in device pixels, pushed by the Engine on mount and whenever the canvas
+    // resizes (0 until mounted). For screen-space math (picking, UI anchoring).
+    public viewportWidth = 0;
+    public viewportHeight = 0;
+
     constructor(
         isPerspective: boolean = true,
         fov: number = Math.PI / 4, // 45 degrees
@@ -497,6 +877,16 @@ export class CameraComponent extends Component {
         this.far = far;
     }
 
+    setViewportSize(width: number, height: number): void {
+        this.viewportWidth = width;
+        this.viewportHeight = height;
+    }
+
+    // Viewport aspect ratio (width / height); 1 until a viewport size is known.
+    get aspect(): number {
+        return this.viewportHeight > 0 ? this.viewportWidth / this.viewportHeight : 1;
+    }
+
     // ── View / projection ────────────────────────────────────────────────────────────
     // 3a: the camera's position IS its GameObject's transform.position (unified); orientation
     // is a look-direction (target/up). View matrix reuses the proven eye/target/up look-at math.
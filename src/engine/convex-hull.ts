@@ -0,0 +1,163 @@
+// src/engine/convex-hull.ts
+// Convex hull colliders: the outline of a Mesh's vertices as a point set for GJK/EPA
+
+import type { Vector3 } from './components';
+import type { Mesh } from './mesh';
+
+// Most points WASM takes per hull (mirrors MAX_HULL_VERTICES in game_engine.zig)
+export const MAX_HULL_VERTICES = 64;
+export const DEFAULT_HULL_VERTICES = 32;
+
+// Vertices closer than this (per axis) are the same point (seams, split normals)
+const WELD_EPSILON = 1e-5;
+
+// Directions sampled for extreme points when a mesh has more than the cap: the corners,
+// faces and edges of a cube first (so the bounding box is kept), then a Fibonacci sphere
+const SPHERE_SAMPLES = 256;
+const SAMPLE_DIRECTIONS: Vector3[] = (() => {
+    const directions: Vector3[] = [];
+    const cubeDirections: Vector3[] = [];
+    for (const x of [-1, 0, 1]) {
+        for (const y of [-1, 0, 1]) {
+            for (const z of [-1, 0, 1]) {
+                if (x !== 0 || y !== 0 || z !== 0) cubeDirections.push({ x, y, z });
+            }
+        }
+    }
+    // Corners, then faces, then edges
+    const zeros = (d: Vector3) => (d.x === 0 ? 1 : 0) + (d.y === 0 ? 1 : 0) + (d.z === 0 ? 1 : 0);
+    const order = [0, 2, 1];
+    cubeDirections.sort((a, b) => order.indexOf(zeros(a)) - order.indexOf(zeros(b)));
+    directions.push(...cubeDirections);
+
+    const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+    for (let i = 0; i < SPHERE_SAMPLES; i++) {
+        const y = 1 - (2 * (i + 0.5)) / SPHERE_SAMPLES;
+        const r = Math.sqrt(1 - y * y);
+        directions.push({ x: r * Math.cos(i * goldenAngle), y, z: r * Math.sin(i * goldenAngle) });
+    }
+    return directions;
+})();
+
+/**
+ * A convex collider for shapes that are not primitives (a pyramid, an imported prop): the
+ * convex outline of a mesh's vertices, in the mesh's space. A mesh with more distinct vertices
+ * than `maxVertices` is simplified to that many extreme points, bounding box corners first,
+ * then the ones farthest from those already kept (so detail is lost evenly, never the size).
+ *
+ * Hulls are shared: `fromMesh` returns the same hull for the same mesh and cap, and the physics
+ * bridge uploads each hull to WASM once, however many bodies use it:
+ *
+ *     rock.getComponent(RigidBody)!.setConvexHullCollider(rockMesh);
+ *
+ * Like every collider, a hull is axis-aligned (the body's scale stretches it, its rotation
+ * does not turn it).
+ */
+export class ConvexHull {
+    private static readonly byMesh = new WeakMap<Mesh, Map<number, ConvexHull>>();
+
+    public readonly points: Float32Array; // x, y, z per hull point
+    public readonly extents: Vector3; // Half-size of the box around the origin holding the points
+
+    private constructor(points: Vector3[]) {
+        this.points = new Float32Array(points.flatMap(p => [p.x, p.y, p.z]));
+        this.extents = {
+            x: Math.max(0, ...points.map(p => Math.abs(p.x))),
+            y: Math.max(0, ...points.map(p => Math.abs(p.y))),
+            z: Math.max(0, ...points.map(p => Math.abs(p.z))),
+        };
+    }
+
+    public get vertexCount(): number {
+        return this.points.length / 3;
+    }
+
+    static fromMesh(mesh: Mesh, maxVertices: number = DEFAULT_HULL_VERTICES): ConvexHull {
+        let hulls = ConvexHull.byMesh.get(mesh);
+        if (!hulls) {
+            hulls = new Map();
+            ConvexHull.byMesh.set(mesh, hulls);
+        }
+        let hull = hulls.get(maxVertices);
+        if (!hull) {
+            hull = ConvexHull.fromPoints(mesh.data.vertices, maxVertices);
+            hulls.set(maxVertices, hull);
+        }
+        return hull;
+    }
+
+    // From flat x, y, z coordinates (not cached)
+    static fromPoints(vertices: ArrayLike<number>, maxVertices: number = DEFAULT_HULL_VERTICES): ConvexHull {
+        if (!Number.isInteger(maxVertices) || maxVertices < 4 || maxVertices > MAX_HULL_VERTICES) {
+            throw new Error(`ConvexHull: maxVertices must be an integer from 4 to ${MAX_HULL_VERTICES} (got ${maxVertices})`);
+        }
+        const points = weldPoints(vertices);
+        if (points.length === 0) {
+            throw new Error('ConvexHull: no vertices to build a hull from');
+        }
+        return new ConvexHull(points.length <= maxVertices ? points : simplify(points, maxVertices));
+    }
+}
+
+function weldPoints(vertices: ArrayLike<number>): Vector3[] {
+    const seen = new Set<string>();
+    const points: Vector3[] = [];
+    for (let i = 0; i + 2 < vertices.length; i += 3) {
+        const point = { x: vertices[i]!, y: vertices[i + 1]!, z: vertices[i + 2]! };
+        const key = `${Math.round(point.x / WELD_EPSILON)},${Math.round(point.y / WELD_EPSILON)},${Math.round(point.z / WELD_EPSILON)}`;
+        if (!seen.has(key)) {
+            seen.add(key);
+            points.push(point);
+        }
+    }
+    return points;
+}
+
+// `maxVertices` of the points' extremes: those of the cube directions first, then the
+// sampled extremes farthest from everything kept so far
+function simplify(points: Vector3[], maxVertices: number): Vector3[] {
+    const extremes: number[] = [];
+    let cubeExtremes = 0;
+    SAMPLE_DIRECTIONS.forEach((direction, i) => {
+        const index = supportIndex(points, direction);
+        if (!extremes.includes(index)) {
+            extremes.push(index);
+            if (i < 26) cubeExtremes++;
+        }
+    });
+
+    const kept = extremes.slice(0, Math.min(cubeExtremes, maxVertices));
+    const candidates = extremes.slice(kept.length);
+    const gap = candidates.map(c => Math.min(...kept.map(k => distanceSquared(points[c]!, points[k]!))));
+    while (kept.length < maxVertices && candidates.length > 0) {
+        let farthest = 0;
+        for (let i = 1; i < candidates.length; i++) {
+            if (gap[i]! > gap[farthest]!) farthest = i;
+        }
+        const index = candidates[farthest]!;
+        kept.push(index);
+        candidates.splice(farthest, 1);
+        gap.splice(farthest, 1);
+        for (let i = 0; i < candidates.length; i++) {
+            gap[i] = Math.min(gap[i]!, distanceSquared(points[candidates[i]!]!, points[index]!));
+        }
+    }
+    return kept.map(i => points[i]!);
+}
+
+function supportIndex(points: Vector3[], direction: Vector3): number {
+    let best = 0;
+    let bestReach = -Infinity;
+    points.forEach((p, i) => {
+        const reach = p.x * direction.x + p.y * direction.y + p.z * direction.z;
+        if (reach > bestReach) {
+            bestReach = reach;
+            best = i;
+        }
+    });
+    return best;
+}
+
+function distanceSquared(a: Vector3, b: Vector3): number {
+    return (a.x - b.x) ** 2 + (a.y - b.y) ** 2 + (a.z - b.z) ** 2;
+}
@@ -15,8 +15,18 @@
 // reusing the device (no Engine reset()/switchScene() needed):
 //   await engine.loadScene(buildScene()); engine.start();   // rewind current level
 //   await engine.loadScene(buildOther());  engine.start();   // switch to another level
+//
+// By default physics steps once per rendered frame with the (clamped) frame delta. Pass
+// `fixedTimestep` to step physics at a constant rate instead, independent of the display's
+// refresh rate; rendering then interpolates between the last two physics states:
+//   const engine = new Engine('webgpu-canvas', { fixedTimestep: 1 / 60, maxSubsteps: 5 });
+//
+// To see what physics sees (colliders, contacts, velocities, sleep), turn on the debug overlay,
+// at construction or at any time while running:
+//   engine.setPhysicsDebugDraw(PhysicsDebugDraw.COLLIDERS | PhysicsDebugDraw.CONTACTS);
 
-import { WebGPURendererV2 } from '../renderer/webgpu.renderer';
+import { WebGPURendererV2, RendererOptions } from '../renderer/webgpu.renderer';
+import { GPUBufferManager } from '../renderer/gpu-buffer-manager';
 import { RenderMode } from '../renderer/mesh-registry';
 import { Scene, SceneRuntime } from './scene-system';
 import { BodyType, MeshRenderer, RigidBody } from './components';
@@ -24,6 +34,24 @@ import { Mesh } from './mesh';
 import { GameObject } from './gameobject';
 import { WasmLoader } from './wasm-loader';
 import { WasmPhysicsBridge, WasmPhysicsInterface } from './wasm-physics-bridge';
+import type { PhysicsSettings } from './physics-settings';
+import { PhysicsDebugDraw } from './physics-debug-draw';
+import { interpolateTransform } from '../utils/math-utils';
+
+export interface EngineOptions {
+    /** Physics step in seconds (e.g. 1/60). Omit to step physics once per frame (variable). */
+    fixedTimestep?: number;
+    /** Fixed-step mode: most physics steps per frame; longer stalls are dropped (default 5). */
+    maxSubsteps?: number;
+    /** Fixed-step mode: interpolate rendered transforms between physics states (default true). */
+    interpolate?: boolean;
+    /** Canvas resolution relative to devicePixelRatio (default 1); see setRenderScale(). */
+    renderScale?: number;
+    /** Cap on devicePixelRatio × renderScale (default 2). */
+    maxRenderScale?: number;
+    /** Physics debug overlay to start with (default off); see setPhysicsDebugDraw(). */
+    physicsDebugDraw?: PhysicsDebugDraw | boolean;
+}
 
 export class Engine implements SceneRuntime {
     private canvas: HTMLCanvasElement;
@@ -45,16 +73,45 @@ export class Engine implements SceneRuntime {
     // (undefined when not running). Set on every frame; see start().
     private animationId: number | undefined = undefined;
     private lastTime = 0;
-
-    constructor(canvas: HTMLCanvasElement | string) {
+    // Fixed-step mode (undefined = variable step). See EngineOptions.
+    private readonly fixedTimestep: number | undefined;
+    private readonly maxSubsteps: number;
+    private readonly interpolate: boolean;
+    // Frame time not yet consumed by a physics step (fixed-step mode only).
+    private accumulator = 0;
+    // Instance data as it was before the most recent physics step, for render interpolation.
+    // Undefined until the first step after a (re)start.
+    private previousInstances: Float32Array | undefined = undefined;
+    private interpolatedInstances: Float32Array | undefined = undefined;
+    private readonly rendererOptions: RendererOptions;
+    // What the physics debug overlay draws (PhysicsDebugDraw flags; NONE = off)
+    private physicsDebugFlags: number = PhysicsDebugDraw.NONE;
+
+    constructor(canvas: HTMLCanvasElement | string, options: EngineOptions = {}) {
         const element = typeof canvas === 'string' ? document.getElementById(canvas) : canvas;
         if (!element) {
             throw new Error(`Engine: canvas '${canvas}' not found`);
         }
         this.canvas = element as HTMLCanvasElement;
+
+        const { fixedTimestep, maxSubsteps = 5, interpolate = true, renderScale, maxRenderScale, physicsDebugDraw = false } = options;
+        if (fixedTimestep !== undefined && !(fixedTimestep > 0)) {
+            throw new Error(`Engine: fixedTimestep must be > 0 (got ${fixedTimestep})`);
+        }
+        if (!(maxSubsteps >= 1) || !Number.isFinite(maxSubsteps)) {
+            throw new Error(`Engine: maxSubsteps must be a finite number >= 1 (got ${maxSubsteps})`);
+        }
+        this.fixedTimestep = fixedTimestep;
+        this.maxSubsteps = Math.floor(maxSubsteps);
+        this.interpolate = interpolate;
+        this.rendererOptions = {
+            ...(renderScale !== undefined && { renderScale }),
+            ...(maxRenderScale !== undefined && { maxRenderScale }),
+        };
+        this.setPhysicsDebugDraw(physicsDebugDraw);
     }
 
-    /** The current scene's physics bridge (for debug/console hooks). Undefined until loadScene(). */
+    /** The current scene's physics bridge (SceneRuntime; debug/console hooks). Undefined until loadScene(). */
     get physicsBridge(): WasmPhysicsBridge | undefined {
         return this.bridge;
     }
@@ -67,7 +124,9 @@ export class Engine implements SceneRuntime {
     /** Initialize the WebGPU renderer and load the shared WASM physics module (once). */
     async init(): Promise<void> {
         this.renderer = new WebGPURendererV2();
-        await this.renderer.init(this.canvas);
+        await this.renderer.init(this.canvas, this.rendererOptions);
+        // Keep the mounted scene's camera in step with the canvas (see Scene.camera).
+        this.renderer.onResize((width, height) => this.currentScene?.camera.setViewportSize(width, height));
 
         const wasm = await WasmLoader.loadPhysicsModule();
         if (!wasm) {
@@ -76,6 +135,35 @@ export class Engine implements SceneRuntime {
         this.wasm = wasm;
     }
 
+    /**
+     * Set the canvas resolution relative to devicePixelRatio (1 = native, 0.5 = half-res for
+     * speed). Capped by EngineOptions.maxRenderScale; resizes the canvas immediately.
+     */
+    setRenderScale(scale: number): void {
+        if (!this.renderer) {
+            throw new Error('Engine.setRenderScale(): call init() first');
+        }
+        this.renderer.setRenderScale(scale);
+    }
+
+    /**
+     * Draw what physics sees over the scene: `true` for everything, `false` to turn it off, or
+     * PhysicsDebugDraw flags combined with |. Collider wireframes show where physics has each
+     * body, so a collider that does not match its mesh (RigidBody extents vs transform scale)
+     * stands out. Takes effect on the next rendered frame.
+     */
+    setPhysicsDebugDraw(draw: PhysicsDebugDraw | number | boolean): void {
+        this.physicsDebugFlags = draw === true ? PhysicsDebugDraw.ALL : draw === false ? PhysicsDebugDraw.NONE : draw;
+        if (this.physicsDebugFlags === PhysicsDebugDraw.NONE) {
+            this.renderer?.setDebugLines(undefined);
+        }
+    }
+
+    /** PhysicsDebugDraw flags of the physics debug overlay (NONE when it is off). */
+    get physicsDebugDraw(): number {
+        return this.physicsDebugFlags;
+    }
+
     /**
      * Register a mesh for runtime-spawned objects whose mesh isn't present in the initial
      * scene tree (loadScene only auto-registers meshes it finds on the scene's MeshRenderers).
@@ -117,9 +205,11 @@ export class Engine implements SceneRuntime {
             registered.add(mesh.id);
         }
 
-        // 2. Fresh physics world for this scene (init() resets the shared WASM world to empty).
+        // 2. Fresh physics world for this scene (init() resets the shared WASM world to empty),
+        // set up as the scene says (the settings outlive init(), so every load applies them).
         this.bridge = new WasmPhysicsBridge();
         await this.bridge.init(this.wasm);
+        this.bridge.applyPhysicsSettings(scene.physicsSettings);
 
         // 3. Register every entity (mesh index + WASM) in one fail-loud pass.
         const failures: string[] = [];
@@ -133,6 +223,7 @@ export class Engine implements SceneRuntime {
 
         // 4. Bind runtime (so late adds/removes register through the Engine), then awake.
         scene.bindRuntime(this);
+        scene.camera.setViewportSize(this.canvas.width, this.canvas.height);
         scene.awake();
 
         this.currentScene = scene;
@@ -196,6 +287,11 @@ export class Engine implements SceneRuntime {
         this.bridge?.removePhysicsEntity(gameObject.id);
     }
 
+    // SceneRuntime: the mounted scene's PhysicsSettings changed.
+    applyPhysicsSettings(settings: PhysicsSettings): void {
+        this.bridge?.applyPhysicsSettings(settings);
+    }
+
     /** Unmount the current scene: tear down its input, drop its physics world + renderer meshes. */
     private unloadCurrent(): void {
         if (!this.currentScene) return;
@@ -203,6 +299,7 @@ export class Engine implements SceneRuntime {
         this.renderer?.clearMeshes();
         this.bridge = undefined;
         this.currentScene = undefined;
+        this.resetFixedStepState();
     }
 
     // One frame of the runtime: component/input update → physics step → render.
@@ -214,8 +311,78 @@ export class Engine implements SceneRuntime {
         this.render();
     }
 
-    // Render the current scene: map WASM instance data → GPU, push the camera, draw.
-    render(): void {
+    // One frame in fixed-step mode: components update once with the real frame delta, then
+    // physics consumes the accumulated time in whole `step`s, then render interpolates by the
+    // leftover fraction of a step. Frame time is capped at maxSubsteps steps (spiral-of-death
+    // guard): a stall drops the excess rather than queueing ever more catch-up steps.
+    private fixedTick(frameTime: number, step: number): void {
+        const scene = this.currentScene;
+        if (!scene) return;
+        const deltaTime = Math.min(frameTime, step * this.maxSubsteps);
+        scene.updateComponents(deltaTime);
+        // Scripts moved kinematic bodies for the whole frame: spread that over its steps
+        this.bridge?.setKinematicMoveTime(deltaTime);
+
+        this.accumulator += deltaTime;
+        const steps = Math.min(Math.floor(this.accumulator / step), this.maxSubsteps);
+        for (let i = 0; i < steps; i++) {
+            if (i === steps - 1 && this.interpolate) {
+                this.capturePreviousInstances();
+            }
+            this.bridge?.update(step);
+        }
+        this.accumulator = Math.min(this.accumulator - steps * step, step);
+
+        this.render(this.interpolate ? this.accumulator / step : 1);
+    }
+
+    private resetFixedStepState(): void {
+        this.accumulator = 0;
+        this.previousInstances = undefined;
+    }
+
+    // Copy the WASM instance data (pre-step state) so render() can blend toward the new state.
+    private capturePreviousInstances(): void {
+        const bridge = this.bridge;
+        if (!bridge?.hasWasmModule()) return;
+        const wasmMemory = bridge.getWasmMemory();
+        const transformsOffset = bridge.getEntityTransformsOffset();
+        if (!wasmMemory || transformsOffset === undefined) return;
+
+        const length = bridge.getStats().entityCount * GPUBufferManager.INSTANCE_FLOATS;
+        if (this.previousInstances?.length !== length) {
+            this.previousInstances = new Float32Array(length);
+        }
+        this.previousInstances.set(new Float32Array(wasmMemory, transformsOffset, length));
+    }
+
+    // Blend each instance's transform from the previous physics state toward the current one
+    // (position and scale linearly, rotation by slerp; colors and other per-instance data come from the current state). Returns undefined when
+    // the entity set changed since the capture, in which case render() draws the current state.
+    private interpolateInstances(wasmMemory: ArrayBuffer, transformsOffset: number, entityCount: number, alpha: number): Float32Array | undefined {
+        const previous = this.previousInstances;
+        const floats = GPUBufferManager.INSTANCE_FLOATS;
+        const length = entityCount * floats;
+        if (!previous || previous.length !== length) return undefined;
+
+        const current = new Float32Array(wasmMemory, transformsOffset, length);
+        if (this.interpolatedInstances?.length !== length) {
+            this.interpolatedInstances = new Float32Array(length);
+        }
+        const out = this.interpolatedInstances;
+        out.set(current);
+        for (let base = 0; base < length; base += floats) {
+            interpolateTransform(previous, current, alpha, out, base);
+        }
+        return out;
+    }
+
+    /**
+     * Render the current scene: map WASM instance data → GPU, push the camera, draw.
+     * `alpha` (fixed-step mode) is how far the frame lies between the previous and the current
+     * physics state; transforms are blended by it. 1 (the default) draws the current state as is.
+     */
+    render(alpha: number = 1): void {
         if (!this.renderer || !this.bridge || !this.currentScene) return;
         if (!this.bridge.hasWasmModule()) return;
 
@@ -233,7 +400,17 @@ export class Engine implements SceneRuntime {
             return;
         }
 
-        this.renderer.mapInstanceDataFromWasm(wasmMemory, transformsOffset, entityCount);
+        const interpolated = alpha < 1
+            ? this.interpolateInstances(wasmMemory, transformsOffset, entityCount, alpha)
+            : undefined;
+        if (interpolated) {
+            this.renderer.mapInstanceDataFromWasm(interpolated.buffer as ArrayBuffer, 0, entityCount);
+        } else {
+            this.renderer.mapInstanceDataFromWasm(wasmMemory, transformsOffset, entityCount);
+        }
+        if (this.physicsDebugFlags !== PhysicsDebugDraw.NONE) {
+            this.renderer.setDebugLines(this.bridge.getDebugLines(this.physicsDebugFlags));
+        }
         const aspect = this.renderer.getAspectRatio();
         this.renderer.updateCamera(this.currentScene.getViewProjectionMatrix(aspect));
         this.renderer.render(this.bridge.getWasmModule());
@@ -244,6 +421,8 @@ export class Engine implements SceneRuntime {
      * already running warns and no-ops (no duplicate rAF loop). The component start() lifecycle
      * runs only once per mount (hasStarted latch), so resuming after stop() does not re-run it.
      * Reseeds the frame clock, so a freshly-loaded scene always starts from the same elapsed time.
+     * In fixed-step mode (EngineOptions.fixedTimestep) physics runs at the configured rate and
+     * components update once per frame; otherwise both run once per frame.
      */
     start(): void {
         if (!this.currentScene) {
@@ -262,15 +441,20 @@ export class Engine implements SceneRuntime {
 
         this.running = true;
         this.lastTime = performance.now();
+        this.resetFixedStepState();
 
         // Self-rescheduling rAF loop: each frame computes a clamped delta, updates the scene,
         // then queues the next frame (recording its handle so stop() can cancel it). The
         // `running` guard makes a cancelled frame a no-op if one is already in flight.
         const loop = (now: number): void => {
             if (!this.running) return;
-            const deltaTime = Math.min((now - this.lastTime) / 1000, 1 / 30); // clamp at 30fps
+            const frameTime = (now - this.lastTime) / 1000;
             this.lastTime = now;
-            this.tick(deltaTime);
+            if (this.fixedTimestep !== undefined) {
+                this.fixedTick(frameTime, this.fixedTimestep);
+            } else {
+                this.tick(Math.min(frameTime, 1 / 30)); // clamp at 30fps
+            }
             this.animationId = requestAnimationFrame(loop);
         };
         this.animationId = requestAnimationFrame(loop);
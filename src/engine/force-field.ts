@@ -0,0 +1,122 @@
+// src/engine/force-field.ts
+// Force fields: volumes that push the DYNAMIC bodies in them (wind, gravity wells, vortices, water)
+
+import { Component, CollisionShape, ForceMode, Vector3 } from './components';
+import type { WasmPhysicsBridge } from './wasm-physics-bridge';
+import type { Scene } from './scene-system';
+import { ALL_LAYERS } from './collision-layers';
+
+// What a field does to the bodies in it (mirrors ForceFieldType in game_engine.zig)
+export enum ForceFieldType {
+    // eslint-disable-next-line no-unused-vars
+    DIRECTIONAL = 0, // Pushes along `direction` (wind)
+    // eslint-disable-next-line no-unused-vars
+    RADIAL = 1, // Pulls towards the center, pushes away with a negative strength (gravity wells)
+    // eslint-disable-next-line no-unused-vars
+    VORTEX = 2, // Pushes around `direction`, counter-clockwise looking down it
+    // eslint-disable-next-line no-unused-vars
+    BUOYANCY = 3, // A fluid filling the volume up to its top: floats and drags what is under
+}
+
+// How the push weakens with the distance from the field's center (from a vortex's axis)
+// (mirrors ForceFieldFalloff in game_engine.zig)
+export enum ForceFieldFalloff {
+    // eslint-disable-next-line no-unused-vars
+    NONE = 0,
+    // eslint-disable-next-line no-unused-vars
+    LINEAR = 1, // Down to nothing at the field's edge (a box's corner)
+    // eslint-disable-next-line no-unused-vars
+    INVERSE_SQUARE = 2, // As 1/d², `strength` being the push 1 m out
+}
+
+export interface ForceFieldOptions {
+    type?: ForceFieldType;
+    shape?: CollisionShape.SPHERE | CollisionShape.BOX; // Default BOX
+    extents?: Vector3; // Half-size of a box (default 0.5 on each axis)
+    radius?: number; // Of a sphere (default 0.5)
+    direction?: Vector3; // In the GameObject's local space: the wind's direction, the vortex axis (default up)
+    strength?: number; // m/s², or N with ForceMode.FORCE
+    forceMode?: ForceMode.ACCELERATION | ForceMode.FORCE; // Default ACCELERATION: every mass alike
+    falloff?: ForceFieldFalloff;
+    layerMask?: number; // Collision layers it pushes (default all)
+    density?: number; // BUOYANCY: kg/m³ (default 2: a 1 m³ crate of 1 kg floats half under)
+    drag?: number; // BUOYANCY: share of velocity and spin lost per second fully under (default 1)
+}
+
+/**
+ * A volume that pushes the DYNAMIC bodies whose collider overlaps it, evaluated in the WASM
+ * physics step. The field sits at its GameObject's world position and turns with it (its
+ * extents are not scaled); it needs neither a MeshRenderer nor a RigidBody:
+ *
+ *     const tunnel = new GameObject(undefined, 'wind-tunnel');
+ *     tunnel.transform.setPosition(0, 2, 0);
+ *     tunnel.addComponent(new ForceField({ extents: { x: 4, y: 2, z: 2 }, direction: { x: 1, y: 0, z: 0 }, strength: 12 }));
+ *     scene.addGameObject(tunnel);
+ *
+ *     pool.addComponent(new ForceField({ type: ForceFieldType.BUOYANCY, extents: { x: 5, y: 1, z: 5 } }));
+ *
+ * Settings are public and changes apply on the next physics step. The field enters the
+ * simulation with its GameObject (one added to a GameObject in a running scene enters at once)
+ * and leaves with it or when the component is removed.
+ */
+export class ForceField extends Component {
+    public readonly type: ForceFieldType;
+    public readonly shape: CollisionShape.SPHERE | CollisionShape.BOX;
+    public extents: Vector3;
+    public direction: Vector3;
+    public strength: number;
+    public forceMode: ForceMode.ACCELERATION | ForceMode.FORCE;
+    public falloff: ForceFieldFalloff;
+    public layerMask: number;
+    public density: number;
+    public drag: number;
+
+    // Set by the physics bridge while the field is in the simulation
+    private physicsBridge: WasmPhysicsBridge | undefined;
+    private fieldId: number | undefined;
+
+    constructor(opts: ForceFieldOptions = {}) {
+        super();
+        this.type = opts.type ?? ForceFieldType.DIRECTIONAL;
+        this.shape = opts.shape ?? CollisionShape.BOX;
+        const radius = opts.radius ?? 0.5;
+        this.extents = this.shape === CollisionShape.SPHERE ? { x: radius, y: radius, z: radius } : { ...(opts.extents ?? { x: 0.5, y: 0.5, z: 0.5 }) };
+        this.direction = { ...(opts.direction ?? { x: 0, y: 1, z: 0 }) };
+        this.strength = opts.strength ?? 0;
+        this.forceMode = opts.forceMode ?? ForceMode.ACCELERATION;
+        this.falloff = opts.falloff ?? ForceFieldFalloff.NONE;
+        this.layerMask = opts.layerMask ?? ALL_LAYERS;
+        this.density = opts.density ?? 2;
+        this.drag = opts.drag ?? 1;
+    }
+
+    override awake(): void {
+        // Added to a GameObject in a running scene: enter the simulation at once
+        const scene: Scene | null | undefined = this.gameObject?.getScene();
+        scene?.physicsBridge?.addForceField(this);
+    }
+
+    override destroy(): void {
+        this.physicsBridge?.removeForceField(this);
+    }
+
+    public get isRegistered(): boolean {
+        return this.fieldId !== undefined;
+    }
+
+    public getFieldId(): number | undefined {
+        return this.fieldId;
+    }
+
+    // Called by the physics bridge when the field enters the simulation...
+    public attach(bridge: WasmPhysicsBridge, fieldId: number): void {
+        this.physicsBridge = bridge;
+        this.fieldId = fieldId;
+    }
+
+    // ...and when it leaves it
+    public detach(): void {
+        this.physicsBridge = undefined;
+        this.fieldId = undefined;
+    }
+}
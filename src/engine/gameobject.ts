@@ -108,11 +108,13 @@ export class GameObject {
             oldParent?.removeChild(child.id);
         }
         
-        // Set new parent relationship
+        // Set new parent relationship (keeps the child's local transform, so its world
+        // transform now follows this GameObject)
         child.parentId = this.id;
         if (!this.childIds.includes(child.id)) {
             this.childIds.push(child.id);
         }
+        child.transform.markDirty();
     }
     
     removeChild(childId: string): void {
@@ -125,6 +127,7 @@ export class GameObject {
                 const child = this.scene.getGameObject(childId);
                 if (child) {
                     delete child.parentId;
+                    child.transform.markDirty();
                 }
             }
         }
@@ -1,6 +1,7 @@
 // Input controller system for managing different input targets (camera, GameObjects)
 import { GameObject } from './gameobject';
 import { RigidBody, CameraComponent } from './components';
+import { CharacterController } from './character-controller';
 
 export interface InputController {
     handleInput(key: number, pressed: boolean): void;
@@ -77,10 +78,12 @@ export class CameraController implements InputController {
  * WASD: Apply forces in X/Z plane
  * Space: Apply upward force
  * -: Apply downward force
+ * Gamepad rotation-yaw/pitch/roll: Apply torque about Y/X/Z
  */
 export class GameObjectController implements InputController {
     private gameObject: GameObject;
     private forceStrength: number = 1.0;
+    private torqueStrength: number = 2.0;
     private currentInputState = new Set<number>();
 
     constructor(gameObject: GameObject, forceStrength: number = 2.0) {
@@ -127,8 +130,16 @@ export class GameObjectController implements InputController {
             rigidBody.applyForce(force.x, force.y, force.z);
         }
 
-        // TODO: Add rotation support for rotation-yaw (1031), rotation-pitch (1032), rotation-roll (1033)
-        // This would require adding rotation methods to the physics bridge
+        const torque = { x: 0, y: 0, z: 0 };
+
+        // Gamepad virtual keys for rotation (torque about the world axes)
+        if (this.currentInputState.has(1031)) torque.y += this.torqueStrength;  // rotation-yaw
+        if (this.currentInputState.has(1032)) torque.x += this.torqueStrength;  // rotation-pitch
+        if (this.currentInputState.has(1033)) torque.z += this.torqueStrength;  // rotation-roll
+
+        if (torque.x || torque.y || torque.z) {
+            rigidBody.applyTorque(torque.x, torque.y, torque.z);
+        }
     }
 
     setForceStrength(strength: number): void {
@@ -139,6 +150,69 @@ export class GameObjectController implements InputController {
         return this.forceStrength;
     }
 
+    setTorqueStrength(strength: number): void {
+        this.torqueStrength = strength;
+    }
+
+    getTorqueStrength(): number {
+        return this.torqueStrength;
+    }
+
+    getGameObject(): GameObject {
+        return this.gameObject;
+    }
+}
+
+/**
+ * CharacterInputController - Walks a GameObject's CharacterController
+ * WASD: Walk forward/back/left/right
+ * Space: Jump
+ * Gamepad force-forward/back/left/right: Walk; force-up: Jump
+ */
+export class CharacterInputController implements InputController {
+    private gameObject: GameObject;
+    private currentInputState = new Set<number>();
+
+    constructor(gameObject: GameObject) {
+        this.gameObject = gameObject;
+    }
+
+    handleInput(key: number, pressed: boolean): void {
+        if (pressed) {
+            // A jump per press, not per key repeat
+            if ((key === 32 || key === 1015) && !this.currentInputState.has(key)) {
+                this.gameObject.getComponent(CharacterController)?.jump();
+            }
+            this.currentInputState.add(key);
+        } else {
+            this.currentInputState.delete(key);
+        }
+    }
+
+    update(_deltaTime: number): void {
+        const controller = this.gameObject.getComponent(CharacterController);
+        if (!controller) {
+            console.warn(`CharacterInputController: GameObject "${this.gameObject.name}" has no CharacterController component`);
+            return;
+        }
+
+        const move = { x: 0, z: 0 };
+
+        // WASD keyboard walking
+        if (this.currentInputState.has(87)) move.z -= 1;  // W - forward
+        if (this.currentInputState.has(83)) move.z += 1;  // S - backward
+        if (this.currentInputState.has(68)) move.x += 1;  // D - right
+        if (this.currentInputState.has(65)) move.x -= 1;  // A - left
+
+        // Gamepad virtual keys (left stick / D-pad)
+        if (this.currentInputState.has(1011)) move.z -= 1;  // force-forward
+        if (this.currentInputState.has(1012)) move.z += 1;  // force-back
+        if (this.currentInputState.has(1013)) move.x -= 1;  // force-left
+        if (this.currentInputState.has(1014)) move.x += 1;  // force-right
+
+        controller.setMoveInput(Math.max(-1, Math.min(1, move.x)), Math.max(-1, Math.min(1, move.z)));
+    }
+
     getGameObject(): GameObject {
         return this.gameObject;
     }
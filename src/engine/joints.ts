@@ -0,0 +1,282 @@
+// src/engine/joints.ts
+// Joints: constraints tying a GameObject's RigidBody to another body or to the world
+
+import { Component, RigidBody, Vector3 } from './components';
+import type { GameObject } from './gameobject';
+import type { WasmPhysicsBridge } from './wasm-physics-bridge';
+import { transformPoint } from '../utils/math-utils';
+
+// Constraint kinds (mirrors JointType in game_engine.zig)
+export enum JointType {
+    // eslint-disable-next-line no-unused-vars
+    DISTANCE = 0,
+    // eslint-disable-next-line no-unused-vars
+    ROPE = 1,
+    // eslint-disable-next-line no-unused-vars
+    BALL_SOCKET = 2,
+    // eslint-disable-next-line no-unused-vars
+    HINGE = 3,
+    // eslint-disable-next-line no-unused-vars
+    FIXED = 4,
+    // eslint-disable-next-line no-unused-vars
+    SPRING = 5,
+}
+
+export interface JointOptions {
+    // Body to tie this one to; null/omitted pins it to the world
+    connectedBody?: GameObject | null;
+    // Where the joint sits on this body, in its local space (default: its origin)
+    anchor?: Vector3;
+    // Where it sits on the connected body, in that body's local space (a world point when
+    // pinned to the world). Default: wherever `anchor` is when the joint is registered.
+    connectedAnchor?: Vector3;
+    // Let the two bodies collide with each other (off by default: jointed parts overlap)
+    collideConnected?: boolean;
+}
+
+const DEG2RAD = Math.PI / 180;
+
+/**
+ * Base of the joint components. A joint lives on a GameObject with a RigidBody and ties it to
+ * `connectedBody` (another GameObject with a RigidBody) or to the world. Lengths, the hinge
+ * angle's zero and a weld's relative orientation are taken from where the bodies stand when
+ * the joint is registered, which happens once both bodies are in the physics simulation:
+ *
+ *     link.addComponent(new BallSocketJoint({ connectedBody: previousLink, anchor: { x: 0, y: 0.5, z: 0 } }));
+ *
+ * The joint goes away with either body (Scene.removeGameObject) or when the component is
+ * removed. Only one joint of each kind fits on a GameObject; put further ones on the other body.
+ */
+export abstract class Joint extends Component {
+    public abstract readonly type: JointType;
+    public readonly connectedBody: GameObject | null;
+    public readonly anchor: Vector3;
+    public readonly connectedAnchor: Vector3 | undefined;
+    public readonly collideConnected: boolean;
+
+    // Set by the physics bridge while the joint is in the simulation
+    protected physicsBridge: WasmPhysicsBridge | undefined;
+    protected jointId: number | undefined;
+
+    constructor(opts: JointOptions = {}) {
+        super();
+        this.connectedBody = opts.connectedBody ?? null;
+        this.anchor = opts.anchor ?? { x: 0, y: 0, z: 0 };
+        this.connectedAnchor = opts.connectedAnchor;
+        this.collideConnected = opts.collideConnected ?? false;
+    }
+
+    // Joints added to a GameObject that is already simulated register themselves; the rest are
+    // registered by the bridge with their GameObject.
+    override awake(): void {
+        const bridge = this.gameObject?.getComponent(RigidBody)?.getPhysicsBridge();
+        bridge?.addJoint(this);
+    }
+
+    override destroy(): void {
+        this.physicsBridge?.removeJoint(this);
+    }
+
+    public get isRegistered(): boolean {
+        return this.jointId !== undefined;
+    }
+
+    public getJointId(): number | undefined {
+        return this.jointId;
+    }
+
+    // Called by the physics bridge when the joint enters the simulation (pushes its settings)...
+    public attach(bridge: WasmPhysicsBridge, jointId: number): void {
+        this.physicsBridge = bridge;
+        this.jointId = jointId;
+        this.applySettings();
+    }
+
+    // ...and when it leaves it (removed, or one of its bodies was)
+    public detach(): void {
+        this.physicsBridge = undefined;
+        this.jointId = undefined;
+    }
+
+    // Joint axis in this body's local space (only hinges use it)
+    public get localAxis(): Vector3 {
+        return { x: 0, y: 1, z: 0 };
+    }
+
+    // World-space anchors and axis as the bodies stand now (what WASM takes at registration)
+    public worldAnchor(): Vector3 {
+        return toWorld(this.gameObject, this.anchor);
+    }
+
+    public worldConnectedAnchor(): Vector3 {
+        if (!this.connectedAnchor) return this.worldAnchor();
+        return this.connectedBody ? toWorld(this.connectedBody, this.connectedAnchor) : { ...this.connectedAnchor };
+    }
+
+    public worldAxis(): Vector3 {
+        const origin = toWorld(this.gameObject, { x: 0, y: 0, z: 0 });
+        const tip = toWorld(this.gameObject, this.localAxis);
+        return { x: tip.x - origin.x, y: tip.y - origin.y, z: tip.z - origin.z };
+    }
+
+    // Push the kind-specific settings (limits, motor, spring) to WASM
+    protected applySettings(): void { }
+}
+
+function toWorld(gameObject: GameObject, point: Vector3): Vector3 {
+    const [x, y, z] = transformPoint(gameObject.transform.getWorldMatrix(), [point.x, point.y, point.z]);
+    return { x, y, z };
+}
+
+// A rigid rod: the anchors stay `distance` apart (default: as far apart as they start)
+export class DistanceJoint extends Joint {
+    public readonly type = JointType.DISTANCE;
+    public readonly distance: number | undefined;
+
+    constructor(opts: JointOptions & { distance?: number } = {}) {
+        super(opts);
+        this.distance = opts.distance;
+    }
+
+    protected override applySettings(): void {
+        if (!this.physicsBridge || this.jointId === undefined || this.distance === undefined) return;
+        this.physicsBridge.setJointLimits(this.jointId, this.distance, this.distance);
+    }
+}
+
+// A rope: slack while the anchors are closer than `maxLength` (default: their starting
+// distance), taut at it
+export class RopeJoint extends Joint {
+    public readonly type = JointType.ROPE;
+    public readonly maxLength: number | undefined;
+
+    constructor(opts: JointOptions & { maxLength?: number } = {}) {
+        super(opts);
+        this.maxLength = opts.maxLength;
+    }
+
+    protected override applySettings(): void {
+        if (!this.physicsBridge || this.jointId === undefined || this.maxLength === undefined) return;
+        this.physicsBridge.setJointLimits(this.jointId, 0, this.maxLength);
+    }
+}
+
+// The anchors stay together; the bodies turn freely about them (chains, ragdoll shoulders)
+export class BallSocketJoint extends Joint {
+    public readonly type = JointType.BALL_SOCKET;
+}
+
+export interface HingeLimits {
+    min: number; // Degrees, relative to the starting angle
+    max: number;
+}
+
+export interface HingeMotor {
+    speed: number; // Target degrees per second
+    maxTorque: number; // N·m the motor may use to get there
+}
+
+/**
+ * A door hinge: the anchors stay together and this body only turns about `axis` (in its local
+ * space) relative to the connected body. Angles are degrees from where it starts, positive
+ * counter-clockwise about the axis; the motor spins it towards a target speed.
+ */
+export class HingeJoint extends Joint {
+    public readonly type = JointType.HINGE;
+    public readonly axis: Vector3;
+    public limits: HingeLimits | null;
+    public motor: HingeMotor | null;
+
+    constructor(opts: JointOptions & { axis?: Vector3; limits?: HingeLimits; motor?: HingeMotor } = {}) {
+        super(opts);
+        this.axis = opts.axis ?? { x: 0, y: 1, z: 0 };
+        this.limits = opts.limits ?? null;
+        this.motor = opts.motor ?? null;
+    }
+
+    public override get localAxis(): Vector3 {
+        return this.axis;
+    }
+
+    // Current angle in degrees (0 until the joint is simulated)
+    public get angle(): number {
+        if (!this.physicsBridge || this.jointId === undefined) return 0;
+        return this.physicsBridge.getJointAngle(this.jointId) / DEG2RAD;
+    }
+
+    public setLimits(min: number, max: number): void {
+        this.limits = { min, max };
+        this.pushLimits();
+    }
+
+    public clearLimits(): void {
+        this.limits = null;
+        this.pushLimits();
+    }
+
+    public setMotor(speed: number, maxTorque: number): void {
+        this.motor = { speed, maxTorque };
+        this.pushMotor();
+    }
+
+    public clearMotor(): void {
+        this.motor = null;
+        this.pushMotor();
+    }
+
+    protected override applySettings(): void {
+        this.pushLimits();
+        this.pushMotor();
+    }
+
+    private pushLimits(): void {
+        if (!this.physicsBridge || this.jointId === undefined) return;
+        const { min, max } = this.limits ?? { min: -Infinity, max: Infinity };
+        this.physicsBridge.setJointLimits(this.jointId, min * DEG2RAD, max * DEG2RAD);
+    }
+
+    private pushMotor(): void {
+        if (!this.physicsBridge || this.jointId === undefined) return;
+        const { speed, maxTorque } = this.motor ?? { speed: 0, maxTorque: 0 };
+        this.physicsBridge.setJointMotor(this.jointId, speed * DEG2RAD, maxTorque);
+    }
+}
+
+// A weld: the bodies move as one, keeping their relative position and orientation
+export class FixedJoint extends Joint {
+    public readonly type = JointType.FIXED;
+}
+
+export interface SpringOptions {
+    stiffness?: number; // N/m
+    damping?: number; // N·s/m
+    restLength?: number; // m (default: the anchors' starting distance)
+}
+
+// A damped spring between the anchors: soft, it stretches under load and oscillates back
+export class SpringJoint extends Joint {
+    public readonly type = JointType.SPRING;
+    public stiffness: number;
+    public damping: number;
+    public restLength: number | undefined;
+
+    constructor(opts: JointOptions & SpringOptions = {}) {
+        super(opts);
+        this.stiffness = opts.stiffness ?? 10;
+        this.damping = opts.damping ?? 0.5;
+        this.restLength = opts.restLength;
+    }
+
+    public setSpring(spring: SpringOptions): void {
+        this.stiffness = spring.stiffness ?? this.stiffness;
+        this.damping = spring.damping ?? this.damping;
+        this.restLength = spring.restLength ?? this.restLength;
+        this.applySettings();
+    }
+
+    protected override applySettings(): void {
+        if (!this.physicsBridge || this.jointId === undefined) return;
+        // A negative rest length keeps the one WASM measured at registration
+        this.physicsBridge.setJointSpring(this.jointId, this.stiffness, this.damping, this.restLength ?? -1);
+    }
+}
@@ -0,0 +1,183 @@
+// src/engine/kinematic-mover.ts
+// Kinematic mover: scripted motion along waypoints (elevators, doors, moving platforms)
+
+import { Component, RigidBody, BodyType, Vector3 } from './components';
+
+// How a leg between two waypoints speeds up and slows down
+export enum Easing {
+    // eslint-disable-next-line no-unused-vars
+    LINEAR = 0, // Constant speed
+    // eslint-disable-next-line no-unused-vars
+    EASE_IN = 1, // Starts slow
+    // eslint-disable-next-line no-unused-vars
+    EASE_OUT = 2, // Ends slow
+    // eslint-disable-next-line no-unused-vars
+    EASE_IN_OUT = 3, // Starts and ends slow
+}
+
+// Where the mover goes after its last waypoint
+export enum MoverLoop {
+    // eslint-disable-next-line no-unused-vars
+    ONCE = 0, // Stops there
+    // eslint-disable-next-line no-unused-vars
+    LOOP = 1, // On to the first waypoint: a closed circuit
+    // eslint-disable-next-line no-unused-vars
+    PING_PONG = 2, // Back through the waypoints, and so on
+}
+
+export interface KinematicMoverOptions {
+    speed?: number; // Average speed along each leg (m/s), default 1
+    easing?: Easing; // Default EASE_IN_OUT
+    wait?: number; // Seconds held at each waypoint (default 0)
+    loop?: MoverLoop; // Default PING_PONG
+    autoPlay?: boolean; // Set off along the waypoints at once (default true; false for doors)
+}
+
+// How much of a leg (0..1) is covered once a share `t` (0..1) of its duration has passed
+export function ease(easing: Easing, t: number): number {
+    switch (easing) {
+    case Easing.LINEAR:
+        return t;
+    case Easing.EASE_IN:
+        return t * t;
+    case Easing.EASE_OUT:
+        return 1 - (1 - t) * (1 - t);
+    case Easing.EASE_IN_OUT:
+        return t < 0.5 ? 2 * t * t : 1 - 2 * (1 - t) * (1 - t);
+    }
+}
+
+/**
+ * Moves a GameObject along waypoints: positions in its parent's space (world space for a root
+ * GameObject), visited in order, each leg eased and taking its length over `speed`. With a
+ * KINEMATIC RigidBody the move reaches physics the same frame: the physics step derives the
+ * body's velocity from it, so what the body runs into is pushed along and what rests on it
+ * rides it.
+ *
+ *     lift.addComponent(new RigidBody(1, false, CollisionShape.BOX, { x: 1, y: 0.1, z: 1 }, { bodyType: BodyType.KINEMATIC }));
+ *     lift.addComponent(new KinematicMover([{ x: 0, y: 0, z: 0 }, { x: 0, y: 4, z: 0 }], { speed: 1.5, wait: 2 }));
+ *
+ *     const door = new KinematicMover([closed, open], { autoPlay: false, speed: 2 });
+ *     door.goTo(1); // Opens...
+ *     door.goTo(0); // ...and closes
+ *
+ * The first leg runs from wherever the GameObject is to the first waypoint. Settings are
+ * public and apply from the next leg.
+ */
+export class KinematicMover extends Component {
+    public waypoints: Vector3[];
+    public speed: number;
+    public easing: Easing;
+    public wait: number;
+    public loop: MoverLoop;
+
+    private playing: boolean;
+    private target = 0; // Waypoint the current leg heads to
+    private direction = 1; // Through the waypoints: 1 forward, -1 back (PING_PONG)
+    private from: Vector3 | null = null; // Where the current leg began (null: not begun yet)
+    private elapsed = 0;
+    private duration = 0;
+    private waiting = 0; // Seconds left holding at the last waypoint reached
+    private stopAtTarget = false; // Sent to one waypoint by goTo()
+    private warned = false;
+
+    constructor(waypoints: Vector3[], opts: KinematicMoverOptions = {}) {
+        super();
+        this.waypoints = waypoints.map(waypoint => ({ ...waypoint }));
+        this.speed = opts.speed ?? 1;
+        this.easing = opts.easing ?? Easing.EASE_IN_OUT;
+        this.wait = opts.wait ?? 0;
+        this.loop = opts.loop ?? MoverLoop.PING_PONG;
+        this.playing = opts.autoPlay ?? true;
+    }
+
+    public get isPlaying(): boolean {
+        return this.playing;
+    }
+
+    // The waypoint the mover is heading to (or stopped at)
+    public get targetWaypoint(): number {
+        return this.target;
+    }
+
+    // Carry on along the waypoints (from where pause() or goTo() stopped it)
+    public play(): void {
+        this.playing = true;
+        this.stopAtTarget = false;
+    }
+
+    // Stop where it is; play() resumes the leg
+    public pause(): void {
+        this.playing = false;
+    }
+
+    // Go straight from where it is to one waypoint and stop there (a door opening or closing)
+    public goTo(index: number): void {
+        if (index < 0 || index >= this.waypoints.length) {
+            throw new Error(`❌ KinematicMover.goTo: no waypoint ${index} (it has ${this.waypoints.length})`);
+        }
+        this.target = index;
+        this.from = null;
+        this.waiting = 0;
+        this.stopAtTarget = true;
+        this.playing = true;
+    }
+
+    override update(deltaTime: number): void {
+        if (!this.playing || !this.gameObject || this.waypoints.length === 0 || deltaTime <= 0) return;
+        if (this.waiting > 0) {
+            this.waiting -= deltaTime;
+            return;
+        }
+
+        const transform = this.gameObject.transform;
+        const to = this.waypoints[this.target]!;
+        const from = this.from ?? this.beginLeg(transform.position, to);
+        this.elapsed += deltaTime;
+        const t = this.duration > 0 ? Math.min(this.elapsed / this.duration, 1) : 1;
+        const s = ease(this.easing, t);
+        transform.setPosition(from.x + (to.x - from.x) * s, from.y + (to.y - from.y) * s, from.z + (to.z - from.z) * s);
+        if (t >= 1) this.arrive();
+
+        // Push the move into physics now, so this frame's step sees it
+        const body = this.gameObject.getComponent(RigidBody);
+        if (body?.bodyType === BodyType.KINEMATIC) {
+            body.syncToWasm();
+        } else if (body && !this.warned) {
+            console.warn(`KinematicMover: "${this.gameObject.name}" has a ${BodyType[body.bodyType]} RigidBody; physics will not follow the mover (use a KINEMATIC one)`);
+            this.warned = true;
+        }
+    }
+
+    private beginLeg(position: Vector3, to: Vector3): Vector3 {
+        const from = { ...position };
+        const length = Math.hypot(to.x - from.x, to.y - from.y, to.z - from.z);
+        this.from = from;
+        this.duration = this.speed > 0 ? length / this.speed : Infinity;
+        this.elapsed = 0;
+        return from;
+    }
+
+    private arrive(): void {
+        this.from = null;
+        this.waiting = this.wait;
+        if (this.stopAtTarget) {
+            this.playing = false;
+            this.stopAtTarget = false;
+            return;
+        }
+
+        const count = this.waypoints.length;
+        const next = this.target + this.direction;
+        if (next >= 0 && next < count) {
+            this.target = next;
+        } else if (this.loop === MoverLoop.LOOP) {
+            this.target = (next + count) % count;
+        } else if (this.loop === MoverLoop.PING_PONG && count > 1) {
+            this.direction = -this.direction;
+            this.target += this.direction;
+        } else {
+            this.playing = false; // ONCE: done
+        }
+    }
+}
@@ -2,6 +2,8 @@ import type { MeshData } from '../renderer/mesh-registry';
 import {
     createCubeMesh,
     createSphereMesh,
+    createCapsuleMesh,
+    createCylinderMesh,
     createGridMesh,
     createPyramidMesh,
     createTriangleMesh,
@@ -36,6 +38,15 @@ export class Mesh {
         return new Mesh(id, createSphereMesh(radius, segments));
     }
 
+    // Sized like RigidBody.setCapsuleCollider / setCylinderCollider so the visual matches the collider
+    static createCapsule(id: string, radius = 0.5, halfHeight = 1, segments = 16): Mesh {
+        return new Mesh(id, createCapsuleMesh(radius, halfHeight, segments));
+    }
+
+    static createCylinder(id: string, radius = 0.5, halfHeight = 1, segments = 16): Mesh {
+        return new Mesh(id, createCylinderMesh(radius, halfHeight, segments));
+    }
+
     static createGrid(id: string, size = 10, divisions = 10): Mesh {
         return new Mesh(id, createGridMesh(size, divisions));
     }
@@ -0,0 +1,21 @@
+// src/engine/physics-debug-draw.ts
+// What the physics debug overlay draws (see Engine.setPhysicsDebugDraw)
+
+// Flags, combined with | (mirror the DEBUG_DRAW_* flags in game_engine.zig)
+export enum PhysicsDebugDraw {
+    // eslint-disable-next-line no-unused-vars
+    NONE = 0,
+    // eslint-disable-next-line no-unused-vars
+    COLLIDERS = 1, // Wireframes where physics has them: DYNAMIC green, KINEMATIC cyan, STATIC gray, triggers orange
+    // eslint-disable-next-line no-unused-vars
+    CONTACTS = 2, // The last step's contact points (red) and normals (white)
+    // eslint-disable-next-line no-unused-vars
+    VELOCITIES = 4, // Where each moving body will be a quarter second on (magenta)
+    // eslint-disable-next-line no-unused-vars
+    SLEEPING = 8, // Sleeping bodies' colliders in dark green
+    // eslint-disable-next-line no-unused-vars
+    ALL = 15,
+}
+
+// Floats per vertex of the WASM debug line list: position xyz, color rgba (DebugVertex)
+export const DEBUG_VERTEX_FLOATS = 7;
@@ -0,0 +1,66 @@
+// src/engine/physics-material.ts
+// Surface properties of a RigidBody: friction, bounciness and how they combine per contact
+
+// How a contact combines the two bodies' coefficients (mirrors core.CombineMode in
+// game_core.zig). When the bodies disagree, the higher-priority mode wins:
+// AVERAGE < MINIMUM < MULTIPLY < MAXIMUM.
+export enum CombineMode {
+    // eslint-disable-next-line no-unused-vars
+    AVERAGE = 0,
+    // eslint-disable-next-line no-unused-vars
+    MINIMUM = 1,
+    // eslint-disable-next-line no-unused-vars
+    MULTIPLY = 2,
+    // eslint-disable-next-line no-unused-vars
+    MAXIMUM = 3,
+}
+
+export interface PhysicsMaterialOptions {
+    staticFriction?: number;
+    dynamicFriction?: number;
+    restitution?: number;
+    frictionCombine?: CombineMode;
+    restitutionCombine?: CombineMode;
+}
+
+/**
+ * Friction and restitution of a body's surface (Coulomb model).
+ *
+ * - staticFriction: how hard a resting contact holds before it starts to slide
+ * - dynamicFriction: drag while sliding (a sliding sphere turns it into rolling)
+ * - restitution: bounciness against other bodies, 0 = dead stop, 1 = no energy lost
+ *
+ * Materials are immutable values that can be shared between bodies; to change a body's
+ * surface at runtime, give it another one (RigidBody.setMaterial):
+ *
+ *     floor.getComponent(RigidBody)?.setMaterial(PhysicsMaterial.ICE);
+ */
+export class PhysicsMaterial {
+    public readonly staticFriction: number;
+    public readonly dynamicFriction: number;
+    public readonly restitution: number;
+    public readonly frictionCombine: CombineMode;
+    public readonly restitutionCombine: CombineMode;
+
+    constructor(opts: PhysicsMaterialOptions = {}) {
+        this.staticFriction = opts.staticFriction ?? 0.6;
+        this.dynamicFriction = opts.dynamicFriction ?? 0.6;
+        this.restitution = opts.restitution ?? 0.6;
+        this.frictionCombine = opts.frictionCombine ?? CombineMode.AVERAGE;
+        this.restitutionCombine = opts.restitutionCombine ?? CombineMode.AVERAGE;
+    }
+
+    // What every RigidBody starts with (matches DEFAULT_FRICTION / DEFAULT_RESTITUTION in game_engine.zig)
+    static readonly DEFAULT = new PhysicsMaterial();
+    // Slippery against anything: MINIMUM wins over the other body's AVERAGE
+    static readonly ICE = new PhysicsMaterial({ staticFriction: 0.02, dynamicFriction: 0.02, restitution: 0.1, frictionCombine: CombineMode.MINIMUM });
+    // Grippy and dead: sticks to what it lands on instead of bouncing
+    static readonly STICKY = new PhysicsMaterial({
+        staticFriction: 1.5,
+        dynamicFriction: 1.2,
+        restitution: 0,
+        frictionCombine: CombineMode.MAXIMUM,
+        restitutionCombine: CombineMode.MINIMUM,
+    });
+    static readonly RUBBER = new PhysicsMaterial({ staticFriction: 0.9, dynamicFriction: 0.8, restitution: 0.9, restitutionCombine: CombineMode.MAXIMUM });
+}
@@ -0,0 +1,105 @@
+// src/engine/physics-settings.ts
+// World-wide physics settings of a Scene: gravity, damping, world bounds, solver iterations
+
+import type { Vector3 } from './components';
+
+// Most collision resolution passes per step WASM runs (mirrors MAX_SOLVER_ITERATIONS in game_engine.zig)
+export const MAX_SOLVER_ITERATIONS = 64;
+
+// An axis-aligned box in world space
+export interface WorldBox {
+    min: Vector3;
+    max: Vector3;
+}
+
+export interface PhysicsWorldSettings {
+    gravity: Vector3; // m/s²
+    damping: number; // Share of velocity across gravity (and of spin) a body keeps per step
+    restitution: number; // Bounciness of the world bounds; bodies bounce off each other by their PhysicsMaterial
+    worldBounds: WorldBox | null; // The box bodies are kept inside (invisible walls); null: none
+    solverIterations: number; // Collision resolution passes per step
+}
+
+/**
+ * The physics world a Scene runs in. The Engine applies it when it loads the scene, and
+ * changes made while the scene runs take effect from the next physics step:
+ *
+ *     scene.physicsSettings.set({ gravity: { x: 0, y: -1.6, z: 0 } }); // the Moon
+ *     scene.physicsSettings.set({ worldBounds: null });                // open world
+ *     scene.physicsSettings.set({ worldBounds: PhysicsSettings.bounds(20, 10, 20) });
+ *
+ * The defaults match the engine as it always ran: gravity 9.8 m/s² down -Y, damping 0.99,
+ * bounds from -8 to +8 on every axis with restitution 0.6, and 5 solver iterations.
+ * Damping only slows motion across gravity, so falling is left to gravity and collisions.
+ */
+export class PhysicsSettings implements PhysicsWorldSettings {
+    private values: PhysicsWorldSettings = {
+        gravity: { x: 0, y: -9.8, z: 0 },
+        damping: 0.99,
+        restitution: 0.6,
+        worldBounds: PhysicsSettings.bounds(8, 8, 8),
+        solverIterations: 5,
+    };
+    private listeners = new Set<(_settings: PhysicsSettings) => void>();
+
+    constructor(changes: Partial<PhysicsWorldSettings> = {}) {
+        this.set(changes);
+    }
+
+    // A box from -(x, y, z) to +(x, y, z)
+    static bounds(x: number, y: number, z: number): WorldBox {
+        return { min: { x: -x, y: -y, z: -z }, max: { x, y, z } };
+    }
+
+    get gravity(): Vector3 {
+        return { ...this.values.gravity };
+    }
+
+    get damping(): number {
+        return this.values.damping;
+    }
+
+    get restitution(): number {
+        return this.values.restitution;
+    }
+
+    get worldBounds(): WorldBox | null {
+        const bounds = this.values.worldBounds;
+        return bounds && { min: { ...bounds.min }, max: { ...bounds.max } };
+    }
+
+    get solverIterations(): number {
+        return this.values.solverIterations;
+    }
+
+    // Change some settings (the others keep their values). Throws for values WASM cannot run.
+    set(changes: Partial<PhysicsWorldSettings>): void {
+        const next = { ...this.values, ...changes };
+        if (!(next.damping >= 0 && next.damping <= 1)) {
+            throw new Error(`❌ PhysicsSettings: damping must be between 0 and 1 (got ${next.damping})`);
+        }
+        if (!(next.restitution >= 0)) {
+            throw new Error(`❌ PhysicsSettings: restitution must be >= 0 (got ${next.restitution})`);
+        }
+        if (!Number.isInteger(next.solverIterations) || next.solverIterations < 1 || next.solverIterations > MAX_SOLVER_ITERATIONS) {
+            throw new Error(`❌ PhysicsSettings: solverIterations must be a whole number from 1 to ${MAX_SOLVER_ITERATIONS} (got ${next.solverIterations})`);
+        }
+        const bounds = next.worldBounds;
+        if (bounds && !(bounds.min.x < bounds.max.x && bounds.min.y < bounds.max.y && bounds.min.z < bounds.max.z)) {
+            throw new Error('❌ PhysicsSettings: worldBounds min must be below max on every axis');
+        }
+        this.values = {
+            ...next,
+            gravity: { ...next.gravity },
+            worldBounds: bounds && { min: { ...bounds.min }, max: { ...bounds.max } },
+        };
+
+        for (const listener of this.listeners) listener(this);
+    }
+
+    // Called after every set(); returns an unsubscribe function
+    onChange(listener: (_settings: PhysicsSettings) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+}
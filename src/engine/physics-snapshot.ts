@@ -0,0 +1,105 @@
+// src/engine/physics-snapshot.ts
+// Physics world snapshots: the binary blob WasmPhysicsBridge.snapshot() writes and restore() reads
+
+const MAGIC = 0x50534e57; // "WNSP" read little-endian
+const FORMAT = 1;
+
+/**
+ * What a snapshot holds: the WASM world sections as copied out of WASM memory (header first,
+ * then the component tables, joints, hulls, compounds, contacts and trigger pairs) and the
+ * bridge's own bookkeeping, so restored entities and joints find their GameObjects again.
+ *
+ * The blob is a run of little-endian u32 words: MAGIC, FORMAT, the WASM version, the section
+ * count and each section's byte length, then the sections (each padded to 4 bytes), then the
+ * next entity and joint ids, the joint ids and the (WASM id, GameObject id) pairs, an id as
+ * its length and its UTF-16 code units two to a word. The WASM sections keep their own
+ * record layout, so a blob only restores into the build that wrote it.
+ */
+export interface PhysicsSnapshot {
+    wasmVersion: number;
+    sections: Uint8Array[];
+    nextEntityId: number;
+    nextJointId: number;
+    jointIds: number[];
+    entities: [number, string][]; // WASM entity ID, GameObject ID
+}
+
+const padded = (bytes: number) => (bytes + 3) & ~3;
+
+export function encodePhysicsSnapshot(snapshot: PhysicsSnapshot): Uint8Array {
+    const { sections, jointIds, entities } = snapshot;
+    let size = 4 * (4 + sections.length);
+    for (const section of sections) size += padded(section.byteLength);
+    size += 4 * (4 + jointIds.length);
+    for (const [, id] of entities) size += 8 + padded(2 * id.length);
+
+    const blob = new Uint8Array(size);
+    const view = new DataView(blob.buffer);
+    let offset = 0;
+    const word = (value: number) => {
+        view.setUint32(offset, value, true);
+        offset += 4;
+    };
+
+    word(MAGIC);
+    word(FORMAT);
+    word(snapshot.wasmVersion);
+    word(sections.length);
+    for (const section of sections) word(section.byteLength);
+    for (const section of sections) {
+        blob.set(section, offset);
+        offset += padded(section.byteLength);
+    }
+
+    word(snapshot.nextEntityId);
+    word(snapshot.nextJointId);
+    word(jointIds.length);
+    for (const jointId of jointIds) word(jointId);
+    word(entities.length);
+    for (const [wasmId, id] of entities) {
+        word(wasmId);
+        word(id.length);
+        for (let i = 0; i < id.length; i++) view.setUint16(offset + 2 * i, id.charCodeAt(i), true);
+        offset += padded(2 * id.length);
+    }
+    return blob;
+}
+
+// Throws if the blob is not a snapshot (or one in a format this code cannot read)
+export function decodePhysicsSnapshot(blob: Uint8Array): PhysicsSnapshot {
+    const view = new DataView(blob.buffer, blob.byteOffset, blob.byteLength);
+    let offset = 0;
+    const word = () => {
+        if (offset + 4 > blob.byteLength) throw new Error('❌ Physics snapshot is truncated');
+        const value = view.getUint32(offset, true);
+        offset += 4;
+        return value;
+    };
+    const bytes = (length: number) => {
+        if (offset + length > blob.byteLength) throw new Error('❌ Physics snapshot is truncated');
+        const slice = blob.subarray(offset, offset + length);
+        offset += padded(length);
+        return slice;
+    };
+
+    if (blob.byteLength < 8 || word() !== MAGIC) throw new Error('❌ Not a physics snapshot');
+    const format = word();
+    if (format !== FORMAT) throw new Error(`❌ Physics snapshot format ${format} is not supported (expected ${FORMAT})`);
+
+    const wasmVersion = word();
+    const lengths = Array.from({ length: word() }, word);
+    const sections = lengths.map(bytes);
+
+    const nextEntityId = word();
+    const nextJointId = word();
+    const jointIds = Array.from({ length: word() }, word);
+    const entities = Array.from({ length: word() }, (): [number, string] => {
+        const wasmId = word();
+        const units = bytes(2 * word());
+        let id = '';
+        for (let i = 0; i < units.byteLength; i += 2) id += String.fromCharCode(view.getUint16(units.byteOffset - blob.byteOffset + i, true));
+        return [wasmId, id];
+    });
+
+    return { wasmVersion, sections, nextEntityId, nextJointId, jointIds, entities };
+}
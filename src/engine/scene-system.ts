@@ -3,10 +3,14 @@
 
 import { CameraObject, PerspectiveCamera } from './camera-object';
 import { GameObject } from './gameobject';
-import { CameraComponent } from './components';
+import { CameraComponent, RigidBody } from './components';
+import { CollisionLayers } from './collision-layers';
+import { PhysicsSettings } from './physics-settings';
 import { InputManager } from './input';
-import { InputController, CameraController, GameObjectController, OrbitCameraController } from './input-controller';
+import { InputController, CameraController, GameObjectController, OrbitCameraController, CharacterInputController } from './input-controller';
+import { CharacterController } from './character-controller';
 import { GamepadInputManager, GamepadConfiguration, GAMEPAD_PRESETS } from './gamepad-input';
+import type { WasmPhysicsBridge } from './wasm-physics-bridge';
 
 // The runtime a Scene is bound to once mounted (implemented by the Engine). The Scene is pure
 // data + lifecycle; it delegates entity registration for runtime spawns/removals to the Engine,
@@ -14,6 +18,8 @@ import { GamepadInputManager, GamepadConfiguration, GAMEPAD_PRESETS } from './ga
 export interface SceneRuntime {
     registerRuntimeEntity(gameObject: GameObject): void;
     unregisterRuntimeEntity(gameObject: GameObject): void;
+    applyPhysicsSettings(settings: PhysicsSettings): void;
+    readonly physicsBridge: WasmPhysicsBridge | undefined;
 }
 
 export class Scene {
@@ -32,6 +38,20 @@ export class Scene {
     // data inserts. The Scene holds no renderer or physics bridge — the Engine owns those.
     private runtime: SceneRuntime | undefined = undefined;
 
+    // The bound runtime's physics bridge (undefined until mounted), for components that enter
+    // the simulation on their own when added at runtime (ForceField)
+    get physicsBridge(): WasmPhysicsBridge | undefined {
+        return this.runtime?.physicsBridge;
+    }
+
+    // Named collision layers and the layer collision matrix. Matrix edits re-derive the masks
+    // of bodies already on the affected layers.
+    public readonly layers = new CollisionLayers();
+
+    // Gravity, damping, world bounds and solver iterations of this scene's physics world.
+    // Applied when the Engine loads the scene; changes after that apply right away.
+    public readonly physicsSettings = new PhysicsSettings();
+
     // Input Management
     private inputManager?: InputManager;
     private gamepadInputManager?: GamepadInputManager;
@@ -60,6 +80,9 @@ export class Scene {
 
         // Default to camera control
         this.setInputTarget('camera');
+
+        this.layers.onChange(names => this.refreshLayerMasks(names));
+        this.physicsSettings.onChange(settings => this.runtime?.applyPhysicsSettings(settings));
     }
 
     // Entity Management
@@ -109,6 +132,28 @@ export class Scene {
         return Array.from(this.entities.values());
     }
 
+    // Put a GameObject's RigidBody on a named collision layer (defined on first use): its layer
+    // bit and the layer's matrix row as its mask. Returns false if it has no RigidBody.
+    setLayer(gameObject: GameObject, layerName: string): boolean {
+        const rigidBody = gameObject.getComponent(RigidBody);
+        if (!rigidBody) return false;
+
+        const layer = this.layers.define(layerName);
+        rigidBody.setCollisionFilter(layer, this.layers.collisionMask(layerName));
+        return true;
+    }
+
+    // A layer matrix row changed: bodies on those layers take the new mask
+    private refreshLayerMasks(layerNames: string[]): void {
+        for (const gameObject of this.entities.values()) {
+            const rigidBody = gameObject.getComponent(RigidBody);
+            const name = rigidBody && this.layers.nameOf(rigidBody.collisionLayer);
+            if (rigidBody && name && layerNames.includes(name)) {
+                rigidBody.setCollisionFilter(rigidBody.collisionLayer, this.layers.collisionMask(name));
+            }
+        }
+    }
+
     // Generate unique ID for entities
     generateEntityId(): string {
         return `entity_${this.nextEntityId++}`;
@@ -164,7 +209,10 @@ export class Scene {
     // Set the camera GameObject used for both rendering and input (PerspectiveCamera /
     // OrthographicCamera). Rebinds the active camera/orbit input controller onto the new
     // camera so a setCamera() call after construction takes effect for free-fly/orbit input.
+    // The new camera inherits the current viewport size (the Engine only pushes it on resize).
     setCamera(camera: CameraObject): void {
+        const previous = this.activeCamera.cameraComponent;
+        camera.cameraComponent.setViewportSize(previous.viewportWidth, previous.viewportHeight);
         this.activeCamera = camera;
         if (this.inputTarget === 'camera' || this.inputTarget === 'orbit') {
             this.setInputTarget(this.inputTarget);
@@ -180,6 +228,8 @@ export class Scene {
             this.activeInputController = new CameraController(this.activeCamera.cameraComponent);
         } else if (target === 'orbit') {
             this.activeInputController = new OrbitCameraController(this.activeCamera.cameraComponent);
+        } else if (target instanceof GameObject && target.hasComponent(CharacterController)) {
+            this.activeInputController = new CharacterInputController(target);
         } else if (target instanceof GameObject) {
             this.activeInputController = new GameObjectController(target);
         } else {
@@ -207,6 +257,10 @@ export class Scene {
         return this.activeInputController instanceof GameObjectController ? this.activeInputController : undefined;
     }
 
+    getCharacterInputController(): CharacterInputController | undefined {
+        return this.activeInputController instanceof CharacterInputController ? this.activeInputController : undefined;
+    }
+
     getOrbitCameraController(): OrbitCameraController | undefined {
         return this.activeInputController instanceof OrbitCameraController ? this.activeInputController : undefined;
     }
@@ -47,18 +47,37 @@ export class WasmLoader {
 
             // Validate that all required v2 API functions exist
             const requiredFunctions = [
-                'init', 'update', 'add_entity', 'remove_entity', 'get_entity_count',
-                'set_entity_body_type', 'set_entity_gravity_scale',
-                'apply_force', 'set_entity_position', 'set_entity_velocity', 'set_entity_rotation', 'set_entity_scale',
+                'init', 'update', 'update_transforms', 'add_entity', 'remove_entity', 'get_entity_count',
+                'set_entity_body_type', 'set_entity_gravity_scale', 'set_entity_trigger', 'set_entity_collision_filter',
+                'set_entity_continuous_collision',
+                'set_entity_physics_material', 'set_entity_sleeping', 'get_entity_sleeping', 'get_sleeping_body_count',
+                'apply_force', 'set_entity_position', 'teleport_entity', 'set_kinematic_move_time', 'set_entity_velocity', 'set_entity_rotation', 'set_entity_scale',
+                'apply_torque', 'apply_force_at_point', 'set_entity_angular_velocity', 'accumulate_force', 'apply_impulse',
+                'add_joint', 'remove_joint', 'set_joint_limits', 'set_joint_motor', 'set_joint_spring',
+                'get_joint_angle', 'get_joint_count',
+                'add_force_field', 'remove_force_field', 'set_force_field_transform', 'set_force_field_strength',
+                'set_force_field_buoyancy', 'set_force_field_layer_mask', 'get_force_field_count',
+                'get_hull_staging_offset', 'create_convex_hull', 'set_entity_convex_hull', 'get_hull_count',
+                'get_compound_staging_offset', 'create_compound', 'set_entity_compound', 'get_compound_count',
+                'move_character', 'get_character_ground',
+                'snapshot_begin', 'get_snapshot_section_offset', 'get_snapshot_section_size', 'restore_begin', 'restore_end',
                 'get_entity_transforms_offset', 'get_entity_metadata_offset', 'get_entity_metadata_size',
                 'get_mesh_bucket_start', 'get_mesh_bucket_count',
                 'get_entity_size', 'get_entity_stride', 'debug_get_entity_mesh_id',
                 'get_entity_position_x', 'get_entity_position_y', 'get_entity_position_z',
                 'get_entity_velocity_x', 'get_entity_velocity_y', 'get_entity_velocity_z',
+                'get_entity_angular_velocity_x', 'get_entity_angular_velocity_y', 'get_entity_angular_velocity_z',
+                'get_entity_rotation_x', 'get_entity_rotation_y', 'get_entity_rotation_z',
                 'get_collision_checks_performed', 'get_collisions_detected', 'get_kinematic_collision_flag',
                 'get_collision_state', 'debug_get_entity_physics_info', 'get_wasm_version',
+                'set_physics_config', 'set_gravity', 'set_world_box', 'set_world_bounds_enabled', 'set_solver_iterations',
+                'set_broadphase_enabled', 'get_broadphase_enabled', 'get_pairs_tested', 'get_pairs_overlapping',
                 'get_collision_event_counter', 'get_last_collision_entities',
-                'get_last_collision_pos1', 'get_last_collision_pos2', 'clear_collision_event_counter'
+                'get_last_collision_pos1', 'get_last_collision_pos2', 'clear_collision_event_counter',
+                'raycast', 'sphere_cast', 'overlap_sphere', 'overlap_box', 'get_query_hits_offset',
+                'get_contact_count', 'get_contacts_offset',
+                'get_trigger_pair_count', 'get_trigger_pairs_offset',
+                'build_debug_lines', 'get_debug_lines_offset'
             ];
 
             // Optional collision shape functions (may not be present in older WASM modules)
@@ -96,6 +115,7 @@ export class WasmLoader {
                 // Lifecycle
                 init: wasmExports.init,
                 update: wasmExports.update,
+                update_transforms: wasmExports.update_transforms,
 
                 // Entity management
                 add_entity: wasmExports.add_entity,
@@ -103,13 +123,68 @@ export class WasmLoader {
                 get_entity_count: wasmExports.get_entity_count,
                 set_entity_body_type: wasmExports.set_entity_body_type,
                 set_entity_gravity_scale: wasmExports.set_entity_gravity_scale,
+                set_entity_trigger: wasmExports.set_entity_trigger,
+                set_entity_collision_filter: wasmExports.set_entity_collision_filter,
+                set_entity_continuous_collision: wasmExports.set_entity_continuous_collision,
+                set_entity_physics_material: wasmExports.set_entity_physics_material,
+                set_entity_sleeping: wasmExports.set_entity_sleeping,
+                get_entity_sleeping: wasmExports.get_entity_sleeping,
+                get_sleeping_body_count: wasmExports.get_sleeping_body_count,
 
                 // Physics interaction
                 apply_force: wasmExports.apply_force,
                 set_entity_position: wasmExports.set_entity_position,
+                teleport_entity: wasmExports.teleport_entity,
+                set_kinematic_move_time: wasmExports.set_kinematic_move_time,
                 set_entity_velocity: wasmExports.set_entity_velocity,
                 set_entity_rotation: wasmExports.set_entity_rotation,
                 set_entity_scale: wasmExports.set_entity_scale,
+                apply_torque: wasmExports.apply_torque,
+                apply_force_at_point: wasmExports.apply_force_at_point,
+                set_entity_angular_velocity: wasmExports.set_entity_angular_velocity,
+                accumulate_force: wasmExports.accumulate_force,
+                apply_impulse: wasmExports.apply_impulse,
+
+                // Joints
+                add_joint: wasmExports.add_joint,
+                remove_joint: wasmExports.remove_joint,
+                set_joint_limits: wasmExports.set_joint_limits,
+                set_joint_motor: wasmExports.set_joint_motor,
+                set_joint_spring: wasmExports.set_joint_spring,
+                get_joint_angle: wasmExports.get_joint_angle,
+                get_joint_count: wasmExports.get_joint_count,
+
+                // Force fields
+                add_force_field: wasmExports.add_force_field,
+                remove_force_field: wasmExports.remove_force_field,
+                set_force_field_transform: wasmExports.set_force_field_transform,
+                set_force_field_strength: wasmExports.set_force_field_strength,
+                set_force_field_buoyancy: wasmExports.set_force_field_buoyancy,
+                set_force_field_layer_mask: wasmExports.set_force_field_layer_mask,
+                get_force_field_count: wasmExports.get_force_field_count,
+
+                // Convex hulls
+                get_hull_staging_offset: wasmExports.get_hull_staging_offset,
+                create_convex_hull: wasmExports.create_convex_hull,
+                set_entity_convex_hull: wasmExports.set_entity_convex_hull,
+                get_hull_count: wasmExports.get_hull_count,
+
+                // Compound colliders
+                get_compound_staging_offset: wasmExports.get_compound_staging_offset,
+                create_compound: wasmExports.create_compound,
+                set_entity_compound: wasmExports.set_entity_compound,
+                get_compound_count: wasmExports.get_compound_count,
+
+                // Character controller
+                move_character: wasmExports.move_character,
+                get_character_ground: wasmExports.get_character_ground,
+
+                // World snapshots
+                snapshot_begin: wasmExports.snapshot_begin,
+                get_snapshot_section_offset: wasmExports.get_snapshot_section_offset,
+                get_snapshot_section_size: wasmExports.get_snapshot_section_size,
+                restore_begin: wasmExports.restore_begin,
+                restore_end: wasmExports.restore_end,
 
                 // Zero-copy buffer access
                 get_entity_transforms_offset: wasmExports.get_entity_transforms_offset,
@@ -135,6 +210,14 @@ export class WasmLoader {
                 get_entity_velocity_y: wasmExports.get_entity_velocity_y,
                 get_entity_velocity_z: wasmExports.get_entity_velocity_z,
 
+                // Entity spin + rotation getters
+                get_entity_angular_velocity_x: wasmExports.get_entity_angular_velocity_x,
+                get_entity_angular_velocity_y: wasmExports.get_entity_angular_velocity_y,
+                get_entity_angular_velocity_z: wasmExports.get_entity_angular_velocity_z,
+                get_entity_rotation_x: wasmExports.get_entity_rotation_x,
+                get_entity_rotation_y: wasmExports.get_entity_rotation_y,
+                get_entity_rotation_z: wasmExports.get_entity_rotation_z,
+
                 // Collision shape configuration (optional - may not be present in older WASM)
                 spawn_entity_with_collider: wasmExports.spawn_entity_with_collider,
                 set_entity_collision_shape: wasmExports.set_entity_collision_shape,
@@ -152,6 +235,19 @@ export class WasmLoader {
                 debug_get_collision_radius: wasmExports.debug_get_collision_radius,
                 get_wasm_version: wasmExports.get_wasm_version,
 
+                // World settings
+                set_physics_config: wasmExports.set_physics_config,
+                set_gravity: wasmExports.set_gravity,
+                set_world_box: wasmExports.set_world_box,
+                set_world_bounds_enabled: wasmExports.set_world_bounds_enabled,
+                set_solver_iterations: wasmExports.set_solver_iterations,
+
+                // Broadphase toggle + stats
+                set_broadphase_enabled: wasmExports.set_broadphase_enabled,
+                get_broadphase_enabled: wasmExports.get_broadphase_enabled,
+                get_pairs_tested: wasmExports.get_pairs_tested,
+                get_pairs_overlapping: wasmExports.get_pairs_overlapping,
+
                 // Collision event logging functions
                 get_collision_event_counter: wasmExports.get_collision_event_counter,
                 get_last_collision_entities: wasmExports.get_last_collision_entities,
@@ -159,6 +255,25 @@ export class WasmLoader {
                 get_last_collision_pos2: wasmExports.get_last_collision_pos2,
                 clear_collision_event_counter: wasmExports.clear_collision_event_counter,
 
+                // Per-step contact stream
+                get_contact_count: wasmExports.get_contact_count,
+                get_contacts_offset: wasmExports.get_contacts_offset,
+
+                // Per-step trigger overlap stream
+                get_trigger_pair_count: wasmExports.get_trigger_pair_count,
+                get_trigger_pairs_offset: wasmExports.get_trigger_pairs_offset,
+
+                // Physics debug overlay
+                build_debug_lines: wasmExports.build_debug_lines,
+                get_debug_lines_offset: wasmExports.get_debug_lines_offset,
+
+                // Scene queries
+                raycast: wasmExports.raycast,
+                sphere_cast: wasmExports.sphere_cast,
+                overlap_sphere: wasmExports.overlap_sphere,
+                overlap_box: wasmExports.overlap_box,
+                get_query_hits_offset: wasmExports.get_query_hits_offset,
+
                 // Memory access
                 memory: wasmExports.memory
             };
@@ -2,29 +2,101 @@
 // Bridge between TypeScript Scene system and WASM physics simulation
 
 import { GameObject } from './gameobject';
-import { BodyType, RigidBody, Vector3 } from './components';
+import { BodyType, CollisionShape, ContactInfo, ForceMode, RigidBody, Vector3 } from './components';
 import { WasmLoader } from './wasm-loader';
+import { ALL_LAYERS } from './collision-layers';
+import { PhysicsMaterial } from './physics-material';
+import { Joint } from './joints';
+import { ForceField } from './force-field';
+import type { ConvexHull } from './convex-hull';
+import { childColliderParts, isColliderShape, MAX_COMPOUND_PARTS } from './collider';
+import type { PhysicsWorldSettings } from './physics-settings';
+import { decodePhysicsSnapshot, encodePhysicsSnapshot } from './physics-snapshot';
+import { DEBUG_VERTEX_FLOATS, PhysicsDebugDraw } from './physics-debug-draw';
 
 export interface WasmPhysicsInterface {
     // WASM module exports (will be implemented in Phase 3)
     init(): void;
     update(deltaTime: number): void;
+    // Rebuild render matrices for transforms set since the last update() (hierarchy sync)
+    update_transforms(): void;
 
     // Entity lifecycle. Entity-flags ABI (B4/B6 window): rotation is baked at add time,
     // bodyType is 0=DYNAMIC 1=KINEMATIC 2=STATIC, gravityScale applies to DYNAMIC only,
-    // and physicsEnabled=false keeps mesh-only decorative entities fully inert.
-    add_entity(id: number, x: number, y: number, z: number, rotX: number, rotY: number, rotZ: number, scaleX: number, scaleY: number, scaleZ: number, colorR: number, colorG: number, colorB: number, colorA: number, meshId: number, materialId: number, bodyType: number, mass: number, gravityScale: number, radius: number, physicsEnabled: boolean): void;
+    // and physicsEnabled=false keeps mesh-only decorative entities fully inert. The physics
+    // material rides along: friction/restitution as trailing params, its combine modes in flags.
+    add_entity(id: number, x: number, y: number, z: number, rotX: number, rotY: number, rotZ: number, scaleX: number, scaleY: number, scaleZ: number, colorR: number, colorG: number, colorB: number, colorA: number, meshId: number, materialId: number, bodyType: number, mass: number, gravityScale: number, radius: number, physicsEnabled: boolean, flags: number, staticFriction: number, dynamicFriction: number, restitution: number): void;
     remove_entity(id: number): void;
     get_entity_count(): number;
     set_entity_body_type(id: number, bodyType: number): void;
+    set_entity_trigger(id: number, isTrigger: boolean): void;
+    set_entity_collision_filter(id: number, layer: number, mask: number): void;
+    // Continuous collision detection: the body is swept along its motion so it cannot tunnel
+    set_entity_continuous_collision(id: number, continuous: boolean): void;
+    set_entity_physics_material(id: number, staticFriction: number, dynamicFriction: number, restitution: number, frictionCombine: number, restitutionCombine: number): void;
     set_entity_gravity_scale(id: number, scale: number): void;
+    // Sleeping (DYNAMIC bodies): settled islands stop simulating until something wakes them
+    set_entity_sleeping(id: number, sleeping: boolean): void;
+    get_entity_sleeping(id: number): boolean;
+    get_sleeping_body_count(): number;
 
     // Physics interaction
     apply_force(id: number, fx: number, fy: number, fz: number): void;
     set_entity_position(id: number, x: number, y: number, z: number): void;
+    teleport_entity(id: number, x: number, y: number, z: number): void; // A KINEMATIC body takes no velocity from the jump
+    set_kinematic_move_time(seconds: number): void; // Script moves arrive over this long (0: one step)
     set_entity_velocity(id: number, vx: number, vy: number, vz: number): void;
     set_entity_rotation(id: number, rx: number, ry: number, rz: number): void;
     set_entity_scale(id: number, sx: number, sy: number, sz: number): void;
+    // Angular dynamics (DYNAMIC bodies; world axes, radians): torque and force-at-point accumulate
+    // for the next step, off-center forces also torque the body
+    apply_torque(id: number, tx: number, ty: number, tz: number): void;
+    apply_force_at_point(id: number, fx: number, fy: number, fz: number, px: number, py: number, pz: number): void;
+    set_entity_angular_velocity(id: number, wx: number, wy: number, wz: number): void;
+    // Force modes (DYNAMIC bodies): accumulate_force acts over the next step (perMass: an
+    // acceleration), apply_impulse changes velocity by impulse / mass at once; apply_force above
+    // is the mass-independent velocity change
+    accumulate_force(id: number, x: number, y: number, z: number, perMass: boolean): void;
+    apply_impulse(id: number, ix: number, iy: number, iz: number): void;
+
+    // Joints between two entities (or an entity and the world, bodyB = JOINT_WORLD). kind is a
+    // JointType; anchors and hinge axis are world-space, as the bodies stand at add time. Limits
+    // are metres for distance/rope joints and radians for hinges; hinge angle and motor turn A
+    // relative to B. add_joint returns false if an id or body is invalid.
+    add_joint(jointId: number, kind: number, bodyA: number, bodyB: number, ax: number, ay: number, az: number, bx: number, by: number, bz: number, axisX: number, axisY: number, axisZ: number, collideConnected: boolean): boolean;
+    remove_joint(jointId: number): void;
+    set_joint_limits(jointId: number, lower: number, upper: number): void;
+    set_joint_motor(jointId: number, speed: number, maxTorque: number): void;
+    set_joint_spring(jointId: number, stiffness: number, damping: number, restLength: number): void;
+    get_joint_angle(jointId: number): number;
+    get_joint_count(): number;
+
+    // Force fields: volumes (SPHERE or BOX) pushing the DYNAMIC bodies overlapping them in each
+    // step. kind is a ForceFieldType; rotation is radians, direction in the field's frame,
+    // strength N (m/s² with perMass), falloff a ForceFieldFalloff. Setters that change nothing
+    // leave sleeping bodies asleep. add_force_field returns false if an id or kind is invalid.
+    add_force_field(fieldId: number, kind: number, shape: number): boolean;
+    remove_force_field(fieldId: number): void;
+    set_force_field_transform(fieldId: number, x: number, y: number, z: number, rx: number, ry: number, rz: number, ex: number, ey: number, ez: number): void;
+    set_force_field_strength(fieldId: number, strength: number, dx: number, dy: number, dz: number, perMass: boolean, falloff: number): void;
+    set_force_field_buoyancy(fieldId: number, density: number, drag: number): void;
+    set_force_field_layer_mask(fieldId: number, mask: number): void;
+    get_force_field_count(): number;
+
+    // Convex hulls: write a hull's points (x, y, z floats, at most MAX_HULL_VERTICES) at
+    // get_hull_staging_offset(), then create_convex_hull(count) registers them and returns the
+    // hull id (NO_HULL if rejected) that any number of entities share via set_entity_convex_hull
+    get_hull_staging_offset(): number;
+    create_convex_hull(pointCount: number): number;
+    set_entity_convex_hull(id: number, hullId: number): void;
+    get_hull_count(): number;
+
+    // Compound colliders: likewise, COMPOUND_PART_FLOATS per part at get_compound_staging_offset(),
+    // then create_compound(count) returns the compound id (NO_COMPOUND if rejected) for set_entity_compound
+    get_compound_staging_offset(): number;
+    create_compound(partCount: number): number;
+    set_entity_compound(id: number, compoundId: number): void;
+    get_compound_count(): number;
 
     // Zero-copy buffer access for GPU (future integration)
     get_entity_transforms_offset(): number;
@@ -54,6 +126,14 @@ export interface WasmPhysicsInterface {
     get_entity_velocity_y(index: number): number;
     get_entity_velocity_z(index: number): number;
 
+    // Entity angular velocity (rad/s) + Euler rotation (radians) getters
+    get_entity_angular_velocity_x(index: number): number;
+    get_entity_angular_velocity_y(index: number): number;
+    get_entity_angular_velocity_z(index: number): number;
+    get_entity_rotation_x(index: number): number;
+    get_entity_rotation_y(index: number): number;
+    get_entity_rotation_z(index: number): number;
+
     // Collision shape configuration (optional - may not be present in older WASM)
     spawn_entity_with_collider?(x: number, y: number, z: number, collision_shape: number, extent_x: number, extent_y: number, extent_z: number, mesh_type_id: number): number;
     set_entity_collision_shape?(id: number, shape: number, extent_x: number, extent_y: number, extent_z: number): void;
@@ -71,6 +151,20 @@ export interface WasmPhysicsInterface {
     debug_get_collision_radius?(id: number): number;
     get_wasm_version(): number;
 
+    // World settings: set_physics_config's gravity is along Y (set_gravity sets all three),
+    // restitution is for world-bounds bounces
+    set_physics_config(gravity: number, damping: number, restitution: number): void;
+    set_gravity(x: number, y: number, z: number): void;
+    set_world_box(minX: number, minY: number, minZ: number, maxX: number, maxY: number, maxZ: number): void;
+    set_world_bounds_enabled(enabled: boolean): void;
+    set_solver_iterations(iterations: number): void;
+
+    // Broadphase (sweep-and-prune) toggle + narrowphase stats of the last update()
+    set_broadphase_enabled(enabled: boolean): void;
+    get_broadphase_enabled(): boolean;
+    get_pairs_tested(): number;
+    get_pairs_overlapping(): number;
+
     // Collision event logging functions
     get_collision_event_counter(): number;
     get_last_collision_entities(): number; // Returns packed u64 (32 bits each entity ID)
@@ -78,15 +172,131 @@ export interface WasmPhysicsInterface {
     get_last_collision_pos2(axis: number): number; // axis: 0=x, 1=y, 2=z
     clear_collision_event_counter(): void;
 
+    // Per-step contact stream: a ContactRecord (entity a u32, entity b u32, point xyz, normal xyz,
+    // impulse, penetration) for every touching pair of the last update()
+    get_contact_count(): number;
+    get_contacts_offset(): number;
+    get_trigger_pair_count(): number;
+    get_trigger_pairs_offset(): number;
+
+    // Physics debug overlay: build_debug_lines(flags) writes the line list the flags
+    // (PhysicsDebugDraw) ask for and returns its vertex count; each vertex is position xyz +
+    // color rgba at get_debug_lines_offset()
+    build_debug_lines(flags: number): number;
+    get_debug_lines_offset(): number;
+
+    // Scene queries: each returns the hit count; hits are QueryHit records (id u32, distance,
+    // point xyz, normal xyz) nearest-first at get_query_hits_offset(). Only bodies on a layer in
+    // layerMask are hit.
+    raycast(ox: number, oy: number, oz: number, dx: number, dy: number, dz: number, maxDistance: number, layerMask: number): number;
+    sphere_cast(ox: number, oy: number, oz: number, radius: number, dx: number, dy: number, dz: number, maxDistance: number, layerMask: number): number;
+    // Overlaps write the same records: distance, point and normal then give each body's center
+    // and the way out to it from the volume's center
+    overlap_sphere(cx: number, cy: number, cz: number, radius: number, layerMask: number): number;
+    overlap_box(cx: number, cy: number, cz: number, ex: number, ey: number, ez: number, rx: number, ry: number, rz: number, layerMask: number): number;
+    get_query_hits_offset(): number;
+
+    // Character controller: move a kinematic character by (dx, dy, dz) with move-and-slide
+    // (slopeLimit in radians); returns CharacterCollision flags, the ground stood on is
+    // get_character_ground() (NO_GROUND if none)
+    move_character(id: number, dx: number, dy: number, dz: number, stepOffset: number, slopeLimit: number): number;
+    get_character_ground(): number;
+
+    // World snapshots: snapshot_begin() sizes the sections (header, component tables, joints,
+    // hulls, compounds, contacts, trigger pairs) and returns their count. To restore, write the
+    // header back, check restore_begin(), write the other sections (sized by that header) and
+    // call restore_end().
+    snapshot_begin(): number;
+    get_snapshot_section_offset(section: number): number;
+    get_snapshot_section_size(section: number): number;
+    restore_begin(): boolean;
+    restore_end(): void;
+
     // WASM memory
     memory: WebAssembly.Memory;
 }
 
+// One ray/sphere cast hit. `distance` is measured along the cast direction (for sphere casts,
+// travelled by the sphere center); `point` is on the hit collider's surface and `normal` faces
+// the caster.
+export interface RaycastHit {
+    gameObject: GameObject;
+    point: Vector3;
+    normal: Vector3;
+    distance: number;
+}
+
+// Narrows a scene query: only hit bodies on a layer in `layerMask` (e.g.
+// scene.layers.mask('ground')), skip specific objects (e.g. the caster itself) and/or keep only
+// the objects a predicate accepts.
+export interface QueryFilter {
+    layerMask?: number;
+    exclude?: GameObject[];
+    predicate?: (gameObject: GameObject) => boolean;
+}
+
+// QueryHit record in WASM memory: id (u32), distance, point xyz, normal xyz
+const QUERY_HIT_WORDS = 8;
+
+// ContactRecord in WASM memory: entity a (u32), entity b (u32), point xyz, normal xyz, impulse, penetration
+const CONTACT_RECORD_WORDS = 10;
+
+// A touching pair keyed by WASM entity ids (a < b); the contact is from a's point of view
+interface PairContact {
+    a: number;
+    b: number;
+    contact: ContactInfo;
+}
+
+type CollisionPhase = 'onCollisionEnter' | 'onCollisionStay' | 'onCollisionExit';
+
+// add_entity flags (mirrors ENTITY_FLAG_* in game_engine.zig)
+const ENTITY_FLAG_TRIGGER = 1 << 0;
+const ENTITY_FLAG_CONTINUOUS = 1 << 1;
+const ENTITY_FLAG_FRICTION_COMBINE_SHIFT = 8; // 2 bits: CombineMode
+const ENTITY_FLAG_RESTITUTION_COMBINE_SHIFT = 10; // 2 bits: CombineMode
+
+// add_joint body id of a joint pinned to the world (mirrors JOINT_WORLD in game_engine.zig)
+const JOINT_WORLD = 0xFFFF_FFFF;
+
+// create_convex_hull's answer when it rejects a hull (mirrors NO_HULL in game_engine.zig)
+const NO_HULL = 0xFFFF_FFFF;
+
+// Compound part in the staging buffer: shape, offset xyz, rotation xyz (radians), extents xyz
+// (mirrors COMPOUND_PART_FLOATS and NO_COMPOUND in game_engine.zig)
+const COMPOUND_PART_FLOATS = 10;
+const NO_COMPOUND = 0xFFFF_FFFF;
+
+// get_character_ground's answer when the character stands on nothing (mirrors NO_GROUND)
+const NO_GROUND = 0xFFFF_FFFF;
+
+// Trigger pair in WASM memory: entity a (u32), entity b (u32)
+const TRIGGER_PAIR_WORDS = 2;
+
+function isSpinning(angularVelocity: Vector3): boolean {
+    return angularVelocity.x !== 0 || angularVelocity.y !== 0 || angularVelocity.z !== 0;
+}
+
+function hierarchyDepth(gameObject: GameObject): number {
+    let depth = 0;
+    for (let parent = gameObject.getParent(); parent; parent = parent.getParent()) depth++;
+    return depth;
+}
+
 export class WasmPhysicsBridge {
     private wasm?: WasmPhysicsInterface;
     private nextEntityId = 0;
     private entityIdMap = new Map<string, number>(); // GameObject ID -> WASM entity ID
     private gameObjectMap = new Map<number, GameObject>(); // WASM entity ID -> GameObject
+    private activeContacts = new Map<string, PairContact>(); // Pairs touching after the last step
+    private activeTriggers = new Map<string, [number, number]>(); // Trigger pairs overlapping after the last step
+    private nextJointId = 0;
+    private joints = new Map<number, Joint>(); // WASM joint ID -> Joint
+    private pendingJoints = new Set<Joint>(); // Joints waiting for a body to be registered
+    private nextForceFieldId = 0;
+    private forceFields = new Map<number, ForceField>(); // WASM force field ID -> ForceField
+    private hullIds = new Map<ConvexHull, number>(); // Uploaded hull -> WASM hull ID (shared by its bodies)
+    private compoundIds = new Map<string, number>(); // Uploaded part list -> WASM compound ID (likewise)
 
     private isInitialized = false;
 
@@ -99,6 +309,8 @@ export class WasmPhysicsBridge {
             // Use provided module (for testing/custom scenarios)
             this.wasm = wasmModule;
             this.wasm.init();
+            this.hullIds.clear();
+            this.compoundIds.clear();
             this.isInitialized = true;
             console.log('✅ WasmPhysicsBridge initialized with provided WASM module');
         } else {
@@ -110,6 +322,8 @@ export class WasmPhysicsBridge {
             }
             this.wasm = loadedWasm;
             this.wasm.init();
+            this.hullIds.clear();
+            this.compoundIds.clear();
             this.isInitialized = true;
             console.log('✅ WasmPhysicsBridge initialized with real WASM physics module');
         }
@@ -126,6 +340,10 @@ export class WasmPhysicsBridge {
             throw new Error('WASM module not initialized - cannot add entity to physics and rendering system');
         }
 
+        // Its force fields enter the simulation (a field needs no MeshRenderer or RigidBody)
+        for (const component of gameObject.getAllComponents()) {
+            if (component instanceof ForceField) this.addForceField(component);
+        }
 
         // All entities with MeshRenderer go to WASM (both triangles and lines)
         const meshRenderer = gameObject.getMeshRenderer();
@@ -158,6 +376,11 @@ export class WasmPhysicsBridge {
         const bodyType = rigidBody ? rigidBody.bodyType : BodyType.STATIC;
         const mass = rigidBody ? rigidBody.mass : 0;
         const gravityScale = rigidBody ? rigidBody.gravityScale : 0;
+        const material = rigidBody ? rigidBody.material : PhysicsMaterial.DEFAULT;
+        const flags = (rigidBody?.isTrigger ? ENTITY_FLAG_TRIGGER : 0)
+            | (rigidBody?.continuousCollision ? ENTITY_FLAG_CONTINUOUS : 0)
+            | (material.frictionCombine << ENTITY_FLAG_FRICTION_COMBINE_SHIFT)
+            | (material.restitutionCombine << ENTITY_FLAG_RESTITUTION_COMBINE_SHIFT);
 
         // Get color and mesh ID from MeshRenderer if it exists
         const color = meshRenderer ? meshRenderer.color : { x: 1, y: 1, z: 1, w: 1 }; // Default white
@@ -169,22 +392,29 @@ export class WasmPhysicsBridge {
         const collisionShape = rigidBody ? rigidBody.collisionShape : 0; // Default to SPHERE
         const extents = rigidBody ? rigidBody.extents : { x: 0.5, y: 0.5, z: 0.5 }; // Default sphere
 
-        console.log(`   ➡️  Adding entity ${wasmEntityId} to WASM: position=(${transform.position.x}, ${transform.position.y}, ${transform.position.z}), scale=(${transform.scale.x}, ${transform.scale.y}, ${transform.scale.z}), color=(${color.x}, ${color.y}, ${color.z}, ${color.w}), meshIndex=${meshIndex}, bodyType=${bodyType}, mass=${mass}, gravityScale=${gravityScale}, shape=${collisionShape}, extents=(${extents.x}, ${extents.y}, ${extents.z}), physicsEnabled=${physicsEnabled}`);
+        // WASM has no hierarchy: it is given the WORLD transform (children are re-placed under a
+        // moving parent by syncHierarchyTransforms).
+        const position = transform.worldPosition;
+        const rotation = transform.worldRotation;
+        const scale = transform.worldScale;
+        transform.hasChanged = false;
+
+        console.log(`   ➡️  Adding entity ${wasmEntityId} to WASM: position=(${position.x}, ${position.y}, ${position.z}), scale=(${scale.x}, ${scale.y}, ${scale.z}), color=(${color.x}, ${color.y}, ${color.z}, ${color.w}), meshIndex=${meshIndex}, bodyType=${bodyType}, mass=${mass}, gravityScale=${gravityScale}, shape=${collisionShape}, extents=(${extents.x}, ${extents.y}, ${extents.z}), physicsEnabled=${physicsEnabled}`);
 
         // Initial rotation is baked into the WASM transform at add time (degrees -> radians),
         // so static/rotated entities render correctly without a per-frame sync.
         const DEG2RAD = Math.PI / 180;
         this.wasm.add_entity(
             wasmEntityId,
-            transform.position.x,
-            transform.position.y,
-            transform.position.z,
-            transform.rotation.x * DEG2RAD,
-            transform.rotation.y * DEG2RAD,
-            transform.rotation.z * DEG2RAD,
-            transform.scale.x,
-            transform.scale.y,
-            transform.scale.z,
+            position.x,
+            position.y,
+            position.z,
+            rotation.x * DEG2RAD,
+            rotation.y * DEG2RAD,
+            rotation.z * DEG2RAD,
+            scale.x,
+            scale.y,
+            scale.z,
             color.x, // Red
             color.y, // Green
             color.z, // Blue
@@ -195,7 +425,11 @@ export class WasmPhysicsBridge {
             mass,
             gravityScale,
             extents.x, // Use extents.x as radius for backward compatibility
-            physicsEnabled
+            physicsEnabled,
+            flags,
+            material.staticFriction,
+            material.dynamicFriction,
+            material.restitution
         );
 
         // If enhanced collision system is available, update the collision shape
@@ -203,12 +437,27 @@ export class WasmPhysicsBridge {
             this.wasm.set_entity_collision_shape(wasmEntityId, collisionShape, extents.x, extents.y, extents.z);
             console.log(`🔧 Set collision shape ${collisionShape} with extents (${extents.x}, ${extents.y}, ${extents.z}) for entity ${wasmEntityId}`);
         }
+        if (rigidBody && this.setCompoundCollider(wasmEntityId, gameObject)) {
+            // Collider children: the body's shape is the compound's first part
+        } else if (collisionShape === CollisionShape.HULL && rigidBody?.convexHull) {
+            this.setConvexHull(wasmEntityId, rigidBody.convexHull);
+        }
+
+        if (rigidBody) {
+            this.wasm.set_entity_collision_filter(wasmEntityId, rigidBody.collisionLayer, rigidBody.collisionMask);
+        }
 
         // Set initial velocity if RigidBody exists and has velocity
         if (rigidBody && (rigidBody.velocity.x !== 0 || rigidBody.velocity.y !== 0 || rigidBody.velocity.z !== 0)) {
             this.wasm.set_entity_velocity(wasmEntityId, rigidBody.velocity.x, rigidBody.velocity.y, rigidBody.velocity.z);
         }
 
+        // Its joints, and joints elsewhere that were waiting for it, enter the simulation
+        for (const component of gameObject.getAllComponents()) {
+            if (component instanceof Joint) this.pendingJoints.add(component);
+        }
+        this.registerPendingJoints();
+
         const entityType = rigidBody ? 'physics' : 'static';
         console.log(`🔵 Added ${entityType} entity ${wasmEntityId} for GameObject "${gameObject.name}" (Total WASM entities: ${this.nextEntityId})
         💡 WASM Bridge Stats: JS entities tracked=${this.entityIdMap.size}, WASM entities=${this.wasm?.get_entity_count?.() || 'unknown'}`);
@@ -222,11 +471,29 @@ export class WasmPhysicsBridge {
 
     // Remove GameObject from physics simulation
     public removePhysicsEntity(gameObjectId: string): boolean {
+        for (const field of this.forceFields.values()) {
+            if (field.gameObject?.id === gameObjectId) this.removeForceField(field);
+        }
+
         const wasmEntityId = this.entityIdMap.get(gameObjectId);
         if (wasmEntityId === undefined) {
             return false;
         }
 
+        // Joints attached to it go with it (WASM drops its side of them in remove_entity)
+        for (const [jointId, joint] of this.joints) {
+            if (joint.gameObject?.id === gameObjectId || joint.connectedBody?.id === gameObjectId) {
+                this.joints.delete(jointId);
+                joint.detach();
+            }
+        }
+        for (const joint of this.pendingJoints) {
+            if (joint.gameObject?.id === gameObjectId || joint.connectedBody?.id === gameObjectId) this.pendingJoints.delete(joint);
+        }
+
+        this.endContactsOf(wasmEntityId);
+        this.endTriggersOf(wasmEntityId);
+
         // Remove from WASM physics simulation
         if (this.wasm) {
             this.wasm.remove_entity(wasmEntityId);
@@ -246,14 +513,28 @@ export class WasmPhysicsBridge {
             return;
         }
 
+        // Children of parents moved since the last step follow them into the step...
+        this.syncHierarchyTransforms();
+        this.syncForceFields();
+
         // Run WASM physics simulation step
         this.wasm.update(deltaTime);
 
         // Sync physics results back to GameObjects
         this.syncPhysicsResults();
+
+        // ...and children of bodies the step just moved follow them into this frame's render.
+        if (this.syncHierarchyTransforms() > 0) {
+            this.wasm.update_transforms();
+        }
+
+        // Collision and trigger callbacks run last, so they see the synced transforms
+        this.dispatchCollisionEvents();
+        this.dispatchTriggerEvents();
     }
 
-    // Apply force to physics entity (overloaded method)
+    // Apply force to physics entity (overloaded method). WASM adds it to the velocity as is, at
+    // once and whatever the mass: RigidBody's ForceMode.VELOCITY_CHANGE
     public applyForce(wasmEntityId: number, fxOrForce: number | { x: number; y: number; z: number }, fy?: number, fz?: number): void {
         if (this.wasm) {
             if (typeof fxOrForce === 'object') {
@@ -268,6 +549,31 @@ export class WasmPhysicsBridge {
         }
     }
 
+    // Torque (world axes) acting over the next step (DYNAMIC bodies only)
+    public applyTorque(wasmEntityId: number, torque: Vector3): void {
+        this.wasm?.apply_torque(wasmEntityId, torque.x, torque.y, torque.z);
+    }
+
+    // Force acting over the next step at a world-space point; off-center it also torques the body
+    public applyForceAtPoint(wasmEntityId: number, force: Vector3, point: Vector3): void {
+        this.wasm?.apply_force_at_point(wasmEntityId, force.x, force.y, force.z, point.x, point.y, point.z);
+    }
+
+    // Force (N) acting over the next step at the center; perMass makes it an acceleration (m/s²)
+    public accumulateForce(wasmEntityId: number, force: Vector3, perMass: boolean = false): void {
+        this.wasm?.accumulate_force(wasmEntityId, force.x, force.y, force.z, perMass);
+    }
+
+    // Impulse (N·s): the velocity changes by impulse / mass at once, whatever the step length
+    public applyImpulse(wasmEntityId: number, impulse: Vector3): void {
+        this.wasm?.apply_impulse(wasmEntityId, impulse.x, impulse.y, impulse.z);
+    }
+
+    // Spin in rad/s about the world axes
+    public setAngularVelocity(wasmEntityId: number, angularVelocity: Vector3): void {
+        this.wasm?.set_entity_angular_velocity(wasmEntityId, angularVelocity.x, angularVelocity.y, angularVelocity.z);
+    }
+
     // Set entity velocity (for direct velocity control)
     public setEntityVelocity(wasmEntityId: number, velocity: { x: number; y: number; z: number }): void {
         if (this.wasm) {
@@ -284,6 +590,20 @@ export class WasmPhysicsBridge {
         }
     }
 
+    // Place an entity without moving it there: a KINEMATIC body takes no velocity from the
+    // jump, so it shoves nothing it lands in and flings nothing that rode it
+    public teleportEntity(wasmEntityId: number, position: { x: number; y: number; z: number }): void {
+        if (this.wasm) {
+            this.wasm.teleport_entity(wasmEntityId, position.x, position.y, position.z);
+        }
+    }
+
+    // Spread the KINEMATIC moves scripts make before the next update() over this many seconds
+    // of steps (a fixed-timestep frame's length), so each step moves them at the scripts' speed
+    public setKinematicMoveTime(seconds: number): void {
+        this.wasm?.set_kinematic_move_time(seconds);
+    }
+
     // Update entity position in WASM (for kinematic bodies)
     public updateEntity(wasmEntityId: number, position: { x: number; y: number; z: number }, velocity: { x: number; y: number; z: number }): void {
         if (this.wasm) {
@@ -342,6 +662,28 @@ export class WasmPhysicsBridge {
         }
     }
 
+    // Entity angular velocity (rad/s) as a vec3
+    public getEntityAngularVelocity(wasmEntityId: number): Vector3 | null {
+        if (!this.wasm) return null;
+        return {
+            x: this.wasm.get_entity_angular_velocity_x(wasmEntityId),
+            y: this.wasm.get_entity_angular_velocity_y(wasmEntityId),
+            z: this.wasm.get_entity_angular_velocity_z(wasmEntityId),
+        };
+    }
+
+    // Entity world rotation as Euler degrees (WASM keeps radians), the unit and order
+    // Transform.rotation uses
+    public getEntityRotation(wasmEntityId: number): Vector3 | null {
+        if (!this.wasm) return null;
+        const RAD2DEG = 180 / Math.PI;
+        return {
+            x: this.wasm.get_entity_rotation_x(wasmEntityId) * RAD2DEG,
+            y: this.wasm.get_entity_rotation_y(wasmEntityId) * RAD2DEG,
+            z: this.wasm.get_entity_rotation_z(wasmEntityId) * RAD2DEG,
+        };
+    }
+
     // Get physics data for entity (for reading from WASM)
     public getEntityData(wasmEntityId: number): { position: Vector3 } | null {
         const position = this.getEntityPosition(wasmEntityId);
@@ -354,6 +696,144 @@ export class WasmPhysicsBridge {
         this.wasm?.set_entity_body_type(wasmEntityId, bodyType);
     }
 
+    // Runtime trigger toggle: a trigger reports overlaps but is never solid.
+    public setTrigger(wasmEntityId: number, isTrigger: boolean): void {
+        this.wasm?.set_entity_trigger(wasmEntityId, isTrigger);
+    }
+
+    // Continuous collision on/off: a swept body stops at colliders instead of tunnelling through.
+    public setContinuousCollision(wasmEntityId: number, continuous: boolean): void {
+        this.wasm?.set_entity_continuous_collision(wasmEntityId, continuous);
+    }
+
+    // Runtime collision layer/mask change (32-bit layer bits + mask of layers to collide with).
+    public setCollisionFilter(wasmEntityId: number, layer: number, mask: number): void {
+        this.wasm?.set_entity_collision_filter(wasmEntityId, layer, mask);
+    }
+
+    // Runtime physics material swap (friction, restitution and their combine modes).
+    public setPhysicsMaterial(wasmEntityId: number, material: PhysicsMaterial): void {
+        this.wasm?.set_entity_physics_material(
+            wasmEntityId,
+            material.staticFriction,
+            material.dynamicFriction,
+            material.restitution,
+            material.frictionCombine,
+            material.restitutionCombine
+        );
+    }
+
+    // Add a joint to the simulation. It is registered as soon as both of its bodies are (joints on
+    // a GameObject are picked up by addEntity); until then it waits.
+    public addJoint(joint: Joint): void {
+        if (joint.isRegistered || this.pendingJoints.has(joint)) return;
+        this.pendingJoints.add(joint);
+        this.registerPendingJoints();
+    }
+
+    public removeJoint(joint: Joint): void {
+        this.pendingJoints.delete(joint);
+        const jointId = joint.getJointId();
+        if (jointId === undefined || this.joints.get(jointId) !== joint) return;
+        this.wasm?.remove_joint(jointId);
+        this.joints.delete(jointId);
+        joint.detach();
+    }
+
+    // Length range of a distance/rope joint (m) or angle range of a hinge (radians)
+    public setJointLimits(jointId: number, lower: number, upper: number): void {
+        this.wasm?.set_joint_limits(jointId, lower, upper);
+    }
+
+    // Hinge motor: target speed (rad/s) and the torque it may use (0 = off)
+    public setJointMotor(jointId: number, speed: number, maxTorque: number): void {
+        this.wasm?.set_joint_motor(jointId, speed, maxTorque);
+    }
+
+    public setJointSpring(jointId: number, stiffness: number, damping: number, restLength: number): void {
+        this.wasm?.set_joint_spring(jointId, stiffness, damping, restLength);
+    }
+
+    // Hinge angle in radians (0 at registration)
+    public getJointAngle(jointId: number): number {
+        return this.wasm?.get_joint_angle(jointId) ?? 0;
+    }
+
+    // Add a force field to the simulation (it stays in it until removed or its GameObject is)
+    public addForceField(field: ForceField): void {
+        if (!this.wasm || !field.gameObject || field.isRegistered) return;
+        const fieldId = this.nextForceFieldId++;
+        if (!this.wasm.add_force_field(fieldId, field.type, field.shape)) {
+            console.warn(`⚠️ ForceField on "${field.gameObject.name}" was not added: the force field table is full`);
+            return;
+        }
+        this.forceFields.set(fieldId, field);
+        field.attach(this, fieldId);
+        this.syncForceField(fieldId, field);
+    }
+
+    public removeForceField(field: ForceField): void {
+        const fieldId = field.getFieldId();
+        if (fieldId === undefined || this.forceFields.get(fieldId) !== field) return;
+        this.wasm?.remove_force_field(fieldId);
+        this.forceFields.delete(fieldId);
+        field.detach();
+    }
+
+    // Fields follow their GameObjects, and setting changes apply, on every step
+    private syncForceFields(): void {
+        for (const [fieldId, field] of this.forceFields) this.syncForceField(fieldId, field);
+    }
+
+    private syncForceField(fieldId: number, field: ForceField): void {
+        if (!this.wasm || !field.gameObject) return;
+        const DEG2RAD = Math.PI / 180;
+        const { worldPosition: position, worldRotation: rotation } = field.gameObject.transform;
+        const { extents, direction } = field;
+        this.wasm.set_force_field_transform(fieldId, position.x, position.y, position.z, rotation.x * DEG2RAD, rotation.y * DEG2RAD, rotation.z * DEG2RAD, extents.x, extents.y, extents.z);
+        this.wasm.set_force_field_strength(fieldId, field.strength, direction.x, direction.y, direction.z, field.forceMode === ForceMode.ACCELERATION, field.falloff);
+        this.wasm.set_force_field_buoyancy(fieldId, field.density, field.drag);
+        this.wasm.set_force_field_layer_mask(fieldId, field.layerMask);
+    }
+
+    // Register every pending joint whose bodies are both in WASM
+    private registerPendingJoints(): void {
+        if (!this.wasm) return;
+        for (const joint of this.pendingJoints) {
+            const bodyA = joint.gameObject ? this.entityIdMap.get(joint.gameObject.id) : undefined;
+            const bodyB = joint.connectedBody ? this.entityIdMap.get(joint.connectedBody.id) : JOINT_WORLD;
+            if (bodyA === undefined || bodyB === undefined) continue;
+            this.pendingJoints.delete(joint);
+
+            const jointId = this.nextJointId++;
+            const anchor = joint.worldAnchor();
+            const connectedAnchor = joint.worldConnectedAnchor();
+            const axis = joint.worldAxis();
+            const added = this.wasm.add_joint(
+                jointId, joint.type, bodyA, bodyB,
+                anchor.x, anchor.y, anchor.z,
+                connectedAnchor.x, connectedAnchor.y, connectedAnchor.z,
+                axis.x, axis.y, axis.z,
+                joint.collideConnected
+            );
+            if (!added) {
+                console.warn(`⚠️ ${joint.constructor.name} on "${joint.gameObject.name}" was not added: both ends need a RigidBody (and different GameObjects)`);
+                continue;
+            }
+            this.joints.set(jointId, joint);
+            joint.attach(this, jointId);
+        }
+    }
+
+    // Put a body to sleep (it stays put until something wakes it) or wake it up.
+    public setSleeping(wasmEntityId: number, sleeping: boolean): void {
+        this.wasm?.set_entity_sleeping(wasmEntityId, sleeping);
+    }
+
+    public isSleeping(wasmEntityId: number): boolean {
+        return !!this.wasm?.get_entity_sleeping(wasmEntityId); // WASM bools arrive as 0/1
+    }
+
     // Legacy convenience mapping onto the body-type model.
     public setKinematic(wasmEntityId: number, kinematic: boolean): void {
         this.setBodyType(wasmEntityId, kinematic ? BodyType.KINEMATIC : BodyType.DYNAMIC);
@@ -374,6 +854,57 @@ export class WasmPhysicsBridge {
         }
     }
 
+    // Give an entity a convex hull collider, uploading the hull the first time any body uses it
+    public setConvexHull(wasmEntityId: number, hull: ConvexHull): void {
+        if (!this.wasm) return;
+        let hullId = this.hullIds.get(hull);
+        if (hullId === undefined) {
+            new Float32Array(this.wasm.memory.buffer, this.wasm.get_hull_staging_offset(), hull.points.length).set(hull.points);
+            hullId = this.wasm.create_convex_hull(hull.vertexCount);
+            if (hullId === NO_HULL) {
+                console.warn(`⚠️ Convex hull of ${hull.vertexCount} points rejected by WASM (hull table full?): entity ${wasmEntityId} keeps its collider`);
+                return;
+            }
+            this.hullIds.set(hull, hullId);
+        }
+        this.wasm.set_entity_convex_hull(wasmEntityId, hullId);
+    }
+
+    // Give a body with Collider children a compound collider: its own shape and theirs. Returns
+    // false, leaving its collider as it is, when it has none (or they cannot be combined).
+    public setCompoundCollider(wasmEntityId: number, gameObject: GameObject): boolean {
+        const rigidBody = gameObject.getComponent(RigidBody);
+        const childParts = childColliderParts(gameObject);
+        if (!this.wasm || !rigidBody || childParts.length === 0) return false;
+        if (!isColliderShape(rigidBody.collisionShape)) {
+            console.warn(`⚠️ "${gameObject.name}": Collider children are ignored on a ${CollisionShape[rigidBody.collisionShape]} body (spheres, boxes, capsules and cylinders combine)`);
+            return false;
+        }
+        const parts = [{ shape: rigidBody.collisionShape, offset: { x: 0, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 }, extents: rigidBody.extents }, ...childParts];
+        if (parts.length > MAX_COMPOUND_PARTS) {
+            console.warn(`⚠️ "${gameObject.name}": ${parts.length} collider parts, more than the ${MAX_COMPOUND_PARTS} a compound takes; its Collider children are ignored`);
+            return false;
+        }
+
+        const key = JSON.stringify(parts);
+        let compoundId = this.compoundIds.get(key);
+        if (compoundId === undefined) {
+            const DEG2RAD = Math.PI / 180;
+            const staging = new Float32Array(this.wasm.memory.buffer, this.wasm.get_compound_staging_offset(), parts.length * COMPOUND_PART_FLOATS);
+            parts.forEach(({ shape, offset, rotation, extents }, i) => {
+                staging.set([shape, offset.x, offset.y, offset.z, rotation.x * DEG2RAD, rotation.y * DEG2RAD, rotation.z * DEG2RAD, extents.x, extents.y, extents.z], i * COMPOUND_PART_FLOATS);
+            });
+            compoundId = this.wasm.create_compound(parts.length);
+            if (compoundId === NO_COMPOUND) {
+                console.warn(`⚠️ "${gameObject.name}": compound rejected by WASM (compound table full?); its Collider children are ignored`);
+                return false;
+            }
+            this.compoundIds.set(key, compoundId);
+        }
+        this.wasm.set_entity_compound(wasmEntityId, compoundId);
+        return true;
+    }
+
     // Get collision shape information for entity
     public getEntityCollisionInfo(wasmEntityId: number): { shape: number; extents: { x: number; y: number; z: number } } | null {
         if (this.wasm && this.wasm.get_entity_collision_shape && this.wasm.get_entity_collision_extent_x && this.wasm.get_entity_collision_extent_y && this.wasm.get_entity_collision_extent_z) {
@@ -442,6 +973,257 @@ export class WasmPhysicsBridge {
         this.wasm?.clear_collision_event_counter();
     }
 
+    // Nearest collider hit by a ray, or null. Casts test the colliders WASM simulates: spheres,
+    // boxes (turned ones too), planes, upright capsules and cylinders, compounds part by part,
+    // and hulls by their bounding box. A ray starting inside a collider ignores that collider.
+    public raycast(origin: Vector3, direction: Vector3, maxDistance = Infinity, filter?: QueryFilter): RaycastHit | null {
+        return this.raycastAll(origin, direction, maxDistance, filter)[0] ?? null;
+    }
+
+    // Every collider hit by a ray, nearest first
+    public raycastAll(origin: Vector3, direction: Vector3, maxDistance = Infinity, filter?: QueryFilter): RaycastHit[] {
+        if (!this.wasm) return [];
+        const count = this.wasm.raycast(origin.x, origin.y, origin.z, direction.x, direction.y, direction.z, maxDistance, filter?.layerMask ?? ALL_LAYERS);
+        return this.readQueryHits(count, filter);
+    }
+
+    // Nearest collider a sphere of `radius` swept from `origin` would touch, or null
+    public sphereCast(origin: Vector3, radius: number, direction: Vector3, maxDistance = Infinity, filter?: QueryFilter): RaycastHit | null {
+        return this.sphereCastAll(origin, radius, direction, maxDistance, filter)[0] ?? null;
+    }
+
+    // Every collider a swept sphere touches, nearest first
+    public sphereCastAll(origin: Vector3, radius: number, direction: Vector3, maxDistance = Infinity, filter?: QueryFilter): RaycastHit[] {
+        if (!this.wasm) return [];
+        const count = this.wasm.sphere_cast(origin.x, origin.y, origin.z, radius, direction.x, direction.y, direction.z, maxDistance, filter?.layerMask ?? ALL_LAYERS);
+        return this.readQueryHits(count, filter);
+    }
+
+    // Every collider touching a sphere, nearest first (by the collider's point nearest the
+    // center). Tested in WASM against the real collider shapes; triggers are not reported.
+    public overlapSphere(center: Vector3, radius: number, filter?: QueryFilter): GameObject[] {
+        if (!this.wasm) return [];
+        const count = this.wasm.overlap_sphere(center.x, center.y, center.z, radius, filter?.layerMask ?? ALL_LAYERS);
+        return this.readQueryHits(count, filter).map((hit) => hit.gameObject);
+    }
+
+    // Every collider touching a box of half-size `halfExtents` turned by `rotation` (degrees,
+    // like Transform.rotation), nearest first
+    public overlapBox(center: Vector3, halfExtents: Vector3, filter?: QueryFilter, rotation: Vector3 = { x: 0, y: 0, z: 0 }): GameObject[] {
+        if (!this.wasm) return [];
+        const DEG2RAD = Math.PI / 180;
+        const count = this.wasm.overlap_box(
+            center.x, center.y, center.z,
+            halfExtents.x, halfExtents.y, halfExtents.z,
+            rotation.x * DEG2RAD, rotation.y * DEG2RAD, rotation.z * DEG2RAD,
+            filter?.layerMask ?? ALL_LAYERS,
+        );
+        return this.readQueryHits(count, filter).map((hit) => hit.gameObject);
+    }
+
+    // Blast the DYNAMIC bodies whose colliders reach within `radius` of `center` away from it:
+    // each gets an impulse (N·s) of `force` fading linearly with the distance to its collider's
+    // nearest point, to nothing at `radius`, and pushing it from the blast toward its center.
+    // `upwardsModifier` moves the blast's origin that far down for the push direction only, so
+    // bodies are thrown up as well as out. Returns the GameObjects pushed, nearest first.
+    public explode(center: Vector3, radius: number, force: number, upwardsModifier = 0, filter?: QueryFilter): GameObject[] {
+        if (!this.wasm) return [];
+        const count = this.wasm.overlap_sphere(center.x, center.y, center.z, radius, filter?.layerMask ?? ALL_LAYERS);
+        const origin = { x: center.x, y: center.y - upwardsModifier, z: center.z };
+
+        const pushed: GameObject[] = [];
+        for (const hit of this.readQueryHits(count, filter)) {
+            const wasmEntityId = this.entityIdMap.get(hit.gameObject.id);
+            const falloff = 1 - hit.distance / radius;
+            if (wasmEntityId === undefined || falloff <= 0) continue;
+            if (hit.gameObject.getComponent(RigidBody)?.bodyType !== BodyType.DYNAMIC) continue;
+
+            const bodyCenter = this.getEntityPosition(wasmEntityId)!;
+            const away = { x: bodyCenter.x - origin.x, y: bodyCenter.y - origin.y, z: bodyCenter.z - origin.z };
+            const length = Math.hypot(away.x, away.y, away.z);
+            const direction = length > 0 ? { x: away.x / length, y: away.y / length, z: away.z / length } : { x: 0, y: 1, z: 0 };
+            const impulse = force * falloff;
+            this.applyImpulse(wasmEntityId, { x: direction.x * impulse, y: direction.y * impulse, z: direction.z * impulse });
+            pushed.push(hit.gameObject);
+        }
+        return pushed;
+    }
+
+    // Move a character's kinematic body by `motion`, sliding along what it runs into (see
+    // CharacterController). Returns the CharacterCollision flags and the GameObject stood on.
+    public moveCharacter(wasmEntityId: number, motion: Vector3, stepOffset: number, slopeLimit: number): { flags: number; ground: GameObject | null } {
+        if (!this.wasm) return { flags: 0, ground: null };
+        const flags = this.wasm.move_character(wasmEntityId, motion.x, motion.y, motion.z, stepOffset, slopeLimit * Math.PI / 180);
+        const groundId = this.wasm.get_character_ground();
+        return { flags, ground: groundId === NO_GROUND ? null : this.gameObjectMap.get(groundId) ?? null };
+    }
+
+    // Map the WASM hit buffer back to GameObjects (ids without a GameObject are skipped)
+    private readQueryHits(count: number, filter?: QueryFilter): RaycastHit[] {
+        if (!this.wasm || count === 0) return [];
+
+        const offset = this.wasm.get_query_hits_offset();
+        const words = count * QUERY_HIT_WORDS;
+        const ids = new Uint32Array(this.wasm.memory.buffer, offset, words);
+        const floats = new Float32Array(this.wasm.memory.buffer, offset, words);
+
+        const hits: RaycastHit[] = [];
+        for (let i = 0; i < count; i++) {
+            const base = i * QUERY_HIT_WORDS;
+            const gameObject = this.gameObjectMap.get(ids[base]!);
+            if (!gameObject) continue;
+            if (filter?.exclude?.includes(gameObject)) continue;
+            if (filter?.predicate && !filter.predicate(gameObject)) continue;
+
+            hits.push({
+                gameObject,
+                distance: floats[base + 1]!,
+                point: { x: floats[base + 2]!, y: floats[base + 3]!, z: floats[base + 4]! },
+                normal: { x: floats[base + 5]!, y: floats[base + 6]!, z: floats[base + 7]! },
+            });
+        }
+        return hits;
+    }
+
+    // Diff the step's contact pairs against the previous step's and dispatch
+    // onCollisionEnter/Stay/Exit to the components of both GameObjects. Events are collected
+    // before any callback runs, so callbacks may add or remove objects safely.
+    private dispatchCollisionEvents(): void {
+        const current = this.readContacts();
+        const events: [CollisionPhase, PairContact][] = [];
+        for (const [key, pair] of current) {
+            events.push([this.activeContacts.has(key) ? 'onCollisionStay' : 'onCollisionEnter', pair]);
+        }
+        for (const [key, pair] of this.activeContacts) {
+            if (!current.has(key)) events.push(['onCollisionExit', pair]);
+        }
+        this.activeContacts = current;
+
+        for (const [phase, pair] of events) {
+            const a = this.gameObjectMap.get(pair.a);
+            const b = this.gameObjectMap.get(pair.b);
+            if (!a || !b) continue; // One side was removed (endContactsOf told the other)
+
+            const { point, normal, impulse } = pair.contact;
+            const flipped: ContactInfo = { point, normal: { x: -normal.x, y: -normal.y, z: -normal.z }, impulse };
+            for (const component of a.getAllComponents()) component[phase](b, pair.contact);
+            for (const component of b.getAllComponents()) component[phase](a, flipped);
+        }
+    }
+
+    // A body being removed leaves what it touched: each survivor gets onCollisionExit now (with
+    // the last contact, seen from its side), and the pairs are dropped so the next step neither
+    // repeats nor loses them.
+    private endContactsOf(wasmEntityId: number): void {
+        const gone = this.gameObjectMap.get(wasmEntityId);
+        const exits: [GameObject, ContactInfo][] = [];
+        for (const [key, pair] of this.activeContacts) {
+            if (pair.a !== wasmEntityId && pair.b !== wasmEntityId) continue;
+            this.activeContacts.delete(key);
+
+            const survivor = this.gameObjectMap.get(pair.a === wasmEntityId ? pair.b : pair.a);
+            if (!survivor) continue;
+            const { point, normal, impulse } = pair.contact;
+            exits.push([survivor, pair.a === wasmEntityId ? { point, normal: { x: -normal.x, y: -normal.y, z: -normal.z }, impulse } : pair.contact]);
+        }
+        if (!gone) return;
+        for (const [survivor, contact] of exits) {
+            for (const component of survivor.getAllComponents()) component.onCollisionExit(gone, contact);
+        }
+    }
+
+    // The same for a trigger, or a body inside one, being removed: the survivor gets
+    // onTriggerExit now
+    private endTriggersOf(wasmEntityId: number): void {
+        const gone = this.gameObjectMap.get(wasmEntityId);
+        const survivors: GameObject[] = [];
+        for (const [key, [a, b]] of this.activeTriggers) {
+            if (a !== wasmEntityId && b !== wasmEntityId) continue;
+            this.activeTriggers.delete(key);
+
+            const survivor = this.gameObjectMap.get(a === wasmEntityId ? b : a);
+            if (survivor) survivors.push(survivor);
+        }
+        if (!gone) return;
+        for (const survivor of survivors) {
+            for (const component of survivor.getAllComponents()) component.onTriggerExit(gone);
+        }
+    }
+
+    // Diff the step's trigger overlaps against the previous step's and dispatch
+    // onTriggerEnter/Exit to the components of both GameObjects (the trigger and the body
+    // inside it). Collected first, like collision events, so callbacks may remove objects.
+    private dispatchTriggerEvents(): void {
+        const current = this.readTriggerPairs();
+        const events: ['onTriggerEnter' | 'onTriggerExit', [number, number]][] = [];
+        for (const [key, pair] of current) {
+            if (!this.activeTriggers.has(key)) events.push(['onTriggerEnter', pair]);
+        }
+        for (const [key, pair] of this.activeTriggers) {
+            if (!current.has(key)) events.push(['onTriggerExit', pair]);
+        }
+        this.activeTriggers = current;
+
+        for (const [phase, [idA, idB]] of events) {
+            const a = this.gameObjectMap.get(idA);
+            const b = this.gameObjectMap.get(idB);
+            if (!a || !b) continue; // One side was removed (endTriggersOf told the other)
+
+            for (const component of a.getAllComponents()) component[phase](b);
+            for (const component of b.getAllComponents()) component[phase](a);
+        }
+    }
+
+    // This step's trigger overlaps from the WASM trigger pair stream, keyed "a:b" with a < b
+    private readTriggerPairs(): Map<string, [number, number]> {
+        const pairs = new Map<string, [number, number]>();
+        if (!this.wasm) return pairs;
+        const count = this.wasm.get_trigger_pair_count();
+        if (count === 0) return pairs;
+
+        const ids = new Uint32Array(this.wasm.memory.buffer, this.wasm.get_trigger_pairs_offset(), count * TRIGGER_PAIR_WORDS);
+        for (let i = 0; i < count; i++) {
+            const x = ids[i * TRIGGER_PAIR_WORDS]!;
+            const y = ids[i * TRIGGER_PAIR_WORDS + 1]!;
+            const [a, b] = x < y ? [x, y] : [y, x];
+            pairs.set(`${a}:${b}`, [a, b]);
+        }
+        return pairs;
+    }
+
+    // This step's contact pairs from the WASM contact stream, keyed "a:b" with a < b
+    private readContacts(): Map<string, PairContact> {
+        const pairs = new Map<string, PairContact>();
+        if (!this.wasm) return pairs;
+        const count = this.wasm.get_contact_count();
+        if (count === 0) return pairs;
+
+        const offset = this.wasm.get_contacts_offset();
+        const words = count * CONTACT_RECORD_WORDS;
+        const ids = new Uint32Array(this.wasm.memory.buffer, offset, words);
+        const floats = new Float32Array(this.wasm.memory.buffer, offset, words);
+
+        for (let i = 0; i < count; i++) {
+            const base = i * CONTACT_RECORD_WORDS;
+            let a = ids[base]!;
+            let b = ids[base + 1]!;
+            // The record's normal pushes entity a away from entity b; keep that POV for the lower id
+            const sign = a < b ? 1 : -1;
+            if (sign < 0) [a, b] = [b, a];
+
+            pairs.set(`${a}:${b}`, {
+                a,
+                b,
+                contact: {
+                    point: { x: floats[base + 2]!, y: floats[base + 3]!, z: floats[base + 4]! },
+                    normal: { x: sign * floats[base + 5]!, y: sign * floats[base + 6]!, z: sign * floats[base + 7]! },
+                    impulse: floats[base + 8]!,
+                },
+            });
+        }
+        return pairs;
+    }
+
     // Sync physics simulation results back to GameObjects
     private syncPhysicsResults(): void {
         if (!this.wasm) return;
@@ -449,8 +1231,12 @@ export class WasmPhysicsBridge {
         // Read updated transforms from WASM memory buffers
         for (const [wasmEntityId, gameObject] of this.gameObjectMap) {
             const rigidBody = gameObject.getComponent(RigidBody);
-            if (!rigidBody || rigidBody.isKinematic) {
-                continue; // Skip kinematic bodies
+            if (!rigidBody || rigidBody.bodyType === BodyType.STATIC) continue;
+            if (rigidBody.bodyType === BodyType.KINEMATIC) {
+                // Scripts own a kinematic body's transform; its velocity is how far they moved it
+                const velocity = this.getEntityVelocity(wasmEntityId);
+                if (velocity) rigidBody.velocity = velocity;
+                continue;
             }
 
             // Read actual position from WASM physics simulation
@@ -461,19 +1247,57 @@ export class WasmPhysicsBridge {
                 continue;
             }
 
-            // Update GameObject transform with new physics position
-            gameObject.transform.setPosition(position.x, position.y, position.z);
+            // Update GameObject transform with new physics position (WASM positions are world
+            // space; a dynamic child is converted back into its parent's space)
+            gameObject.transform.setWorldPosition(position.x, position.y, position.z);
+            gameObject.transform.hasChanged = false;
 
             // Also update RigidBody velocity for consistency
             rigidBody.velocity.x = velocity.x;
             rigidBody.velocity.y = velocity.y;
             rigidBody.velocity.z = velocity.z;
+
+            // Spin: the rotation is read back only while the body spins (or just stopped), so a
+            // non-spinning body keeps its scripted rotation untouched
+            const angularVelocity = this.getEntityAngularVelocity(wasmEntityId);
+            if (angularVelocity && (isSpinning(angularVelocity) || isSpinning(rigidBody.angularVelocity))) {
+                const rotation = this.getEntityRotation(wasmEntityId)!;
+                gameObject.transform.setWorldRotation(rotation.x, rotation.y, rotation.z);
+                gameObject.transform.hasChanged = false;
+            }
+            if (angularVelocity) rigidBody.angularVelocity = angularVelocity;
         }
     }
 
 
+    // Push the world transform of every registered hierarchy member whose world transform
+    // changed (own edit or an ancestor's). Dynamic bodies are skipped: physics owns their world
+    // position. Returns the number of entities pushed.
+    private syncHierarchyTransforms(): number {
+        if (!this.wasm) return 0;
+
+        let pushed = 0;
+        for (const [wasmEntityId, gameObject] of this.gameObjectMap) {
+            if (!gameObject.parentId) continue;
+            const transform = gameObject.transform;
+            transform.updateWorldMatrix();
+            if (!transform.hasChanged) continue;
+            transform.hasChanged = false;
+
+            const rigidBody = gameObject.getComponent(RigidBody);
+            if (rigidBody && !rigidBody.isKinematic) continue;
+
+            const position = transform.worldPosition;
+            this.wasm.set_entity_position(wasmEntityId, position.x, position.y, position.z);
+            this.updateEntityRotation(wasmEntityId, transform.worldRotation);
+            this.updateEntityScale(wasmEntityId, transform.worldScale);
+            pushed++;
+        }
+        return pushed;
+    }
+
     // Get statistics (Phase 6: Return real WASM entity count)
-    public getStats(): { entityCount: number; isInitialized: boolean; } {
+    public getStats(): { entityCount: number; sleepingBodies: number; isInitialized: boolean; } {
         if (!this.isInitialized) {
             throw new Error('WASM module not initialized - cannot get stats');
         }
@@ -481,10 +1305,171 @@ export class WasmPhysicsBridge {
 
         return {
             entityCount: realEntityCount,
+            sleepingBodies: this.wasm!.get_sleeping_body_count(),
             isInitialized: this.isInitialized,
         };
     }
 
+    // Capture the whole WASM world (bodies, joints, shapes, contacts, sleep) and which
+    // GameObject each entity belongs to as a blob for restore(). Physics settings are not
+    // part of it: they belong to the Scene.
+    public snapshot(): Uint8Array {
+        if (!this.wasm) {
+            throw new Error('❌ WASM module not initialized - cannot take a physics snapshot');
+        }
+        const sectionCount = this.wasm.snapshot_begin();
+        const sections: Uint8Array[] = [];
+        for (let i = 0; i < sectionCount; i++) {
+            const offset = this.wasm.get_snapshot_section_offset(i);
+            sections.push(new Uint8Array(this.wasm.memory.buffer, offset, this.wasm.get_snapshot_section_size(i)));
+        }
+        return encodePhysicsSnapshot({
+            wasmVersion: this.wasm.get_wasm_version(),
+            sections,
+            nextEntityId: this.nextEntityId,
+            nextJointId: this.nextJointId,
+            jointIds: [...this.joints.keys()],
+            entities: [...this.entityIdMap].map(([id, wasmId]): [number, string] => [wasmId, id]),
+        });
+    }
+
+    /**
+     * Put the WASM world back as snapshot() captured it, then bring the GameObjects along:
+     * their transforms and RigidBody velocities are set from the restored bodies. Restoring
+     * does not add or remove GameObjects: entities whose GameObject has been removed since
+     * are dropped, GameObjects registered since are added again as they stand now, and so are
+     * joints added since. Throws, changing nothing, for a blob from another WASM build.
+     */
+    public restore(blob: Uint8Array): void {
+        if (!this.wasm) {
+            throw new Error('❌ WASM module not initialized - cannot restore a physics snapshot');
+        }
+        const wasm = this.wasm;
+        const snapshot = decodePhysicsSnapshot(blob);
+        if (snapshot.wasmVersion !== wasm.get_wasm_version()) {
+            throw new Error(`❌ Physics snapshot is from WASM version ${snapshot.wasmVersion}, this is ${wasm.get_wasm_version()}`);
+        }
+        const [header, ...tables] = snapshot.sections;
+        if (!header || tables.length !== wasm.snapshot_begin() - 1 || header.byteLength !== wasm.get_snapshot_section_size(0)) {
+            throw new Error('❌ Physics snapshot does not match this WASM world layout');
+        }
+        const writeSection = (section: number, bytes: Uint8Array) => {
+            new Uint8Array(wasm.memory.buffer, wasm.get_snapshot_section_offset(section), bytes.byteLength).set(bytes);
+        };
+
+        // Nothing changes until every section is known to fit
+        writeSection(0, header);
+        if (!wasm.restore_begin() || tables.some((bytes, i) => bytes.byteLength !== wasm.get_snapshot_section_size(i + 1))) {
+            throw new Error('❌ Physics snapshot does not match this WASM world layout');
+        }
+        tables.forEach((bytes, i) => writeSection(i + 1, bytes));
+        wasm.restore_end();
+
+        // Entities: back to the snapshot's ids; those whose GameObject is gone are dropped
+        const registered = new Map<string, GameObject>();
+        for (const [id, wasmId] of this.entityIdMap) registered.set(id, this.gameObjectMap.get(wasmId)!);
+        this.entityIdMap.clear();
+        this.gameObjectMap.clear();
+        for (const [wasmId, id] of snapshot.entities) {
+            const gameObject = registered.get(id);
+            if (!gameObject) {
+                wasm.remove_entity(wasmId);
+                continue;
+            }
+            registered.delete(id);
+            this.entityIdMap.set(id, wasmId);
+            this.gameObjectMap.set(wasmId, gameObject);
+            gameObject.getComponent(RigidBody)?.setWasmEntityId(wasmId);
+        }
+        // Ids are never reused, so nothing added after the snapshot gets an id it handed out
+        this.nextEntityId = Math.max(this.nextEntityId, snapshot.nextEntityId);
+        this.nextJointId = Math.max(this.nextJointId, snapshot.nextJointId);
+
+        // Joints: those removed since go (their Joint is gone), those added since wait to be re-added
+        const snapshotJoints = new Set(snapshot.jointIds);
+        for (const jointId of snapshotJoints) {
+            if (!this.joints.has(jointId)) wasm.remove_joint(jointId);
+        }
+        for (const [jointId, joint] of this.joints) {
+            if (snapshotJoints.has(jointId)) continue;
+            this.joints.delete(jointId);
+            joint.detach();
+            this.pendingJoints.add(joint);
+        }
+
+        // Shapes uploaded since the snapshot are gone from WASM
+        const hullCount = wasm.get_hull_count();
+        for (const [hull, hullId] of this.hullIds) {
+            if (hullId >= hullCount) this.hullIds.delete(hull);
+        }
+        const compoundCount = wasm.get_compound_count();
+        for (const [key, compoundId] of this.compoundIds) {
+            if (compoundId >= compoundCount) this.compoundIds.delete(key);
+        }
+
+        // GameObjects follow their restored bodies (parents first, as children are placed in their space)
+        const byDepth = [...this.gameObjectMap].sort(([, a], [, b]) => hierarchyDepth(a) - hierarchyDepth(b));
+        for (const [wasmEntityId, gameObject] of byDepth) {
+            const position = this.getEntityPosition(wasmEntityId)!;
+            const rotation = this.getEntityRotation(wasmEntityId)!;
+            gameObject.transform.setWorldPosition(position.x, position.y, position.z);
+            gameObject.transform.setWorldRotation(rotation.x, rotation.y, rotation.z);
+            gameObject.transform.hasChanged = false;
+
+            const rigidBody = gameObject.getComponent(RigidBody);
+            if (rigidBody) {
+                rigidBody.velocity = this.getEntityVelocity(wasmEntityId)!;
+                rigidBody.angularVelocity = this.getEntityAngularVelocity(wasmEntityId)!;
+            }
+        }
+
+        for (const gameObject of registered.values()) this.addEntity(gameObject);
+        this.registerPendingJoints();
+
+        // Contacts and overlaps restored with the world do not fire Enter events again
+        this.activeContacts = this.readContacts();
+        this.activeTriggers = this.readTriggerPairs();
+    }
+
+    // Push a Scene's PhysicsSettings to WASM (they hold until changed, across init())
+    public applyPhysicsSettings(settings: PhysicsWorldSettings): void {
+        if (!this.wasm) return;
+        const { gravity, worldBounds } = settings;
+        this.wasm.set_physics_config(gravity.y, settings.damping, settings.restitution);
+        this.wasm.set_gravity(gravity.x, gravity.y, gravity.z);
+        this.wasm.set_world_bounds_enabled(worldBounds !== null);
+        if (worldBounds) {
+            const { min, max } = worldBounds;
+            this.wasm.set_world_box(min.x, min.y, min.z, max.x, max.y, max.z);
+        }
+        this.wasm.set_solver_iterations(settings.solverIterations);
+    }
+
+    // Toggle the WASM sweep-and-prune broadphase (on by default). Off, every pair of colliders
+    // reaches the narrowphase; the simulation is the same either way, only slower.
+    public setBroadphaseEnabled(enabled: boolean): void {
+        this.wasm?.set_broadphase_enabled(enabled);
+    }
+
+    // Narrowphase load of the last physics step (summed over solver iterations): pairs the
+    // broadphase let through vs. pairs that were actually touching
+    public getBroadphaseStats(): { enabled: boolean; pairsTested: number; pairsOverlapping: number } {
+        if (!this.wasm) return { enabled: false, pairsTested: 0, pairsOverlapping: 0 };
+        return {
+            enabled: !!this.wasm.get_broadphase_enabled(), // WASM bools arrive as 0/1
+            pairsTested: this.wasm.get_pairs_tested(),
+            pairsOverlapping: this.wasm.get_pairs_overlapping(),
+        };
+    }
+
+    // The physics debug overlay's line list for `flags` (PhysicsDebugDraw): DEBUG_VERTEX_FLOATS
+    // per vertex, two vertices per line. A view into WASM memory, valid until the next call.
+    public getDebugLines(flags: number): Float32Array {
+        if (!this.wasm || flags === PhysicsDebugDraw.NONE) return new Float32Array(0);
+        const count = this.wasm.build_debug_lines(flags);
+        return new Float32Array(this.wasm.memory.buffer, this.wasm.get_debug_lines_offset(), count * DEBUG_VERTEX_FLOATS);
+    }
+
     // Check if WASM module is available
     public hasWasmModule(): boolean {
         return !!this.wasm;
@@ -18,7 +18,7 @@ export class GPUBufferManager {
     // Per-instance data mirrors WASM's 96 B extern RenderingComponent (B4/B6):
     // 16 transform + 4 color + anim_time/variant/lod_flags/bone_palette (Stage C fields).
     // Must match game_engine.zig — asserted there by entity_abi_test.zig.
-    private static readonly INSTANCE_FLOATS = 24; // 96 B / 4
+    static readonly INSTANCE_FLOATS = 24; // 96 B / 4
 
     constructor(device: GPUDevice) {
         this.device = device;
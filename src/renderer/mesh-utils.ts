@@ -124,6 +124,92 @@ export function createSphereMesh(radius: number = 1, segments: number = 16): Mes
     };
 }
 
+/**
+ * Create a capsule mesh standing along Y, matching the CAPSULE collider: a cylinder of
+ * radius `radius` between two hemispheres, `halfHeight` from the center to either tip
+ * @param radius Capsule radius (default 0.5)
+ * @param halfHeight Half the total height, caps included (default 1, at least radius)
+ * @param segments Number of segments around the axis (default 16; each cap gets half as many rings)
+ */
+export function createCapsuleMesh(radius: number = 0.5, halfHeight: number = 1, segments: number = 16): MeshData {
+    const vertices = [];
+    const indices = [];
+    const core = Math.max(halfHeight - radius, 0);
+    const capRings = Math.max(1, Math.floor(segments / 2));
+
+    // Rows from the top tip to the bottom one; the equator appears twice, once per cap,
+    // and the band between the two copies is the cylindrical core
+    const rows: { theta: number; offset: number }[] = [];
+    for (let i = 0; i <= capRings; i++) rows.push({ theta: (i * Math.PI) / (2 * capRings), offset: core });
+    for (let i = capRings; i <= 2 * capRings; i++) rows.push({ theta: (i * Math.PI) / (2 * capRings), offset: -core });
+
+    for (const { theta, offset } of rows) {
+        for (let j = 0; j <= segments; j++) {
+            const phi = (j * 2 * Math.PI) / segments;
+
+            const x = radius * Math.sin(theta) * Math.cos(phi);
+            const y = radius * Math.cos(theta) + offset;
+            const z = radius * Math.sin(theta) * Math.sin(phi);
+
+            vertices.push(x, y, z);
+        }
+    }
+
+    for (let i = 0; i < rows.length - 1; i++) {
+        for (let j = 0; j < segments; j++) {
+            const first = i * (segments + 1) + j;
+            const second = first + segments + 1;
+
+            indices.push(first, second, first + 1);
+            indices.push(second, second + 1, first + 1);
+        }
+    }
+
+    return {
+        vertices: new Float32Array(vertices),
+        indices: new Uint16Array(indices)
+    };
+}
+
+/**
+ * Create a closed cylinder mesh standing along Y, matching the CYLINDER collider
+ * @param radius Cylinder radius (default 0.5)
+ * @param halfHeight Half the height; the flat ends sit at ±halfHeight (default 1)
+ * @param segments Number of segments around the axis (default 16)
+ */
+export function createCylinderMesh(radius: number = 0.5, halfHeight: number = 1, segments: number = 16): MeshData {
+    const vertices = [];
+    const indices = [];
+
+    // Top ring, then bottom ring, then the two cap centers
+    for (const y of [halfHeight, -halfHeight]) {
+        for (let j = 0; j <= segments; j++) {
+            const phi = (j * 2 * Math.PI) / segments;
+            vertices.push(radius * Math.cos(phi), y, radius * Math.sin(phi));
+        }
+    }
+    const bottom = segments + 1;
+    const topCenter = 2 * (segments + 1);
+    const bottomCenter = topCenter + 1;
+    vertices.push(0, halfHeight, 0, 0, -halfHeight, 0);
+
+    // Same winding as createSphereMesh
+    for (let j = 0; j < segments; j++) {
+        const top = j;
+        const below = bottom + j;
+
+        indices.push(top, below, top + 1);
+        indices.push(below, below + 1, top + 1);
+        indices.push(topCenter, top, top + 1);
+        indices.push(bottomCenter, below + 1, below);
+    }
+
+    return {
+        vertices: new Float32Array(vertices),
+        indices: new Uint16Array(indices)
+    };
+}
+
 /**
  * Create a pyramid (square base) mesh centered at origin
  * @param size Length of base edge (default 1)
@@ -15,6 +15,7 @@ interface GPUTexture { createView(descriptor?: any): any; destroy(): void; }
 // import { EntityManager, EntityData } from './entities';
 import { GPUBufferManager } from './gpu-buffer-manager';
 import { MeshData, RenderMode } from './mesh-registry';
+import { DEBUG_VERTEX_FLOATS } from '../engine/physics-debug-draw';
 
 // The only WASM surface the render path needs: the per-mesh draw table (B3). Narrow on purpose —
 // render() no longer reads wasm memory, so it must not require `memory` (keeps mocking simple).
@@ -29,6 +30,16 @@ export type TextureData = {
     // ...other texture params
 };
 
+export interface RendererOptions {
+    /** Multiplier on devicePixelRatio for the canvas backing-store resolution (default 1). */
+    renderScale?: number;
+    /** Cap on the effective pixel ratio, devicePixelRatio × renderScale (default 2). */
+    maxRenderScale?: number;
+}
+
+// Called with the new backing-store size (device pixels) after the canvas was resized.
+export type ResizeListener = (width: number, height: number) => void;
+
 // Re-export types for convenience
 export type { MeshData } from './mesh-registry';
 export type { EntityData } from '../engine/entities';
@@ -59,6 +70,14 @@ export class WebGPURendererV2 {
     private bindGroup!: GPUBindGroup;
     private boundInstanceBuffer: GPUBuffer | null = null; // buffer the bind group was built over
 
+    // Debug line overlay (setDebugLines): its own vertex stream of position + color per vertex,
+    // drawn after the meshes without depth testing, so colliders inside their meshes show
+    private debugPipeline!: GPURenderPipeline;
+    private debugBindGroup!: GPUBindGroup;
+    private debugVertexBuffer: GPUBuffer | null = null;
+    private debugVertexCapacity = 0; // bytes
+    private debugVertexCount = 0;
+
     private textureRegistry = new Map<string, Texture>();
 
     // New architecture components
@@ -67,28 +86,141 @@ export class WebGPURendererV2 {
 
     private depthTexture!: GPUTexture;
 
-    async init(canvas: HTMLCanvasElement): Promise<void> {
+    // Resize subsystem: the canvas backing store tracks its CSS size × the effective pixel ratio
+    // (devicePixelRatio × renderScale, capped at maxRenderScale). A ResizeObserver reports CSS
+    // size changes; a resolution media query reports devicePixelRatio changes (e.g. the window
+    // moved to another monitor). Either one resizes the canvas, reconfigures the context,
+    // rebuilds the depth texture and notifies the resize listeners.
+    private canvas!: HTMLCanvasElement;
+    private renderScale = 1;
+    private maxRenderScale = 2;
+    private cssSize: { width: number; height: number } | undefined = undefined;
+    private resizeObserver: ResizeObserver | undefined = undefined;
+    private pixelRatioQuery: MediaQueryList | undefined = undefined;
+    private resizeListeners = new Set<ResizeListener>();
+
+    async init(canvas: HTMLCanvasElement, options: RendererOptions = {}): Promise<void> {
         // Setup device/context
         const adapter = await navigator.gpu.requestAdapter();
         this.device = await adapter!.requestDevice();
+        this.canvas = canvas;
         this.context = canvas.getContext('webgpu')!;
         this.presentationFormat = navigator.gpu.getPreferredCanvasFormat();
 
-        this.context.configure({
-            device: this.device,
-            format: this.presentationFormat,
-            alphaMode: 'opaque',
-        });
+        const { renderScale = 1, maxRenderScale = 2 } = options;
+        this.validateScale('renderScale', renderScale);
+        this.validateScale('maxRenderScale', maxRenderScale);
+        this.renderScale = renderScale;
+        this.maxRenderScale = maxRenderScale;
+
+        this.configureContext();
 
         // Initialize buffer manager
         this.bufferManager = new GPUBufferManager(this.device);
 
+        // Size the canvas for the current pixel ratio (no-op until it is laid out), then keep it
+        // in sync. Falls back to the canvas' own size when neither has happened.
+        this.resizeCanvas();
+        this.observeResize();
+        this.watchPixelRatio();
+
         // Create depth texture
         this.createDepthTexture(canvas);
 
         // Create shaders and pipeline
         this.createRenderPipeline();
         this.createUniformBuffer();
+        this.createDebugPipeline();
+    }
+
+    private configureContext(): void {
+        this.context.configure({
+            device: this.device,
+            format: this.presentationFormat,
+            alphaMode: 'opaque',
+        });
+    }
+
+    private validateScale(name: string, value: number): void {
+        if (!(value > 0)) {
+            throw new Error(`WebGPURendererV2: ${name} must be > 0 (got ${value})`);
+        }
+    }
+
+    /** Effective pixel ratio of the backing store: devicePixelRatio × renderScale, capped. */
+    getPixelRatio(): number {
+        const devicePixelRatio = window.devicePixelRatio || 1;
+        return Math.min(devicePixelRatio * this.renderScale, this.maxRenderScale);
+    }
+
+    /** Scale the backing-store resolution relative to devicePixelRatio (e.g. 0.5 for speed). */
+    setRenderScale(scale: number): void {
+        this.validateScale('renderScale', scale);
+        this.renderScale = scale;
+        this.resizeCanvas();
+    }
+
+    getRenderScale(): number {
+        return this.renderScale;
+    }
+
+    /** Subscribe to canvas resizes; returns the unsubscribe function. */
+    onResize(listener: ResizeListener): () => void {
+        this.resizeListeners.add(listener);
+        return () => this.resizeListeners.delete(listener);
+    }
+
+    private observeResize(): void {
+        if (typeof ResizeObserver === 'undefined') return;
+        this.resizeObserver = new ResizeObserver((entries) => {
+            const entry = entries[entries.length - 1];
+            if (!entry) return;
+            this.cssSize = { width: entry.contentRect.width, height: entry.contentRect.height };
+            this.resizeCanvas();
+        });
+        this.resizeObserver.observe(this.canvas);
+    }
+
+    // A resolution media query matches exactly one devicePixelRatio, so it is re-armed for the
+    // new ratio every time it fires.
+    private watchPixelRatio(): void {
+        this.pixelRatioQuery?.removeEventListener('change', this.handlePixelRatioChange);
+        this.pixelRatioQuery = undefined;
+        if (typeof window.matchMedia !== 'function') return;
+        this.pixelRatioQuery = window.matchMedia(`(resolution: ${window.devicePixelRatio || 1}dppx)`);
+        this.pixelRatioQuery.addEventListener('change', this.handlePixelRatioChange);
+    }
+
+    private handlePixelRatioChange = (): void => {
+        this.resizeCanvas();
+        this.watchPixelRatio();
+    };
+
+    // Resize the backing store to CSS size × pixel ratio (clamped to the device's texture
+    // limit). Skipped while the canvas has no layout size (hidden / detached).
+    private resizeCanvas(): void {
+        const canvas = this.canvas;
+        const cssWidth = this.cssSize?.width ?? canvas.clientWidth;
+        const cssHeight = this.cssSize?.height ?? canvas.clientHeight;
+        if (!cssWidth || !cssHeight) return;
+
+        const ratio = this.getPixelRatio();
+        const maxDimension = this.device.limits?.maxTextureDimension2D ?? 8192;
+        const width = Math.max(1, Math.min(Math.round(cssWidth * ratio), maxDimension));
+        const height = Math.max(1, Math.min(Math.round(cssHeight * ratio), maxDimension));
+        if (width === canvas.width && height === canvas.height) return;
+
+        canvas.width = width;
+        canvas.height = height;
+        // Before init() has built the depth texture there is nothing to rebuild yet.
+        if (!this.depthTexture) return;
+
+        this.configureContext();
+        this.depthTexture.destroy();
+        this.createDepthTexture(canvas);
+        for (const listener of this.resizeListeners) {
+            listener(width, height);
+        }
     }
 
     private createDepthTexture(canvas: HTMLCanvasElement): void {
@@ -260,6 +392,88 @@ export class WebGPURendererV2 {
         // Future: add point pipeline (primitive.topology: 'point-list') if point-clouds needed.
     }
 
+    // Line-list pipeline of the debug overlay. Vertices carry their own world position and
+    // color (no instances), so its bind group holds only the camera uniform.
+    private createDebugPipeline(): void {
+        const shader = `
+      struct Uniforms {
+        viewProjectionMatrix: mat4x4<f32>,
+      }
+
+      @binding(0) @group(0) var<uniform> uniforms: Uniforms;
+
+      struct VertexOutput {
+        @builtin(position) position: vec4<f32>,
+        @location(0) color: vec4<f32>,
+      }
+
+      @vertex
+      fn vs_main(@location(0) position: vec3<f32>, @location(1) color: vec4<f32>) -> VertexOutput {
+        var output: VertexOutput;
+        output.position = uniforms.viewProjectionMatrix * vec4<f32>(position, 1.0);
+        output.color = color;
+        return output;
+      }
+
+      @fragment
+      fn fs_main(@location(0) color: vec4<f32>) -> @location(0) vec4<f32> {
+        return color;
+      }
+    `;
+        let module;
+        try {
+            module = this.device.createShaderModule({ code: shader });
+        } catch (error) {
+            console.error('❌ Debug line shader compilation failed:', error);
+            throw error;
+        }
+
+        const bindGroupLayout = this.device.createBindGroupLayout({
+            entries: [
+                {
+                    binding: 0,
+                    visibility: GPUShaderStage.VERTEX,
+                    buffer: { type: 'uniform' },
+                },
+            ],
+        });
+
+        this.debugPipeline = this.device.createRenderPipeline({
+            layout: this.device.createPipelineLayout({ bindGroupLayouts: [bindGroupLayout] }),
+            vertex: {
+                module,
+                entryPoint: 'vs_main',
+                buffers: [
+                    {
+                        arrayStride: DEBUG_VERTEX_FLOATS * 4, // position xyz + color rgba = 28 bytes
+                        attributes: [
+                            { format: 'float32x3', offset: 0, shaderLocation: 0 },
+                            { format: 'float32x4', offset: 3 * 4, shaderLocation: 1 },
+                        ],
+                    },
+                ] as any,
+            },
+            fragment: {
+                module,
+                entryPoint: 'fs_main',
+                targets: [{ format: this.presentationFormat }],
+            },
+            primitive: {
+                topology: 'line-list',
+            },
+            depthStencil: {
+                format: 'depth24plus',
+                depthWriteEnabled: false,
+                depthCompare: 'always',
+            },
+        });
+
+        this.debugBindGroup = this.device.createBindGroup({
+            layout: bindGroupLayout,
+            entries: [{ binding: 0, resource: { buffer: this.uniformBuffer } }],
+        });
+    }
+
     private createUniformBuffer(): void {
         // Create uniform buffer (view-projection matrix will be set externally)
         this.uniformBuffer = this.device.createBuffer({
@@ -314,6 +528,28 @@ export class WebGPURendererV2 {
         this.bufferManager.clearMeshes();
     }
 
+    /**
+     * Lines to draw over the scene from the next frame on (a line list, DEBUG_VERTEX_FLOATS
+     * per vertex: world position xyz, color rgba), e.g. the physics debug overlay. Pass
+     * undefined (or no vertices) to draw none. The data is copied to the GPU at once.
+     */
+    setDebugLines(vertices: Float32Array | undefined): void {
+        this.debugVertexCount = vertices ? Math.floor(vertices.length / DEBUG_VERTEX_FLOATS) : 0;
+        if (!vertices || this.debugVertexCount === 0) return;
+
+        const byteLength = this.debugVertexCount * DEBUG_VERTEX_FLOATS * 4;
+        if (byteLength > this.debugVertexCapacity) {
+            // Grow geometrically: the line count changes with the scene every frame
+            this.debugVertexBuffer?.destroy();
+            this.debugVertexCapacity = Math.max(byteLength, this.debugVertexCapacity * 2);
+            this.debugVertexBuffer = this.device.createBuffer({
+                size: this.debugVertexCapacity,
+                usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST,
+            });
+        }
+        this.device.queue.writeBuffer(this.debugVertexBuffer!, 0, vertices.buffer, vertices.byteOffset, byteLength);
+    }
+
     registerTexture(textureId: string, texture: TextureData): void {
         this.textureRegistry.set(textureId, new Texture(this.device, texture));
     }
@@ -393,6 +629,14 @@ export class WebGPURendererV2 {
             console.error(`❌ Suspicious instance count ${instanceCount} - refusing to render (possible buffer corruption)`);
         }
 
+        // PASS 3: Debug lines (setDebugLines), over everything
+        if (this.debugVertexCount > 0 && this.debugVertexBuffer) {
+            renderPass.setPipeline(this.debugPipeline);
+            renderPass.setBindGroup(0, this.debugBindGroup);
+            renderPass.setVertexBuffer(0, this.debugVertexBuffer);
+            renderPass.draw(this.debugVertexCount);
+        }
+
         // End render pass and submit
         renderPass.end();
         const commandBuffer = commandEncoder.finish();
@@ -430,13 +674,22 @@ export class WebGPURendererV2 {
     }
 
     getAspectRatio(): number {
-        // Get aspect ratio from canvas
-        const canvas = this.context.canvas;
-        return canvas.width / canvas.height;
+        // Get aspect ratio from canvas (its backing store tracks the CSS size, see resizeCanvas)
+        const canvas = this.canvas;
+        return canvas.height > 0 ? canvas.width / canvas.height : 1;
     }
 
     dispose(): void {
+        this.resizeObserver?.disconnect();
+        this.resizeObserver = undefined;
+        this.pixelRatioQuery?.removeEventListener('change', this.handlePixelRatioChange);
+        this.pixelRatioQuery = undefined;
+        this.resizeListeners.clear();
         this.bufferManager?.dispose();
+        this.debugVertexBuffer?.destroy();
+        this.debugVertexBuffer = null;
+        this.debugVertexCapacity = 0;
+        this.debugVertexCount = 0;
         this.depthTexture?.destroy();
         this.textureRegistry.clear();
         // this.entityManager = new EntityManager();
@@ -2,7 +2,7 @@
 // Factory for creating diverse rain entities with different mesh types, sizes, and colors
 
 import { GameObject } from '../../engine/gameobject';
-import { Vector3, MeshRenderer, RigidBody } from '../../engine/components';
+import { Vector3, MeshRenderer, RigidBody, CollisionShape, BodyType } from '../../engine/components';
 import { Mesh } from '../../engine/mesh';
 import { Material } from '../../engine/material';
 
@@ -110,6 +110,25 @@ export class RainEntityFactory {
         return this.createRainEntity(config);
     }
 
+    /**
+     * Create the cleanup kill zone: an invisible static trigger slab whose top face is at
+     * `topY`. Rain falls into it and is removed by whoever listens to its onTriggerEnter.
+     */
+    createKillZone(topY: number, halfWidth: number): GameObject {
+        const halfHeight = 1;
+        const killZone = new GameObject('rain_kill_zone', 'Rain Kill Zone');
+        killZone.transform.setPosition(0, topY - halfHeight, 0);
+        // A MeshRenderer is what registers the entity with WASM; scale 0 keeps it invisible
+        // (the collider extents are independent of the render scale)
+        killZone.transform.setScale(0, 0, 0);
+        killZone.addComponent(new MeshRenderer(CUBE_MESH, new Material('rain-kill-zone', { r: 1, g: 0, b: 0, a: 1 }), 'triangles'));
+        killZone.addComponent(new RigidBody(1.0, false, CollisionShape.BOX, { x: halfWidth, y: halfHeight, z: halfWidth }, {
+            bodyType: BodyType.STATIC,
+            isTrigger: true,
+        }));
+        return killZone;
+    }
+
     /**
      * Create a rain entity with specific configuration
      */
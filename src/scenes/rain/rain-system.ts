@@ -4,7 +4,7 @@
 import { Scene } from '../../engine/scene-system';
 import { GameObject } from '../../engine/gameobject';
 import { RainEntityFactory, RainEntityType, RainEntityConfig } from './rain-entity-factory';
-import { Vector3 } from '../../engine/components';
+import { Vector3, Component } from '../../engine/components';
 
 export interface RainSystemConfig {
     spawnRate: number;        // entities per second
@@ -16,7 +16,23 @@ export interface RainSystemConfig {
     };
     entityTypes?: RainEntityType[];  // specific types to spawn (empty = all types)
     autoCleanup?: boolean;    // automatically remove entities that fall too far
-    cleanupY?: number | undefined;        // Y coordinate below which entities are removed
+    cleanupY?: number | undefined;        // Top of the kill zone: entities reaching it are removed
+}
+
+// The WASM world floor is at y = -8 (world bounds), so a kill zone below it is never reached
+const DEFAULT_CLEANUP_Y = -7.5;
+// Kill zone half-width: covers any spawn area plus lateral drift
+const KILL_ZONE_HALF_WIDTH = 100;
+
+// Forwards the kill zone's trigger overlaps to the rain system
+class KillZoneTrigger extends Component {
+    constructor(private onEnter: (_other: GameObject) => void) {
+        super();
+    }
+
+    override onTriggerEnter(other: GameObject): void {
+        this.onEnter(other);
+    }
 }
 
 export interface RainSystemStats {
@@ -39,6 +55,7 @@ export class RainSystemV2 {
     private totalSpawned = 0;
     private totalCleaned = 0;
     private rainEntities = new Set<string>(); // Track entity IDs for cleanup
+    private killZone: GameObject | undefined; // Static trigger slab below the spawn area (autoCleanup)
 
     // Performance monitoring
     private frameHistory: number[] = [];
@@ -53,7 +70,7 @@ export class RainSystemV2 {
         this.factory = new RainEntityFactory();
         this.config = {
             autoCleanup: true,
-            cleanupY: -20,
+            cleanupY: DEFAULT_CLEANUP_Y,
             ...config
         };
 
@@ -73,6 +90,7 @@ export class RainSystemV2 {
 
         this.active = true;
         this.lastSpawnTime = performance.now();
+        this.createKillZone();
         this.lastFrameTime = performance.now();
 
         // Start update loop at 60 FPS
@@ -113,11 +131,6 @@ export class RainSystemV2 {
         // Check if we should spawn new entities
         this.trySpawnEntity(now);
 
-        // Clean up entities if enabled
-        if (this.config.autoCleanup) {
-            this.cleanupEntities();
-        }
-
         // Check performance and auto-stop if needed
         this.checkPerformance();
     }
@@ -196,35 +209,31 @@ export class RainSystemV2 {
     }
 
     /**
-     * Clean up entities that have fallen below the cleanup threshold
+     * Add the kill zone trigger (autoCleanup): rain that falls into it is removed
      */
-    private cleanupEntities(): void {
-        if (!this.config.cleanupY) return;
+    private createKillZone(): void {
+        if (this.killZone || !this.config.autoCleanup || this.config.cleanupY === undefined) return;
 
-        const entitiesToRemove: string[] = [];
-
-        for (const entityId of this.rainEntities) {
-            const entity = this.scene.getGameObject(entityId);
-            if (!entity) {
-                // Entity already removed from scene
-                entitiesToRemove.push(entityId);
-                continue;
-            }
+        this.killZone = this.factory.createKillZone(this.config.cleanupY, KILL_ZONE_HALF_WIDTH);
+        this.killZone.addComponent(new KillZoneTrigger(other => this.onKillZoneEnter(other)));
+        this.scene.addGameObject(this.killZone);
+        console.log(`🌧️ Rain kill zone added at y=${this.config.cleanupY}`);
+    }
 
-            // Check if entity has fallen too far
-            if (entity.transform.position.y < (this.config.cleanupY || -20)) {
-                entitiesToRemove.push(entityId);
-                this.scene.removeGameObject(entityId);
-                this.totalCleaned++;
-            }
-        }
+    private removeKillZone(): void {
+        if (!this.killZone) return;
+        this.scene.removeGameObject(this.killZone.id);
+        this.killZone = undefined;
+    }
 
-        // Remove from tracking
-        entitiesToRemove.forEach(id => this.rainEntities.delete(id));
+    /**
+     * Remove a rain entity that entered the kill zone
+     */
+    private onKillZoneEnter(entity: GameObject): void {
+        if (!this.rainEntities.delete(entity.id)) return; // Not rain (or already removed)
 
-        if (entitiesToRemove.length > 0) {
-            console.log(`🌧️ Cleaned up ${entitiesToRemove.length} rain entities (total cleaned: ${this.totalCleaned})`);
-        }
+        this.scene.removeGameObject(entity.id);
+        this.totalCleaned++;
     }
 
     /**
@@ -281,6 +290,12 @@ export class RainSystemV2 {
      */
     updateConfig(newConfig: Partial<RainSystemConfig>): void {
         this.config = { ...this.config, ...newConfig };
+
+        // Rebuild the kill zone if its placement (or whether there is one) changed
+        if ('cleanupY' in newConfig || 'autoCleanup' in newConfig) {
+            this.removeKillZone();
+            if (this.active) this.createKillZone();
+        }
         console.log('🌧️ Rain system config updated:', this.config);
     }
 
@@ -335,6 +350,7 @@ export class RainSystemV2 {
     dispose(): void {
         this.stop();
         this.clearAllRainEntities();
+        this.removeKillZone();
         this.factory.resetCounter();
     }
 }
\ No newline at end of file
@@ -158,7 +158,7 @@ class EnhancedRainDemo {
                 z: [-10, 10],  // Wide spawn area
             },
             autoCleanup: true,
-            cleanupY: -15,
+            cleanupY: -7.5, // Kill zone just above the WASM world floor (y = -8)
             // Mix of all entity types for variety
             entityTypes: [
                 RainEntityType.SMALL_SPHERE,
@@ -402,7 +402,8 @@ async function main() {
         // Scene-first engine API: the Engine owns the renderer + WASM + the sim/render loop.
         // Build the scene as pure data, loadScene() uploads its meshes + mounts it, and
         // engine.start() drives the frame loop. Pause/resume = engine.stop()/start().
-        engine = new Engine(canvas);
+        // Fixed 60 Hz physics so the stack settles the same on any refresh rate.
+        engine = new Engine(canvas, { fixedTimestep: 1 / 60 });
         await engine.init();
 
         scene = new Scene();
@@ -488,11 +489,15 @@ async function main() {
             }
         };
 
-        // Keyboard event listener for 'L' key
+        // Keyboard event listener for the 'L' and 'C' keys
         window.addEventListener('keydown', (e) => {
             if (e.key.toLowerCase() === 'l') {
                 (window as any).toggleDebugLogging();
             }
+            if (e.key.toLowerCase() === 'c' && engine) {
+                // Physics debug overlay: colliders, contacts, velocities and sleep
+                engine.setPhysicsDebugDraw(!engine.physicsDebugDraw);
+            }
         });
 
         // Initial UI state
@@ -428,7 +428,8 @@ async function main() {
         }
 
         // Scene-first engine API: build the scene as pure data, then let the Engine mount + run it.
-        engine = new Engine('canvas');
+        // Fixed 60 Hz physics so the stack settles the same on any refresh rate.
+        engine = new Engine('canvas', { fixedTimestep: 1 / 60 });
         await engine.init();
 
         // The runtime "add ball" spawns use the sphere mesh, which isn't present in the
@@ -168,3 +168,147 @@ export function createLookAtMatrix(
         1                                                                             // column 3 w
     ]);
 }
+
+/**
+ * Invert a 4x4 matrix (column-major). Returns null for a singular matrix (e.g. a zero scale).
+ */
+export function invertMat4(m: Float32Array): Float32Array | null {
+    if (m.length !== 16) {
+        throw new Error('Invalid matrix size');
+    }
+    // Cofactor expansion over 2x2 sub-determinants (the standard gl-matrix formulation)
+    const a00 = m[0]!, a01 = m[1]!, a02 = m[2]!, a03 = m[3]!;
+    const a10 = m[4]!, a11 = m[5]!, a12 = m[6]!, a13 = m[7]!;
+    const a20 = m[8]!, a21 = m[9]!, a22 = m[10]!, a23 = m[11]!;
+    const a30 = m[12]!, a31 = m[13]!, a32 = m[14]!, a33 = m[15]!;
+
+    const b00 = a00 * a11 - a01 * a10;
+    const b01 = a00 * a12 - a02 * a10;
+    const b02 = a00 * a13 - a03 * a10;
+    const b03 = a01 * a12 - a02 * a11;
+    const b04 = a01 * a13 - a03 * a11;
+    const b05 = a02 * a13 - a03 * a12;
+    const b06 = a20 * a31 - a21 * a30;
+    const b07 = a20 * a32 - a22 * a30;
+    const b08 = a20 * a33 - a23 * a30;
+    const b09 = a21 * a32 - a22 * a31;
+    const b10 = a21 * a33 - a23 * a31;
+    const b11 = a22 * a33 - a23 * a32;
+
+    const det = b00 * b11 - b01 * b10 + b02 * b09 + b03 * b08 - b04 * b07 + b05 * b06;
+    if (Math.abs(det) < 1e-12) {
+        return null;
+    }
+    const invDet = 1 / det;
+
+    return new Float32Array([
+        (a11 * b11 - a12 * b10 + a13 * b09) * invDet,
+        (a02 * b10 - a01 * b11 - a03 * b09) * invDet,
+        (a31 * b05 - a32 * b04 + a33 * b03) * invDet,
+        (a22 * b04 - a21 * b05 - a23 * b03) * invDet,
+        (a12 * b08 - a10 * b11 - a13 * b07) * invDet,
+        (a00 * b11 - a02 * b08 + a03 * b07) * invDet,
+        (a32 * b02 - a30 * b05 - a33 * b01) * invDet,
+        (a20 * b05 - a22 * b02 + a23 * b01) * invDet,
+        (a10 * b10 - a11 * b08 + a13 * b06) * invDet,
+        (a01 * b08 - a00 * b10 - a03 * b06) * invDet,
+        (a30 * b04 - a31 * b02 + a33 * b00) * invDet,
+        (a21 * b02 - a20 * b04 - a23 * b00) * invDet,
+        (a11 * b07 - a10 * b09 - a12 * b06) * invDet,
+        (a00 * b09 - a01 * b07 + a02 * b06) * invDet,
+        (a31 * b01 - a30 * b03 - a32 * b00) * invDet,
+        (a20 * b03 - a21 * b01 + a22 * b00) * invDet,
+    ]);
+}
+
+/**
+ * Transform a point by a 4x4 matrix (column-major, w = 1; affine matrices only)
+ */
+export function transformPoint(m: Float32Array, point: [number, number, number]): [number, number, number] {
+    const [x, y, z] = point;
+    return [
+        m[0]! * x + m[4]! * y + m[8]! * z + m[12]!,
+        m[1]! * x + m[5]! * y + m[9]! * z + m[13]!,
+        m[2]! * x + m[6]! * y + m[10]! * z + m[14]!,
+    ];
+}
+
+/**
+ * Blend two affine transform matrices (column-major, 16 floats from `offset` in each) by `t`
+ * into `out` at the same offset: translation and scale linearly, rotation by quaternion slerp,
+ * so a turning body keeps its shape and size between the two.
+ */
+export function interpolateTransform(from: Float32Array, to: Float32Array, t: number, out: Float32Array, offset = 0): void {
+    const a = decomposeTransform(from, offset);
+    const b = decomposeTransform(to, offset);
+    const [x, y, z, w] = slerp(a.rotation, b.rotation, t);
+    const sx = a.scale[0] + (b.scale[0] - a.scale[0]) * t;
+    const sy = a.scale[1] + (b.scale[1] - a.scale[1]) * t;
+    const sz = a.scale[2] + (b.scale[2] - a.scale[2]) * t;
+
+    out[offset] = (1 - 2 * (y * y + z * z)) * sx;
+    out[offset + 1] = 2 * (x * y + z * w) * sx;
+    out[offset + 2] = 2 * (x * z - y * w) * sx;
+    out[offset + 3] = 0;
+    out[offset + 4] = 2 * (x * y - z * w) * sy;
+    out[offset + 5] = (1 - 2 * (x * x + z * z)) * sy;
+    out[offset + 6] = 2 * (y * z + x * w) * sy;
+    out[offset + 7] = 0;
+    out[offset + 8] = 2 * (x * z + y * w) * sz;
+    out[offset + 9] = 2 * (y * z - x * w) * sz;
+    out[offset + 10] = (1 - 2 * (x * x + y * y)) * sz;
+    out[offset + 11] = 0;
+    for (let i = 12; i < 15; i++) {
+        out[offset + i] = from[offset + i]! + (to[offset + i]! - from[offset + i]!) * t;
+    }
+    out[offset + 15] = 1;
+}
+
+type Quaternion = [number, number, number, number]; // x, y, z, w
+
+// Scale (column lengths; the first negated for a mirrored matrix) and rotation of a transform
+function decomposeTransform(m: Float32Array, offset: number): { scale: [number, number, number]; rotation: Quaternion } {
+    const column = (c: number) => [m[offset + c * 4]!, m[offset + c * 4 + 1]!, m[offset + c * 4 + 2]!] as const;
+    const [c0, c1, c2] = [column(0), column(1), column(2)];
+    const det = c0[0] * (c1[1] * c2[2] - c1[2] * c2[1]) - c1[0] * (c0[1] * c2[2] - c0[2] * c2[1]) + c2[0] * (c0[1] * c1[2] - c0[2] * c1[1]);
+    const scale: [number, number, number] = [Math.hypot(...c0) * (det < 0 ? -1 : 1), Math.hypot(...c1), Math.hypot(...c2)];
+    const [r00, r10, r20] = c0.map(v => v / (scale[0] || 1)) as [number, number, number];
+    const [r01, r11, r21] = c1.map(v => v / (scale[1] || 1)) as [number, number, number];
+    const [r02, r12, r22] = c2.map(v => v / (scale[2] || 1)) as [number, number, number];
+
+    const trace = r00 + r11 + r22;
+    let rotation: Quaternion;
+    if (trace > 0) {
+        const s = Math.sqrt(trace + 1) * 2;
+        rotation = [(r21 - r12) / s, (r02 - r20) / s, (r10 - r01) / s, s / 4];
+    } else if (r00 > r11 && r00 > r22) {
+        const s = Math.sqrt(1 + r00 - r11 - r22) * 2;
+        rotation = [s / 4, (r01 + r10) / s, (r02 + r20) / s, (r21 - r12) / s];
+    } else if (r11 > r22) {
+        const s = Math.sqrt(1 + r11 - r00 - r22) * 2;
+        rotation = [(r01 + r10) / s, s / 4, (r12 + r21) / s, (r02 - r20) / s];
+    } else {
+        const s = Math.sqrt(1 + r22 - r00 - r11) * 2;
+        rotation = [(r02 + r20) / s, (r12 + r21) / s, s / 4, (r10 - r01) / s];
+    }
+    return { scale, rotation };
+}
+
+// Spherical interpolation along the shorter arc (normalized lerp when nearly aligned)
+function slerp(a: Quaternion, b: Quaternion, t: number): Quaternion {
+    let cos = a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3];
+    const sign = cos < 0 ? -1 : 1;
+    cos *= sign;
+
+    let wa = 1 - t;
+    let wb = t * sign;
+    if (cos < 0.9995) {
+        const angle = Math.acos(cos);
+        const sin = Math.sin(angle);
+        wa = Math.sin((1 - t) * angle) / sin;
+        wb = Math.sin(t * angle) / sin * sign;
+    }
+    const q: Quaternion = [a[0] * wa + b[0] * wb, a[1] * wa + b[1] * wb, a[2] * wa + b[2] * wb, a[3] * wa + b[3] * wb];
+    const length = Math.hypot(...q) || 1;
+    return [q[0] / length, q[1] / length, q[2] / length, q[3] / length];
+}
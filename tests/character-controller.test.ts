@@ -0,0 +1,132 @@
+// tests/character-controller.test.ts
+// Character controller: walking up a step, jumping and landing, riding a moving platform,
+// shoving a crate, falling along Y only, and the keyboard/gamepad keys reaching it through the
+// Scene's input target.
+
+import { WasmPhysicsBridge } from '../src/engine/wasm-physics-bridge';
+import { RigidBody, CollisionShape, BodyType } from '../src/engine/components';
+import { CharacterController, CharacterCollision } from '../src/engine/character-controller';
+import { CharacterInputController } from '../src/engine/input-controller';
+import { Scene } from '../src/engine/scene-system';
+import { DT, addPhysicsObject, stepFrames } from './utils/physics-fixtures';
+
+describe('CharacterController', () => {
+    let bridge: WasmPhysicsBridge;
+    let scene: Scene;
+
+    const addObject = (name: string, x: number, y: number, z: number, body: RigidBody) => addPhysicsObject({ bridge, scene }, name, { x, y, z }, body);
+
+    // Feet on the floor (top at y = 0) at x = -3
+    const addPlayer = (opts = {}) => {
+        const player = addObject('player', -3, 0.9, 0, CharacterController.body(0.3, 0.9));
+        return { player, controller: player.addComponent(new CharacterController(opts)) };
+    };
+
+    const step = (frames: number) => stepFrames({ bridge, scene }, frames);
+
+    beforeEach(async () => {
+        bridge = new WasmPhysicsBridge();
+        await bridge.init();
+        scene = new Scene();
+        addObject('floor', 0, -1, 0, RigidBody.staticBody(CollisionShape.BOX, { x: 20, y: 1, z: 20 }));
+    });
+
+    afterEach(() => {
+        scene.dispose();
+    });
+
+    test('walks onto a step no taller than its step offset', () => {
+        const step1 = addObject('step', 0, 0.125, 0, RigidBody.staticBody(CollisionShape.BOX, { x: 1, y: 0.125, z: 5 }));
+        const { player, controller } = addPlayer({ speed: 3 });
+        controller.setMoveInput(1, 0);
+
+        step(50);
+
+        expect(player.transform.position.x).toBeCloseTo(-0.5, 1);
+        expect(player.transform.position.y).toBeCloseTo(1.15, 1);
+        expect(controller.isGrounded).toBe(true);
+        expect(controller.ground).toBe(step1);
+    });
+
+    test('jumps about its jump height and lands again', () => {
+        const { player, controller } = addPlayer({ jumpHeight: 1 });
+        step(2);
+        expect(controller.collisionFlags).toBe(CharacterCollision.GROUNDED);
+
+        controller.jump();
+        let peak = 0;
+        for (let i = 0; i < 90; i++) {
+            step(1);
+            peak = Math.max(peak, player.transform.position.y);
+        }
+
+        expect(peak - 0.9).toBeCloseTo(1, 1);
+        expect(player.transform.position.y).toBeCloseTo(0.9, 2);
+        expect(controller.isGrounded).toBe(true);
+    });
+
+    test('rides a moving platform', () => {
+        const platform = addObject('platform', -3, 0.1, 0, new RigidBody(1.0, false, CollisionShape.BOX, { x: 1, y: 0.1, z: 1 }, { bodyType: BodyType.KINEMATIC }));
+        const { player, controller } = addPlayer();
+        player.transform.setPosition(-3, 1.1, 0);
+        step(2);
+        expect(controller.ground).toBe(platform);
+
+        for (let i = 0; i < 60; i++) {
+            platform.transform.translate(1 * DT, 0, 0);
+            step(1);
+        }
+
+        expect(player.transform.position.x).toBeCloseTo(-2, 1);
+        expect(controller.ground).toBe(platform);
+    });
+
+    test('shoves a dynamic crate out of its way', () => {
+        const crate = addObject('crate', -1.5, 0.5, 0, new RigidBody(1.0, true, CollisionShape.BOX, { x: 0.5, y: 0.5, z: 0.5 }));
+        const { controller } = addPlayer({ speed: 2 });
+        controller.setMoveInput(1, 0);
+
+        step(60);
+
+        expect(crate.transform.position.x).toBeGreaterThan(-1);
+        expect(controller.collisionFlags & CharacterCollision.SIDES).toBe(0);
+    });
+
+    test('falls along Y only, warning once about sideways gravity', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        scene.physicsSettings.set({ gravity: { x: 5, y: -9.8, z: 0 } });
+        const { player, controller } = addPlayer();
+        player.transform.setPosition(-3, 2, 0);
+
+        step(60);
+
+        expect(player.transform.position.x).toBeCloseTo(-3);
+        expect(player.transform.position.y).toBeCloseTo(0.9, 1);
+        expect(controller.isGrounded).toBe(true);
+        expect(warn).toHaveBeenCalledTimes(1);
+        warn.mockRestore();
+    });
+
+    test('is walked by the keyboard and gamepad keys of the Scene input target', () => {
+        const { player, controller } = addPlayer({ speed: 3 });
+        scene.setInputTarget(player);
+        const input = scene.getInputController()!;
+        expect(input).toBeInstanceOf(CharacterInputController);
+        expect(scene.getCharacterInputController()).toBe(input);
+
+        input.handleInput(87, true); // W: forward (-z)
+        input.handleInput(1014, true); // force-right (+x)
+        step(30);
+        input.handleInput(87, false);
+        input.handleInput(1014, false);
+
+        const diagonal = 3 * 0.5 / Math.SQRT2;
+        expect(player.transform.position.x).toBeCloseTo(-3 + diagonal, 1);
+        expect(player.transform.position.z).toBeCloseTo(-diagonal, 1);
+
+        input.handleInput(32, true); // Space: jump
+        step(5);
+        expect(controller.verticalSpeed).toBeGreaterThan(0);
+        expect(player.transform.position.y).toBeGreaterThan(1);
+    });
+});
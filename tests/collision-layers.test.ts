@@ -0,0 +1,160 @@
+// tests/collision-layers.test.ts
+// Collision layers: the Scene's named-layer registry and layer matrix, the layer/mask they put
+// on RigidBodies, and WASM honouring those masks for contacts, triggers and raycasts.
+
+import { CollisionLayers, ALL_LAYERS, MAX_COLLISION_LAYERS } from '../src/engine/collision-layers';
+import { WasmPhysicsBridge } from '../src/engine/wasm-physics-bridge';
+import { GameObject } from '../src/engine/gameobject';
+import { RigidBody, CollisionShape, BodyType, Component } from '../src/engine/components';
+import { Mesh } from '../src/engine/mesh';
+import { Scene } from '../src/engine/scene-system';
+import { DT, meshObject } from './utils/physics-fixtures';
+
+describe('CollisionLayers', () => {
+    test('layer 0 is "default"; define() hands out the next bit and is idempotent', () => {
+        const layers = new CollisionLayers();
+
+        expect(layers.layer('default')).toBe(1);
+        expect(layers.define('player')).toBe(2);
+        expect(layers.define('debris')).toBe(4);
+        expect(layers.define('player')).toBe(2);
+        expect(layers.mask('player', 'debris')).toBe(6);
+        expect(layers.nameOf(4)).toBe('debris');
+    });
+
+    test('unknown names and a 33rd layer throw', () => {
+        const layers = new CollisionLayers();
+
+        expect(() => layers.layer('ghost')).toThrow(/ghost/);
+        for (let i = 1; i < MAX_COLLISION_LAYERS; i++) layers.define(`layer${i}`);
+        expect(layers.layer('layer31')).toBe(0x80000000); // unsigned
+        expect(() => layers.define('one-too-many')).toThrow(/32/);
+    });
+
+    test('the matrix starts all-colliding and setLayerCollision() is symmetric', () => {
+        const layers = new CollisionLayers();
+        layers.define('player');
+        layers.define('projectile');
+
+        expect(layers.collisionMask('player')).toBe(ALL_LAYERS);
+
+        layers.setLayerCollision('player', 'projectile', false);
+
+        expect(layers.canCollide('player', 'projectile')).toBe(false);
+        expect(layers.canCollide('projectile', 'player')).toBe(false);
+        expect(layers.canCollide('projectile', 'projectile')).toBe(true);
+        expect(layers.collisionMask('player')).toBe((ALL_LAYERS & ~layers.layer('projectile')) >>> 0);
+    });
+});
+
+describe('Scene layers', () => {
+    test('setLayer() puts a RigidBody on the layer with the matrix row as its mask', () => {
+        const scene = new Scene();
+        scene.layers.define('debris');
+        scene.layers.setLayerCollision('debris', 'debris', false);
+        const rock = new GameObject('rock');
+        const rigidBody = rock.addComponent(new RigidBody());
+
+        expect(scene.setLayer(rock, 'debris')).toBe(true);
+        expect(rigidBody.collisionLayer).toBe(scene.layers.layer('debris'));
+        expect(rigidBody.collisionMask & scene.layers.layer('debris')).toBe(0);
+        expect(scene.setLayer(new GameObject('no-body'), 'debris')).toBe(false);
+    });
+
+    test('matrix edits update the masks of bodies already on the layer', () => {
+        const scene = new Scene();
+        const rock = new GameObject('rock');
+        const rigidBody = rock.addComponent(new RigidBody());
+        scene.addGameObject(rock);
+        scene.setLayer(rock, 'debris');
+
+        scene.layers.setLayerCollision('debris', 'default', false);
+
+        expect(rigidBody.collisionMask & scene.layers.layer('default')).toBe(0);
+    });
+});
+
+describe('WASM layer filtering', () => {
+    let bridge: WasmPhysicsBridge;
+    let scene: Scene;
+    const sphereMesh = Mesh.createSphere('sphere', 1);
+
+    // Counts collision and trigger callbacks
+    class EventCounter extends Component {
+        collisions = 0;
+        triggers = 0;
+        override onCollisionEnter(): void {
+            this.collisions++;
+        }
+        override onTriggerEnter(): void {
+            this.triggers++;
+        }
+    }
+
+    const addBall = (name: string, x: number, layer: string, opts: { isTrigger?: boolean } = {}) => {
+        const ball = meshObject(name, { x, y: 0, z: 0 }, new RigidBody(1.0, false, CollisionShape.SPHERE, { x: 0.5, y: 0.5, z: 0.5 }, {
+            bodyType: BodyType.STATIC,
+            ...opts,
+        }), sphereMesh);
+        const events = ball.addComponent(new EventCounter());
+        scene.addGameObject(ball); // unmounted scene: a pure data insert (the bridge is driven directly)
+        scene.setLayer(ball, layer);
+        const id = bridge.addEntity(ball)!;
+        return { ball, events, id };
+    };
+
+    beforeEach(async () => {
+        bridge = new WasmPhysicsBridge();
+        await bridge.init();
+        scene = new Scene();
+        scene.layers.define('debris');
+        scene.layers.define('player');
+    });
+
+    test('debris passes through debris once the matrix says so', () => {
+        scene.layers.setLayerCollision('debris', 'debris', false);
+        const rock = addBall('rock', -0.3, 'debris');
+        rock.ball.getComponent(RigidBody)!.setBodyType(BodyType.DYNAMIC);
+        addBall('pebble', 0.3, 'debris');
+
+        bridge.update(DT);
+
+        expect(rock.events.collisions).toBe(0);
+        expect(bridge.getEntityPosition(rock.id)!.x).toBeCloseTo(-0.3);
+    });
+
+    test('other layers still collide', () => {
+        scene.layers.setLayerCollision('debris', 'debris', false);
+        const rock = addBall('rock', -0.3, 'debris');
+        rock.ball.getComponent(RigidBody)!.setBodyType(BodyType.DYNAMIC);
+        addBall('hero', 0.3, 'player');
+
+        bridge.update(DT);
+
+        expect(rock.events.collisions).toBe(1);
+    });
+
+    test('trigger overlaps honour the masks', () => {
+        const zone = addBall('zone', 0, 'default', { isTrigger: true });
+        const hero = addBall('hero', 0.3, 'player');
+        hero.ball.getComponent(RigidBody)!.setBodyType(BodyType.KINEMATIC);
+
+        scene.layers.setLayerCollision('player', 'default', false);
+        bridge.update(DT);
+        expect(zone.events.triggers).toBe(0);
+
+        scene.layers.setLayerCollision('player', 'default', true);
+        bridge.update(DT);
+        expect(zone.events.triggers).toBe(1);
+    });
+
+    test('raycasts only hit the layers in their layerMask', () => {
+        const rock = addBall('rock', 4, 'debris');
+        const origin = { x: 0, y: 0, z: 0 };
+        const right = { x: 1, y: 0, z: 0 };
+
+        expect(bridge.raycast(origin, right, Infinity, { layerMask: scene.layers.mask('player') })).toBeNull();
+        expect(bridge.raycast(origin, right, Infinity, { layerMask: scene.layers.mask('debris') })?.gameObject).toBe(rock.ball);
+        expect(bridge.sphereCast(origin, 0.5, right)?.gameObject).toBe(rock.ball); // all layers by default
+    });
+});
@@ -0,0 +1,117 @@
+// tests/compound-collider.test.ts
+// Compound colliders: a RigidBody gathering its Collider children (placed, turned and scaled
+// by their transforms) into one WASM body, and re-gathering them on refreshColliders().
+
+import { WasmPhysicsBridge } from '../src/engine/wasm-physics-bridge';
+import { GameObject } from '../src/engine/gameobject';
+import { RigidBody, CollisionShape } from '../src/engine/components';
+import { Collider, childColliderParts } from '../src/engine/collider';
+import { Scene } from '../src/engine/scene-system';
+import { addPhysicsObject, cubeMesh, stepFrames } from './utils/physics-fixtures';
+
+describe('Collider children', () => {
+    test('become parts at their local transforms, skipping children with bodies', () => {
+        const scene = new Scene();
+        const wall = new GameObject('wall');
+        const arm = new GameObject('arm');
+        arm.transform.setPosition(0.9, 0, 1);
+        arm.transform.setRotation(0, 90, 0);
+        arm.transform.setScale(2, 1, 1);
+        arm.addComponent(Collider.box(0.5, 0.5, 0.1));
+        const crate = new GameObject('crate');
+        crate.addComponent(Collider.box(0.5, 0.5, 0.5));
+        crate.addComponent(new RigidBody(1.0, true));
+        for (const gameObject of [wall, arm, crate]) scene.addGameObject(gameObject);
+        wall.addChild(arm);
+        wall.addChild(crate);
+
+        expect(childColliderParts(wall)).toEqual([{
+            shape: CollisionShape.BOX,
+            offset: { x: 0.9, y: 0, z: 1 },
+            rotation: { x: 0, y: 90, z: 0 },
+            extents: { x: 1, y: 0.5, z: 0.1 },
+        }]);
+    });
+
+    test('capsules are at least as tall as they are wide', () => {
+        expect(Collider.capsule(0.5, 0.2).extents).toEqual({ x: 0.5, y: 0.5, z: 0.5 });
+    });
+});
+
+describe('WASM compound colliders', () => {
+    let bridge: WasmPhysicsBridge;
+    let scene: Scene;
+
+    // In the scene only: a table registers with the bridge once its legs are attached
+    const addObject = (name: string, x: number, y: number, z: number, body?: RigidBody) => addPhysicsObject({ scene }, name, { x, y, z }, body);
+
+    const addLeg = (table: GameObject, x: number, z: number) => {
+        const leg = addObject(`${table.name}-leg`, x, -0.5, z);
+        leg.addComponent(Collider.box(0.1, 0.4, 0.1));
+        table.addChild(leg);
+        return leg;
+    };
+
+    // A 2 x 0.2 x 1 top with four 0.8 tall legs: the feet are 0.9 below the top's centre
+    const addTable = (y: number) => {
+        const table = addObject('table', 0, y, 0, new RigidBody(1.0, true, CollisionShape.BOX, { x: 1, y: 0.1, z: 0.5 }));
+        for (const x of [-0.9, 0.9]) {
+            for (const z of [-0.4, 0.4]) addLeg(table, x, z);
+        }
+        return table;
+    };
+
+    beforeEach(async () => {
+        bridge = new WasmPhysicsBridge();
+        await bridge.init();
+        scene = new Scene();
+        bridge.addEntity(addObject('floor', 0, -1, 0, RigidBody.staticBody(CollisionShape.BOX, { x: 5, y: 1, z: 5 })));
+    });
+
+    test('a table comes to rest on its legs, over a ball that fits beneath it', () => {
+        const table = addTable(2);
+        const tableId = bridge.addEntity(table)!;
+        const ball = addObject('ball', 0, 0.25, 0, new RigidBody(1.0, true, CollisionShape.SPHERE, { x: 0.25, y: 0.25, z: 0.25 }));
+        bridge.addEntity(ball);
+
+        stepFrames({ bridge }, 240);
+
+        const info = bridge.getEntityCollisionInfo(tableId)!;
+        expect(info.shape).toBe(CollisionShape.COMPOUND);
+        expect(info.extents.y).toBeCloseTo(0.9, 5); // Top to feet
+        expect(table.transform.position.y).toBeCloseTo(0.9, 1);
+        expect(ball.transform.position.y).toBeCloseTo(0.25, 1);
+    });
+
+    test('identical tables share one compound; refreshColliders() picks up a new leg', () => {
+        bridge.addEntity(addTable(2));
+        bridge.addEntity(addTable(4));
+        const wasm = (bridge as any).wasm;
+        expect(wasm.get_compound_count()).toBe(1);
+
+        const stool = addObject('stool', 3, 2, 0, new RigidBody(1.0, true, CollisionShape.BOX, { x: 0.3, y: 0.1, z: 0.3 }));
+        const stoolId = bridge.addEntity(stool)!;
+        expect(bridge.getEntityCollisionInfo(stoolId)!.shape).toBe(CollisionShape.BOX);
+
+        addLeg(stool, 0, 0);
+        stool.getComponent(RigidBody)!.refreshColliders();
+        expect(wasm.get_compound_count()).toBe(2);
+        const info = bridge.getEntityCollisionInfo(stoolId)!;
+        expect(info.shape).toBe(CollisionShape.COMPOUND);
+        expect(info.extents.y).toBeCloseTo(0.9, 5);
+    });
+
+    test('Collider children of a convex hull body are ignored with a warning', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        const body = new RigidBody(1.0, true);
+        body.setConvexHullCollider(cubeMesh);
+        const rock = addObject('rock', 0, 2, 0, body);
+        addLeg(rock, 0, 0);
+
+        const rockId = bridge.addEntity(rock)!;
+
+        expect(bridge.getEntityCollisionInfo(rockId)!.shape).toBe(CollisionShape.HULL);
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('Collider children are ignored on a HULL body'));
+        warn.mockRestore();
+    });
+});
@@ -0,0 +1,103 @@
+// tests/convex-hull.test.ts
+// Convex hulls: building (and simplifying) hull points from mesh data, sharing one hull per
+// mesh, and WASM colliding with hull bodies, each hull uploaded once.
+
+import { ConvexHull, DEFAULT_HULL_VERTICES, MAX_HULL_VERTICES } from '../src/engine/convex-hull';
+import { WasmPhysicsBridge } from '../src/engine/wasm-physics-bridge';
+import { RigidBody, CollisionShape } from '../src/engine/components';
+import { Mesh } from '../src/engine/mesh';
+import { addPhysicsObject, stepFrames } from './utils/physics-fixtures';
+
+describe('ConvexHull', () => {
+    test('a pyramid keeps all five of its points', () => {
+        const hull = ConvexHull.fromMesh(Mesh.createPyramid('pyramid', 1, 1));
+
+        expect(hull.vertexCount).toBe(5);
+        expect(hull.extents).toEqual({ x: 0.5, y: 0.5, z: 0.5 });
+    });
+
+    test('shared vertices are welded', () => {
+        // Two triangles sharing an edge: 6 vertices, 4 distinct points
+        const hull = ConvexHull.fromPoints([0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 0, 0, 0, 1, 0, 1, 1, 1]);
+
+        expect(hull.vertexCount).toBe(4);
+    });
+
+    test('a detailed mesh is cut down to the cap without shrinking its bounds', () => {
+        const sphere = Mesh.createSphere('sphere', 1, 16); // 289 vertices
+        const vertices = sphere.data.vertices;
+
+        const hull = ConvexHull.fromMesh(sphere);
+        expect(hull.vertexCount).toBe(DEFAULT_HULL_VERTICES);
+        expect(hull.extents.x).toBeCloseTo(1, 5);
+        expect(hull.extents.y).toBeCloseTo(1, 5);
+        expect(hull.extents.z).toBeCloseTo(1, 5);
+        expect(ConvexHull.fromMesh(sphere, 16).vertexCount).toBe(16);
+
+        // Every hull point is one of the mesh's vertices
+        for (let i = 0; i < hull.points.length; i += 3) {
+            let found = false;
+            for (let j = 0; j < vertices.length && !found; j += 3) {
+                found = hull.points[i] === vertices[j] && hull.points[i + 1] === vertices[j + 1] && hull.points[i + 2] === vertices[j + 2];
+            }
+            expect(found).toBe(true);
+        }
+    });
+
+    test('fromMesh() hands out one hull per mesh and cap', () => {
+        const rock = Mesh.createSphere('rock', 1, 8);
+
+        expect(ConvexHull.fromMesh(rock)).toBe(ConvexHull.fromMesh(rock));
+        expect(ConvexHull.fromMesh(rock, 12)).not.toBe(ConvexHull.fromMesh(rock));
+        expect(ConvexHull.fromMesh(Mesh.createSphere('rock', 1, 8))).not.toBe(ConvexHull.fromMesh(rock));
+    });
+
+    test('caps outside 4..MAX_HULL_VERTICES and empty meshes throw', () => {
+        const rock = Mesh.createSphere('rock', 1, 8);
+
+        expect(() => ConvexHull.fromMesh(rock, 3)).toThrow(/maxVertices/);
+        expect(() => ConvexHull.fromMesh(rock, MAX_HULL_VERTICES + 1)).toThrow(/maxVertices/);
+        expect(() => ConvexHull.fromPoints([])).toThrow(/no vertices/);
+    });
+});
+
+describe('WASM convex hull colliders', () => {
+    let bridge: WasmPhysicsBridge;
+    const pyramidMesh = Mesh.createPyramid('pyramid', 1, 1);
+
+    const addBody = (name: string, x: number, y: number, body: RigidBody) => addPhysicsObject({ bridge }, name, { x, y, z: 0 }, body, pyramidMesh);
+
+    const addPyramid = (name: string, x: number, y: number) => {
+        const body = new RigidBody(1.0, true);
+        body.setConvexHullCollider(pyramidMesh);
+        return addBody(name, x, y, body);
+    };
+
+    beforeEach(async () => {
+        bridge = new WasmPhysicsBridge();
+        await bridge.init();
+        addBody('floor', 0, -1, RigidBody.staticBody(CollisionShape.BOX, { x: 5, y: 1, z: 5 }));
+    });
+
+    test('a pyramid comes to rest on its base', () => {
+        const pyramid = addPyramid('pyramid', 0, 2);
+
+        stepFrames({ bridge }, 240);
+
+        const body = pyramid.getComponent(RigidBody)!;
+        expect(body.getCollisionInfo()).toEqual({ shape: CollisionShape.HULL, extents: { x: 0.5, y: 0.5, z: 0.5 } });
+        expect(pyramid.transform.position.y).toBeCloseTo(0.5, 1);
+    });
+
+    test('bodies built from one mesh share one uploaded hull', () => {
+        addPyramid('a', -2, 2);
+        addPyramid('b', 2, 2);
+        const late = addBody('late', 0, 4, new RigidBody(1.0, true));
+        late.getComponent(RigidBody)!.setConvexHullCollider(pyramidMesh); // After registration
+
+        const wasm = (bridge as any).wasm;
+        expect(wasm.get_hull_count()).toBe(1);
+        expect(wasm.get_entity_collision_shape(1)).toBe(CollisionShape.HULL);
+        expect(wasm.get_entity_collision_shape(3)).toBe(CollisionShape.HULL);
+    });
+});
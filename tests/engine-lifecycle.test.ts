@@ -8,6 +8,7 @@ import { Engine } from '../src/engine/engine';
 import type { Scene } from '../src/engine/scene-system';
 import type { WebGPURendererV2 } from '../src/renderer/webgpu.renderer';
 import type { WasmPhysicsInterface } from '../src/engine/wasm-physics-bridge';
+import { PhysicsSettings } from '../src/engine/physics-settings';
 
 interface FakeScene {
     getAllGameObjects: jest.Mock;
@@ -17,6 +18,8 @@ interface FakeScene {
     updateComponents: jest.Mock;
     getViewProjectionMatrix: jest.Mock;
     dispose: jest.Mock;
+    camera: { setViewportSize: jest.Mock };
+    physicsSettings: PhysicsSettings;
 }
 
 function makeScene(): FakeScene {
@@ -28,13 +31,15 @@ function makeScene(): FakeScene {
         updateComponents: jest.fn(),
         getViewProjectionMatrix: jest.fn().mockReturnValue(new Float32Array(16)),
         dispose: jest.fn(),
+        camera: { setViewportSize: jest.fn() },
+        physicsSettings: new PhysicsSettings(),
     };
 }
 
 describe('Engine lifecycle', () => {
     let engine: Engine;
     let renderer: { registerMesh: jest.Mock; clearMeshes: jest.Mock; dispose: jest.Mock; getMeshIndex: jest.Mock };
-    let wasm: { init: jest.Mock };
+    let wasm: { init: jest.Mock } & Record<string, jest.Mock>;
     let warn: jest.SpyInstance;
 
     beforeEach(() => {
@@ -46,7 +51,14 @@ describe('Engine lifecycle', () => {
         warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
 
         renderer = { registerMesh: jest.fn(), clearMeshes: jest.fn(), dispose: jest.fn(), getMeshIndex: jest.fn().mockReturnValue(0) };
-        wasm = { init: jest.fn() };
+        wasm = {
+            init: jest.fn(),
+            set_physics_config: jest.fn(),
+            set_gravity: jest.fn(),
+            set_world_box: jest.fn(),
+            set_world_bounds_enabled: jest.fn(),
+            set_solver_iterations: jest.fn(),
+        };
 
         engine = new Engine('webgpu-canvas');
         // Bypass init() (real WebGPU + WASM); inject stubs.
@@ -157,6 +169,22 @@ describe('Engine lifecycle', () => {
         nowSpy.mockRestore();
     });
 
+    it('loadScene pushes the canvas size to the scene camera', async () => {
+        const scene = makeScene();
+        const canvas = document.getElementById('webgpu-canvas') as HTMLCanvasElement;
+        canvas.width = 640;
+        canvas.height = 360;
+
+        await engine.loadScene(scene as unknown as Scene);
+
+        expect(scene.camera.setViewportSize).toHaveBeenCalledWith(640, 360);
+    });
+
+    it('setRenderScale() requires init()', () => {
+        const fresh = new Engine('webgpu-canvas');
+        expect(() => fresh.setRenderScale(0.5)).toThrow(/init\(\)/);
+    });
+
     it('deinit stops the loop, unmounts the scene, and disposes the renderer', async () => {
         const scene = makeScene();
         await engine.loadScene(scene as unknown as Scene);
@@ -0,0 +1,119 @@
+// tests/force-field.test.ts
+// Force fields through the bridge: a field on a GameObject without a mesh pushes what is in
+// it, follows its GameObject, picks up setting changes, floats crates in a pool, enters the
+// simulation when added to a running scene, and leaves it with its component or GameObject.
+
+import { WasmPhysicsBridge } from '../src/engine/wasm-physics-bridge';
+import { GameObject } from '../src/engine/gameobject';
+import { RigidBody, CollisionShape, ForceMode } from '../src/engine/components';
+import { ForceField, ForceFieldType } from '../src/engine/force-field';
+import { Scene } from '../src/engine/scene-system';
+import { DT, addPhysicsObject, stepFrames } from './utils/physics-fixtures';
+
+describe('ForceField', () => {
+    let bridge: WasmPhysicsBridge;
+    let scene: Scene;
+
+    const addBody = (name: string, x: number, y: number, useGravity: boolean) => {
+        const rigidBody = new RigidBody(1.0, useGravity, CollisionShape.BOX, { x: 0.5, y: 0.5, z: 0.5 });
+        addPhysicsObject({ bridge, scene }, name, { x, y, z: 0 }, rigidBody);
+        return rigidBody;
+    };
+
+    const addField = (name: string, x: number, y: number, field: ForceField) => {
+        const volume = new GameObject(undefined, name);
+        volume.transform.setPosition(x, y, 0);
+        volume.addComponent(field);
+        scene.addGameObject(volume);
+        bridge.addEntity(volume);
+        return volume;
+    };
+
+    const step = (frames: number) => stepFrames({ bridge }, frames);
+
+    beforeEach(async () => {
+        bridge = new WasmPhysicsBridge();
+        await bridge.init();
+        scene = new Scene();
+    });
+
+    afterEach(() => {
+        scene.dispose();
+    });
+
+    test('wind on a GameObject without a mesh pushes the bodies inside it', () => {
+        const field = new ForceField({ extents: { x: 3, y: 2, z: 2 }, direction: { x: 1, y: 0, z: 0 }, strength: 6 });
+        addField('wind', 0, 0, field);
+        const inside = addBody('inside', -1, 0, false);
+        const outside = addBody('outside', 0, 5, false);
+
+        step(1);
+
+        expect(field.isRegistered).toBe(true);
+        expect(bridge.getWasmModule()!.get_force_field_count()).toBe(1);
+        expect(inside.velocity.x).toBeCloseTo(6 * DT * 0.99);
+        expect(outside.velocity.x).toBe(0);
+    });
+
+    test('follows its GameObject and picks up setting changes on the next step', () => {
+        const field = new ForceField({ type: ForceFieldType.RADIAL, shape: CollisionShape.SPHERE, radius: 3, strength: 4 });
+        const well = addField('well', 0, 0, field);
+        const body = addBody('body', 2, 0, false);
+
+        step(1);
+        expect(body.velocity.x).toBeLessThan(0);
+
+        well.transform.setPosition(4, 0, 0); // Now pulling towards +x
+        field.strength = 8;
+        field.forceMode = ForceMode.FORCE;
+        const before = body.velocity.x;
+        step(1);
+
+        expect(body.velocity.x).toBeCloseTo((before + 8 * DT) * 0.99);
+    });
+
+    test('a pool floats a crate dropped into it', () => {
+        addField('pool', 0, -1, new ForceField({ type: ForceFieldType.BUOYANCY, extents: { x: 5, y: 1, z: 2 }, drag: 3 })); // Surface at y = 0
+        const crate = addBody('crate', 0, 2, true);
+
+        step(600);
+
+        expect(crate.gameObject!.transform.position.y).toBeCloseTo(0, 1);
+    });
+
+    test('added to a GameObject without a RigidBody in a running scene, enters the simulation at once', () => {
+        const body = addBody('body', 0, 0, false);
+        scene.bindRuntime({
+            registerRuntimeEntity: gameObject => bridge.addEntity(gameObject),
+            unregisterRuntimeEntity: gameObject => bridge.removePhysicsEntity(gameObject.id),
+            applyPhysicsSettings: () => {},
+            physicsBridge: bridge,
+        });
+        scene.awake();
+        const volume = new GameObject(undefined, 'late-wind');
+        scene.addGameObject(volume);
+
+        const field = volume.addComponent(new ForceField({ direction: { x: 1, y: 0, z: 0 }, strength: 6 }));
+        expect(field.isRegistered).toBe(true);
+        step(1);
+
+        expect(body.velocity.x).toBeCloseTo(6 * DT * 0.99);
+    });
+
+    test('leaves the simulation with its component or its GameObject', () => {
+        const field = new ForceField({ strength: 1 });
+        const volume = addField('volume', 0, 0, field);
+        const other = new ForceField({ strength: 1 });
+        addField('other', 5, 0, other);
+        const wasm = bridge.getWasmModule()!;
+        expect(wasm.get_force_field_count()).toBe(2);
+
+        volume.removeComponent(ForceField);
+        expect(field.isRegistered).toBe(false);
+        expect(wasm.get_force_field_count()).toBe(1);
+
+        bridge.removePhysicsEntity(other.gameObject!.id);
+        expect(other.isRegistered).toBe(false);
+        expect(wasm.get_force_field_count()).toBe(0);
+    });
+});
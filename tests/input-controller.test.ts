@@ -133,7 +133,7 @@ describe('Input Controller System', () => {
         let controller: GameObjectController;
         // The Engine wires the bridge + entity id onto the RigidBody at registration; the
         // controller applies force through the RigidBody (not the Scene). Mock that here.
-        let mockBridge: { applyForce: jest.Mock };
+        let mockBridge: { applyForce: jest.Mock; applyTorque: jest.Mock };
 
         beforeEach(() => {
             gameObject = new GameObject('test-object');
@@ -141,7 +141,7 @@ describe('Input Controller System', () => {
 
             rigidBody = new RigidBody(1.0, false);
             rigidBody.setWasmEntityId(42); // Mock entity ID
-            mockBridge = { applyForce: jest.fn() };
+            mockBridge = { applyForce: jest.fn(), applyTorque: jest.fn() };
             rigidBody.setPhysicsBridge(mockBridge);
             gameObject.addComponent(rigidBody);
 
@@ -215,6 +215,17 @@ describe('Input Controller System', () => {
             controller.update(0.1);
 
             expect(mockBridge.applyForce).not.toHaveBeenCalled();
+            expect(mockBridge.applyTorque).not.toHaveBeenCalled();
+        });
+
+        test('should apply torque for the gamepad rotation keys', () => {
+            controller.setTorqueStrength(3.0);
+            controller.handleInput(1031, true); // rotation-yaw
+            controller.handleInput(1033, true); // rotation-roll
+            controller.update(0.1);
+
+            expect(mockBridge.applyTorque).toHaveBeenCalledWith(42, { x: 0, y: 3.0, z: 3.0 });
+            expect(mockBridge.applyForce).not.toHaveBeenCalled();
         });
 
         test('should handle GameObject without RigidBody gracefully', () => {
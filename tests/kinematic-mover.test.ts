@@ -0,0 +1,164 @@
+// tests/kinematic-mover.test.ts
+// Kinematic mover: easing, eased legs along waypoints with holds and ping-pong, a door sent
+// to one waypoint, and an elevator carrying a crate, its velocity read back from physics (on
+// every step of a frame that runs several), but not flinging it when teleported.
+
+import { WasmPhysicsBridge } from '../src/engine/wasm-physics-bridge';
+import { GameObject } from '../src/engine/gameobject';
+import { RigidBody, CollisionShape, BodyType } from '../src/engine/components';
+import { KinematicMover, Easing, MoverLoop, ease } from '../src/engine/kinematic-mover';
+import { Scene } from '../src/engine/scene-system';
+import { PhysicsMaterial } from '../src/engine/physics-material';
+import { DT, addPhysicsObject, stepFrames } from './utils/physics-fixtures';
+
+describe('KinematicMover', () => {
+    let scene: Scene;
+
+    const step = (frames: number, bridge?: WasmPhysicsBridge) => stepFrames({ scene, bridge }, frames);
+
+    const addMover = (mover: KinematicMover) => {
+        const gameObject = new GameObject(undefined, 'mover');
+        gameObject.addComponent(mover);
+        scene.addGameObject(gameObject);
+        return gameObject;
+    };
+
+    const addBody = (bridge: WasmPhysicsBridge, name: string, y: number, body: RigidBody) => addPhysicsObject({ bridge, scene }, name, { x: 0, y, z: 0 }, body);
+
+    // A 2x0.2x2 KINEMATIC lift with its top at y = 0 and a 1 m crate settled on it
+    const addLiftWithCrate = (bridge: WasmPhysicsBridge) => {
+        const material = new PhysicsMaterial({ restitution: 0 });
+        const lift = addBody(bridge, 'lift', -0.1, new RigidBody(1.0, false, CollisionShape.BOX, { x: 1, y: 0.1, z: 1 }, { bodyType: BodyType.KINEMATIC, material }));
+        const crate = addBody(bridge, 'crate', 0.5, new RigidBody(1.0, true, CollisionShape.BOX, { x: 0.5, y: 0.5, z: 0.5 }, { material }));
+        step(30, bridge);
+        return { lift, crate };
+    };
+
+    beforeEach(() => {
+        scene = new Scene();
+    });
+
+    afterEach(() => {
+        scene.dispose();
+    });
+
+    test('eases each leg', () => {
+        expect(ease(Easing.LINEAR, 0.25)).toBeCloseTo(0.25);
+        expect(ease(Easing.EASE_IN, 0.25)).toBeCloseTo(0.0625);
+        expect(ease(Easing.EASE_OUT, 0.25)).toBeCloseTo(0.4375);
+        expect(ease(Easing.EASE_IN_OUT, 0.25)).toBeCloseTo(0.125);
+        for (const easing of [Easing.LINEAR, Easing.EASE_IN, Easing.EASE_OUT, Easing.EASE_IN_OUT]) {
+            expect(ease(easing, 0)).toBe(0);
+            expect(ease(easing, 1)).toBe(1);
+        }
+    });
+
+    test('moves along its waypoints, holding at each, and comes back', () => {
+        const mover = new KinematicMover([{ x: 0, y: 0, z: 0 }, { x: 0, y: 2, z: 0 }], { wait: 0.5 });
+        const lift = addMover(mover);
+
+        step(1); // At the first waypoint already: it holds there for 0.5 s...
+        step(30);
+        expect(lift.transform.position.y).toBe(0);
+        step(30); // ...then a quarter of the 2 s leg up, eased in
+        expect(lift.transform.position.y).toBeCloseTo(0.25, 1);
+        step(30);
+        expect(lift.transform.position.y).toBeCloseTo(1, 1);
+        step(62);
+        expect(lift.transform.position.y).toBeCloseTo(2, 5);
+        expect(mover.targetWaypoint).toBe(0); // On the way back once it has held at the top
+
+        step(60);
+        expect(lift.transform.position.y).toBeLessThan(2);
+        expect(lift.transform.position.y).toBeGreaterThan(1);
+    });
+
+    test('runs a loop once, or round a closed circuit', () => {
+        const path = [{ x: 1, y: 0, z: 0 }, { x: 1, y: 0, z: 1 }];
+        const once = new KinematicMover(path, { loop: MoverLoop.ONCE, easing: Easing.LINEAR, speed: 6 });
+        const circuit = new KinematicMover(path, { loop: MoverLoop.LOOP, easing: Easing.LINEAR, speed: 6 });
+        addMover(once);
+        addMover(circuit);
+
+        step(25); // The legs take 10 frames each
+
+        expect(once.isPlaying).toBe(false);
+        expect(once.targetWaypoint).toBe(1);
+        expect(circuit.isPlaying).toBe(true);
+        expect(circuit.targetWaypoint).toBe(0);
+    });
+
+    test('a door goes to the waypoint it is sent to and stops there', () => {
+        const mover = new KinematicMover([{ x: 0, y: 0, z: 0 }, { x: 1.5, y: 0, z: 0 }], { autoPlay: false, speed: 3 });
+        const door = addMover(mover);
+
+        step(10);
+        expect(door.transform.position.x).toBe(0);
+
+        mover.goTo(1);
+        step(40);
+        expect(door.transform.position.x).toBeCloseTo(1.5, 5);
+        expect(mover.isPlaying).toBe(false);
+
+        mover.goTo(0);
+        step(15); // Halfway back
+        expect(door.transform.position.x).toBeCloseTo(0.75, 1);
+        expect(() => mover.goTo(2)).toThrow('no waypoint 2');
+    });
+
+    test('an elevator carries a crate resting on it', async () => {
+        const bridge = new WasmPhysicsBridge();
+        await bridge.init();
+        const { lift, crate } = addLiftWithCrate(bridge);
+
+        lift.addComponent(new KinematicMover([{ x: 0, y: 1.9, z: 0 }], { easing: Easing.LINEAR, loop: MoverLoop.ONCE }));
+        let drift = 0; // From resting on the lift
+        for (let i = 0; i < 130; i++) {
+            step(1, bridge);
+            drift = Math.max(drift, Math.abs(crate.transform.position.y - lift.transform.position.y - 0.6));
+            if (i === 60) expect(lift.getComponent(RigidBody)!.velocity.y).toBeCloseTo(1, 3); // Read back from physics
+        }
+
+        expect(lift.transform.position.y).toBeCloseTo(1.9, 5);
+        expect(drift).toBeLessThan(0.02);
+        expect(lift.getComponent(RigidBody)!.velocity.y).toBe(0);
+    });
+
+    test('an elevator moved once per frame of several fixed steps carries the crate on each', async () => {
+        const bridge = new WasmPhysicsBridge();
+        await bridge.init();
+        const { lift, crate } = addLiftWithCrate(bridge);
+        const body = lift.getComponent(RigidBody)!;
+
+        lift.addComponent(new KinematicMover([{ x: 0, y: 1.9, z: 0 }], { easing: Easing.LINEAR, loop: MoverLoop.ONCE }));
+        let drift = 0;
+        for (let frame = 0; frame < 20; frame++) {
+            // As Engine.fixedTick runs a frame: scripts once, then its steps
+            scene.updateComponents(3 * DT);
+            bridge.setKinematicMoveTime(3 * DT);
+            for (let i = 0; i < 3; i++) {
+                bridge.update(DT);
+                expect(body.velocity.y).toBeCloseTo(1, 3);
+                drift = Math.max(drift, Math.abs(crate.transform.position.y - bridge.getEntityPosition(body.getWasmEntityId()!)!.y - 0.6));
+            }
+        }
+
+        expect(drift).toBeLessThan(0.02);
+    });
+
+    test('a teleported lift does not fling the crate on it', async () => {
+        const bridge = new WasmPhysicsBridge();
+        await bridge.init();
+        const { lift, crate } = addLiftWithCrate(bridge);
+
+        lift.getComponent(RigidBody)!.teleport(0, 0.15, 0); // 0.25 m up, into the crate
+        for (let i = 0; i < 30; i++) {
+            step(1, bridge);
+            expect(crate.getComponent(RigidBody)!.velocity.y).toBeLessThan(1);
+        }
+
+        expect(lift.transform.position.y).toBe(0.15);
+        expect(lift.getComponent(RigidBody)!.velocity.y).toBe(0);
+        expect(crate.transform.position.y).toBeCloseTo(0.75, 1); // Back on top
+    });
+});
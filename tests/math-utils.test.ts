@@ -6,7 +6,9 @@ import {
     makeTransformMatrix,
     createPerspectiveMatrix,
     createOrthographicMatrix,
-    createLookAtMatrix
+    createLookAtMatrix,
+    invertMat4,
+    transformPoint
 } from '../src/utils/math-utils';
 
 describe('Math Utils', () => {
@@ -287,4 +289,26 @@ describe('Math Utils', () => {
             expect(matrix[15]).toBeCloseTo(1);
         });
     });
+
+    describe('invertMat4', () => {
+        test('inverse of a TRS matrix multiplies back to identity', () => {
+            const m = makeTransformMatrix([1, 2, 3], [2, 3, 4], [0.3, -0.7, 1.1]);
+            const inverse = invertMat4(m)!;
+            const product = multiplyMat4(m, inverse);
+
+            const identity = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+            product.forEach((value, i) => expect(value).toBeCloseTo(identity[i]!, 5));
+        });
+
+        test('returns null for a singular matrix', () => {
+            expect(invertMat4(makeTransformMatrix([0, 0, 0], [1, 0, 1]))).toBeNull();
+        });
+    });
+
+    describe('transformPoint', () => {
+        test('applies rotation, scale and translation', () => {
+            const m = makeTransformMatrix([10, 0, 0], 2);
+            expect(transformPoint(m, [1, 1, 1])).toEqual([12, 2, 2]);
+        });
+    });
 });
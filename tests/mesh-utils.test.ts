@@ -1,6 +1,6 @@
 // tests/mesh-utils.test.ts
 // Unit tests for mesh generation utilities
-import { createGridMesh, createSphereMesh, createPyramidMesh, createCubeMesh, createTriangleMesh } from '../src/renderer/mesh-utils';
+import { createGridMesh, createSphereMesh, createCapsuleMesh, createCylinderMesh, createPyramidMesh, createCubeMesh, createTriangleMesh } from '../src/renderer/mesh-utils';
 
 describe('Mesh Utils', () => {
     describe('createGridMesh', () => {
@@ -226,6 +226,73 @@ describe('Mesh Utils', () => {
         });
     });
 
+    describe('createCapsuleMesh', () => {
+        it('should span ±halfHeight with every vertex radius away from the core segment', () => {
+            const mesh = createCapsuleMesh(0.5, 1, 8);
+            let minY = Infinity;
+            let maxY = -Infinity;
+
+            for (let i = 0; i < mesh.vertices.length; i += 3) {
+                const x = mesh.vertices[i]!;
+                const y = mesh.vertices[i + 1]!;
+                const z = mesh.vertices[i + 2]!;
+                const coreY = Math.max(-0.5, Math.min(0.5, y));
+                expect(Math.hypot(x, y - coreY, z)).toBeCloseTo(0.5, 5);
+                minY = Math.min(minY, y);
+                maxY = Math.max(maxY, y);
+            }
+
+            expect(maxY).toBeCloseTo(1, 5);
+            expect(minY).toBeCloseTo(-1, 5);
+        });
+
+        it('should have valid triangle indices', () => {
+            const mesh = createCapsuleMesh(0.5, 1, 8);
+            const vertexCount = mesh.vertices.length / 3;
+
+            // Two 4-ring caps plus the core band: 9 bands of 8 quads
+            expect(mesh.indices.length).toBe(9 * 8 * 6);
+            for (let i = 0; i < mesh.indices.length; i++) {
+                expect(mesh.indices[i]!).toBeLessThan(vertexCount);
+            }
+        });
+
+        it('should degenerate to a sphere when halfHeight equals the radius', () => {
+            const mesh = createCapsuleMesh(1, 1, 8);
+            for (let i = 0; i < mesh.vertices.length; i += 3) {
+                expect(Math.hypot(mesh.vertices[i]!, mesh.vertices[i + 1]!, mesh.vertices[i + 2]!)).toBeCloseTo(1, 5);
+            }
+        });
+    });
+
+    describe('createCylinderMesh', () => {
+        it('should put rim vertices at the radius and caps at ±halfHeight', () => {
+            const mesh = createCylinderMesh(0.5, 1, 8);
+
+            // Two rings of segments+1 vertices plus the two cap centers
+            expect(mesh.vertices.length).toBe((2 * 9 + 2) * 3);
+            for (let i = 0; i < mesh.vertices.length; i += 3) {
+                const x = mesh.vertices[i]!;
+                const y = mesh.vertices[i + 1]!;
+                const z = mesh.vertices[i + 2]!;
+                expect(Math.abs(y)).toBeCloseTo(1, 5);
+                const r = Math.hypot(x, z);
+                expect(r < 1e-6 || Math.abs(r - 0.5) < 1e-6).toBe(true);
+            }
+        });
+
+        it('should have valid triangle indices', () => {
+            const mesh = createCylinderMesh(0.5, 1, 8);
+            const vertexCount = mesh.vertices.length / 3;
+
+            // Per segment: a side quad and one triangle on each cap
+            expect(mesh.indices.length).toBe(8 * 4 * 3);
+            for (let i = 0; i < mesh.indices.length; i++) {
+                expect(mesh.indices[i]!).toBeLessThan(vertexCount);
+            }
+        });
+    });
+
     describe('createPyramidMesh', () => {
         describe('Default Parameters', () => {
             it('should create pyramid with default size and height', () => {
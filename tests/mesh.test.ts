@@ -21,6 +21,8 @@ describe('Mesh', () => {
     it.each([
         ['createCube', () => Mesh.createCube('m')],
         ['createSphere', () => Mesh.createSphere('m')],
+        ['createCapsule', () => Mesh.createCapsule('m')],
+        ['createCylinder', () => Mesh.createCylinder('m')],
         ['createGrid', () => Mesh.createGrid('m')],
         ['createPyramid', () => Mesh.createPyramid('m')],
         ['createTriangle', () => Mesh.createTriangle('m')],
@@ -4,9 +4,13 @@ import { jest } from '@jest/globals';
 
 import { WasmPhysicsBridge } from '../src/engine/wasm-physics-bridge';
 import { GameObject } from '../src/engine/gameobject';
-import { RigidBody, MeshRenderer, CollisionShape } from '../src/engine/components';
+import { RigidBody, MeshRenderer, CollisionShape, BodyType, ForceMode, Component, type ContactInfo } from '../src/engine/components';
 import { Mesh } from '../src/engine/mesh';
 import { Material } from '../src/engine/material';
+import { Scene } from '../src/engine/scene-system';
+import { PhysicsMaterial } from '../src/engine/physics-material';
+import { BallSocketJoint, DistanceJoint, HingeJoint } from '../src/engine/joints';
+import { transformPoint } from '../src/utils/math-utils';
 
 describe('WasmPhysicsBridge', () => {
     let physicsBridge: WasmPhysicsBridge;
@@ -44,16 +48,60 @@ describe('WasmPhysicsBridge', () => {
             const mockWasm = {
                 init: jest.fn(),
                 update: jest.fn(),
+                update_transforms: jest.fn(),
                 add_entity: jest.fn(),
                 remove_entity: jest.fn(),
                 get_entity_count: jest.fn(() => 0),
                 apply_force: jest.fn(),
                 set_entity_position: jest.fn(),
+                teleport_entity: jest.fn(),
+                set_kinematic_move_time: jest.fn(),
                 set_entity_velocity: jest.fn(),
                 set_entity_rotation: jest.fn(),
                 set_entity_scale: jest.fn(),
+                apply_torque: jest.fn(),
+                apply_force_at_point: jest.fn(),
+                set_entity_angular_velocity: jest.fn(),
+                accumulate_force: jest.fn(),
+                apply_impulse: jest.fn(),
+                add_joint: jest.fn(() => true),
+                remove_joint: jest.fn(),
+                set_joint_limits: jest.fn(),
+                set_joint_motor: jest.fn(),
+                set_joint_spring: jest.fn(),
+                get_joint_angle: jest.fn(() => 0),
+                get_joint_count: jest.fn(() => 0),
+                add_force_field: jest.fn(() => true),
+                remove_force_field: jest.fn(),
+                set_force_field_transform: jest.fn(),
+                set_force_field_strength: jest.fn(),
+                set_force_field_buoyancy: jest.fn(),
+                set_force_field_layer_mask: jest.fn(),
+                get_force_field_count: jest.fn(() => 0),
+                get_hull_staging_offset: jest.fn(() => 0),
+                create_convex_hull: jest.fn(() => 0),
+                set_entity_convex_hull: jest.fn(),
+                get_hull_count: jest.fn(() => 0),
+                get_compound_staging_offset: jest.fn(() => 0),
+                create_compound: jest.fn(() => 0),
+                set_entity_compound: jest.fn(),
+                get_compound_count: jest.fn(() => 0),
+                move_character: jest.fn(() => 0),
+                get_character_ground: jest.fn(() => 0xFFFF_FFFF),
+                snapshot_begin: jest.fn(() => 10),
+                get_snapshot_section_offset: jest.fn(() => 0),
+                get_snapshot_section_size: jest.fn(() => 0),
+                restore_begin: jest.fn(() => true),
+                restore_end: jest.fn(),
                 set_entity_body_type: jest.fn(),
                 set_entity_gravity_scale: jest.fn(),
+                set_entity_trigger: jest.fn(),
+                set_entity_collision_filter: jest.fn(),
+                set_entity_continuous_collision: jest.fn(),
+                set_entity_physics_material: jest.fn(),
+                set_entity_sleeping: jest.fn(),
+                get_entity_sleeping: jest.fn(() => false),
+                get_sleeping_body_count: jest.fn(() => 0),
                 get_entity_transforms_offset: jest.fn(() => 0),
                 get_entity_metadata_offset: jest.fn(() => 0),
                 get_entity_metadata_size: jest.fn(() => 16),
@@ -68,6 +116,12 @@ describe('WasmPhysicsBridge', () => {
                 get_entity_velocity_x: jest.fn(() => 0),
                 get_entity_velocity_y: jest.fn(() => 0),
                 get_entity_velocity_z: jest.fn(() => 0),
+                get_entity_angular_velocity_x: jest.fn(() => 0),
+                get_entity_angular_velocity_y: jest.fn(() => 0),
+                get_entity_angular_velocity_z: jest.fn(() => 0),
+                get_entity_rotation_x: jest.fn(() => 0),
+                get_entity_rotation_y: jest.fn(() => 0),
+                get_entity_rotation_z: jest.fn(() => 0),
                 // Collision shape functions (optional)
                 spawn_entity_with_collider: jest.fn(() => 0),
                 set_entity_collision_shape: jest.fn(),
@@ -82,12 +136,34 @@ describe('WasmPhysicsBridge', () => {
                 get_collision_state: jest.fn(() => 0),
                 debug_get_entity_physics_info: jest.fn(() => 0),
                 get_wasm_version: jest.fn(() => 20250915),
+                // Broadphase toggle + stats
+                set_physics_config: jest.fn(),
+                set_gravity: jest.fn(),
+                set_world_box: jest.fn(),
+                set_world_bounds_enabled: jest.fn(),
+                set_solver_iterations: jest.fn(),
+                set_broadphase_enabled: jest.fn(),
+                get_broadphase_enabled: jest.fn(() => true),
+                get_pairs_tested: jest.fn(() => 0),
+                get_pairs_overlapping: jest.fn(() => 0),
                 // Collision event logging functions
                 get_collision_event_counter: jest.fn(() => 0),
                 get_last_collision_entities: jest.fn(() => 0),
                 get_last_collision_pos1: jest.fn(() => 0),
                 get_last_collision_pos2: jest.fn(() => 0),
                 clear_collision_event_counter: jest.fn(),
+                get_contact_count: jest.fn(() => 0),
+                get_contacts_offset: jest.fn(() => 0),
+                get_trigger_pair_count: jest.fn(() => 0),
+                get_trigger_pairs_offset: jest.fn(() => 0),
+                build_debug_lines: jest.fn(() => 0),
+                get_debug_lines_offset: jest.fn(() => 0),
+                // Scene queries
+                raycast: jest.fn(() => 0),
+                sphere_cast: jest.fn(() => 0),
+                overlap_sphere: jest.fn(() => 0),
+                overlap_box: jest.fn(() => 0),
+                get_query_hits_offset: jest.fn(() => 0),
                 memory: {
                     buffer: new ArrayBuffer(1024),
                     grow: jest.fn((_delta: number) => 0)
@@ -310,6 +386,812 @@ describe('WasmPhysicsBridge', () => {
         });
     });
 
+    describe('Hierarchy (world transforms)', () => {
+        // Parent/child relations resolve through the Scene; the bridge gets WORLD transforms.
+        const parented = (parent: GameObject, child: GameObject): Scene => {
+            const scene = new Scene();
+            scene.addGameObject(parent);
+            scene.addGameObject(child);
+            parent.addChild(child);
+            return scene;
+        };
+
+        test('registers a child at its world position', () => {
+            const cart = createTestGameObject('cart');
+            cart.transform.setPosition(10, 0, 0);
+            const wheel = createTestGameObject('wheel');
+            wheel.transform.setPosition(1, -0.5, 0);
+            parented(cart, wheel);
+
+            physicsBridge.addEntity(cart);
+            const wheelId = physicsBridge.addEntity(wheel)!;
+
+            expect(physicsBridge.getEntityPosition(wheelId)).toEqual({ x: 11, y: -0.5, z: 0 });
+        });
+
+        test('a child follows its parent when the parent is moved', () => {
+            const tank = createTestGameObject('tank');
+            const turret = createTestGameObject('turret');
+            turret.transform.setPosition(0, 1, 0);
+            parented(tank, turret);
+            physicsBridge.addEntity(tank);
+            const turretId = physicsBridge.addEntity(turret)!;
+
+            tank.transform.setPosition(3, 0, -2);
+            physicsBridge.update(0.016);
+
+            expect(physicsBridge.getEntityPosition(turretId)).toEqual({ x: 3, y: 1, z: -2 });
+        });
+
+        test('a child follows a dynamic parent moved by physics in the same frame', () => {
+            const body = createTestGameObject('falling-body', 'Body', 'sphere');
+            body.transform.setPosition(0, 5, 0);
+            body.addComponent(new RigidBody(1.0, true, CollisionShape.SPHERE, { x: 0.5, y: 0.5, z: 0.5 }));
+            const prop = createTestGameObject('prop');
+            prop.transform.setPosition(0, 2, 0);
+            parented(body, prop);
+            physicsBridge.addEntity(body);
+            const propId = physicsBridge.addEntity(prop)!;
+
+            physicsBridge.update(0.016);
+
+            expect(body.transform.position.y).toBeLessThan(5);
+            expect(physicsBridge.getEntityPosition(propId)!.y).toBeCloseTo(body.transform.position.y + 2, 5);
+        });
+
+        test('a child turned about several axes renders as its world matrix', () => {
+            const arm = createTestGameObject('arm');
+            arm.transform.setRotation(0, 90, 0);
+            const hand = createTestGameObject('hand');
+            hand.transform.setPosition(2, 0, 0);
+            hand.transform.setRotation(30, 0, 20);
+            parented(arm, hand);
+            physicsBridge.addEntity(arm);
+            physicsBridge.addEntity(hand);
+
+            physicsBridge.update(0.016);
+
+            // The instance buffer holds 24 floats per entity, its matrix first; the hand is the
+            // one placed away from the origin
+            const instances = new Float32Array(physicsBridge.getWasmMemory()!, physicsBridge.getEntityTransformsOffsetSafe(), 2 * 24);
+            const index = Math.abs(instances[12]!) + Math.abs(instances[14]!) > 1 ? 0 : 1;
+            const rendered = Array.from(instances.slice(index * 24, index * 24 + 16));
+            Array.from(hand.transform.getWorldMatrix()).forEach((value, i) => expect(rendered[i]).toBeCloseTo(value, 5));
+        });
+    });
+
+    describe('Scene queries (raycast / sphere cast)', () => {
+        const addCollider = (name: string, position: [number, number, number], shape: CollisionShape, extents: { x: number; y: number; z: number }): GameObject => {
+            const gameObject = createTestGameObject(name, 'Collider', shape === CollisionShape.SPHERE ? 'sphere' : 'cube');
+            gameObject.transform.setPosition(...position);
+            gameObject.addComponent(RigidBody.staticBody(shape, extents));
+            physicsBridge.addEntity(gameObject);
+            return gameObject;
+        };
+        const down = { x: 0, y: -1, z: 0 };
+
+        test('raycast returns the nearest hit mapped back to its GameObject', () => {
+            addCollider('floor', [0, -1, 0], CollisionShape.BOX, { x: 10, y: 1, z: 10 });
+            const crate = addCollider('crate', [0, 1, 0], CollisionShape.BOX, { x: 1, y: 1, z: 1 });
+
+            const hit = physicsBridge.raycast({ x: 0, y: 10, z: 0 }, down);
+
+            expect(hit?.gameObject).toBe(crate);
+            expect(hit?.distance).toBeCloseTo(8);
+            expect(hit?.point.y).toBeCloseTo(2);
+            expect(hit?.normal).toEqual({ x: 0, y: 1, z: 0 });
+        });
+
+        test('raycastAll returns every hit nearest first; maxDistance limits the ray', () => {
+            const floor = addCollider('floor', [0, -1, 0], CollisionShape.BOX, { x: 10, y: 1, z: 10 });
+            const ball = addCollider('ball', [0, 3, 0], CollisionShape.SPHERE, { x: 1, y: 1, z: 1 });
+
+            const hits = physicsBridge.raycastAll({ x: 0, y: 10, z: 0 }, down);
+
+            expect(hits.map(h => h.gameObject)).toEqual([ball, floor]);
+            expect(hits[0]!.distance).toBeCloseTo(6);
+            expect(physicsBridge.raycastAll({ x: 0, y: 10, z: 0 }, down, 5)).toEqual([]);
+        });
+
+        test('filters exclude objects and apply a predicate', () => {
+            const floor = addCollider('floor', [0, -1, 0], CollisionShape.BOX, { x: 10, y: 1, z: 10 });
+            const player = addCollider('player', [0, 1, 0], CollisionShape.SPHERE, { x: 0.5, y: 0.5, z: 0.5 });
+
+            // Casting from above the player's head: the player itself is excluded
+            expect(physicsBridge.raycast({ x: 0, y: 10, z: 0 }, down, Infinity, { exclude: [player] })?.gameObject).toBe(floor);
+            expect(physicsBridge.raycast({ x: 0, y: 10, z: 0 }, down, Infinity, { predicate: go => go !== player })?.gameObject).toBe(floor);
+        });
+
+        test('bodies without a RigidBody are not colliders', () => {
+            const decoration = createTestGameObject('decoration');
+            physicsBridge.addEntity(decoration);
+
+            expect(physicsBridge.raycast({ x: 0, y: 10, z: 0 }, down)).toBeNull();
+        });
+
+        test('sphereCast hits what a thin ray would miss', () => {
+            const ball = addCollider('ball', [5, 0, 0], CollisionShape.SPHERE, { x: 1, y: 1, z: 1 });
+            const origin = { x: 0, y: 1.5, z: 0 };
+            const right = { x: 1, y: 0, z: 0 };
+
+            expect(physicsBridge.raycast(origin, right)).toBeNull();
+
+            const hit = physicsBridge.sphereCast(origin, 1, right);
+            expect(hit?.gameObject).toBe(ball);
+            expect(hit!.distance).toBeLessThan(5);
+            expect(physicsBridge.sphereCastAll(origin, 1, right)).toHaveLength(1);
+        });
+
+        test('queries without a WASM module return no hits', () => {
+            const bridge = new WasmPhysicsBridge();
+
+            expect(bridge.raycast({ x: 0, y: 0, z: 0 }, down)).toBeNull();
+            expect(bridge.sphereCastAll({ x: 0, y: 0, z: 0 }, 1, down)).toEqual([]);
+        });
+    });
+
+    describe('Overlap queries and explosions', () => {
+        const addBody = (name: string, x: number, z: number, rigidBody: RigidBody): RigidBody => {
+            const gameObject = createTestGameObject(name);
+            gameObject.transform.setPosition(x, 0, z);
+            gameObject.addComponent(rigidBody);
+            physicsBridge.addEntity(gameObject);
+            return rigidBody;
+        };
+        const addBall = (name: string, x: number, z = 0) => addBody(name, x, z, new RigidBody(1.0, false, CollisionShape.SPHERE, { x: 0.25, y: 0.25, z: 0.25 }));
+        const center = { x: 0, y: 0, z: 0 };
+
+        test('overlapSphere returns the GameObjects touching it, nearest first', () => {
+            const far = addBall('far', 2.5);
+            const near = addBall('near', -1);
+            addBall('outside', 3);
+            const wall = addBody('wall', 0, 2.2, RigidBody.staticBody(CollisionShape.BOX, { x: 2, y: 1, z: 0.5 }));
+
+            expect(physicsBridge.overlapSphere(center, 2.5)).toEqual([near.gameObject, wall.gameObject, far.gameObject]);
+            expect(physicsBridge.overlapSphere(center, 2.5, { exclude: [wall.gameObject!] })).toEqual([near.gameObject, far.gameObject]);
+        });
+
+        test('overlapBox is tested against the box as turned', () => {
+            const ball = addBall('ball', 1.3); // Surface 1.05 m out: past the cube, inside its turned corner
+
+            expect(physicsBridge.overlapBox({ x: 0.5, y: 0, z: 0 }, { x: 0.5, y: 0.5, z: 0.5 })).toEqual([]);
+            expect(physicsBridge.overlapBox({ x: 0.5, y: 0, z: 0 }, { x: 0.5, y: 0.5, z: 0.5 }, undefined, { x: 0, y: 45, z: 0 })).toEqual([ball.gameObject]);
+        });
+
+        test('explode pushes DYNAMIC bodies away, harder closer in', () => {
+            const near = addBall('near', 1);
+            const far = addBall('far', -2);
+            const crate = addBody('crate', 0, 2, RigidBody.staticBody(CollisionShape.BOX, { x: 0.5, y: 0.5, z: 0.5 }));
+
+            const pushed = physicsBridge.explode(center, 4, 8);
+            physicsBridge.update(1 / 60);
+
+            expect(pushed).toEqual([near.gameObject, far.gameObject]);
+            expect(near.velocity.x).toBeCloseTo(8 * 0.8125 * 0.99); // Surfaces 0.75 and 1.75 m out
+            expect(far.velocity.x).toBeCloseTo(-8 * 0.5625 * 0.99);
+            expect(crate.velocity).toEqual({ x: 0, y: 0, z: 0 });
+        });
+
+        test('explode reaches a large body by its collider, not its center', () => {
+            const crate = addBody('crate', 5.5, 0, new RigidBody(1.0, false, CollisionShape.BOX, { x: 1, y: 1, z: 1 })); // Face 4.5 m out
+
+            const pushed = physicsBridge.explode(center, 5, 8);
+            physicsBridge.update(1 / 60);
+
+            expect(pushed).toEqual([crate.gameObject]);
+            expect(crate.velocity.x).toBeCloseTo(8 * 0.1 * 0.99);
+        });
+
+        test('the upwards modifier throws bodies up as well as out', () => {
+            const ball = addBall('ball', 2);
+
+            physicsBridge.explode(center, 4, 8, 2);
+            physicsBridge.update(1 / 60);
+
+            expect(ball.velocity.y).toBeGreaterThan(0);
+            expect(ball.velocity.y).toBeCloseTo(ball.velocity.x / 0.99); // Pushed at 45°; damping only acts across gravity
+        });
+    });
+
+    describe('Collision events', () => {
+        // Records the collision callbacks its GameObject receives
+        class ContactRecorder extends Component {
+            events: { phase: string; other: GameObject; contact: ContactInfo }[] = [];
+            override onCollisionEnter(other: GameObject, contact: ContactInfo): void {
+                this.events.push({ phase: 'enter', other, contact });
+            }
+            override onCollisionStay(other: GameObject, contact: ContactInfo): void {
+                this.events.push({ phase: 'stay', other, contact });
+            }
+            override onCollisionExit(other: GameObject, contact: ContactInfo): void {
+                this.events.push({ phase: 'exit', other, contact });
+            }
+            phases(): string[] {
+                return this.events.map(e => e.phase);
+            }
+        }
+
+        const setup = () => {
+            const floor = createTestGameObject('floor');
+            floor.transform.setPosition(0, -1, 0);
+            floor.addComponent(RigidBody.staticBody(CollisionShape.BOX, { x: 10, y: 1, z: 10 }));
+            const floorEvents = floor.addComponent(new ContactRecorder());
+
+            const ball = createTestGameObject('ball', 'Ball', 'sphere');
+            ball.transform.setPosition(0, 0.55, 0);
+            ball.addComponent(new RigidBody(1.0, true, CollisionShape.SPHERE, { x: 0.5, y: 0.5, z: 0.5 }));
+            const ballEvents = ball.addComponent(new ContactRecorder());
+
+            physicsBridge.addEntity(floor);
+            const ballId = physicsBridge.addEntity(ball)!;
+            return { floor, floorEvents, ball, ballEvents, ballId };
+        };
+        const step = (n = 1) => {
+            for (let i = 0; i < n; i++) physicsBridge.update(1 / 60);
+        };
+
+        test('a landing body gets Enter once, then Stay while it rests', () => {
+            const { floor, ballEvents } = setup();
+
+            step(90);
+
+            const phases = ballEvents.phases();
+            expect(phases.filter(p => p === 'enter')).toHaveLength(1);
+            expect(phases.slice(-30).every(p => p === 'stay')).toBe(true);
+            expect(ballEvents.events[0]!.other).toBe(floor);
+        });
+
+        test('both GameObjects are notified, each with the normal pointing away from the other', () => {
+            const { ball, floorEvents, ballEvents } = setup();
+
+            step(30);
+
+            const ballContact = ballEvents.events.at(-1)!.contact;
+            const floorContact = floorEvents.events.at(-1)!.contact;
+            expect(floorEvents.events[0]!.other).toBe(ball);
+            expect(ballContact.normal.y).toBeCloseTo(1);
+            expect(floorContact.normal.y).toBeCloseTo(-1);
+            expect(ballContact.point.y).toBeCloseTo(0, 1);
+        });
+
+        test('the landing reports an impulse', () => {
+            const { ballEvents } = setup();
+
+            step(30);
+
+            // The first touching step may be within the contact skin (impulse 0); the solver's
+            // push follows
+            expect(Math.max(...ballEvents.events.map(e => e.contact.impulse))).toBeGreaterThan(0);
+        });
+
+        test('Exit is dispatched on the first step the pair no longer touches', () => {
+            const { floor, ballEvents, ballId } = setup();
+            step(30);
+
+            physicsBridge.setEntityPosition(ballId, { x: 0, y: 6, z: 0 });
+            step();
+
+            const last = ballEvents.events.at(-1)!;
+            expect(last.phase).toBe('exit');
+            expect(last.other).toBe(floor);
+            step();
+            expect(ballEvents.events.at(-1)).toBe(last); // no further events
+        });
+
+        test('a body removed while touching gives the other side Exit, once', () => {
+            const { floorEvents, ball } = setup();
+            step(30);
+
+            physicsBridge.removePhysicsEntity(ball.id);
+            const last = floorEvents.events.at(-1)!;
+            step(2);
+
+            expect(last.phase).toBe('exit');
+            expect(last.other).toBe(ball);
+            expect(last.contact.normal.y).toBeCloseTo(-1); // Still seen from the floor's side
+            expect(floorEvents.events.at(-1)).toBe(last); // Nothing more for the removed body
+        });
+    });
+
+    describe('Trigger events', () => {
+        // Records the trigger callbacks its GameObject receives
+        class TriggerRecorder extends Component {
+            events: { phase: string; other: GameObject }[] = [];
+            override onTriggerEnter(other: GameObject): void {
+                this.events.push({ phase: 'enter', other });
+            }
+            override onTriggerExit(other: GameObject): void {
+                this.events.push({ phase: 'exit', other });
+            }
+        }
+
+        const setup = () => {
+            const zone = createTestGameObject('zone');
+            zone.transform.setPosition(0, -1, 0);
+            zone.addComponent(new RigidBody(1.0, false, CollisionShape.BOX, { x: 10, y: 1, z: 10 }, {
+                bodyType: BodyType.STATIC,
+                isTrigger: true,
+            }));
+            const zoneEvents = zone.addComponent(new TriggerRecorder());
+
+            const ball = createTestGameObject('ball', 'Ball', 'sphere');
+            ball.transform.setPosition(0, 0.55, 0);
+            ball.addComponent(new RigidBody(1.0, true, CollisionShape.SPHERE, { x: 0.5, y: 0.5, z: 0.5 }));
+            const ballEvents = ball.addComponent(new TriggerRecorder());
+
+            const zoneId = physicsBridge.addEntity(zone)!;
+            const ballId = physicsBridge.addEntity(ball)!;
+            return { zone, zoneEvents, zoneId, ball, ballEvents, ballId };
+        };
+        const step = (n = 1) => {
+            for (let i = 0; i < n; i++) physicsBridge.update(1 / 60);
+        };
+
+        test('a body falling into a trigger gets Enter (not a collision), and passes through', () => {
+            const { zone, zoneEvents, ball, ballEvents, ballId } = setup();
+
+            step(10);
+
+            expect(ballEvents.events).toEqual([{ phase: 'enter', other: zone }]);
+            expect(zoneEvents.events).toEqual([{ phase: 'enter', other: ball }]);
+            expect(physicsBridge.getEntityPosition(ballId)!.y).toBeLessThan(0.5); // not stopped on top
+        });
+
+        test('Exit is dispatched when the body leaves the trigger', () => {
+            const { zone, ballEvents, ballId } = setup();
+            step(10);
+
+            physicsBridge.setEntityPosition(ballId, { x: 0, y: 6, z: 0 });
+            step();
+
+            expect(ballEvents.events.at(-1)).toEqual({ phase: 'exit', other: zone });
+        });
+
+        test('a body removed inside a trigger gives the trigger Exit, once', () => {
+            const { zoneEvents, ball } = setup();
+            step(10);
+
+            physicsBridge.removePhysicsEntity(ball.id);
+            step(2);
+
+            expect(zoneEvents.events).toEqual([{ phase: 'enter', other: ball }, { phase: 'exit', other: ball }]);
+        });
+
+        test('a removed trigger gives the body inside it Exit, once', () => {
+            const { zone, ballEvents } = setup();
+            step(10);
+
+            physicsBridge.removePhysicsEntity(zone.id);
+            step(2);
+
+            expect(ballEvents.events).toEqual([{ phase: 'enter', other: zone }, { phase: 'exit', other: zone }]);
+        });
+
+        test('setTrigger() makes the body solid again', () => {
+            const { zone, ballEvents, ballId } = setup();
+
+            zone.getComponent(RigidBody)!.setTrigger(false);
+            step(60);
+
+            expect(ballEvents.events).toHaveLength(0);
+            expect(physicsBridge.getEntityPosition(ballId)!.y).toBeCloseTo(0.5, 1); // resting on top
+        });
+    });
+
+    describe('Broadphase', () => {
+        // A row of resting boxes, 0.5 apart: none touch, so none needs the narrowphase
+        const addRow = (count: number) => {
+            for (let i = 0; i < count; i++) {
+                const box = createTestGameObject(`box-${i}`);
+                box.transform.setPosition(i * 1.5 - 7, 0, 0);
+                box.addComponent(new RigidBody(1.0, false, CollisionShape.BOX, { x: 0.5, y: 0.5, z: 0.5 }));
+                physicsBridge.addEntity(box);
+            }
+        };
+
+        test('is on by default and culls pairs that cannot touch', () => {
+            addRow(8);
+
+            physicsBridge.update(1 / 60);
+
+            expect(physicsBridge.getBroadphaseStats()).toEqual({ enabled: true, pairsTested: 0, pairsOverlapping: 0 });
+        });
+
+        test('turned off, every pair reaches the narrowphase', () => {
+            addRow(8);
+
+            physicsBridge.setBroadphaseEnabled(false);
+            physicsBridge.update(1 / 60);
+
+            expect(physicsBridge.getBroadphaseStats()).toEqual({ enabled: false, pairsTested: 28, pairsOverlapping: 0 });
+            physicsBridge.setBroadphaseEnabled(true);
+        });
+    });
+
+    describe('Angular dynamics', () => {
+        const addFloatingBox = (name: string, x: number) => {
+            const box = createTestGameObject(name);
+            box.transform.setPosition(x, 0, 0);
+            const rigidBody = box.addComponent(new RigidBody(1.0, false, CollisionShape.BOX, { x: 0.5, y: 0.5, z: 0.5 }));
+            physicsBridge.addEntity(box);
+            return { box, rigidBody };
+        };
+
+        test('applyTorque spins the body and its rotation syncs back in degrees', () => {
+            const { box, rigidBody } = addFloatingBox('spinner', 0);
+
+            rigidBody.applyTorque(0, 1, 0);
+            physicsBridge.update(1 / 60);
+
+            expect(rigidBody.angularVelocity.y).toBeCloseTo(6 * 0.99 / 60); // I = m/3·(b²+c²) = 1/6
+            expect(box.transform.rotation.y).toBeCloseTo(rigidBody.angularVelocity.y / 60 * 180 / Math.PI);
+        });
+
+        test('applyForceAtPoint off-center pushes and turns', () => {
+            const { rigidBody } = addFloatingBox('crate', 0);
+
+            rigidBody.applyForceAtPoint({ x: 0, y: 0, z: 6 }, { x: 0.5, y: 0, z: 0 });
+            physicsBridge.update(1 / 60);
+
+            expect(rigidBody.velocity.z).toBeGreaterThan(0);
+            expect(rigidBody.angularVelocity.y).toBeLessThan(0);
+        });
+
+        test('a body that never spins keeps its scripted rotation', () => {
+            const { box, rigidBody } = addFloatingBox('still', 0);
+            box.transform.setRotation(0, 45, 0);
+            rigidBody.setAngularVelocity(0, 0, 0);
+
+            physicsBridge.update(1 / 60);
+
+            expect(box.transform.rotation).toEqual({ x: 0, y: 45, z: 0 });
+        });
+
+        test('a body spinning about several axes keeps its world matrix in step with physics', () => {
+            const turntable = new GameObject('turntable');
+            turntable.transform.setRotation(0, 90, 0);
+            const tumbler = createTestGameObject('tumbler');
+            const scene = new Scene();
+            scene.addGameObject(turntable);
+            scene.addGameObject(tumbler);
+            turntable.addChild(tumbler);
+            const rigidBody = tumbler.addComponent(new RigidBody(1.0, false, CollisionShape.BOX, { x: 0.5, y: 0.5, z: 0.5 }));
+            physicsBridge.addEntity(tumbler);
+
+            rigidBody.setAngularVelocity(1, 2, 0.5);
+            for (let i = 0; i < 20; i++) physicsBridge.update(1 / 60);
+
+            const rendered = new Float32Array(physicsBridge.getWasmMemory()!, physicsBridge.getEntityTransformsOffsetSafe(), 16);
+            Array.from(tumbler.transform.getWorldMatrix()).forEach((value, i) => expect(rendered[i]).toBeCloseTo(value, 4));
+        });
+    });
+
+    describe('Force modes', () => {
+        const addFloatingBall = (name: string, x: number, mass: number) => {
+            const ball = createTestGameObject(name);
+            ball.transform.setPosition(x, 0, 0);
+            const rigidBody = ball.addComponent(new RigidBody(mass, false, CollisionShape.SPHERE, { x: 0.5, y: 0.5, z: 0.5 }));
+            physicsBridge.addEntity(ball);
+            return rigidBody;
+        };
+
+        test('an impulse kicks through the mass, the same whatever the frame time', () => {
+            const light = addFloatingBall('light', -2, 1);
+            const heavy = addFloatingBall('heavy', 2, 4);
+
+            light.applyForce(0, 0, 8, ForceMode.IMPULSE);
+            heavy.applyForce(0, 0, 8, ForceMode.IMPULSE);
+            physicsBridge.update(1 / 240);
+
+            expect(light.velocity.z).toBeCloseTo(8 * 0.99);
+            expect(heavy.velocity.z).toBeCloseTo(2 * 0.99);
+        });
+
+        test('a force acts over the step through the mass, an acceleration alike for every mass', () => {
+            const light = addFloatingBall('light', -2, 1);
+            const heavy = addFloatingBall('heavy', 2, 4);
+
+            light.applyForce(6, 0, 0, ForceMode.FORCE);
+            heavy.applyForce(6, 0, 0, ForceMode.FORCE);
+            light.applyForce(0, 0, 3, ForceMode.ACCELERATION);
+            heavy.applyForce(0, 0, 3, ForceMode.ACCELERATION);
+            physicsBridge.update(1 / 60);
+
+            expect(light.velocity.x).toBeCloseTo(6 / 60 * 0.99);
+            expect(heavy.velocity.x).toBeCloseTo(6 / 4 / 60 * 0.99);
+            expect(light.velocity.z).toBeCloseTo(heavy.velocity.z);
+        });
+
+        test('a velocity change (the default) ignores the mass', () => {
+            const heavy = addFloatingBall('heavy', 0, 4);
+
+            heavy.applyForce(0, 0, 2);
+            physicsBridge.update(1 / 60);
+
+            expect(heavy.velocity.z).toBeCloseTo(2 * 0.99);
+        });
+
+        test('applyImpulseAtPoint knocks the body back without spinning it', () => {
+            const target = addFloatingBall('target', 0, 2);
+
+            target.applyImpulseAtPoint({ x: 0, y: 0, z: -4 }, { x: 0.5, y: 0, z: 0 });
+            physicsBridge.update(1 / 60);
+
+            expect(target.velocity.z).toBeCloseTo(-2 * 0.99);
+            expect(target.angularVelocity).toEqual({ x: 0, y: 0, z: 0 });
+        });
+    });
+
+    describe('Physics materials', () => {
+        // A crate launched along a static floor (top at y = 0), both of the given materials
+        const launchCrate = (floorMaterial: PhysicsMaterial, crateMaterial: PhysicsMaterial) => {
+            const floor = createTestGameObject('floor');
+            floor.transform.setPosition(0, -1, 0);
+            const floorBody = floor.addComponent(new RigidBody(1.0, false, CollisionShape.BOX, { x: 7, y: 1, z: 4 }, {
+                bodyType: BodyType.STATIC,
+                material: floorMaterial,
+            }));
+            const crate = createTestGameObject('crate');
+            crate.transform.setPosition(-5, 0.5, 0);
+            const crateBody = crate.addComponent(new RigidBody(1.0, true, CollisionShape.BOX, { x: 0.5, y: 0.5, z: 0.5 }, {
+                material: crateMaterial,
+            }));
+            physicsBridge.addEntity(floor);
+            physicsBridge.addEntity(crate);
+            crateBody.setVelocity(3, 0, 0);
+            return { floorBody, crateBody };
+        };
+        const step = (n: number) => {
+            for (let i = 0; i < n; i++) physicsBridge.update(1 / 60);
+        };
+
+        test('bodies get the default material, passed through add_entity', () => {
+            const { crateBody } = launchCrate(PhysicsMaterial.DEFAULT, PhysicsMaterial.DEFAULT);
+            expect(crateBody.material).toBe(PhysicsMaterial.DEFAULT);
+
+            step(90);
+
+            expect(crateBody.velocity.x).toBeCloseTo(0, 2); // friction brought it to rest
+        });
+
+        test('ICE wins over an average floor and keeps the crate sliding', () => {
+            const { crateBody } = launchCrate(PhysicsMaterial.DEFAULT, PhysicsMaterial.ICE);
+
+            step(30);
+
+            expect(crateBody.velocity.x).toBeGreaterThan(2);
+        });
+
+        test('setMaterial() swaps the surface at runtime', () => {
+            const { floorBody, crateBody } = launchCrate(PhysicsMaterial.ICE, PhysicsMaterial.DEFAULT);
+            step(10);
+            expect(crateBody.velocity.x).toBeGreaterThan(2);
+
+            floorBody.setMaterial(PhysicsMaterial.STICKY);
+            step(30);
+
+            expect(floorBody.material).toBe(PhysicsMaterial.STICKY);
+            expect(crateBody.velocity.x).toBeCloseTo(0, 2);
+        });
+    });
+
+    describe('Sleeping', () => {
+        // Two boxes stacked on a static floor (top at y = 0)
+        const addStack = () => {
+            const floor = createTestGameObject('floor');
+            floor.transform.setPosition(0, -1, 0);
+            floor.addComponent(RigidBody.staticBody(CollisionShape.BOX, { x: 7, y: 1, z: 4 }));
+            physicsBridge.addEntity(floor);
+
+            return [0.5, 1.5].map((y, i) => {
+                const box = createTestGameObject(`box-${i}`);
+                box.transform.setPosition(0, y, 0);
+                const rigidBody = box.addComponent(new RigidBody(1.0, true, CollisionShape.BOX, { x: 0.5, y: 0.5, z: 0.5 }));
+                physicsBridge.addEntity(box);
+                return rigidBody;
+            });
+        };
+        const step = (n: number) => {
+            for (let i = 0; i < n; i++) physicsBridge.update(1 / 60);
+        };
+
+        test('a settled stack falls asleep and shows up in the stats', () => {
+            const [bottom, top] = addStack();
+            expect(top!.isSleeping).toBe(false);
+
+            step(120);
+
+            expect(bottom!.isSleeping).toBe(true);
+            expect(top!.isSleeping).toBe(true);
+            expect(physicsBridge.getStats().sleepingBodies).toBe(2);
+        });
+
+        test('a force wakes the island it hits', () => {
+            const [bottom, top] = addStack();
+            step(120);
+
+            top!.applyForce(20, 0, 0);
+            step(1);
+
+            expect(top!.isSleeping).toBe(false);
+            expect(bottom!.isSleeping).toBe(false);
+            expect(physicsBridge.getStats().sleepingBodies).toBe(0);
+        });
+
+        test('sleep() and wakeUp() control a body directly', () => {
+            const [, top] = addStack();
+            step(120);
+
+            top!.wakeUp();
+            expect(top!.isSleeping).toBe(false);
+
+            top!.sleep();
+            expect(top!.isSleeping).toBe(true);
+            expect(top!.velocity).toEqual({ x: 0, y: 0, z: 0 });
+        });
+    });
+
+    describe('Continuous collision', () => {
+        // A bullet fired down at the lifecycle scene's thin platform (top at y = 0.25)
+        const fireAtPlatform = (continuousCollision: boolean) => {
+            const platform = createTestGameObject('platform');
+            platform.addComponent(RigidBody.staticBody(CollisionShape.BOX, { x: 3, y: 0.25, z: 3 }));
+            physicsBridge.addEntity(platform);
+
+            const bullet = createTestGameObject('bullet', 'TestObject', 'sphere');
+            bullet.transform.setPosition(0, 2, 0);
+            const body = bullet.addComponent(new RigidBody(0.1, true, CollisionShape.SPHERE, { x: 0.1, y: 0.1, z: 0.1 }, { continuousCollision }));
+            physicsBridge.addEntity(bullet);
+            body.setVelocity(0, -200, 0);
+            return { bullet, body };
+        };
+
+        test('a fast body tunnels through a thin platform by default', () => {
+            const { bullet } = fireAtPlatform(false);
+            physicsBridge.update(1 / 60);
+            expect(bullet.transform.position.y).toBeLessThan(-0.25);
+        });
+
+        test('continuousCollision stops it on the platform', () => {
+            const { bullet, body } = fireAtPlatform(true);
+            physicsBridge.update(1 / 60);
+
+            expect(bullet.transform.position.y).toBeCloseTo(0.35, 1);
+            expect(body.velocity.y).toBeGreaterThan(0);
+        });
+
+        test('setContinuousCollision() turns it on at runtime', () => {
+            const { bullet, body } = fireAtPlatform(false);
+            body.setContinuousCollision(true);
+            physicsBridge.update(1 / 60);
+
+            expect(body.continuousCollision).toBe(true);
+            expect(bullet.transform.position.y).toBeGreaterThan(0.25);
+        });
+    });
+
+    describe('Capsule and cylinder colliders', () => {
+        // An upright body of radius 0.5 and half-height 1 dropped on a floor whose top is at y = 0
+        const dropOnFloor = (configure: (_body: RigidBody) => void) => {
+            const floor = createTestGameObject('floor');
+            floor.transform.setPosition(0, -1, 0);
+            floor.addComponent(RigidBody.staticBody(CollisionShape.BOX, { x: 3, y: 1, z: 3 }));
+            physicsBridge.addEntity(floor);
+
+            const pillar = createTestGameObject('pillar');
+            pillar.transform.setPosition(0, 3, 0);
+            const body = pillar.addComponent(new RigidBody(1.0, true));
+            physicsBridge.addEntity(pillar);
+            configure(body);
+            return { pillar, body };
+        };
+
+        test('setCapsuleCollider() stands the body on its rounded end', () => {
+            const { pillar, body } = dropOnFloor(b => b.setCapsuleCollider(0.5, 1));
+            for (let i = 0; i < 240; i++) physicsBridge.update(1 / 60);
+
+            expect(body.getCollisionInfo()).toEqual({ shape: CollisionShape.CAPSULE, extents: { x: 0.5, y: 1, z: 0.5 } });
+            expect(pillar.transform.position.y).toBeCloseTo(1, 1);
+            expect(pillar.transform.rotation.z).toBeCloseTo(0, 5);
+        });
+
+        test('setCylinderCollider() stands the body on its flat end', () => {
+            const { pillar, body } = dropOnFloor(b => b.setCylinderCollider(0.5, 1));
+            for (let i = 0; i < 240; i++) physicsBridge.update(1 / 60);
+
+            expect(body.getCollisionInfo().shape).toBe(CollisionShape.CYLINDER);
+            expect(pillar.transform.position.y).toBeCloseTo(1, 1);
+        });
+    });
+
+    describe('Joints', () => {
+        const addBall = (name: string, x: number, y: number) => {
+            const ball = createTestGameObject(name, 'TestObject', 'sphere');
+            ball.transform.setPosition(x, y, 0);
+            ball.addComponent(new RigidBody(1.0, true, CollisionShape.SPHERE, { x: 0.25, y: 0.25, z: 0.25 }));
+            return ball;
+        };
+        const step = (n: number) => {
+            for (let i = 0; i < n; i++) physicsBridge.update(1 / 60);
+        };
+        const distance = (a: GameObject, b: { x: number; y: number; z: number }) => {
+            const p = a.transform.position;
+            return Math.hypot(p.x - b.x, p.y - b.y, p.z - b.z);
+        };
+
+        test('a pendulum pinned to the world keeps its length', () => {
+            const bob = addBall('bob', 2, 4);
+            const joint = bob.addComponent(new DistanceJoint({ connectedAnchor: { x: 0, y: 4, z: 0 } }));
+            physicsBridge.addEntity(bob);
+            expect(joint.isRegistered).toBe(true);
+
+            step(60);
+
+            expect(distance(bob, { x: 0, y: 4, z: 0 })).toBeCloseTo(2, 1);
+            expect(bob.transform.position.y).toBeLessThan(3);
+        });
+
+        test('a joint waits until its connected body is simulated', () => {
+            const a = addBall('a', 0, 3);
+            const b = addBall('b', 0, 2);
+            const joint = b.addComponent(new DistanceJoint({ connectedBody: a }));
+
+            physicsBridge.addEntity(b);
+            expect(joint.isRegistered).toBe(false);
+            physicsBridge.addEntity(a);
+            expect(joint.isRegistered).toBe(true);
+
+            step(30);
+            expect(distance(b, a.transform.position)).toBeCloseTo(1, 1);
+        });
+
+        test('a hinge reports its angle in degrees and drives with its motor', () => {
+            const door = createTestGameObject('door');
+            door.transform.setPosition(0.5, 0, 0);
+            door.addComponent(new RigidBody(1.0, false, CollisionShape.BOX, { x: 0.5, y: 1, z: 0.05 }));
+            const hinge = door.addComponent(new HingeJoint({ anchor: { x: -0.5, y: 0, z: 0 }, motor: { speed: 90, maxTorque: 100 } }));
+            physicsBridge.addEntity(door);
+
+            step(30); // Half a second at 90°/s
+
+            expect(hinge.angle).toBeGreaterThan(35);
+            expect(hinge.angle).toBeLessThan(50);
+        });
+
+        test('the anchor of a body turned about several axes is where the solver holds it', () => {
+            const crate = createTestGameObject('crate');
+            crate.transform.setRotation(30, 45, 20);
+            crate.addComponent(new RigidBody(1.0, false, CollisionShape.BOX, { x: 0.5, y: 0.5, z: 0.5 }));
+            const joint = crate.addComponent(new BallSocketJoint({ anchor: { x: 0.5, y: 0.5, z: 0.5 } }));
+            physicsBridge.addEntity(crate);
+            const pinned = joint.worldAnchor();
+
+            step(30);
+
+            const rendered = new Float32Array(physicsBridge.getWasmMemory()!, physicsBridge.getEntityTransformsOffsetSafe(), 16);
+            const [x, y, z] = transformPoint(rendered, [0.5, 0.5, 0.5]);
+            expect(x).toBeCloseTo(pinned.x, 3);
+            expect(y).toBeCloseTo(pinned.y, 3);
+            expect(z).toBeCloseTo(pinned.z, 3);
+            expect(crate.transform.position.x).toBeCloseTo(0, 3); // Already where the joint holds it
+        });
+
+        test('removing a body drops its joints', () => {
+            const a = addBall('a', 0, 3);
+            const b = addBall('b', 0, 2);
+            const joint = b.addComponent(new DistanceJoint({ connectedBody: a }));
+            physicsBridge.addEntity(a);
+            physicsBridge.addEntity(b);
+            const wasm = (physicsBridge as any).wasm;
+            expect(wasm.get_joint_count()).toBe(1);
+
+            physicsBridge.removePhysicsEntity(a.id);
+
+            expect(joint.isRegistered).toBe(false);
+            expect(wasm.get_joint_count()).toBe(0);
+        });
+    });
+
     describe('Error Handling', () => {
         test('should handle operations when not initialized', async () => {
             const uninitializedBridge = new WasmPhysicsBridge();
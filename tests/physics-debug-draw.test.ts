@@ -0,0 +1,96 @@
+// tests/physics-debug-draw.test.ts
+// Physics debug overlay: the bridge hands out the WASM line list (colliders where physics has
+// them, not where the mesh is), the renderer draws it as a pass of its own, and the Engine
+// feeds it every frame while the overlay is on.
+
+import { jest } from '@jest/globals';
+import { Engine } from '../src/engine/engine';
+import { Scene } from '../src/engine/scene-system';
+import { GameObject } from '../src/engine/gameobject';
+import { RigidBody, CollisionShape } from '../src/engine/components';
+import { WasmLoader } from '../src/engine/wasm-loader';
+import { WasmPhysicsBridge } from '../src/engine/wasm-physics-bridge';
+import { DEBUG_VERTEX_FLOATS, PhysicsDebugDraw } from '../src/engine/physics-debug-draw';
+import { WebGPURendererV2 } from '../src/renderer/webgpu.renderer';
+import { WebGPUMockFactory } from './utils/webgpu-mocks';
+import { meshObject } from './utils/physics-fixtures';
+
+// A 2 m cube mesh whose box collider was left at the default 0.5 m half-extents
+function mismatchedCrate(): GameObject {
+    const crate = meshObject('crate', { x: 0, y: 0, z: 0 }, new RigidBody(1.0, false, CollisionShape.BOX, { x: 0.5, y: 0.5, z: 0.5 }));
+    crate.transform.setScale(2, 2, 2);
+    return crate;
+}
+
+describe('Physics debug overlay', () => {
+    test('the bridge draws a collider where physics has it, not where the mesh is', async () => {
+        const bridge = new WasmPhysicsBridge();
+        await bridge.init();
+        const scene = new Scene();
+        const crate = mismatchedCrate();
+        scene.addGameObject(crate);
+        bridge.addEntity(crate);
+
+        const lines = bridge.getDebugLines(PhysicsDebugDraw.COLLIDERS);
+
+        expect(lines.length).toBe(24 * DEBUG_VERTEX_FLOATS); // The box's 12 edges
+        for (let i = 0; i < lines.length; i += DEBUG_VERTEX_FLOATS) {
+            expect(Math.abs(lines[i]!)).toBeCloseTo(0.5); // The mesh reaches 1 m out
+        }
+        expect(bridge.getDebugLines(PhysicsDebugDraw.NONE).length).toBe(0);
+        scene.dispose();
+    });
+
+    test('the renderer draws the lines over the scene until they are cleared', async () => {
+        WebGPUMockFactory.setupWebGPUEnvironment();
+        const renderer = new WebGPURendererV2();
+        await renderer.init(WebGPUMockFactory.createMockCanvas());
+        const adapter = await (global.navigator as any).gpu.requestAdapter();
+        const device = await adapter.requestDevice();
+        const renderPass = device.createCommandEncoder().beginRenderPass();
+        renderer.registerMesh('cube', { vertices: new Float32Array(24), indices: new Uint16Array(36) }, 'triangles');
+        const wasmModule = { get_mesh_bucket_start: () => 0, get_mesh_bucket_count: () => 0 };
+
+        renderer.setDebugLines(new Float32Array(4 * DEBUG_VERTEX_FLOATS));
+        renderer.render(wasmModule);
+        expect(renderPass.draw).toHaveBeenCalledWith(4);
+        expect(device.queue.writeBuffer).toHaveBeenCalledWith(expect.anything(), 0, expect.any(ArrayBuffer), 0, 4 * DEBUG_VERTEX_FLOATS * 4);
+
+        renderPass.draw.mockClear();
+        renderer.setDebugLines(undefined);
+        renderer.render(wasmModule);
+        expect(renderPass.draw).not.toHaveBeenCalled();
+    });
+
+    test('the Engine feeds the renderer every frame while the overlay is on', async () => {
+        document.body.innerHTML = '<canvas id="webgpu-canvas"></canvas>';
+        const renderer = {
+            getMeshIndex: () => 0,
+            registerMesh: () => {},
+            clearMeshes: () => {},
+            mapInstanceDataFromWasm: () => {},
+            getAspectRatio: () => 1,
+            updateCamera: () => {},
+            render: () => {},
+            setDebugLines: jest.fn(),
+        };
+        const engine = new Engine('webgpu-canvas', { physicsDebugDraw: true });
+        (engine as unknown as { renderer: unknown }).renderer = renderer;
+        (engine as unknown as { wasm: unknown }).wasm = await WasmLoader.loadPhysicsModule();
+        const scene = new Scene();
+        scene.addGameObject(mismatchedCrate());
+        await engine.loadScene(scene);
+        expect(engine.physicsDebugDraw).toBe(PhysicsDebugDraw.ALL);
+
+        engine.render();
+        const lines = renderer.setDebugLines.mock.calls[0]![0] as Float32Array;
+        expect(lines.length).toBe(24 * DEBUG_VERTEX_FLOATS);
+
+        engine.setPhysicsDebugDraw(false);
+        expect(renderer.setDebugLines).toHaveBeenLastCalledWith(undefined);
+        renderer.setDebugLines.mockClear();
+        engine.render();
+        expect(renderer.setDebugLines).not.toHaveBeenCalled();
+        scene.dispose();
+    });
+});
@@ -0,0 +1,144 @@
+// tests/physics-settings.test.ts
+// Scene physics settings: defaults and validation, sideways gravity, open worlds and custom
+// bounds in WASM, the Engine applying them on loadScene and again when they change, and a
+// CharacterController falling by its scene's gravity.
+
+import { PhysicsSettings } from '../src/engine/physics-settings';
+import { WasmPhysicsBridge } from '../src/engine/wasm-physics-bridge';
+import { WasmLoader } from '../src/engine/wasm-loader';
+import { Engine } from '../src/engine/engine';
+import { Scene } from '../src/engine/scene-system';
+import { RigidBody, CollisionShape } from '../src/engine/components';
+import { CharacterController } from '../src/engine/character-controller';
+import { Mesh } from '../src/engine/mesh';
+import type { WebGPURendererV2 } from '../src/renderer/webgpu.renderer';
+import { DT, addPhysicsObject, meshObject, stepFrames } from './utils/physics-fixtures';
+
+const sphereMesh = Mesh.createSphere('sphere', 0.5);
+
+const makeBall = (x: number, y: number, body = new RigidBody(1.0, true, CollisionShape.SPHERE, { x: 0.5, y: 0.5, z: 0.5 })) =>
+    meshObject('ball', { x, y, z: 0 }, body, sphereMesh);
+
+describe('PhysicsSettings', () => {
+    test('starts from the engine defaults and notifies on changes', () => {
+        const settings = new PhysicsSettings({ solverIterations: 8 });
+        expect(settings.gravity).toEqual({ x: 0, y: -9.8, z: 0 });
+        expect(settings.worldBounds).toEqual(PhysicsSettings.bounds(8, 8, 8));
+        expect(settings.solverIterations).toBe(8);
+
+        const listener = jest.fn();
+        settings.onChange(listener);
+        settings.set({ damping: 1, worldBounds: null });
+        expect(listener).toHaveBeenCalledWith(settings);
+        expect(settings.damping).toBe(1);
+        expect(settings.worldBounds).toBeNull();
+        expect(settings.restitution).toBe(0.6);
+    });
+
+    test('rejects values the solver cannot run, keeping the old ones', () => {
+        const settings = new PhysicsSettings();
+        expect(() => settings.set({ damping: 1.5 })).toThrow(/damping/);
+        expect(() => settings.set({ solverIterations: 0 })).toThrow(/solverIterations/);
+        expect(() => settings.set({ worldBounds: { min: { x: 1, y: -1, z: -1 }, max: { x: -1, y: 1, z: 1 } } })).toThrow(/worldBounds/);
+        expect(settings.damping).toBe(0.99);
+        expect(settings.solverIterations).toBe(5);
+    });
+});
+
+describe('WASM world settings', () => {
+    let bridge: WasmPhysicsBridge;
+    let scene: Scene;
+
+    const addBall = (x: number, y: number) =>
+        addPhysicsObject({ bridge, scene }, 'ball', { x, y, z: 0 }, new RigidBody(1.0, true, CollisionShape.SPHERE, { x: 0.5, y: 0.5, z: 0.5 }), sphereMesh);
+
+    const step = (frames: number) => stepFrames({ bridge }, frames);
+
+    beforeEach(async () => {
+        bridge = new WasmPhysicsBridge();
+        await bridge.init();
+        scene = new Scene();
+    });
+
+    afterEach(() => {
+        scene.dispose();
+    });
+
+    test('gravity pulls along its vector', () => {
+        bridge.applyPhysicsSettings(new PhysicsSettings({ gravity: { x: 0, y: 0, z: 9.8 } }));
+        const ball = addBall(0, 0);
+
+        step(60);
+
+        const { velocity } = ball.getComponent(RigidBody)!;
+        expect(velocity.z).toBeCloseTo(9.8, 1);
+        expect(velocity.y).toBeCloseTo(0, 5);
+    });
+
+    test('without world bounds a body falls through the old floor; a custom box holds it', () => {
+        bridge.applyPhysicsSettings(new PhysicsSettings({ worldBounds: null }));
+        const falling = addBall(0, 0);
+        step(120);
+        expect(falling.transform.position.y).toBeLessThan(-9);
+
+        bridge.applyPhysicsSettings(new PhysicsSettings({
+            restitution: 0,
+            worldBounds: { min: { x: -20, y: -2, z: -20 }, max: { x: 20, y: 20, z: 20 } },
+        }));
+        const held = addBall(3, 0);
+        step(60);
+        expect(held.transform.position.y).toBeCloseTo(-1.5, 3);
+    });
+});
+
+describe('Engine and Scene physics settings', () => {
+    const stubRenderer = {
+        getMeshIndex: () => 0,
+        registerMesh: () => {},
+        clearMeshes: () => {},
+    } as unknown as WebGPURendererV2;
+
+    test('are applied on loadScene and again whenever they change', async () => {
+        document.body.innerHTML = '<canvas id="webgpu-canvas"></canvas>';
+        const engine = new Engine('webgpu-canvas');
+        const wasm = (await WasmLoader.loadPhysicsModule())!;
+        (engine as unknown as { renderer: WebGPURendererV2 }).renderer = stubRenderer;
+        (engine as unknown as { wasm: unknown }).wasm = wasm;
+        const setGravity = jest.spyOn(wasm, 'set_gravity');
+        const setBoundsEnabled = jest.spyOn(wasm, 'set_world_bounds_enabled');
+
+        const scene = new Scene();
+        scene.physicsSettings.set({ gravity: { x: 1, y: -1.6, z: 0 } });
+        await engine.loadScene(scene);
+        expect(setGravity).toHaveBeenLastCalledWith(1, -1.6, 0);
+        expect(setBoundsEnabled).toHaveBeenLastCalledWith(true);
+
+        scene.physicsSettings.set({ worldBounds: null });
+        expect(setBoundsEnabled).toHaveBeenLastCalledWith(false);
+
+        // A scene that is not mounted changes nothing
+        setGravity.mockClear();
+        new Scene().physicsSettings.set({ gravity: { x: 0, y: 0, z: 0 } });
+        expect(setGravity).not.toHaveBeenCalled();
+        scene.dispose();
+    });
+
+    test('a CharacterController falls by its scene gravity unless given its own', async () => {
+        const bridge = new WasmPhysicsBridge();
+        await bridge.init();
+        const scene = new Scene();
+        scene.physicsSettings.set({ gravity: { x: 0, y: -1.6, z: 0 } });
+        const player = makeBall(0, 3, CharacterController.body(0.3, 0.9));
+        const controller = player.addComponent(new CharacterController());
+        scene.addGameObject(player);
+        bridge.addEntity(player);
+
+        scene.updateComponents(DT);
+        expect(controller.verticalSpeed).toBeCloseTo(-1.6 * DT, 6);
+
+        controller.gravity = -20;
+        scene.updateComponents(DT);
+        expect(controller.verticalSpeed).toBeCloseTo((-1.6 - 20) * DT, 6);
+        scene.dispose();
+    });
+});
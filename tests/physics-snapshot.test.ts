@@ -0,0 +1,119 @@
+// tests/physics-snapshot.test.ts
+// Physics snapshots: the blob format, restoring a ball mid-fall (transform, velocity and the
+// rerun), GameObjects removed or added since the snapshot, joints added since, and blobs
+// from another WASM build being refused.
+
+import { encodePhysicsSnapshot, decodePhysicsSnapshot } from '../src/engine/physics-snapshot';
+import { WasmPhysicsBridge } from '../src/engine/wasm-physics-bridge';
+import { RigidBody, CollisionShape } from '../src/engine/components';
+import { DistanceJoint } from '../src/engine/joints';
+import { Scene } from '../src/engine/scene-system';
+import { Mesh } from '../src/engine/mesh';
+import { addPhysicsObject, stepFrames } from './utils/physics-fixtures';
+
+describe('Physics snapshot blob', () => {
+    test('round-trips sections, ids and GameObject ids', () => {
+        const snapshot = {
+            wasmVersion: 20250915,
+            sections: [new Uint8Array([1, 2, 3]), new Uint8Array(0), new Uint8Array([4, 5, 6, 7, 8])],
+            nextEntityId: 12,
+            nextJointId: 3,
+            jointIds: [0, 2],
+            entities: [[0, 'floor'], [11, 'bäll-😀']] as [number, string][],
+        };
+
+        const decoded = decodePhysicsSnapshot(encodePhysicsSnapshot(snapshot));
+
+        expect(decoded).toEqual(snapshot);
+    });
+
+    test('rejects anything else', () => {
+        expect(() => decodePhysicsSnapshot(new Uint8Array(16))).toThrow(/Not a physics snapshot/);
+        const blob = encodePhysicsSnapshot({ wasmVersion: 1, sections: [new Uint8Array(8)], nextEntityId: 0, nextJointId: 0, jointIds: [], entities: [] });
+        expect(() => decodePhysicsSnapshot(blob.subarray(0, 20))).toThrow(/truncated/);
+    });
+});
+
+describe('WasmPhysicsBridge snapshot/restore', () => {
+    let bridge: WasmPhysicsBridge;
+    let scene: Scene;
+    const sphereMesh = Mesh.createSphere('sphere', 0.5);
+
+    const addBall = (name: string, x: number, y: number) =>
+        addPhysicsObject({ bridge, scene }, name, { x, y, z: 0 }, new RigidBody(1.0, true, CollisionShape.SPHERE, { x: 0.5, y: 0.5, z: 0.5 }), sphereMesh);
+
+    const step = (frames: number) => stepFrames({ bridge }, frames);
+
+    beforeEach(async () => {
+        bridge = new WasmPhysicsBridge();
+        await bridge.init();
+        scene = new Scene();
+    });
+
+    afterEach(() => {
+        scene.dispose();
+    });
+
+    test('puts a falling ball back mid-air, and it falls the same way again', () => {
+        const ball = addBall('ball', 0, 5);
+        step(20);
+        const position = { ...ball.transform.position };
+        const velocity = { ...ball.getComponent(RigidBody)!.velocity };
+        const blob = bridge.snapshot();
+
+        step(30);
+        const firstRun = { ...ball.transform.position };
+
+        bridge.restore(blob);
+        expect(ball.transform.position).toEqual(position);
+        expect(ball.getComponent(RigidBody)!.velocity).toEqual(velocity);
+
+        step(30);
+        expect(ball.transform.position).toEqual(firstRun);
+    });
+
+    test('drops bodies whose GameObject is gone and keeps GameObjects added since', () => {
+        addBall('kept', -2, 3);
+        const removed = addBall('removed', 0, 3);
+        const blob = bridge.snapshot();
+
+        bridge.removePhysicsEntity(removed.id);
+        const added = addBall('added', 2, 3);
+        step(10);
+        const addedPosition = { ...added.transform.position };
+
+        bridge.restore(blob);
+
+        expect(bridge.getStats().entityCount).toBe(2);
+        expect(added.transform.position).toEqual(addedPosition);
+        const addedId = added.getComponent(RigidBody)!.getWasmEntityId()!;
+        expect(bridge.getEntityPosition(addedId)).toEqual(addedPosition);
+    });
+
+    test('re-adds joints added since the snapshot', () => {
+        const a = addBall('a', -1, 3);
+        const b = addBall('b', 1, 3);
+        const blob = bridge.snapshot();
+        const joint = a.addComponent(new DistanceJoint({ connectedBody: b }));
+        bridge.addJoint(joint);
+        expect(bridge.getWasmModule()!.get_joint_count()).toBe(1);
+
+        bridge.restore(blob);
+
+        expect(joint.isRegistered).toBe(true);
+        expect(bridge.getWasmModule()!.get_joint_count()).toBe(1);
+    });
+
+    test('refuses a blob from another WASM version without touching the world', () => {
+        const ball = addBall('ball', 0, 5);
+        const blob = bridge.snapshot();
+        step(10);
+        const position = { ...ball.transform.position };
+
+        new DataView(blob.buffer).setUint32(8, 1, true); // The WASM version word
+        expect(() => bridge.restore(blob)).toThrow(/WASM version 1/);
+
+        expect(bridge.getEntityPosition(ball.getComponent(RigidBody)!.getWasmEntityId()!)).toEqual(position);
+        expect(bridge.getStats().entityCount).toBe(1);
+    });
+});
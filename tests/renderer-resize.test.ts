@@ -0,0 +1,130 @@
+// tests/renderer-resize.test.ts
+// Resize subsystem: the canvas backing store follows its CSS size × the effective pixel ratio
+// (devicePixelRatio × renderScale, capped at maxRenderScale); a resize reconfigures the context,
+// rebuilds the depth texture and notifies listeners.
+
+import { jest } from '@jest/globals';
+import { WebGPURendererV2 } from '../src/renderer/webgpu.renderer';
+import { WebGPUMockFactory } from './utils/webgpu-mocks';
+
+describe('WebGPURendererV2 resize', () => {
+    let observerCallback: ((_entries: { contentRect: { width: number; height: number } }[]) => void) | undefined;
+    let observe: jest.Mock;
+    let disconnect: jest.Mock;
+    let canvas: any;
+    let device: any;
+
+    function setDevicePixelRatio(ratio: number): void {
+        Object.defineProperty(window, 'devicePixelRatio', { value: ratio, configurable: true });
+    }
+
+    function resizeTo(width: number, height: number): void {
+        observerCallback?.([{ contentRect: { width, height } }]);
+    }
+
+    async function initRenderer(options = {}): Promise<WebGPURendererV2> {
+        const renderer = new WebGPURendererV2();
+        await renderer.init(canvas, options);
+        const adapter = await (global.navigator as any).gpu.requestAdapter();
+        device = await adapter.requestDevice();
+        return renderer;
+    }
+
+    beforeEach(() => {
+        WebGPUMockFactory.setupWebGPUEnvironment();
+        canvas = WebGPUMockFactory.createMockCanvas();
+        setDevicePixelRatio(1);
+        observe = jest.fn();
+        disconnect = jest.fn();
+        observerCallback = undefined;
+        (global as any).ResizeObserver = jest.fn((cb: typeof observerCallback) => {
+            observerCallback = cb;
+            return { observe, disconnect, unobserve: jest.fn() };
+        });
+    });
+
+    afterEach(() => {
+        delete (global as any).ResizeObserver;
+    });
+
+    test('keeps the canvas size until the canvas is laid out', async () => {
+        const renderer = await initRenderer();
+
+        expect(observe).toHaveBeenCalledWith(canvas);
+        expect(canvas.width).toBe(800);
+        expect(canvas.height).toBe(600);
+        expect(renderer.getAspectRatio()).toBeCloseTo(800 / 600);
+    });
+
+    test('sizes the backing store by devicePixelRatio on resize', async () => {
+        setDevicePixelRatio(2);
+        const renderer = await initRenderer();
+
+        resizeTo(400, 100);
+
+        expect(canvas.width).toBe(800);
+        expect(canvas.height).toBe(200);
+        expect(renderer.getAspectRatio()).toBe(4);
+    });
+
+    test('reconfigures the context, rebuilds the depth texture and notifies listeners', async () => {
+        const renderer = await initRenderer();
+        const context = canvas.getContext();
+        const listener = jest.fn();
+        renderer.onResize(listener);
+        const configures = context.configure.mock.calls.length;
+        const textures = device.createTexture.mock.calls.length;
+
+        resizeTo(640, 480);
+
+        expect(context.configure.mock.calls.length).toBe(configures + 1);
+        expect(device.createTexture.mock.calls.length).toBe(textures + 1);
+        expect(device.createTexture).toHaveBeenLastCalledWith(expect.objectContaining({ size: [640, 480] }));
+        expect(listener).toHaveBeenCalledWith(640, 480);
+    });
+
+    test('ignores a resize to the current size', async () => {
+        const renderer = await initRenderer();
+        const listener = jest.fn();
+        renderer.onResize(listener);
+
+        resizeTo(800, 600);
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    test('caps the effective pixel ratio at maxRenderScale', async () => {
+        setDevicePixelRatio(3);
+        const renderer = await initRenderer({ maxRenderScale: 2 });
+
+        resizeTo(100, 100);
+
+        expect(renderer.getPixelRatio()).toBe(2);
+        expect(canvas.width).toBe(200);
+    });
+
+    test('setRenderScale() resizes immediately and rejects non-positive scales', async () => {
+        const renderer = await initRenderer();
+        resizeTo(400, 300);
+
+        renderer.setRenderScale(0.5);
+
+        expect(renderer.getRenderScale()).toBe(0.5);
+        expect(canvas.width).toBe(200);
+        expect(canvas.height).toBe(150);
+        expect(() => renderer.setRenderScale(0)).toThrow(/renderScale/);
+    });
+
+    test('unsubscribed listeners are not notified; dispose() stops observing', async () => {
+        const renderer = await initRenderer();
+        const listener = jest.fn();
+        const unsubscribe = renderer.onResize(listener);
+
+        unsubscribe();
+        resizeTo(320, 240);
+        renderer.dispose();
+
+        expect(listener).not.toHaveBeenCalled();
+        expect(disconnect).toHaveBeenCalled();
+    });
+});
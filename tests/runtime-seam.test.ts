@@ -4,9 +4,10 @@
 //   1. Engine.tick() pipeline order: scene.updateComponents → bridge.update → render (which calls
 //      the renderer as mapInstanceDataFromWasm → updateCamera → render), plus render() guards.
 //   2. Engine's rAF loop body: tick runs with a delta clamped to 1/30, and the clock advances.
+//      With EngineOptions.fixedTimestep, physics instead consumes an accumulator in fixed steps.
 //   3. WasmPhysicsBridge.update() sync-back: dynamic bodies written from WASM, kinematic skipped.
 
-import { Engine } from '../src/engine/engine';
+import { Engine, type EngineOptions } from '../src/engine/engine';
 import { GameObject } from '../src/engine/gameobject';
 import { RigidBody, CollisionShape } from '../src/engine/components';
 import { WasmPhysicsBridge, type WasmPhysicsInterface } from '../src/engine/wasm-physics-bridge';
@@ -17,6 +18,7 @@ import type { Scene } from '../src/engine/scene-system';
 function makeBridgeStub(calls?: string[]) {
     return {
         update: jest.fn(() => calls?.push('physics')),
+        setKinematicMoveTime: jest.fn(),
         hasWasmModule: jest.fn().mockReturnValue(true),
         getStats: jest.fn().mockReturnValue({ entityCount: 1, isInitialized: true }),
         getWasmMemory: jest.fn().mockReturnValue(new ArrayBuffer(1024)),
@@ -140,6 +142,136 @@ describe('Engine rAF loop body (delta clamping + clock)', () => {
     });
 });
 
+describe('Engine fixed-step loop (EngineOptions.fixedTimestep)', () => {
+    let rafCb: ((_t: number) => void) | undefined;
+
+    beforeEach(() => {
+        document.body.innerHTML = '<canvas id="webgpu-canvas"></canvas>';
+        rafCb = undefined;
+        global.requestAnimationFrame = jest.fn((cb: (_t: number) => void) => {
+            rafCb = cb;
+            return 1;
+        }) as unknown as typeof requestAnimationFrame;
+        global.cancelAnimationFrame = jest.fn() as unknown as typeof cancelAnimationFrame;
+    });
+
+    function fixedEngine(options: EngineOptions, bridge: object = makeBridgeStub()) {
+        const engine = new Engine('webgpu-canvas', options);
+        const renderer = makeRendererStub();
+        const scene = makeSceneStub();
+        (engine as unknown as { renderer: WebGPURendererV2 }).renderer = renderer as unknown as WebGPURendererV2;
+        (engine as unknown as { bridge: object }).bridge = bridge;
+        (engine as unknown as { currentScene: object }).currentScene = scene;
+        (engine as unknown as { hasStarted: boolean }).hasStarted = true;
+        return { engine, renderer, scene };
+    }
+
+    // Start the loop at t=1000ms and run one frame per entry of `frameTimesMs` (absolute).
+    function runFrames(engine: Engine, ...frameTimesMs: number[]): void {
+        const now = jest.spyOn(performance, 'now').mockReturnValue(1000);
+        engine.start();
+        for (const t of frameTimesMs) rafCb?.(t);
+        now.mockRestore();
+    }
+
+    it('updates components once per frame but steps physics in whole fixed steps', () => {
+        const bridge = makeBridgeStub();
+        const { engine, scene } = fixedEngine({ fixedTimestep: 0.01 }, bridge);
+        const render = jest.spyOn(engine, 'render');
+
+        runFrames(engine, 1035); // +35ms → 3 steps, 5ms left over
+
+        expect(scene.updateComponents).toHaveBeenCalledTimes(1);
+        expect(scene.updateComponents).toHaveBeenCalledWith(0.035);
+        expect(bridge.update).toHaveBeenCalledTimes(3);
+        expect(bridge.update).toHaveBeenCalledWith(0.01);
+        expect(bridge.setKinematicMoveTime).toHaveBeenCalledWith(0.035); // The frame's moves span its steps
+        expect(render.mock.calls[0]?.[0]).toBeCloseTo(0.5);
+    });
+
+    it('carries leftover time across frames', () => {
+        const bridge = makeBridgeStub();
+        const { engine } = fixedEngine({ fixedTimestep: 0.01 }, bridge);
+
+        runFrames(engine, 1006); // +6ms: no step yet
+        expect(bridge.update).not.toHaveBeenCalled();
+
+        rafCb?.(1012); // +6ms: 12ms banked → one step
+        expect(bridge.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('caps a long stall at maxSubsteps (spiral-of-death guard)', () => {
+        const bridge = makeBridgeStub();
+        const { engine, scene } = fixedEngine({ fixedTimestep: 1 / 60, maxSubsteps: 4 }, bridge);
+
+        runFrames(engine, 6000); // +5s stall
+
+        expect(bridge.update).toHaveBeenCalledTimes(4);
+        expect(scene.updateComponents).toHaveBeenCalledWith(4 / 60);
+        expect((engine as unknown as { accumulator: number }).accumulator).toBeLessThanOrEqual(1 / 60);
+    });
+
+    it('renders transforms interpolated between the last two physics states', () => {
+        // One entity whose matrix[12] (x translation) moves 0 → 2 on each physics step.
+        const memory = new ArrayBuffer(96);
+        const instance = new Float32Array(memory);
+        const bridge = makeBridgeStub();
+        bridge.getWasmMemory.mockReturnValue(memory);
+        bridge.update.mockImplementation(() => { instance[12] = instance[12]! + 2; return 0; });
+        const { engine, renderer } = fixedEngine({ fixedTimestep: 0.01 }, bridge);
+        let drawnX: number | undefined;
+        renderer.mapInstanceDataFromWasm.mockImplementation((...args: unknown[]) => {
+            const [buffer, offset] = args as [ArrayBuffer, number];
+            drawnX = new Float32Array(buffer, offset, 24)[12];
+            return 0;
+        });
+
+        runFrames(engine, 1015); // one step (x: 0 → 2), alpha 0.5
+
+        expect(instance[12]).toBe(2);
+        expect(drawnX).toBeCloseTo(1);
+    });
+
+    it('turns a rotating body between physics states without shrinking it', () => {
+        // One unit cube that physics turns 90° about Y in one step
+        const memory = new ArrayBuffer(96);
+        const instance = new Float32Array(memory);
+        instance.set([1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1]);
+        const bridge = makeBridgeStub();
+        bridge.getWasmMemory.mockReturnValue(memory);
+        bridge.update.mockImplementation(() => { instance.set([0, 0, -1, 0, 0, 1, 0, 0, 1, 0, 0, 0, 0, 0, 0, 1]); return 0; });
+        const { engine, renderer } = fixedEngine({ fixedTimestep: 0.01 }, bridge);
+        let drawn: Float32Array | undefined;
+        renderer.mapInstanceDataFromWasm.mockImplementation((...args: unknown[]) => {
+            const [buffer, offset] = args as [ArrayBuffer, number];
+            drawn = new Float32Array(buffer, offset, 24).slice(0, 16);
+            return 0;
+        });
+
+        runFrames(engine, 1015); // one step, alpha 0.5: halfway round, at 45°
+
+        const half = Math.SQRT1_2;
+        [half, 0, -half, 0, 0, 1, 0, 0, half, 0, half, 0, 0, 0, 0, 1].forEach((value, i) => expect(drawn![i]).toBeCloseTo(value, 5));
+    });
+
+    it('draws the current state when interpolation is disabled', () => {
+        const memory = new ArrayBuffer(96);
+        const bridge = makeBridgeStub();
+        bridge.getWasmMemory.mockReturnValue(memory);
+        const { engine, renderer } = fixedEngine({ fixedTimestep: 0.01, interpolate: false }, bridge);
+
+        runFrames(engine, 1015);
+
+        expect(renderer.mapInstanceDataFromWasm).toHaveBeenCalledWith(memory, 0, 1);
+    });
+
+    it('rejects a non-positive step or an unbounded substep cap', () => {
+        expect(() => new Engine('webgpu-canvas', { fixedTimestep: 0 })).toThrow(/fixedTimestep/);
+        expect(() => new Engine('webgpu-canvas', { fixedTimestep: 0.01, maxSubsteps: 0 })).toThrow(/maxSubsteps/);
+        expect(() => new Engine('webgpu-canvas', { fixedTimestep: 0.01, maxSubsteps: Infinity })).toThrow(/maxSubsteps/);
+    });
+});
+
 describe('WasmPhysicsBridge.update() sync-back', () => {
     function fakeWasm(): WasmPhysicsInterface {
         return {
@@ -151,6 +283,11 @@ describe('WasmPhysicsBridge.update() sync-back', () => {
             get_entity_velocity_x: jest.fn().mockReturnValue(4),
             get_entity_velocity_y: jest.fn().mockReturnValue(5),
             get_entity_velocity_z: jest.fn().mockReturnValue(6),
+            get_entity_angular_velocity_x: jest.fn().mockReturnValue(0),
+            get_entity_angular_velocity_y: jest.fn().mockReturnValue(0),
+            get_entity_angular_velocity_z: jest.fn().mockReturnValue(0),
+            get_contact_count: jest.fn().mockReturnValue(0),
+            get_trigger_pair_count: jest.fn().mockReturnValue(0),
         } as unknown as WasmPhysicsInterface;
     }
 
@@ -311,6 +311,88 @@ describe('Scene System (v2)', () => {
         expect(scene.getEntityCount()).toBe(0);
     });
 
+    describe('World transforms', () => {
+        let parent: GameObject;
+        let child: GameObject;
+
+        beforeEach(() => {
+            parent = new GameObject('parent');
+            child = new GameObject('child');
+            scene.addGameObject(parent);
+            scene.addGameObject(child);
+            parent.addChild(child);
+        });
+
+        test('a root transform is its own world transform', () => {
+            parent.transform.setPosition(1, 2, 3);
+
+            expect(parent.transform.worldPosition).toEqual({ x: 1, y: 2, z: 3 });
+            expect(Array.from(parent.transform.getWorldMatrix())).toEqual(Array.from(parent.transform.getLocalMatrix()));
+        });
+
+        test('composes parent translation, rotation and scale', () => {
+            parent.transform.setPosition(10, 0, 0);
+            parent.transform.setRotation(0, 90, 0);
+            parent.transform.setScale(2, 2, 2);
+            child.transform.setPosition(1, 0, 0);
+
+            const world = child.transform.worldPosition;
+            expect(world.x).toBeCloseTo(10, 5);
+            expect(world.z).toBeCloseTo(-2, 5); // +X rotated 90° about Y → -Z, scaled by 2
+            expect(child.transform.worldRotation.y).toBeCloseTo(90, 4);
+            expect(child.transform.worldScale.x).toBeCloseTo(2, 5);
+        });
+
+        test('moving the parent dirties the subtree', () => {
+            child.transform.hasChanged = false;
+
+            parent.transform.setPosition(0, 5, 0);
+
+            expect(child.transform.hasChanged).toBe(true);
+            expect(child.transform.worldPosition).toEqual({ x: 0, y: 5, z: 0 });
+        });
+
+        test('picks up in-place edits of a parent field', () => {
+            child.transform.getWorldMatrix(); // build the cache
+            child.transform.hasChanged = false;
+
+            parent.transform.position.x = 4;
+
+            expect(child.transform.worldPosition.x).toBe(4);
+            expect(child.transform.hasChanged).toBe(true);
+        });
+
+        test('setWorldPosition converts into the parent space', () => {
+            parent.transform.setPosition(1, 1, 1);
+            parent.transform.setScale(2, 2, 2);
+
+            child.transform.setWorldPosition(5, 1, 1);
+
+            expect(child.transform.position.x).toBeCloseTo(2, 5);
+            expect(child.transform.worldPosition.x).toBeCloseTo(5, 5);
+        });
+
+        test('setWorldRotation converts into the parent space', () => {
+            parent.transform.setRotation(0, 0, 90);
+
+            child.transform.setWorldRotation(30, 0, 110);
+
+            expect(child.transform.rotation.x).toBeCloseTo(30, 4);
+            expect(child.transform.rotation.y).toBeCloseTo(0, 4);
+            expect(child.transform.rotation.z).toBeCloseTo(20, 4);
+            expect(child.transform.worldRotation.z).toBeCloseTo(110, 4);
+        });
+
+        test('detaching a child makes its local transform its world transform again', () => {
+            parent.transform.setPosition(3, 0, 0);
+            child.transform.setPosition(1, 0, 0);
+
+            parent.removeChild('child');
+
+            expect(child.transform.worldPosition).toEqual({ x: 1, y: 0, z: 0 });
+        });
+    });
+
     test('should find GameObjects by name', () => {
         const gameObject = new GameObject('unique-id', 'TestObject');
         scene.addGameObject(gameObject);
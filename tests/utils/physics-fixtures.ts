@@ -0,0 +1,52 @@
+// tests/utils/physics-fixtures.ts
+// Shared fixtures for tests that run the real WASM physics through WasmPhysicsBridge
+
+import type { WasmPhysicsBridge } from '../../src/engine/wasm-physics-bridge';
+import type { Scene } from '../../src/engine/scene-system';
+import { GameObject } from '../../src/engine/gameobject';
+import { MeshRenderer, RigidBody, Vector3 } from '../../src/engine/components';
+import { Mesh } from '../../src/engine/mesh';
+import { Material } from '../../src/engine/material';
+
+/** One physics step at 60 Hz */
+export const DT = 1 / 60;
+
+/** A unit cube, for bodies whose look does not matter */
+export const cubeMesh = Mesh.createCube('cube', 1);
+
+/** Where fixtures go: the bridge they are simulated by and the scene they belong to */
+export interface PhysicsWorld {
+    bridge?: WasmPhysicsBridge | undefined;
+    scene?: Scene | undefined;
+}
+
+/**
+ * A GameObject at `position` drawn with `mesh` in white, carrying `body` if given. Its mesh
+ * index is 0, as the Engine would resolve it from the renderer, so the bridge registers it.
+ * IDs are generated, so names may repeat.
+ */
+export function meshObject(name: string, position: Vector3, body?: RigidBody, mesh: Mesh = cubeMesh): GameObject {
+    const gameObject = new GameObject(undefined, name);
+    gameObject.transform.setPosition(position.x, position.y, position.z);
+    const meshRenderer = new MeshRenderer(mesh, new Material('white', { r: 1, g: 1, b: 1, a: 1 }));
+    meshRenderer.meshIndex = 0;
+    gameObject.addComponent(meshRenderer);
+    if (body) gameObject.addComponent(body);
+    return gameObject;
+}
+
+/** A meshObject added to the world's scene and registered with its bridge (each if given) */
+export function addPhysicsObject(world: PhysicsWorld, name: string, position: Vector3, body?: RigidBody, mesh?: Mesh): GameObject {
+    const gameObject = meshObject(name, position, body, mesh);
+    world.scene?.addGameObject(gameObject);
+    world.bridge?.addEntity(gameObject);
+    return gameObject;
+}
+
+/** Run `frames` frames of DT: the scene's components (if given), then a physics step */
+export function stepFrames(world: PhysicsWorld, frames: number): void {
+    for (let i = 0; i < frames; i++) {
+        world.scene?.updateComponents(DT);
+        world.bridge?.update(DT);
+    }
+}
@@ -59,7 +59,8 @@ export class WebGPUMockFactory {
 
             // Resource creation
             createTexture: jest.fn().mockReturnValue({ 
-                createView: jest.fn().mockReturnValue({}) 
+                createView: jest.fn().mockReturnValue({}),
+                destroy: jest.fn()
             }),
             createSampler: jest.fn().mockReturnValue({}),
 